@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+import { S3Client, ListObjectsV2Command, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { loadEnv } from './load-env.mjs';
+
+// Command-line twin of src/lib/orphaned-file-service.ts (also on /sales/storage): lists R2
+// files under advertising-requests/ that no advertisements[].r2_key / r2_keys or comment
+// attachment references and that are older than the grace period. Dry run unless --delete.
+//
+//   node scripts/cleanup-orphaned-creatives.mjs [--grace-hours=72] [--delete]
+const PREFIX = 'advertising-requests/';
+const DEFAULT_GRACE_HOURS = 72;
+const TAG = '[r2:cleanup-orphans]';
+
+function parseArgs(argv) {
+  const options = { graceHours: DEFAULT_GRACE_HOURS, delete: false };
+  for (const arg of argv) {
+    if (arg === '--delete') {
+      options.delete = true;
+    } else if (arg.startsWith('--grace-hours=')) {
+      options.graceHours = Number(arg.slice('--grace-hours='.length));
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (!Number.isFinite(options.graceHours) || options.graceHours < 1) {
+    throw new Error('--grace-hours must be at least 1');
+  }
+  return options;
+}
+
+async function listAllFiles(client, bucket) {
+  const files = [];
+  let continuationToken;
+  do {
+    const result = await client.send(new ListObjectsV2Command({
+      Bucket: bucket,
+      Prefix: PREFIX,
+      ContinuationToken: continuationToken,
+    }));
+    for (const item of result.Contents || []) {
+      files.push({ key: item.Key, size: item.Size, lastModified: item.LastModified });
+    }
+    continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return files;
+}
+
+async function listReferencedKeys(db) {
+  const [adKeys, derivativeKeys, attachmentKeys] = await Promise.all([
+    db.collection('advertisingrequests').distinct('advertisements.r2_key'),
+    db.collection('advertisingrequests').distinct('advertisements.r2_keys'),
+    db.collection('requestcomments').distinct('attachments.r2_key'),
+  ]);
+  return new Set([...adKeys, ...derivativeKeys, ...attachmentKeys].filter(Boolean).map(String));
+}
+
+async function main() {
+  loadEnv();
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${TAG} ${err.message}`);
+    console.error('Usage: node scripts/cleanup-orphaned-creatives.mjs [--grace-hours=72] [--delete]');
+    process.exit(1);
+  }
+
+  const mongoUri = process.env.MONGODB_URI;
+  const missing = ['MONGODB_URI', 'R2_ACCOUNT_ID', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY', 'R2_BUCKET_NAME']
+    .filter(key => !process.env[key]);
+  if (missing.length > 0) {
+    console.error(`${TAG} Missing ${missing.join(', ')}. Define them in .env.local`);
+    process.exit(1);
+  }
+
+  const bucket = process.env.R2_BUCKET_NAME;
+  const client = new S3Client({
+    region: 'auto',
+    endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: process.env.R2_ACCESS_KEY_ID,
+      secretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
+    },
+  });
+
+  try {
+    await mongoose.connect(mongoUri, { bufferCommands: false });
+
+    // List before reading references, so a file uploaded and saved in between counts as referenced
+    const files = await listAllFiles(client, bucket);
+    const referenced = await listReferencedKeys(mongoose.connection.db);
+    const cutoff = new Date(Date.now() - options.graceHours * 60 * 60 * 1000);
+
+    let withinGrace = 0;
+    const orphans = [];
+    for (const file of files) {
+      if (referenced.has(file.key)) continue;
+      if (file.lastModified > cutoff) {
+        withinGrace++;
+      } else {
+        orphans.push(file);
+      }
+    }
+    orphans.sort((a, b) => a.lastModified - b.lastModified);
+
+    const orphanBytes = orphans.reduce((total, file) => total + file.size, 0);
+    console.log(`${TAG} Scanned ${files.length} file(s), ${files.length - orphans.length - withinGrace} in use, ${withinGrace} within the ${options.graceHours}h grace period`);
+    console.log(`${TAG} ${orphans.length} orphaned file(s), ${(orphanBytes / (1024 * 1024)).toFixed(1)} MB`);
+    for (const file of orphans) {
+      console.log(`  ${file.lastModified.toISOString()}  ${String(file.size).padStart(10)}  ${file.key}`);
+    }
+
+    if (!options.delete) {
+      if (orphans.length > 0) console.log(`${TAG} Dry run. Re-run with --delete to remove them`);
+    } else {
+      let deleted = 0;
+      const failed = [];
+      for (const file of orphans) {
+        try {
+          await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: file.key }));
+          deleted++;
+        } catch (err) {
+          failed.push(`${file.key} (${err?.message || err})`);
+        }
+      }
+      console.log(`${TAG} Deleted ${deleted} orphaned file(s)`);
+      if (failed.length > 0) {
+        console.warn(`${TAG} Failed to delete ${failed.length} file(s): ${failed.join(', ')}`);
+      }
+    }
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (err) {
+    console.error(`${TAG} Error:`, err?.message || err);
+    try { await mongoose.disconnect(); } catch {}
+    process.exit(1);
+  }
+}
+
+main();
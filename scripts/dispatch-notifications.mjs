@@ -0,0 +1,79 @@
+import { loadEnv } from './load-env.mjs';
+
+// Scheduled runner for the notification outbox: calls GET /api/cron/notifications, which sends
+// the entries whose retry is due, every --interval-seconds until stopped. Use --once from a
+// system cron instead. Needs the app running at NEXT_PUBLIC_BASE_URL and CRON_SECRET set on both.
+//
+//   node scripts/dispatch-notifications.mjs [--interval-seconds=60] [--once]
+const DEFAULT_INTERVAL_SECONDS = 60;
+const TAG = '[notifications:dispatch]';
+
+function parseArgs(argv) {
+  const options = { intervalSeconds: DEFAULT_INTERVAL_SECONDS, once: false };
+  for (const arg of argv) {
+    if (arg === '--once') {
+      options.once = true;
+    } else if (arg.startsWith('--interval-seconds=')) {
+      options.intervalSeconds = Number(arg.slice('--interval-seconds='.length));
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (!Number.isFinite(options.intervalSeconds) || options.intervalSeconds < 10) {
+    throw new Error('--interval-seconds must be at least 10');
+  }
+  return options;
+}
+
+async function dispatch(url, secret) {
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${secret}` } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `HTTP ${response.status}`);
+  }
+  const { sent, retrying, failed } = body.summary;
+  if (sent + retrying + failed > 0) {
+    console.log(`${TAG} Sent ${sent}, ${retrying} to retry, ${failed} failed`);
+  }
+}
+
+async function main() {
+  loadEnv();
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${TAG} ${err.message}`);
+    process.exit(1);
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error(`${TAG} CRON_SECRET not set. Define it in .env.local`);
+    process.exit(1);
+  }
+  const url = new URL('/api/cron/notifications', process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3005').toString();
+
+  if (options.once) {
+    try {
+      await dispatch(url, secret);
+      process.exit(0);
+    } catch (err) {
+      console.error(`${TAG} Error:`, err?.message || err);
+      process.exit(1);
+    }
+  }
+
+  console.log(`${TAG} Dispatching every ${options.intervalSeconds}s via ${url}`);
+  // A failed run is logged and retried on the next tick; the outbox keeps the entries
+  for (;;) {
+    try {
+      await dispatch(url, secret);
+    } catch (err) {
+      console.error(`${TAG} Error:`, err?.message || err);
+    }
+    await new Promise(resolve => setTimeout(resolve, options.intervalSeconds * 1000));
+  }
+}
+
+main();
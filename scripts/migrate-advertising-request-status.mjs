@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import { loadEnv } from './load-env.mjs';
+
+// Advertising requests written by older routes used title-case statuses ("In Progress"),
+// a completion_data sub-document and history entries with only `changed_by`. Bring them
+// in line with src/lib/advertising-request-workflow.ts.
+const STATUS_ALIASES = {
+  'new': 'new',
+  'in progress': 'in_progress',
+  'in_progress': 'in_progress',
+  'in-progress': 'in_progress',
+  'completed': 'completed',
+  'complete': 'completed',
+  'cancelled': 'cancelled',
+  'canceled': 'cancelled',
+};
+
+function normalizeStatus(value) {
+  return typeof value === 'string' ? STATUS_ALIASES[value.trim().toLowerCase()] ?? null : null;
+}
+
+function normalizeHistoryEntry(entry, doc) {
+  const userId = entry.changed_by_user_id || entry.changed_by || doc.created_by_user_id || 'unknown';
+  // Names and emails were never recorded for these entries; use the creator's when it is the same user
+  const isCreator = userId === doc.created_by_user_id;
+  const next = {
+    status: normalizeStatus(entry.status) || doc.status,
+    changed_by_user_id: userId,
+    changed_by_user_name: entry.changed_by_user_name || (isCreator ? doc.created_by_user_name : userId),
+    changed_by_user_email: entry.changed_by_user_email || (isCreator ? doc.created_by_user_email : 'unknown'),
+    changed_at: new Date(entry.changed_at || doc.created_at || Date.now()),
+  };
+  if (entry.notes) next.notes = entry.notes;
+  if (entry._id) next._id = entry._id;
+  return next;
+}
+
+const HISTORY_FIELDS = ['status', 'changed_by_user_id', 'changed_by_user_name', 'changed_by_user_email', 'notes'];
+
+// Field by field, so a stored entry that only differs in key order is left alone
+function historyEntryChanged(entry, next) {
+  if ('changed_by' in entry) return true;
+  if (HISTORY_FIELDS.some((field) => entry[field] !== next[field])) return true;
+  return !(entry.changed_at instanceof Date) || entry.changed_at.getTime() !== next.changed_at.getTime();
+}
+
+async function main() {
+  loadEnv();
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    console.error('[migrate:advertising-request-status] MONGODB_URI not set. Define it in .env.local');
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri, { bufferCommands: false });
+    const collection = mongoose.connection.db.collection('advertisingrequests');
+
+    let updated = 0;
+    const unknown = [];
+    const cursor = collection.find({});
+    for await (const doc of cursor) {
+      const status = normalizeStatus(doc.status);
+      if (!status) {
+        unknown.push(`${doc._id} (${doc.status})`);
+        continue;
+      }
+
+      const $set = { status };
+      const $unset = {};
+      const normalizedDoc = { ...doc, status };
+      const history = doc.status_history || [];
+      $set.status_history = history.map((entry) => normalizeHistoryEntry(entry, normalizedDoc));
+
+      // completion_data { selected_campaign_id, selected_advertisement_id, completed_at, completed_by }
+      const completion = doc.completion_data;
+      if (completion) {
+        if (doc.completed_campaign_id == null && completion.selected_campaign_id != null) {
+          $set.completed_campaign_id = Number(completion.selected_campaign_id);
+        }
+        if (!doc.completed_advertisement_ids?.length && completion.selected_advertisement_id != null) {
+          $set.completed_advertisement_ids = [Number(completion.selected_advertisement_id)];
+        }
+        if (!doc.completed_at && completion.completed_at) $set.completed_at = completion.completed_at;
+        if (!doc.completed_by_user_id && completion.completed_by) $set.completed_by_user_id = completion.completed_by;
+        $unset.completion_data = '';
+      }
+      if ('last_modified_by' in doc) $unset.last_modified_by = '';
+
+      const changed = status !== doc.status ||
+        Object.keys($unset).length > 0 ||
+        history.some((entry, index) => historyEntryChanged(entry, $set.status_history[index]));
+      if (!changed) continue;
+
+      const update = { $set };
+      if (Object.keys($unset).length > 0) update.$unset = $unset;
+      await collection.updateOne({ _id: doc._id }, update);
+      updated++;
+    }
+
+    console.log(`[migrate:advertising-request-status] Normalized ${updated} advertising request(s)`);
+    if (unknown.length > 0) {
+      console.warn(`[migrate:advertising-request-status] Left ${unknown.length} request(s) with an unknown status: ${unknown.join(', ')}`);
+    }
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (err) {
+    console.error('[migrate:advertising-request-status] Error:', err?.message || err);
+    try { await mongoose.disconnect(); } catch {}
+    process.exit(1);
+  }
+}
+
+main();
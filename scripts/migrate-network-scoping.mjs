@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import { loadEnv } from './load-env.mjs';
+
+// Download sync now stores network_id on campaigns (from their advertiser) and a numeric
+// advertiser_id on advertisements (Broadstreet only sends the advertiser's name). This
+// fills both in for documents synced before, so lists and counts can filter by network.
+// Safe to run more than once; documents that already have the fields are left alone.
+
+const TAG = '[migrate:network-scoping]';
+
+async function backfillCampaignNetworks(db) {
+  const advertiserNetworks = new Map();
+  const advertisers = db.collection('advertisers').find({}, { projection: { broadstreet_id: 1, network_id: 1 } });
+  for await (const advertiser of advertisers) {
+    if (typeof advertiser.network_id === 'number') {
+      advertiserNetworks.set(advertiser.broadstreet_id, advertiser.network_id);
+    }
+  }
+
+  let updated = 0;
+  let unresolved = 0;
+  const campaigns = db.collection('campaigns').find(
+    { network_id: null },
+    { projection: { advertiser_id: 1 } }
+  );
+  for await (const campaign of campaigns) {
+    const networkId = advertiserNetworks.get(campaign.advertiser_id);
+    if (networkId === undefined) {
+      unresolved++;
+      continue;
+    }
+    await db.collection('campaigns').updateOne({ _id: campaign._id }, { $set: { network_id: networkId } });
+    updated++;
+  }
+  console.log(`${TAG} Set network_id on ${updated} campaign(s); ${unresolved} have no known advertiser`);
+}
+
+async function backfillAdvertisementAdvertisers(db) {
+  // Placements tie an ad to a campaign, which names the advertiser and network exactly
+  const fromPlacements = new Map();
+  const campaigns = db.collection('campaigns').find(
+    { 'placements.0': { $exists: true } },
+    { projection: { advertiser_id: 1, network_id: 1, 'placements.advertisement_id': 1 } }
+  );
+  for await (const campaign of campaigns) {
+    for (const placement of campaign.placements || []) {
+      if (typeof placement.advertisement_id === 'number' && !fromPlacements.has(placement.advertisement_id)) {
+        fromPlacements.set(placement.advertisement_id, { advertiser_id: campaign.advertiser_id, network_id: campaign.network_id });
+      }
+    }
+  }
+
+  // Otherwise match the advertiser's name within the ad's network, if only one advertiser has it
+  const byName = new Map();
+  const advertisers = db.collection('advertisers').find({}, { projection: { broadstreet_id: 1, network_id: 1, name: 1 } });
+  for await (const advertiser of advertisers) {
+    const key = `${advertiser.network_id}:${advertiser.name}`;
+    byName.set(key, byName.has(key) ? null : advertiser.broadstreet_id);
+  }
+
+  let updated = 0;
+  let unresolved = 0;
+  const advertisements = db.collection('advertisements').find(
+    { $or: [{ advertiser_id: null }, { network_id: null }] },
+    { projection: { advertiser: 1, advertiser_id: 1, network_id: 1, broadstreet_id: 1 } }
+  );
+  for await (const ad of advertisements) {
+    const placed = fromPlacements.get(ad.broadstreet_id);
+    const networkId = typeof ad.network_id === 'number' ? ad.network_id : placed?.network_id;
+    const advertiserId = typeof ad.advertiser_id === 'number'
+      ? ad.advertiser_id
+      : placed?.advertiser_id ?? byName.get(`${networkId}:${ad.advertiser}`);
+
+    const set = {};
+    if (typeof networkId === 'number' && networkId !== ad.network_id) set.network_id = networkId;
+    if (typeof advertiserId === 'number' && advertiserId !== ad.advertiser_id) set.advertiser_id = advertiserId;
+    if (Object.keys(set).length === 0) {
+      unresolved++;
+      continue;
+    }
+    await db.collection('advertisements').updateOne({ _id: ad._id }, { $set: set });
+    updated++;
+  }
+  console.log(`${TAG} Updated ${updated} advertisement(s); ${unresolved} could not be resolved (resync to fill them in)`);
+}
+
+async function main() {
+  loadEnv();
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    console.error(`${TAG} MONGODB_URI not set. Define it in .env.local`);
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri, { bufferCommands: false });
+    const db = mongoose.connection.db;
+
+    await backfillCampaignNetworks(db);
+    await backfillAdvertisementAdvertisers(db);
+
+    // Same indexes the models declare, for deployments that don't auto-index
+    await db.collection('campaigns').createIndex({ network_id: 1, advertiser_id: 1 });
+    await db.collection('advertisements').createIndex({ network_id: 1, advertiser_id: 1 });
+    console.log(`${TAG} Ensured network_id + advertiser_id indexes`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (err) {
+    console.error(`${TAG} Error:`, err?.message || err);
+    try { await mongoose.disconnect(); } catch {}
+    process.exit(1);
+  }
+}
+
+main();
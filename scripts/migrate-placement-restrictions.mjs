@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import { loadEnv } from './load-env.mjs';
+
+// Placements that differ only by device are now distinct. The unique indexes on
+// the placements collection gained a `restrictions` key, so the old ones
+// (advertisement + zone + campaign) must be dropped before the app recreates them.
+const OLD_INDEXES = [
+  'advertisement_id_1_zone_id_1_campaign_id_1',
+  'advertisement_id_1_zone_mongo_id_1_campaign_id_1',
+  'advertisement_id_1_zone_id_1_campaign_mongo_id_1',
+  'advertisement_id_1_zone_mongo_id_1_campaign_mongo_id_1',
+];
+
+const RESTRICTIONS = ['phone', 'tablet', 'mobile', 'non_phone', 'desktop'];
+
+function normalizeRestrictions(value) {
+  const values = Array.isArray(value) ? value : value == null || value === '' ? [] : [value];
+  return values
+    .map((v) => (typeof v === 'string' ? v.trim().toLowerCase() : v))
+    .filter((v) => RESTRICTIONS.includes(v))
+    .slice(0, 1);
+}
+
+async function main() {
+  loadEnv();
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    console.error('[migrate:placement-restrictions] MONGODB_URI not set. Define it in .env.local');
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri, { bufferCommands: false });
+    const collection = mongoose.connection.db.collection('placements');
+
+    const existing = (await collection.indexes()).map((index) => index.name);
+    for (const name of OLD_INDEXES) {
+      if (existing.includes(name)) {
+        await collection.dropIndex(name);
+        console.log(`[migrate:placement-restrictions] Dropped index ${name}`);
+      }
+    }
+
+    // Lowercase and cap restrictions at one value so they pass the new enum
+    let normalized = 0;
+    const cursor = collection.find({ restrictions: { $exists: true, $ne: [] } }, { projection: { restrictions: 1 } });
+    for await (const doc of cursor) {
+      const next = normalizeRestrictions(doc.restrictions);
+      if (JSON.stringify(next) !== JSON.stringify(doc.restrictions)) {
+        await collection.updateOne({ _id: doc._id }, { $set: { restrictions: next } });
+        normalized++;
+      }
+    }
+    console.log(`[migrate:placement-restrictions] Normalized restrictions on ${normalized} placement(s)`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (err) {
+    console.error('[migrate:placement-restrictions] Error:', err?.message || err);
+    try { await mongoose.disconnect(); } catch {}
+    process.exit(1);
+  }
+}
+
+main();
@@ -12,7 +12,7 @@ import { useState, useMemo } from 'react';
 import { useEntityStore, useAllFilters } from '@/stores';
 import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
 import { useDeferredAdvertisementsFilter } from '@/lib/hooks/use-deferred-advertisements-filter';
-import { getEntityId } from '@/lib/utils/entity-helpers';
+import { getEntityId, isAdvertisementOfAdvertiser } from '@/lib/utils/entity-helpers';
 import AdvertisementSelectionControls from './AdvertisementSelectionControls';
 import AdvertisementsList from './AdvertisementsList';
 import { FilterLoadingOverlay } from '@/components/ui/filter-loading-overlay';
@@ -105,14 +105,14 @@ function AdvertisementsFilters() {
     let adsToFilter = advertisements;
     
     // Only include ads from the selected advertiser
-    const advertiserName = entities.advertiser?.name;
-    if (advertiserName) {
-      adsToFilter = advertisements.filter(ad => ad.advertiser === advertiserName);
+    if (entities.advertiser) {
+      const advertiser = { broadstreet_id: entities.advertiser.ids.broadstreet_id, name: entities.advertiser.name };
+      adsToFilter = advertisements.filter(ad => isAdvertisementOfAdvertiser(ad, advertiser));
     }
     
     const types = [...new Set(adsToFilter.map(ad => ad.type).filter(Boolean))];
     return types.sort();
-  }, [advertisements, entities.advertiser?.name]);
+  }, [advertisements, entities.advertiser]);
 
   // Use deferred filtering for better performance with loading states
   const { filteredAdvertisements, isFiltering, filterCount } = useDeferredAdvertisementsFilter({
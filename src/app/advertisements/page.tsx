@@ -28,7 +28,7 @@ export default async function AdvertisementsPage({ searchParams }: { searchParam
 
   // Fetch advertisements, networks, and advertisers data in parallel using existing data fetchers
   const [advertisements, networks, advertisers] = await Promise.all([
-    fetchAdvertisements(advertiserId || undefined, params),
+    fetchAdvertisements(advertiserId || undefined, { ...params, networkId }),
     fetchNetworks(),
     fetchAdvertisers(networkId || undefined)
   ]);
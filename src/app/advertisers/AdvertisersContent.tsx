@@ -18,6 +18,7 @@ import { SearchInput } from '@/components/ui/search-input';
 import CreationButton from '@/components/creation/CreationButton';
 import { FilterLoadingOverlay } from '@/components/ui/filter-loading-overlay';
 import { useFilterResetAfterDeletion } from '@/lib/utils/filter-reset-helpers';
+import { usePermissions } from '@/hooks/usePermissions';
 
 // Type for advertiser data from Zustand store
 type AdvertiserLean = {
@@ -87,6 +88,7 @@ function AdvertisersList() {
   const { selectedAdvertiser, setSelectedAdvertiser, selectedNetwork } = useFilterStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const { can } = usePermissions();
 
   // Get filter reset helpers
   const { resetFiltersAfterDeletion } = useFilterResetAfterDeletion();
@@ -224,7 +226,7 @@ function AdvertisersList() {
                   {...mapAdvertiserToUniversalProps(advertiser, {
                     isSelected,
                     onSelect: handleAdvertiserSelect,
-                    onDelete: handleDelete,
+                    onDelete: can('entities:write') ? handleDelete : undefined,
                     parentNetwork: selectedNetwork,
                   })}
                 />
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { RequestWorkflowError, planAssignment } from '@/lib/advertising-request-workflow';
+import { getRequestActor, getRequestUser } from '@/lib/server/request-actor';
+import { notificationService } from '@/lib/notification-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * PUT /api/advertising-requests/[id]/assignment
+ * Assign, reassign or unassign a request
+ * Body: { assignee_user_id: string | null, expected_assignee_user_id?: string | null, notes? }
+ * expected_assignee_user_id is the assignee the caller last saw; a mismatch returns 409.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    // Get authenticated user
+    const actor = await getRequestActor();
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid request id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { assignee_user_id, expected_assignee_user_id, notes } = body || {};
+
+    if (assignee_user_id !== null && (typeof assignee_user_id !== 'string' || !assignee_user_id)) {
+      return NextResponse.json(
+        { error: 'assignee_user_id is required (null to unassign)' },
+        { status: 400 }
+      );
+    }
+
+    const existingRequest = await AdvertisingRequest.findById(id);
+    if (!existingRequest) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    let assignee = null;
+    if (assignee_user_id) {
+      assignee = assignee_user_id === actor.user_id ? actor : await getRequestUser(assignee_user_id);
+      if (!assignee) {
+        return NextResponse.json({ error: 'Assignee not found' }, { status: 400 });
+      }
+    }
+
+    const { changes, historyEntry } = planAssignment(
+      existingRequest,
+      assignee,
+      actor,
+      expected_assignee_user_id,
+      notes
+    );
+
+    // Guarded on the state checked above so a concurrent pick-up is never overwritten
+    const updatedRequest = await AdvertisingRequest.findOneAndUpdate(
+      {
+        _id: id,
+        status: existingRequest.status,
+        assigned_to_user_id: existingRequest.assigned_to_user_id || null,
+      },
+      {
+        $set: changes,
+        $push: { status_history: historyEntry },
+        $inc: { __v: 1 },
+      },
+      { new: true }
+    ).lean({ virtuals: true }) as unknown as any;
+
+    if (!updatedRequest) {
+      return NextResponse.json(
+        { error: 'This request was changed by someone else. Reload and try again.' },
+        { status: 409 }
+      );
+    }
+
+    // The new assignee, creator and watchers hear about it; someone picking a request up is not emailed
+    try {
+      await notificationService.notify('request_assigned', updatedRequest, {
+        actor,
+        assignedTo: assignee?.user_name,
+        notes,
+      });
+    } catch (emailError) {
+      console.error('Email notification failed:', emailError);
+      // Don't fail the assignment if email fails
+    }
+
+    return NextResponse.json({
+      message: assignee ? `Assigned to ${assignee.user_name}` : 'Request unassigned',
+      request: updatedRequest,
+    });
+
+  } catch (error) {
+    if (error instanceof RequestWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error assigning advertising request:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign advertising request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { requestCommentService, RequestCommentError } from '@/lib/request-comment-service';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * DELETE /api/advertising-requests/[id]/comments/[commentId]
+ * Delete a comment with its replies and attachments (its author, or anyone who manages requests)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id, commentId } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(commentId)) {
+      return NextResponse.json(
+        { error: 'Invalid request or comment ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id)
+      .select('created_by_user_id')
+      .lean() as unknown as any;
+
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await requestCommentService.deleteComment(id, commentId, access);
+    return NextResponse.json({
+      message: 'Comment deleted',
+      deleted,
+    });
+
+  } catch (error) {
+    if (error instanceof RequestCommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting request comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { requestCommentService, RequestCommentError } from '@/lib/request-comment-service';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+import { getRequestActor } from '@/lib/server/request-actor';
+
+/**
+ * GET /api/advertising-requests/[id]/comments
+ * The discussion thread of a request, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id)
+      .select('created_by_user_id')
+      .lean() as unknown as any;
+
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const comments = await requestCommentService.listForRequest(id);
+    return NextResponse.json({ comments, current_user_id: access.userId });
+
+  } catch (error) {
+    console.error('Error fetching request comments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch comments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/advertising-requests/[id]/comments
+ * Post a comment (multipart form: body, parent_comment_id, mention_user_ids as a JSON
+ * array and any number of files). Mentioned users and participants are emailed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id).lean() as unknown as any;
+
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const actor = await getRequestActor();
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const parentCommentId = formData.get('parent_comment_id');
+    if (parentCommentId && !mongoose.Types.ObjectId.isValid(String(parentCommentId))) {
+      return NextResponse.json(
+        { error: 'Invalid parent comment ID' },
+        { status: 400 }
+      );
+    }
+
+    let mentionUserIds: string[] = [];
+    const rawMentions = formData.get('mention_user_ids');
+    if (rawMentions) {
+      try {
+        const parsed = JSON.parse(String(rawMentions));
+        mentionUserIds = Array.isArray(parsed) ? parsed.map(String) : [];
+      } catch {
+        return NextResponse.json(
+          { error: 'mention_user_ids must be a JSON array' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const comment = await requestCommentService.addComment(advertisingRequest, actor, {
+      body: String(formData.get('body') || ''),
+      parentCommentId: parentCommentId ? String(parentCommentId) : null,
+      mentionUserIds,
+      files: formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string'),
+    });
+
+    return NextResponse.json(
+      { message: 'Comment posted', comment },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof RequestCommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error posting request comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to post comment' },
+      { status: 500 }
+    );
+  }
+}
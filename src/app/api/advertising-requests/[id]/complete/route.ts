@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import connectDB from '@/lib/mongodb';
 import AdvertisingRequest from '@/lib/models/advertising-request';
 import Campaign from '@/lib/models/campaign';
 import Advertisement from '@/lib/models/advertisement';
-import { notifyStatusChange, getNotificationRecipients } from '@/lib/services/email';
+import { RequestWorkflowError, applyTransition } from '@/lib/advertising-request-workflow';
+import { getRequestActor } from '@/lib/server/request-actor';
+import { notificationService } from '@/lib/notification-service';
+import { requirePermission } from '@/lib/server/authorization';
 
 /**
  * POST /api/advertising-requests/[id]/complete
@@ -14,13 +16,16 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
     // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
+    const actor = await getRequestActor();
+    if (!actor) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
@@ -47,14 +52,6 @@ export async function POST(
       );
     }
     
-    // Validate current status
-    if (advertisingRequest.status !== 'In Progress') {
-      return NextResponse.json(
-        { error: 'Only requests with status "In Progress" can be completed' },
-        { status: 400 }
-      );
-    }
-    
     // Verify that the selected campaign and advertisement exist and are synced
     const [campaign, advertisement] = await Promise.all([
       Campaign.findOne({
@@ -93,45 +90,26 @@ export async function POST(
     //   );
     // }
     
-    const oldStatus = advertisingRequest.status;
-    
-    // Update the request to completed status
-    advertisingRequest.status = 'Completed';
-    advertisingRequest.completion_data = {
-      selected_campaign_id,
-      selected_advertisement_id,
-      completion_notes: completion_notes || '',
-      completed_at: new Date(),
-      completed_by: userId,
-    };
-    advertisingRequest.last_modified_by = userId;
-    
-    // Add to status history
-    const statusHistoryEntry = {
-      status: 'Completed',
-      changed_by: userId,
-      changed_at: new Date(),
+    // Only in-progress requests can be completed; the workflow checks this and records the history entry
+    const oldStatus = applyTransition(advertisingRequest, 'completed', actor, {
       notes: completion_notes || 'Request marked as completed',
-    };
-    
-    advertisingRequest.status_history.push(statusHistoryEntry);
+      completion: {
+        completed_campaign_id: Number(selected_campaign_id),
+        completed_advertisement_ids: [Number(selected_advertisement_id)],
+      },
+    });
     
     // Save the updated request
     await advertisingRequest.save();
     
     // Send completion notification
     try {
-      const recipients = getNotificationRecipients('request_completed');
-      if (recipients.length > 0) {
-        await notifyStatusChange(
-          advertisingRequest,
-          oldStatus,
-          'Completed',
-          userId,
-          recipients,
-          completion_notes
-        );
-      }
+      await notificationService.notify('request_completed', advertisingRequest, {
+        actor,
+        oldStatus,
+        newStatus: 'completed',
+        notes: completion_notes,
+      });
     } catch (emailError) {
       console.error('Email notification failed:', emailError);
       // Don't fail the completion if email fails
@@ -155,6 +133,9 @@ export async function POST(
     });
     
   } catch (error: any) {
+    if (error instanceof RequestWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error completing advertising request:', error);
     
     // Handle validation errors
@@ -184,13 +165,16 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
     // Find the advertising request
     const advertisingRequest = await AdvertisingRequest.findById(id)
-      .select('advertiser_info.company_name status')
+      .select('advertiser_name status')
       .lean({ virtuals: true }) as unknown as any;
     
     if (!advertisingRequest) {
@@ -212,7 +196,7 @@ export async function GET(
     
     return NextResponse.json({
       request_info: {
-        company_name: advertisingRequest.advertiser_info.company_name,
+        company_name: advertisingRequest.advertiser_name,
         status: advertisingRequest.status,
       },
       completion_options: {
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { requestFulfilmentService, FulfilmentError, FulfilmentInput } from '@/lib/request-fulfilment-service';
+import { getRequestActor } from '@/lib/server/request-actor';
+import { notificationService } from '@/lib/notification-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * GET /api/advertising-requests/[id]/fulfil?networkId=
+ * Proposed advertiser, campaign, ads and placements for the fulfilment wizard
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+    const networkId = parseInt(new URL(request.url).searchParams.get('networkId') || '', 10);
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid request id' }, { status: 400 });
+    }
+    if (!isPositiveInt(networkId)) {
+      return NextResponse.json({ error: 'Network ID is required' }, { status: 400 });
+    }
+
+    const proposal = await requestFulfilmentService.buildProposal(id, networkId);
+    return NextResponse.json({ success: true, proposal });
+  } catch (error) {
+    if (error instanceof FulfilmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error building fulfilment proposal:', error);
+    return NextResponse.json(
+      { error: 'Failed to build fulfilment proposal' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/advertising-requests/[id]/fulfil
+ * Create and sync the reviewed advertiser, campaign, ads and placements, then complete the request
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+
+    const actor = await getRequestActor();
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid request id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { networkId, advertiser, campaign, advertisements, placements } = body || {};
+
+    const invalid =
+      !isPositiveInt(networkId) ||
+      typeof advertiser?.name !== 'string' || !advertiser.name.trim() ||
+      (advertiser.broadstreet_id !== undefined && !isPositiveInt(advertiser.broadstreet_id)) ||
+      typeof campaign?.name !== 'string' || !campaign.name.trim() ||
+      !DATE_PATTERN.test(campaign.start_date || '') ||
+      (campaign.end_date && !DATE_PATTERN.test(campaign.end_date)) ||
+      typeof campaign.weight !== 'number' ||
+      !Array.isArray(advertisements) || advertisements.length === 0 ||
+      advertisements.some((ad: any) => !Number.isInteger(ad?.index) || typeof ad?.name !== 'string' || !ad.name.trim()) ||
+      !Array.isArray(placements) ||
+      placements.some((p: any) => !Number.isInteger(p?.advertisement_index) || !isPositiveInt(p?.zone_id));
+
+    if (invalid) {
+      return NextResponse.json(
+        { error: 'networkId, advertiser name, campaign (name, start_date YYYY-MM-DD, weight), at least one advertisement and placements are required' },
+        { status: 400 }
+      );
+    }
+
+    const input: FulfilmentInput = { networkId, advertiser, campaign, advertisements, placements };
+    const result = await requestFulfilmentService.fulfil(id, input, actor);
+
+    if (result.success) {
+      try {
+        const completedRequest = await AdvertisingRequest.findById(id);
+        if (completedRequest) {
+          await notificationService.notify('request_completed', completedRequest, {
+            actor,
+            oldStatus: 'in_progress',
+            newStatus: 'completed',
+          });
+        }
+      } catch (emailError) {
+        console.error('Email notification failed:', emailError);
+        // Don't fail the fulfilment if email fails
+      }
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof FulfilmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fulfilling advertising request:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fulfil advertising request' },
+      { status: 500 }
+    );
+  }
+}
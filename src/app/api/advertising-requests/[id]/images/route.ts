@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import connectDB from '@/lib/mongodb';
 import AdvertisingRequest from '@/lib/models/advertising-request';
 import { deleteFileFromR2 } from '@/lib/services/r2-upload';
+import { isRequestEditable } from '@/lib/advertising-request-workflow';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
 
 /**
  * GET /api/advertising-requests/[id]/images
@@ -12,15 +14,19 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
     const advertisingRequest = await AdvertisingRequest.findById(id)
-      .select('advertisement.image_files request_number')
+      .select('advertisement.image_files request_number created_by_user_id')
       .lean({ virtuals: true }) as unknown as any;
     
-    if (!advertisingRequest) {
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
       return NextResponse.json(
         { error: 'Advertising request not found' },
         { status: 404 }
@@ -50,19 +56,13 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
-    // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
     const body = await request.json();
     const { image_files } = body;
     
@@ -83,7 +83,7 @@ export async function POST(
     }
     
     // Don't allow adding images to completed or cancelled requests
-    if (['Completed', 'Cancelled'].includes(advertisingRequest.status)) {
+    if (!isRequestEditable(advertisingRequest.status)) {
       return NextResponse.json(
         { error: 'Cannot add images to completed or cancelled requests' },
         { status: 400 }
@@ -92,7 +92,6 @@ export async function POST(
     
     // Add new images to the existing array
     advertisingRequest.advertisement.image_files.push(...image_files);
-    advertisingRequest.last_modified_by = userId;
     
     await advertisingRequest.save();
     
@@ -131,19 +130,13 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
-    // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
     const body = await request.json();
     const { filenames } = body;
     
@@ -164,7 +157,7 @@ export async function DELETE(
     }
     
     // Don't allow removing images from completed or cancelled requests
-    if (['Completed', 'Cancelled'].includes(advertisingRequest.status)) {
+    if (!isRequestEditable(advertisingRequest.status)) {
       return NextResponse.json(
         { error: 'Cannot remove images from completed or cancelled requests' },
         { status: 400 }
@@ -200,7 +193,6 @@ export async function DELETE(
       (img: any) => !filenames.includes(img.filename)
     );
     
-    advertisingRequest.last_modified_by = userId;
     await advertisingRequest.save();
     
     return NextResponse.json({
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { requestCommentService } from '@/lib/request-comment-service';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * GET /api/advertising-requests/[id]/mentionable-users
+ * Users who can be @mentioned in the request's comments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id).lean() as unknown as any;
+
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const users = await requestCommentService.listMentionableUsers(advertisingRequest);
+    return NextResponse.json({ users });
+
+  } catch (error) {
+    console.error('Error fetching mentionable users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch mentionable users' },
+      { status: 500 }
+    );
+  }
+}
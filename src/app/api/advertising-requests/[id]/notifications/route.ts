@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { notificationService } from '@/lib/notification-service';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * GET /api/advertising-requests/[id]/notifications
+ * Emails queued and sent about a request, newest first (without the rendered bodies)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id)
+      .select('created_by_user_id')
+      .lean() as unknown as any;
+
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const notifications = await notificationService.listForRequest(id);
+    return NextResponse.json({ notifications });
+
+  } catch (error) {
+    console.error('Error fetching request notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
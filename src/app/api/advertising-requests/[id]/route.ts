@@ -1,10 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import connectDB from '@/lib/mongodb';
 import AdvertisingRequest from '@/lib/models/advertising-request';
-import { validateAdvertisingRequestData, isValidStatusTransition } from '@/lib/utils/advertising-request-helpers';
-import { notifyStatusChange, getNotificationRecipients } from '@/lib/services/email';
+import { validateAdvertisingRequestData } from '@/lib/utils/advertising-request-helpers';
+import {
+  DELETABLE_REQUEST_STATUSES,
+  REQUEST_STATUS_LABELS,
+  RequestWorkflowError,
+  applyTransition,
+  isRequestDeletable,
+  isRequestEditable,
+  normalizeRequestStatus,
+} from '@/lib/advertising-request-workflow';
+import { getRequestActor } from '@/lib/server/request-actor';
+import { notificationService, getStatusNotificationEvent } from '@/lib/notification-service';
+import { requestCommentService } from '@/lib/request-comment-service';
 import { deleteFileFromR2 } from '@/lib/services/r2-upload';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+
+// Written only by the workflow (status, assignment and watch routes, fulfilment), never by a plain update
+const WORKFLOW_FIELDS = [
+  'status',
+  'status_history',
+  'completed_campaign_id',
+  'completed_advertisement_ids',
+  'completed_by_user_id',
+  'completed_by_user_name',
+  'completed_at',
+  'assigned_to_user_id',
+  'assigned_to_user_name',
+  'assigned_to_user_email',
+  'assigned_at',
+  'watchers',
+];
 
 /**
  * GET /api/advertising-requests/[id]
@@ -14,6 +42,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
@@ -21,7 +52,8 @@ export async function GET(
     const advertisingRequest = await AdvertisingRequest.findById(id)
       .lean({ virtuals: true }) as unknown as any;
     
-    if (!advertisingRequest) {
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
       return NextResponse.json(
         { error: 'Advertising request not found' },
         { status: 404 }
@@ -47,13 +79,16 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
     // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
+    const actor = await getRequestActor();
+    if (!actor) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
@@ -72,7 +107,7 @@ export async function PUT(
     }
     
     // Don't allow updates to completed or cancelled requests
-    if (['Completed', 'Cancelled'].includes(existingRequest.status)) {
+    if (!isRequestEditable(existingRequest.status)) {
       return NextResponse.json(
         { error: 'Cannot update completed or cancelled requests' },
         { status: 400 }
@@ -97,62 +132,40 @@ export async function PUT(
       }
     }
     
-    // Handle status changes
-    let statusChanged = false;
-    let oldStatus = existingRequest.status;
-    
-    if (body.status && body.status !== existingRequest.status) {
-      if (!isValidStatusTransition(existingRequest.status, body.status)) {
-        return NextResponse.json(
-          { error: `Invalid status transition from ${existingRequest.status} to ${body.status}` },
-          { status: 400 }
-        );
-      }
-      
-      statusChanged = true;
-      
-      // Add to status history
-      const statusHistoryEntry = {
-        status: body.status,
-        changed_by: userId,
-        changed_at: new Date(),
-        notes: body.status_notes || `Status changed to ${body.status}`,
-      };
-      
-      existingRequest.status_history.push(statusHistoryEntry);
+    // Status changes go through the workflow; status_notes is only for the history entry
+    const { status_notes, ...fields } = body;
+    const newStatus = body.status === undefined ? null : normalizeRequestStatus(body.status);
+    if (body.status !== undefined && !newStatus) {
+      return NextResponse.json(
+        { error: `Unknown status "${body.status}"` },
+        { status: 400 }
+      );
     }
     
-    // Update fields
-    const updateData = {
-      ...body,
-      last_modified_by: userId,
-      updatedAt: new Date(),
-    };
+    const oldStatus = existingRequest.status;
+    const statusChanged = !!newStatus && newStatus !== oldStatus;
     
-    // Remove status_notes from update data (it's only for history)
-    delete updateData.status_notes;
+    for (const field of WORKFLOW_FIELDS) {
+      delete fields[field];
+    }
+    existingRequest.set(fields);
     
-    // Update the request
-    const updatedRequest = await AdvertisingRequest.findByIdAndUpdate(
-      id,
-      updateData,
-      { new: true, runValidators: true }
-    ).lean({ virtuals: true }) as unknown as any;
+    if (statusChanged) {
+      applyTransition(existingRequest, newStatus, actor, { notes: status_notes });
+    }
+    
+    await existingRequest.save();
+    const updatedRequest = existingRequest.toObject({ virtuals: true });
     
     // Send status change notification if status changed
     if (statusChanged) {
       try {
-        const recipients = getNotificationRecipients('status_changed');
-        if (recipients.length > 0) {
-          await notifyStatusChange(
-            updatedRequest,
-            oldStatus,
-            body.status,
-            userId,
-            recipients,
-            body.status_notes
-          );
-        }
+        await notificationService.notify(getStatusNotificationEvent(newStatus), existingRequest, {
+          actor,
+          oldStatus,
+          newStatus,
+          notes: status_notes,
+        });
       } catch (emailError) {
         console.error('Email notification failed:', emailError);
         // Don't fail the update if email fails
@@ -165,6 +178,15 @@ export async function PUT(
     });
     
   } catch (error: any) {
+    if (error instanceof RequestWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error.name === 'VersionError') {
+      return NextResponse.json(
+        { error: 'This request was changed by someone else. Reload and try again.' },
+        { status: 409 }
+      );
+    }
     console.error('Error updating advertising request:', error);
     
     // Handle validation errors
@@ -194,18 +216,13 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
-    // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
     
     // Find the request
     const advertisingRequest = await AdvertisingRequest.findById(id);
@@ -217,16 +234,16 @@ export async function DELETE(
     }
     
     // Only allow deletion of New or Cancelled requests
-    if (!['New', 'Cancelled'].includes(advertisingRequest.status)) {
+    if (!isRequestDeletable(advertisingRequest.status)) {
       return NextResponse.json(
-        { error: 'Can only delete requests with status New or Cancelled' },
+        { error: `Can only delete requests with status ${DELETABLE_REQUEST_STATUSES.map(s => REQUEST_STATUS_LABELS[s]).join(' or ')}` },
         { status: 400 }
       );
     }
     
     // Delete associated files from R2 storage
-    const fileDeletionPromises = advertisingRequest.advertisement.image_files.map(
-      (file: any) => deleteFileFromR2(file.file_path)
+    const fileDeletionPromises = advertisingRequest.advertisements.flatMap(
+      (ad: any) => (ad.r2_keys?.length ? ad.r2_keys : [ad.r2_key]).map((key: string) => deleteFileFromR2(key))
     );
     
     try {
@@ -235,6 +252,9 @@ export async function DELETE(
       console.error('Error deleting files from R2:', fileError);
       // Continue with request deletion even if file deletion fails
     }
+
+    // Delete the discussion thread and its attachments
+    await requestCommentService.deleteForRequest(id);
     
     // Delete the request
     await AdvertisingRequest.findByIdAndDelete(id);
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { alignCampaignToContract, checkRequestCampaignSchedule } from '@/lib/campaign-service';
+import { PUBLICATION_TIME_ZONE, contractToCampaignSchedule } from '@/lib/utils/campaign-schedule';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * GET /api/advertising-requests/[id]/schedule
+ * Campaign dates the contract calls for, and where the fulfilled campaign differs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id).lean() as unknown as any;
+
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const { campaign, drift } = await checkRequestCampaignSchedule(advertisingRequest);
+    return NextResponse.json({
+      time_zone: PUBLICATION_TIME_ZONE,
+      expected: contractToCampaignSchedule(advertisingRequest),
+      campaign,
+      drift,
+    });
+
+  } catch (error) {
+    console.error('Error checking campaign schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to check campaign schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/advertising-requests/[id]/schedule
+ * Move the fulfilled campaign onto the contract dates in Broadstreet
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID' },
+        { status: 400 }
+      );
+    }
+
+    const advertisingRequest = await AdvertisingRequest.findById(id).lean() as unknown as any;
+    if (!advertisingRequest) {
+      return NextResponse.json(
+        { error: 'Advertising request not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await alignCampaignToContract(advertisingRequest);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update campaign', changes: result.changes },
+        { status: result.status || 500 }
+      );
+    }
+
+    const { campaign, drift } = await checkRequestCampaignSchedule(advertisingRequest);
+    return NextResponse.json({
+      message: result.changes.length > 0 ? 'Campaign dates aligned with the contract' : 'Campaign already matches the contract',
+      time_zone: PUBLICATION_TIME_ZONE,
+      expected: contractToCampaignSchedule(advertisingRequest),
+      campaign,
+      drift,
+      changes: result.changes,
+    });
+
+  } catch (error) {
+    console.error('Error aligning campaign schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to align campaign schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import connectDB from '@/lib/mongodb';
 import AdvertisingRequest from '@/lib/models/advertising-request';
-import { isValidStatusTransition } from '@/lib/utils/advertising-request-helpers';
-import { notifyStatusChange, notifyRequestAssigned, getNotificationRecipients } from '@/lib/services/email';
+import {
+  RequestWorkflowError,
+  applyTransition,
+  normalizeRequestStatus,
+} from '@/lib/advertising-request-workflow';
+import { getRequestActor } from '@/lib/server/request-actor';
+import { notificationService, getStatusNotificationEvent } from '@/lib/notification-service';
+import { canViewRequest } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
 
 /**
  * PUT /api/advertising-requests/[id]/status
  * Update advertising request status with workflow validation
+ * Starting work on an unassigned request also assigns it to the caller.
+ * Body: { status, notes?, completion?: { completed_campaign_id, completed_advertisement_ids } }
  */
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
     // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
+    const actor = await getRequestActor();
+    if (!actor) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
@@ -27,11 +38,12 @@ export async function PUT(
     }
     
     const body = await request.json();
-    const { status, notes, assigned_to_user_id, completion_data } = body;
+    const { notes, completion } = body;
+    const status = normalizeRequestStatus(body.status);
     
     if (!status) {
       return NextResponse.json(
-        { error: 'Status is required' },
+        { error: 'A valid status is required' },
         { status: 400 }
       );
     }
@@ -45,77 +57,20 @@ export async function PUT(
       );
     }
     
-    // Validate status transition
-    if (!isValidStatusTransition(existingRequest.status, status)) {
-      return NextResponse.json(
-        { error: `Invalid status transition from ${existingRequest.status} to ${status}` },
-        { status: 400 }
-      );
-    }
-    
-    // Validate completion data if status is 'completed'
-    if (status === 'completed') {
-      if (!completion_data?.selected_campaign_id || !completion_data?.selected_advertisement_id) {
-        return NextResponse.json(
-          { error: 'Campaign and Advertisement selection required for completion' },
-          { status: 400 }
-        );
-      }
-      
-      existingRequest.completed_campaign_id = completion_data.selected_campaign_id;
-      existingRequest.completed_advertisement_ids = [completion_data.selected_advertisement_id];
-      existingRequest.completed_at = new Date();
-      existingRequest.completed_by_user_id = userId;
-    }
-    
-    const oldStatus = existingRequest.status;
-    const oldAssignedTo = existingRequest.assigned_to_user_id;
-    
-    existingRequest.status = status;
-    
-    if (assigned_to_user_id !== undefined) {
-      existingRequest.assigned_to_user_id = assigned_to_user_id;
-    }
-    
-    const statusHistoryEntry = {
-      status,
-      changed_by_user_id: userId,
-      changed_by_user_name: existingRequest.created_by_user_name,
-      changed_by_user_email: existingRequest.created_by_user_email,
-      changed_at: new Date(),
-      notes: notes || `Status changed to ${status}`,
-    };
-    
-    existingRequest.status_history.push(statusHistoryEntry);
+    // Validates the transition and its payload, sets the status and pushes the history entry
+    const oldStatus = applyTransition(existingRequest, status, actor, { notes, completion });
     
     // Save the updated request
     await existingRequest.save();
     
     // Send notifications
     try {
-      const recipients = getNotificationRecipients('status_changed');
-      
-      // Status change notification
-      if (recipients.length > 0) {
-        await notifyStatusChange(
-          existingRequest,
-          oldStatus,
-          status,
-          userId,
-          recipients,
-          notes
-        );
-      }
-      
-      // Assignment notification (if assignment changed)
-      if (assigned_to_user_id && assigned_to_user_id !== oldAssignedTo && recipients.length > 0) {
-        await notifyRequestAssigned(
-          existingRequest,
-          assigned_to_user_id,
-          userId,
-          recipients
-        );
-      }
+      await notificationService.notify(getStatusNotificationEvent(status), existingRequest, {
+        actor,
+        oldStatus,
+        newStatus: status,
+        notes,
+      });
     } catch (emailError) {
       console.error('Email notification failed:', emailError);
       // Don't fail the status update if email fails
@@ -127,6 +82,15 @@ export async function PUT(
     });
     
   } catch (error: any) {
+    if (error instanceof RequestWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error.name === 'VersionError') {
+      return NextResponse.json(
+        { error: 'This request was changed by someone else. Reload and try again.' },
+        { status: 409 }
+      );
+    }
     console.error('Error updating status:', error);
     
     // Handle validation errors
@@ -156,15 +120,19 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
     
     const advertisingRequest = await AdvertisingRequest.findById(id)
-      .select('status status_history request_number')
+      .select('status status_history request_number created_by_user_id')
       .lean({ virtuals: true }) as unknown as any;
     
-    if (!advertisingRequest) {
+    // Requests the user may not see are reported as missing
+    if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
       return NextResponse.json(
         { error: 'Advertising request not found' },
         { status: 404 }
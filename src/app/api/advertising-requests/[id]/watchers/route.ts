@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { canViewRequest } from '@/lib/access-control';
+import { AccessContext, requirePermission } from '@/lib/server/authorization';
+import { getRequestActor } from '@/lib/server/request-actor';
+
+/**
+ * Load the request for a watch change, or the error response to send back
+ */
+async function findWatchableRequest(id: string, access: AccessContext): Promise<NextResponse | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json(
+      { error: 'Invalid request ID' },
+      { status: 400 }
+    );
+  }
+
+  const advertisingRequest = await AdvertisingRequest.findById(id)
+    .select('created_by_user_id')
+    .lean() as unknown as any;
+
+  // Requests the user may not see are reported as missing
+  if (!advertisingRequest || !canViewRequest(access.role, access.userId, advertisingRequest)) {
+    return NextResponse.json(
+      { error: 'Advertising request not found' },
+      { status: 404 }
+    );
+  }
+  return null;
+}
+
+/**
+ * POST /api/advertising-requests/[id]/watchers
+ * Watch a request: the current user is emailed about its status and assignment changes
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    const notFound = await findWatchableRequest(id, access);
+    if (notFound) return notFound;
+
+    const actor = await getRequestActor();
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Guarded on the user not watching yet, so a double click adds one entry
+    await AdvertisingRequest.updateOne(
+      { _id: id, 'watchers.user_id': { $ne: actor.user_id } },
+      { $push: { watchers: actor } }
+    );
+
+    const updated = await AdvertisingRequest.findById(id).select('watchers').lean() as unknown as any;
+    return NextResponse.json({
+      message: 'Watching request',
+      watchers: updated?.watchers || [],
+    });
+
+  } catch (error) {
+    console.error('Error watching request:', error);
+    return NextResponse.json(
+      { error: 'Failed to watch request' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/advertising-requests/[id]/watchers
+ * Stop watching a request
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    const notFound = await findWatchableRequest(id, access);
+    if (notFound) return notFound;
+
+    await AdvertisingRequest.updateOne(
+      { _id: id },
+      { $pull: { watchers: { user_id: access.userId } } }
+    );
+
+    const updated = await AdvertisingRequest.findById(id).select('watchers').lean() as unknown as any;
+    return NextResponse.json({
+      message: 'Stopped watching request',
+      watchers: updated?.watchers || [],
+    });
+
+  } catch (error) {
+    console.error('Error unwatching request:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop watching request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/server/authorization';
+import { listRequestAssignees } from '@/lib/server/request-actor';
+
+/**
+ * GET /api/advertising-requests/assignees
+ * Users that advertising requests can be assigned to
+ */
+export async function GET() {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const assignees = await listRequestAssignees();
+    return NextResponse.json({ assignees, current_user_id: access.userId });
+  } catch (error) {
+    console.error('Error fetching assignees:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch assignees' },
+      { status: 500 }
+    );
+  }
+}
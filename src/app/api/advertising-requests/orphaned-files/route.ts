@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OrphanedFileError, orphanedFileService } from '@/lib/orphaned-file-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+function parseGraceHours(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  return Number(value);
+}
+
+/**
+ * GET /api/advertising-requests/orphaned-files?grace_hours=72
+ * Dry run: R2 files no request or comment references, older than the grace period
+ */
+export async function GET(request: NextRequest) {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const report = await orphanedFileService.reconcile({
+      graceHours: parseGraceHours(searchParams.get('grace_hours')),
+      dryRun: true,
+    });
+    return NextResponse.json({ report });
+
+  } catch (error) {
+    if (error instanceof OrphanedFileError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error scanning for orphaned files:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan for orphaned files' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/advertising-requests/orphaned-files
+ * Delete the orphaned files. Body: { grace_hours?: number }. The bucket is scanned
+ * again, so files referenced since the dry run are kept.
+ */
+export async function POST(request: NextRequest) {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const report = await orphanedFileService.reconcile({
+      graceHours: parseGraceHours(body.grace_hours),
+      dryRun: false,
+    });
+    return NextResponse.json({
+      message: `Deleted ${report.deleted.length} orphaned files`,
+      report,
+    });
+
+  } catch (error) {
+    if (error instanceof OrphanedFileError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting orphaned files:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete orphaned files' },
+      { status: 500 }
+    );
+  }
+}
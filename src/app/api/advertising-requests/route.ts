@@ -1,15 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
+import mongoose from 'mongoose';
 import connectDB from '@/lib/mongodb';
-import AdvertisingRequest from '@/lib/models/advertising-request';
+import AdvertisingRequest, { type IAdvertisingRequest } from '@/lib/models/advertising-request';
 import { validateAdvertisingRequestData } from '@/lib/utils/advertising-request-helpers';
-import { notifyRequestCreated, getNotificationRecipients } from '@/lib/services/email';
+import {
+  DELETABLE_REQUEST_STATUSES,
+  REQUEST_STATUS_LABELS,
+  RequestWorkflowError,
+  parseRequestStatusFilter,
+} from '@/lib/advertising-request-workflow';
+import { notificationService } from '@/lib/notification-service';
+import { requestCommentService } from '@/lib/request-comment-service';
+import { deleteFileFromR2 } from '@/lib/services/r2-upload';
+import { hasPermission } from '@/lib/access-control';
+import { requirePermission } from '@/lib/server/authorization';
+import { getRequestActor } from '@/lib/server/request-actor';
 
 /**
  * GET /api/advertising-requests
  * List advertising requests with filtering and pagination
  */
 export async function GET(request: NextRequest) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     
@@ -22,20 +36,24 @@ export async function GET(request: NextRequest) {
     const sortBy = searchParams.get('sortBy') || 'createdAt';
     const sortOrder = searchParams.get('sortOrder') === 'asc' ? 1 : -1;
     
-    // Build filter query
+    // Build filter query; sales only see the requests they created
     const filter: any = {};
+    if (!hasPermission(access.role, 'requests:manage')) {
+      filter.created_by_user_id = access.userId;
+    }
 
     if (status) {
-      // Handle comma-separated status values (e.g., "New,In Progress" or "Completed,Cancelled")
-      const statusList = status.split(',').map((s: string) => s.trim());
-      if (statusList.length > 1) {
-        filter.status = { $in: statusList };
-      } else {
-        filter.status = status;
-      }
+      // Comma-separated status values (e.g., "new,in_progress" or "completed,cancelled")
+      const statusList = parseRequestStatusFilter(status);
+      filter.status = statusList.length > 1 ? { $in: statusList } : statusList[0];
     }
     
-    if (assignedTo) {
+    // assignedTo: a Clerk user ID, "me" (My queue) or "unassigned"
+    if (assignedTo === 'me') {
+      filter.assigned_to_user_id = access.userId;
+    } else if (assignedTo === 'unassigned') {
+      filter.assigned_to_user_id = null;
+    } else if (assignedTo) {
       filter.assigned_to_user_id = assignedTo;
     }
     
@@ -76,6 +94,9 @@ export async function GET(request: NextRequest) {
     });
     
   } catch (error) {
+    if (error instanceof RequestWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching advertising requests:', error);
     return NextResponse.json(
       { error: 'Failed to fetch advertising requests' },
@@ -89,12 +110,14 @@ export async function GET(request: NextRequest) {
  * Create new advertising request
  */
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
-    // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
+    const actor = await getRequestActor();
+    if (!actor) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
@@ -132,15 +155,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Uploads were stored under the ID minted by the first upload; the request takes it over
+    if (body.request_id) {
+      if (!mongoose.Types.ObjectId.isValid(body.request_id)) {
+        return NextResponse.json(
+          { error: 'Invalid request ID' },
+          { status: 400 }
+        );
+      }
+      if (await AdvertisingRequest.exists({ _id: body.request_id })) {
+        return NextResponse.json(
+          { error: 'This request was already submitted' },
+          { status: 409 }
+        );
+      }
+    }
+
     // Create new advertising request with user info already in body
     const requestData = {
-      // User tracking (from body, set by client from Clerk)
-      created_by_user_id: body.created_by_user_id,
-      created_by_user_name: body.created_by_user_name,
-      created_by_user_email: body.created_by_user_email,
+      ...(body.request_id ? { _id: body.request_id } : {}),
 
-      // Status
-      status: body.status || 'new',
+      // User tracking from the Clerk session; ownership decides who can see the request
+      created_by_user_id: actor.user_id,
+      created_by_user_name: actor.user_name,
+      created_by_user_email: actor.user_email,
+
+      // Every request enters the workflow as new; the initial history entry is added on save
+      status: 'new',
 
       // Advertiser Info
       advertiser_name: body.advertiser_name,
@@ -164,12 +205,9 @@ export async function POST(request: NextRequest) {
     const advertisingRequest = new AdvertisingRequest(requestData);
     await advertisingRequest.save();
 
-    // Send notification emails (placeholder - future implementation)
+    // Notify everyone who manages requests
     try {
-      // const recipients = getNotificationRecipients('request_created');
-      // if (recipients.length > 0) {
-      //   await notifyRequestCreated(advertisingRequest, recipients);
-      // }
+      await notificationService.notify('request_created', advertisingRequest, { actor });
     } catch (emailError) {
       console.error('Email notification failed:', emailError);
       // Don't fail the request creation if email fails
@@ -210,18 +248,12 @@ export async function POST(request: NextRequest) {
  * Bulk delete advertising requests (admin only)
  */
 export async function DELETE(request: NextRequest) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     
-    // Get authenticated user
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
     const body = await request.json();
     const { request_ids } = body;
     
@@ -235,16 +267,32 @@ export async function DELETE(request: NextRequest) {
     // Only allow deletion of New or Cancelled requests
     const deletableRequests = await AdvertisingRequest.find({
       _id: { $in: request_ids },
-      status: { $in: ['New', 'Cancelled'] }
+      status: { $in: DELETABLE_REQUEST_STATUSES }
     });
     
     if (deletableRequests.length !== request_ids.length) {
       return NextResponse.json(
-        { error: 'Can only delete requests with status New or Cancelled' },
+        { error: `Can only delete requests with status ${DELETABLE_REQUEST_STATUSES.map(s => REQUEST_STATUS_LABELS[s]).join(' or ')}` },
         { status: 400 }
       );
     }
     
+    // Same cleanup as a single delete: creatives (with their image derivatives) and the discussion thread
+    for (const advertisingRequest of deletableRequests) {
+      const fileDeletionPromises = advertisingRequest.advertisements.flatMap(
+        (ad: IAdvertisingRequest['advertisements'][number]) => (ad.r2_keys?.length ? ad.r2_keys : [ad.r2_key]).map(key => deleteFileFromR2(key))
+      );
+
+      try {
+        await Promise.all(fileDeletionPromises);
+      } catch (fileError) {
+        console.error('Error deleting files from R2:', fileError);
+        // Continue with request deletion even if file deletion fails
+      }
+
+      await requestCommentService.deleteForRequest(String(advertisingRequest._id));
+    }
+
     // Delete the requests
     const deleteResult = await AdvertisingRequest.deleteMany({
       _id: { $in: request_ids }
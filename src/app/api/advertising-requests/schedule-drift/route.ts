@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listCampaignScheduleDrift } from '@/lib/campaign-service';
+import { PUBLICATION_TIME_ZONE } from '@/lib/utils/campaign-schedule';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * GET /api/advertising-requests/schedule-drift
+ * Fulfilled requests whose Broadstreet campaign dates differ from the contract
+ */
+export async function GET() {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const requests = await listCampaignScheduleDrift();
+    return NextResponse.json({ time_zone: PUBLICATION_TIME_ZONE, requests });
+
+  } catch (error) {
+    console.error('Error listing campaign schedule drift:', error);
+    return NextResponse.json(
+      { error: 'Failed to list campaign schedule drift' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
-import sizeOf from 'image-size';
-import { auth } from '@clerk/nextjs/server';
+import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { requirePermission } from '@/lib/server/authorization';
+import { CREATIVE_MIME_TYPES, CREATIVE_SPECS, DEFAULT_CREATIVE_MAX_FILE_SIZE, validateCreative } from '@/lib/utils/creative-specs';
+import { DerivativeKind, ImagePipelineError, WEB_MAX_FILE_SIZE, buildDerivatives, normalizeImage } from '@/lib/services/image-pipeline';
 
 // Initialize S3 Client for Cloudflare R2
 const s3Client = new S3Client({
@@ -16,17 +20,36 @@ const s3Client = new S3Client({
 const BUCKET_NAME = process.env.S3_BUCKET || 'travelm-bucket';
 const PUBLIC_BUCKET_URL = process.env.PUBLIC_BUCKET || 'https://media.travelm.de/travelm-bucket/';
 
+// File name of each derivative inside the image's folder
+const DERIVATIVE_NAMES: Record<DerivativeKind, string> = {
+  original: 'original',
+  web: 'web',
+  thumbnail: 'thumbnail',
+  one_x: '1x',
+};
+
+async function objectExists(key: string): Promise<boolean> {
+  try {
+    await s3Client.send(new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * POST /api/advertising-requests/upload
- * Upload image to Cloudflare R2 and return metadata
+ * Check an image against the creative specs, then store it with its derivatives under
+ * advertising-requests/<request id>/<content hash>/: the original without EXIF, a
+ * size-capped web copy (the image Broadstreet gets), a thumbnail and, for 2x uploads,
+ * a 1x copy. The request ID is minted on the first upload of a new request and sent
+ * back with the later ones. Images that fail a spec are rejected with 422.
  */
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
   try {
-    // Check authentication
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
     // Parse form data
     const formData = await request.formData();
@@ -41,65 +64,96 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Only image files are allowed' }, { status: 400 });
     }
 
-    // Validate file size (20MB max)
-    const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json({ error: 'File size must be less than 20MB' }, { status: 400 });
+    // Uploads for a request that was already submitted would end up outside its advertisements
+    const requestedId = formData.get('request_id');
+    let requestId: string;
+    if (requestedId) {
+      if (!mongoose.Types.ObjectId.isValid(String(requestedId))) {
+        return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
+      }
+      await connectDB();
+      if (await AdvertisingRequest.exists({ _id: String(requestedId) })) {
+        return NextResponse.json({ error: 'This request was already submitted' }, { status: 409 });
+      }
+      requestId = String(requestedId);
+    } else {
+      requestId = new mongoose.Types.ObjectId().toString();
     }
 
-    // Convert file to buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    // Apply orientation and strip EXIF; dimensions are read from the result
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const original = await normalizeImage(buffer);
 
-    // Get image dimensions using image-size
-    let dimensions: { width: number; height: number };
-    try {
-      const imageDimensions = sizeOf(buffer);
-      if (!imageDimensions.width || !imageDimensions.height) {
-        throw new Error('Could not determine image dimensions');
-      }
-      dimensions = {
-        width: imageDimensions.width,
-        height: imageDimensions.height,
-      };
-    } catch (error) {
-      console.error('Error detecting image dimensions:', error);
+    // Check exact size, file size and type against the creative specs before storing anything
+    const validation = validateCreative({
+      width: original.width,
+      height: original.height,
+      file_size: file.size,
+      mime_type: file.type,
+    });
+    if (!validation.valid) {
       return NextResponse.json(
-        { error: 'Failed to detect image dimensions. Please ensure the file is a valid image.' },
-        { status: 400 }
+        { error: `${file.name} does not meet the creative specs: ${validation.errors.join('; ')}`, validation },
+        { status: 422 }
       );
     }
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 15);
-    const fileExtension = file.name.split('.').pop() || 'jpg';
-    const fileName = `advertising-requests/${timestamp}-${randomString}.${fileExtension}`;
-
-    // Upload to Cloudflare R2
-    const uploadCommand = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: fileName,
-      Body: buffer,
-      ContentType: file.type,
-    });
+    const derivatives = [
+      original,
+      ...await buildDerivatives(original, {
+        oneXSize: validation.spec && validation.multiple && validation.multiple > 1
+          ? { width: validation.spec.width, height: validation.spec.height }
+          : null,
+      }),
+    ];
 
-    await s3Client.send(uploadCommand);
+    // Same bytes, same folder: a repeated upload reuses the stored files
+    const folder = `advertising-requests/${requestId}/${original.content_hash.slice(0, 16)}`;
+    const keys = Object.fromEntries(derivatives.map(derivative =>
+      [derivative.kind, `${folder}/${DERIVATIVE_NAMES[derivative.kind]}.${derivative.extension}`]
+    )) as Partial<Record<DerivativeKind, string>>;
+    const duplicate = await objectExists(keys.web!);
 
-    // Generate public URL
-    const publicUrl = `${PUBLIC_BUCKET_URL}${fileName}`;
+    if (!duplicate) {
+      for (const derivative of derivatives) {
+        await s3Client.send(new PutObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: keys[derivative.kind],
+          Body: derivative.buffer,
+          ContentType: derivative.content_type,
+          // Content-addressed keys never change, so they can be cached for a year
+          CacheControl: 'public, max-age=31536000, immutable',
+        }));
+      }
+    }
 
-    // Return upload result with metadata
+    const web = derivatives.find(derivative => derivative.kind === 'web')!;
+    const publicUrl = (kind: DerivativeKind) => keys[kind] ? `${PUBLIC_BUCKET_URL}${keys[kind]}` : undefined;
+
+    // Return upload result with metadata; url and key are the web copy
     return NextResponse.json({
       success: true,
-      url: publicUrl,
-      key: fileName,
-      width: dimensions.width,
-      height: dimensions.height,
-      size: file.size,
-      type: file.type,
+      request_id: requestId,
+      url: publicUrl('web'),
+      key: keys.web,
+      keys: Object.values(keys),
+      original_url: publicUrl('original'),
+      thumbnail_url: publicUrl('thumbnail'),
+      image_1x_url: publicUrl('one_x'),
+      content_hash: original.content_hash,
+      duplicate,
+      width: original.width,
+      height: original.height,
+      size: web.size,
+      type: web.content_type,
+      original_size: file.size,
+      size_coding: validation.size_coding,
+      validation,
     });
   } catch (error) {
+    if (error instanceof ImagePipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Upload error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to upload image' },
@@ -116,13 +170,15 @@ export async function GET() {
   try {
     return NextResponse.json({
       config: {
-        max_file_size: 20 * 1024 * 1024, // 20MB
-        allowed_types: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'],
+        max_file_size: DEFAULT_CREATIVE_MAX_FILE_SIZE,
+        web_max_file_size: WEB_MAX_FILE_SIZE,
+        allowed_types: CREATIVE_MIME_TYPES,
         size_coding: {
-          SQ: 'Square (roughly 1:1 ratio)',
-          PT: 'Portrait (height > width)',
-          LS: 'Landscape (width > height)',
+          SQ: 'Square zones (300x250, 336x280, 250x250)',
+          PT: 'Portrait zones (300x600, 160x600, 120x600)',
+          LS: 'Landscape zones (728x90, 970x90, 970x250, 320x50, 320x100)',
         },
+        creative_specs: CREATIVE_SPECS,
       },
     });
   } catch (error) {
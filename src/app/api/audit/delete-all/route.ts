@@ -3,8 +3,12 @@ import connectDB from '@/lib/mongodb';
 import LocalAdvertiser from '@/lib/models/local-advertiser';
 import LocalCampaign from '@/lib/models/local-campaign';
 import LocalZone from '@/lib/models/local-zone';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function DELETE(request: NextRequest) {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateSyncedCampaign } from '@/lib/campaign-service';
+import { EDITABLE_CAMPAIGN_FIELDS, CampaignUpdateInput } from '@/lib/utils/campaign-update-helpers';
+import { requirePermission } from '@/lib/server/authorization';
+
+// PUT /api/campaigns/[id] - Update a synced campaign in Broadstreet (id = broadstreet_id)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+    const broadstreetId = parseInt(id);
+
+    if (!Number.isFinite(broadstreetId)) {
+      return NextResponse.json(
+        { error: 'Campaign must be synced with Broadstreet to be edited' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Only accept fields Broadstreet allows us to change
+    const update: CampaignUpdateInput = {};
+    for (const field of EDITABLE_CAMPAIGN_FIELDS) {
+      if (field in body) {
+        (update as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    if (update.name !== undefined && (typeof update.name !== 'string' || update.name.trim().length === 0)) {
+      return NextResponse.json(
+        { error: 'Campaign name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (update.start_date && update.end_date && update.end_date < update.start_date) {
+      return NextResponse.json(
+        { error: 'End date must be on or after start date' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateSyncedCampaign(broadstreetId, update);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update campaign', changes: result.changes },
+        { status: result.status || 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      campaign: result.campaign,
+      changes: result.changes
+    });
+  } catch (error) {
+    console.error('Error updating campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to update campaign' },
+      { status: 500 }
+    );
+  }
+}
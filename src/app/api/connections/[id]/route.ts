@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiConnectionError, apiConnectionService, parseConnectionNetworkId } from '@/lib/api-connection-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * PATCH /api/connections/[id]
+ * Change a connection. Body: { label?, token?, base_url?, default_network_id?, is_default? }.
+ * Leave token out to keep the stored one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('connections:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const connection = await apiConnectionService.update(id, {
+      label: body.label,
+      token: body.token || undefined,
+      base_url: body.base_url,
+      default_network_id: parseConnectionNetworkId(body.default_network_id),
+      is_default: body.is_default === true ? true : undefined,
+    });
+
+    return NextResponse.json({ connection });
+
+  } catch (error) {
+    if (error instanceof ApiConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating API connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to update API connection' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/connections/[id]
+ * Remove a connection and the Broadstreet data synced under it
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('connections:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+    const result = await apiConnectionService.remove(id);
+    return NextResponse.json({
+      message: `Connection deleted with ${result.removed_documents} synced records`,
+      ...result,
+    });
+
+  } catch (error) {
+    if (error instanceof ApiConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting API connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete API connection' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ACTIVE_CONNECTION_COOKIE, apiConnectionService } from '@/lib/api-connection-service';
+import { getAccessContext } from '@/lib/server/authorization';
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * POST /api/connections/active
+ * Switch the connection used for this browser. Body: { connectionId: string | null };
+ * null goes back to the default connection.
+ */
+export async function POST(request: NextRequest) {
+  const access = await getAccessContext();
+  if (!access) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const connectionId = typeof body.connectionId === 'string' ? body.connectionId : null;
+
+    const connection = connectionId
+      ? await apiConnectionService.getConnection(connectionId)
+      : await apiConnectionService.getDefaultConnection();
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({
+      activeConnectionId: connection.id,
+      default_network_id: connection.default_network_id,
+    });
+    if (connectionId) {
+      response.cookies.set(ACTIVE_CONNECTION_COOKIE, connectionId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: ONE_YEAR_SECONDS,
+      });
+    } else {
+      response.cookies.delete(ACTIVE_CONNECTION_COOKIE);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('Error switching API connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch API connection' },
+      { status: 500 }
+    );
+  }
+}
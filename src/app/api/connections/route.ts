@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiConnectionError, apiConnectionService, parseConnectionNetworkId } from '@/lib/api-connection-service';
+import { getAccessContext, requirePermission } from '@/lib/server/authorization';
+
+/**
+ * GET /api/connections
+ * Broadstreet API connections (never their tokens) and the one active for this user.
+ * Any signed-in user may list them, since everyone can switch connection in the header.
+ */
+export async function GET() {
+  const access = await getAccessContext();
+  if (!access) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const [connections, active] = await Promise.all([
+      apiConnectionService.list(),
+      apiConnectionService.resolveActive(),
+    ]);
+    return NextResponse.json({ connections, activeConnectionId: active.id });
+
+  } catch (error) {
+    console.error('Error fetching API connections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API connections' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/connections
+ * Add a connection. Body: { label, token, base_url?, default_network_id?, is_default? }.
+ * The token is checked against Broadstreet before it is stored.
+ */
+export async function POST(request: NextRequest) {
+  const access = await requirePermission('connections:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const connection = await apiConnectionService.create({
+      label: body.label,
+      token: body.token,
+      base_url: body.base_url,
+      default_network_id: parseConnectionNetworkId(body.default_network_id),
+      is_default: body.is_default === true,
+    }, access.userId);
+
+    return NextResponse.json({ connection }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ApiConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating API connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API connection' },
+      { status: 500 }
+    );
+  }
+}
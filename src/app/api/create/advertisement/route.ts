@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
-import Advertisement from '@/lib/models/advertisement';
+import LocalAdvertisement from '@/lib/models/local-advertisement';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
     const body = await request.json();
-    const { name, type, preview_url, target_url, notes } = body;
+    const { name, type, preview_url, target_url, notes, network_id, advertiser_id, advertiser, active_placement } = body;
 
     // Validate required fields
     if (!name || !type || !preview_url) {
@@ -17,6 +21,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (network_id === undefined || network_id === null) {
+      return NextResponse.json(
+        { message: 'network_id is required' },
+        { status: 400 }
+      );
+    }
+
     // Validate type
     const validTypes = ['image', 'text', 'video', 'native'];
     if (!validTypes.includes(type)) {
@@ -26,39 +37,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if advertisement with same name already exists
-    const existingAdvertisement = await Advertisement.findOne({
-      name: name.trim()
+    // Check if advertisement with same name already exists in this network
+    const existingAdvertisement = await LocalAdvertisement.findOne({
+      name: name.trim(),
+      network_id
     });
 
     if (existingAdvertisement) {
       return NextResponse.json(
-        { message: 'An advertisement with this name already exists' },
+        { message: 'An advertisement with this name already exists in this network' },
         { status: 409 }
       );
     }
 
-    // Generate a unique Broadstreet ID
-    const maxId = await Advertisement.findOne({}, { broadstreet_id: 1 }).sort({ broadstreet_id: -1 });
-    const newBroadstreetId = maxId ? maxId.broadstreet_id + 1 : 1;
+    // Resolve advertiser reference: Broadstreet ID when synced, otherwise the local mongo_id
+    // (resolved to a Broadstreet ID when the advertisement is synced)
+    const advertiserRef = typeof advertiser_id === 'number'
+      ? advertiser_id
+      : advertiser?.broadstreet_id ?? advertiser?.mongo_id;
 
-    // Create new advertisement
-    const newAdvertisement = new Advertisement({
-      broadstreet_id: newBroadstreetId,
+    // Create new local advertisement
+    const newAdvertisement = new LocalAdvertisement({
       name: name.trim(),
+      network_id,
       type,
+      ...(advertiserRef !== undefined ? { advertiser_id: advertiserRef } : {}),
       preview_url,
       active: {
         url: target_url || null
       },
-      active_placement: false,
-      advertiser: 'Unknown', // This will be set when synced with API
-      updated_at: new Date().toISOString(),
+      active_placement: active_placement !== false,
       notes: notes || undefined,
       created_locally: true,
       synced_with_api: false,
       created_at: new Date(),
-      synced_at: null,
+      sync_errors: [],
     });
 
     await newAdvertisement.save();
@@ -66,17 +79,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       message: 'Advertisement created successfully',
       advertisement: {
-        broadstreet_id: newAdvertisement.broadstreet_id,
         mongo_id: newAdvertisement._id?.toString(),
         name: newAdvertisement.name,
+        network_id: newAdvertisement.network_id,
         type: newAdvertisement.type,
+        advertiser_id: newAdvertisement.advertiser_id,
         preview_url: newAdvertisement.preview_url,
         active: newAdvertisement.active,
         active_placement: newAdvertisement.active_placement,
-        advertiser: newAdvertisement.advertiser,
         notes: newAdvertisement.notes,
         created_locally: newAdvertisement.created_locally,
         synced_with_api: newAdvertisement.synced_with_api,
+        created_at: newAdvertisement.created_at,
+        sync_errors: newAdvertisement.sync_errors,
       }
     }, { status: 201 });
 
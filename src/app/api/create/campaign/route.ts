@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import LocalCampaign from '@/lib/models/local-campaign';
+import { requirePermission } from '@/lib/server/authorization';
+import { normalizeCampaignDate } from '@/lib/utils/campaign-schedule';
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
@@ -66,20 +71,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Ensure dates have time component (00:00:00 for start, 23:59:59 for end)
-    const formatDateWithTime = (dateStr: string, isEndDate: boolean = false) => {
-      if (!dateStr) return undefined;
-      // Check if time is already included
-      if (dateStr.includes(' ') || dateStr.includes('T')) {
-        return dateStr;
-      }
-      // Add appropriate time: 00:00:00 for start, 23:59:59 for end
-      const time = isEndDate ? '23:59:59' : '00:00:00';
-      return `${dateStr} ${time}`;
-    };
-
-    const formattedStartDate = formatDateWithTime(startDate, false);
-    const formattedEndDate = endDate ? formatDateWithTime(endDate, true) : undefined;
+    // Dates run from the start of the first to the end of the last day in the publication's timezone
+    const formattedStartDate = normalizeCampaignDate(startDate, 'start');
+    const formattedEndDate = endDate ? normalizeCampaignDate(endDate, 'end') : undefined;
 
     // Create new local campaign
     const newCampaign = new LocalCampaign({
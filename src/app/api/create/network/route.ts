@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Network from '@/lib/models/network';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
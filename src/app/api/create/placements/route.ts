@@ -4,6 +4,8 @@ import connectDB from '@/lib/mongodb';
 import LocalCampaign from '@/lib/models/local-campaign';
 import Campaign from '@/lib/models/campaign';
 import Advertiser from '@/lib/models/advertiser';
+import { isPlacementRestriction, normalizeRestrictions, getPlacementRestrictionKey } from '@/lib/utils/placement-restrictions';
+import { requirePermission } from '@/lib/server/authorization';
 
 
 
@@ -18,15 +20,29 @@ type RequestBody = {
   // Legacy format: unique IDs (for backward compatibility)
   advertisementIds?: Array<number | string>;
   zoneIds?: Array<number | string>;
+  // Device targeting applied to every placement in the request (at most one value)
   restrictions?: string[];
 };
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
     const body = (await request.json()) as RequestBody;
-    const { campaignId, campaignMongoId, placements, advertisementIds, zoneIds, restrictions } = body || ({} as RequestBody);
+    const { campaignId, campaignMongoId, placements, advertisementIds, zoneIds } = body || ({} as RequestBody);
+
+    const requestedRestrictions = body?.restrictions ?? [];
+    if (!Array.isArray(requestedRestrictions) || requestedRestrictions.length > 1 ||
+        !requestedRestrictions.every(r => isPlacementRestriction(String(r).toLowerCase()))) {
+      return NextResponse.json(
+        { message: 'restrictions must contain at most one of: phone, tablet, mobile, non_phone, desktop' },
+        { status: 400 }
+      );
+    }
+    const restrictions = normalizeRestrictions(requestedRestrictions);
 
     console.log('Placement creation request:', {
       campaignId,
@@ -314,14 +330,13 @@ export async function POST(request: NextRequest) {
 
 
 
-    // Compute existing and toInsert for accurate created count and dedupe by ad+zone regardless of restrictions
-    // CURRENT BEHAVIOR: If a placement already exists (same ad+zone), restrictions are NOT updated
-    // This prevents accidental overwrites but may require manual cleanup if restrictions need to change
+    // Compute existing and toInsert for accurate created count and dedupe by ad+zone+device
+    // Placements that differ only by device are distinct; an existing ad+zone+device is left untouched
     const beforeDoc = await LocalCampaign.findById((campaign as any)._id).lean();
     const before: any[] = (beforeDoc as any)?.placements ?? [];
-    const existingKeys = new Set(before.map((p: any) => `${p.advertisement_id}-${p.zone_id || p.zone_mongo_id || ''}`));
+    const existingKeys = new Set(before.map((p: any) => `${p.advertisement_id}-${p.zone_id || p.zone_mongo_id || ''}-${getPlacementRestrictionKey(p.restrictions)}`));
     const toInsert = combinations
-      .filter((c: any) => !existingKeys.has(`${c.advertisement_id}-${Number.isFinite(c.zone_id) ? c.zone_id : (c.zone_mongo_id || '')}`))
+      .filter((c: any) => !existingKeys.has(`${c.advertisement_id}-${Number.isFinite(c.zone_id) ? c.zone_id : (c.zone_mongo_id || '')}-${getPlacementRestrictionKey(c.restrictions)}`))
       .map((c: any) => ({
         advertisement_id: c.advertisement_id,
         ...(Number.isFinite(c.zone_id) ? { zone_id: c.zone_id } : {}),
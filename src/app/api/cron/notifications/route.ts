@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { notificationService } from '@/lib/notification-service';
+
+/**
+ * GET /api/cron/notifications
+ * Scheduled outbox run: sends entries whose retry is due. Called by a scheduler rather than a
+ * user, so it skips Clerk and takes `Authorization: Bearer <CRON_SECRET>` instead.
+ * `pnpm notifications:dispatch` calls it on an interval.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Invalid cron secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await notificationService.dispatchDue();
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error('Error dispatching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to dispatch notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getEntityCounts } from '@/lib/server/data-fetchers';
+import { apiConnectionService } from '@/lib/api-connection-service';
 
 /**
  * GET /api/dashboard/entity-counts
@@ -7,10 +8,13 @@ import { getEntityCounts } from '@/lib/server/data-fetchers';
  */
 export async function GET(request: NextRequest) {
   try {
-    // Parse network ID from URL parameters, default to 9396 for consistency with dashboard page
+    // Parse network ID from URL parameters, default to the active connection's default network
+    // for consistency with dashboard page
     const { searchParams } = new URL(request.url);
     const networkParam = searchParams.get('network');
-    const networkId = networkParam ? parseInt(networkParam) : 9396;
+    const networkId = networkParam
+      ? parseInt(networkParam)
+      : (await apiConnectionService.resolveActive()).default_network_id ?? undefined;
 
     const entityCounts = await getEntityCounts(networkId);
 
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import LocalAdvertisement from '@/lib/models/local-advertisement';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function DELETE(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
@@ -6,8 +6,12 @@ import LocalCampaign from '@/lib/models/local-campaign';
 import LocalNetwork from '@/lib/models/local-network';
 import LocalAdvertisement from '@/lib/models/local-advertisement';
 import Placement from '@/lib/models/placement';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function DELETE(request: NextRequest) {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Campaign from '@/lib/models/campaign';
 import LocalCampaign from '@/lib/models/local-campaign';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
@@ -2,12 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Placement from '@/lib/models/placement';
 import { Types } from 'mongoose';
+import { requirePermission } from '@/lib/server/authorization';
 
 // DELETE /api/local-placements/[id] - Delete individual local placement
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
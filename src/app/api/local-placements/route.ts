@@ -8,6 +8,8 @@ import Zone from '@/lib/models/zone';
 import Advertisement from '@/lib/models/advertisement';
 import Advertiser from '@/lib/models/advertiser';
 import Network from '@/lib/models/network';
+import { isPlacementRestriction, normalizeRestrictions } from '@/lib/utils/placement-restrictions';
+import { requirePermission } from '@/lib/server/authorization';
 
 type CreatePlacementRequest = {
   networkId: number;
@@ -33,6 +35,9 @@ type GetPlacementsQuery = {
 
 // POST /api/local-placements - Create local placement
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     
@@ -66,6 +71,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate device restriction (Broadstreet accepts a single value)
+    const requestedRestrictions = body.restrictions ?? [];
+    if (!Array.isArray(requestedRestrictions) || requestedRestrictions.length > 1 ||
+        !requestedRestrictions.every(r => isPlacementRestriction(String(r).toLowerCase()))) {
+      return NextResponse.json(
+        { error: 'restrictions must contain at most one of: phone, tablet, mobile, non_phone, desktop' },
+        { status: 400 }
+      );
+    }
+    const restrictions = normalizeRestrictions(requestedRestrictions);
+
     // Validate entity dependencies exist
     const [advertisement, advertiser, network] = await Promise.all([
       Advertisement.findOne({ broadstreet_id: body.advertisementId }),
@@ -133,7 +149,7 @@ export async function POST(request: NextRequest) {
       ...(body.campaignMongoId && { campaign_mongo_id: body.campaignMongoId }),
       ...(body.zoneId && { zone_id: body.zoneId }),
       ...(body.zoneMongoId && { zone_mongo_id: body.zoneMongoId }),
-      ...(body.restrictions && body.restrictions.length > 0 && { restrictions: body.restrictions }),
+      restrictions,
       // Explicitly set local tracking flags
       created_locally: true,
       synced_with_api: false,
@@ -158,7 +174,7 @@ export async function POST(request: NextRequest) {
     // Handle duplicate key error
     if (error.code === 11000) {
       return NextResponse.json(
-        { error: 'Placement with this combination already exists' },
+        { error: 'Placement with this combination and device already exists' },
         { status: 409 }
       );
     }
@@ -3,11 +3,14 @@ import connectDB from '@/lib/mongodb';
 import Network from '@/lib/models/network';
 import Advertiser from '@/lib/models/advertiser';
 import Zone from '@/lib/models/zone';
+import { apiConnectionService, connectionFilter } from '@/lib/api-connection-service';
 
 export async function GET() {
   try {
     await connectDB();
-    const networks = await Network.find({}).sort({ name: 1 }).lean();
+    // Only the networks of the connection picked in the header
+    const connection = await apiConnectionService.resolveActive();
+    const networks = await Network.find(connectionFilter(connection)).sort({ name: 1 }).lean();
 
     // Compute counts per network using aggregation for accuracy
     const advertiserCounts = await Advertiser.aggregate([
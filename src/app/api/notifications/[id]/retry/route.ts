@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { NotificationError, notificationService } from '@/lib/notification-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * POST /api/notifications/[id]/retry
+ * Send a failed notification again, with a fresh set of attempts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid notification ID' },
+        { status: 400 }
+      );
+    }
+
+    const notification = await notificationService.retry(id);
+    return NextResponse.json({
+      message: notification.status === 'sent' ? 'Notification sent' : 'Notification queued for retry',
+      notification,
+    });
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error retrying notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry notification' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { notificationService } from '@/lib/notification-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * POST /api/notifications/dispatch
+ * Send outbox entries whose retry is due, now. New notifications and the scheduled
+ * /api/cron/notifications run do this too; this is the manual flush.
+ */
+export async function POST() {
+  const access = await requirePermission('requests:manage');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const summary = await notificationService.dispatchDue();
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error('Error dispatching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to dispatch notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationError, notificationService } from '@/lib/notification-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * GET /api/notifications/preferences
+ * The current user's email subscriptions
+ */
+export async function GET() {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const preferences = await notificationService.getPreferences(access.userId);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ * Update the current user's email subscriptions
+ * Body: { email_enabled?: boolean, events?: { [event]: boolean } }
+ */
+export async function PUT(request: NextRequest) {
+  const access = await requirePermission('requests:create');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const body = await request.json();
+    const preferences = await notificationService.updatePreferences(access.userId, {
+      email_enabled: body.email_enabled,
+      events: body.events,
+    });
+    return NextResponse.json({
+      message: 'Notification preferences saved',
+      preferences,
+    });
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
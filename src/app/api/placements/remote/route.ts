@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { placementService, SyncedPlacementKey } from '@/lib/placement-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+const MAX_PLACEMENTS_PER_REQUEST = 200;
+
+function isBroadstreetId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+// DELETE /api/placements/remote - Remove synced placements from Broadstreet
+export async function DELETE(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const body = await request.json();
+    const placements = body?.placements;
+
+    if (!Array.isArray(placements) || placements.length === 0) {
+      return NextResponse.json(
+        { error: 'placements must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    if (placements.length > MAX_PLACEMENTS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Cannot remove more than ${MAX_PLACEMENTS_PER_REQUEST} placements at once` },
+        { status: 400 }
+      );
+    }
+
+    // Only synced placements (all three Broadstreet IDs) can be removed remotely
+    const invalid = placements.filter((p: any) =>
+      !isBroadstreetId(p?.campaign_id) || !isBroadstreetId(p?.advertisement_id) || !isBroadstreetId(p?.zone_id)
+    );
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: 'Each placement needs numeric campaign_id, advertisement_id and zone_id (synced placements only)' },
+        { status: 400 }
+      );
+    }
+
+    const keys: SyncedPlacementKey[] = placements.map((p: any) => ({
+      campaign_id: p.campaign_id,
+      advertisement_id: p.advertisement_id,
+      zone_id: p.zone_id,
+    }));
+
+    const results = await placementService.removeSyncedPlacements(keys);
+    const removed = results.filter(r => r.success).length;
+
+    return NextResponse.json({
+      success: removed === results.length,
+      removed,
+      failed: results.length - removed,
+      results
+    });
+  } catch (error) {
+    console.error('Error removing placements from Broadstreet:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove placements' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,8 @@ import Network from '@/lib/models/network';
 import LocalCampaign from '@/lib/models/local-campaign';
 import Placement from '@/lib/models/placement';
 import { generatePlacementKey } from '@/lib/utils/entity-helpers';
+import { toApiRestriction } from '@/lib/utils/placement-restrictions';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function GET(request: NextRequest) {
   try {
@@ -76,20 +78,6 @@ export async function GET(request: NextRequest) {
 
 
 
-    // Additionally, if filtering by network, include all campaigns whose advertiser belongs to that network
-    if (networkId) {
-      const nid = parseInt(networkId);
-      const advertisersInNetwork = await Advertiser.find({ network_id: nid }).lean();
-      const advertiserIds = advertisersInNetwork.map((a: any) => a.broadstreet_id).filter((v: any) => typeof v === 'number');
-      if (advertiserIds.length > 0) {
-        const inferred = await Campaign.find({ advertiser_id: { $in: advertiserIds } }).lean();
-        const existing = new Set((campaigns as any[]).map(c => (c as any).id));
-        for (const c of inferred) {
-          if (!existing.has((c as any).id)) (campaigns as any[]).push(c);
-        }
-      }
-    }
-
     // Collect all placements from both sources
     const allPlacements: Array<{
       advertisement_id: number;
@@ -194,7 +182,8 @@ export async function GET(request: NextRequest) {
         campaign_id: p.campaign_id,
         campaign_mongo_id: (p as any).campaign_mongo_id,
         zone_id: p.zone_id,
-        zone_mongo_id: (p as any).zone_mongo_id
+        zone_mongo_id: (p as any).zone_mongo_id,
+        restrictions: (p as any).restrictions
       });
 
       if (!seen.has(key)) {
@@ -208,7 +197,8 @@ export async function GET(request: NextRequest) {
             campaign_id: existing.campaign_id,
             campaign_mongo_id: (existing as any).campaign_mongo_id,
             zone_id: existing.zone_id,
-            zone_mongo_id: (existing as any).zone_mongo_id
+            zone_mongo_id: (existing as any).zone_mongo_id,
+            restrictions: (existing as any).restrictions
           });
           return existingKey === key;
         });
@@ -318,9 +308,6 @@ export async function GET(request: NextRequest) {
         const c = typeof p.campaign_id === 'number' ? campaignMap.get(p.campaign_id) : undefined;
         const adv = c && typeof (c as any).advertiser_id === 'number' ? advertiserMap.get((c as any).advertiser_id) : undefined;
 
-        // Get local campaign network if available
-        const localCampaignNetwork = p._localCampaign?.network_id;
-
         // FIX: If local campaign has network_id undefined but we're filtering by network_id,
         // and the campaign was found by network_id query, then it should match
         // Create a copy to avoid mutating the original object
@@ -457,11 +444,14 @@ export async function GET(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
     const body = await request.json();
-    const { campaignMongoId, advertisementId, zoneId, zoneMongoId } = body;
+    const { campaignMongoId, advertisementId, zoneId, zoneMongoId, restrictions } = body;
 
     if (!campaignMongoId || !advertisementId) {
       return NextResponse.json(
@@ -481,6 +471,16 @@ export async function DELETE(request: NextRequest) {
       placementFilter.zone_mongo_id = zoneMongoId;
     }
 
+    // Only remove the matching device variant when restrictions are given
+    if (Array.isArray(restrictions)) {
+      const restriction = toApiRestriction(restrictions);
+      if (restriction) {
+        placementFilter.restrictions = restriction;
+      } else {
+        placementFilter.$or = [{ restrictions: { $exists: false } }, { restrictions: { $size: 0 } }];
+      }
+    }
+
     // Remove the placement from the campaign
     const result = await LocalCampaign.updateOne(
       { _id: campaignMongoId },
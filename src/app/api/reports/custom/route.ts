@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runCustomReport, ReportValidationError } from '@/lib/reporting-service';
+import { createReportExportResponse } from '@/lib/utils/report-export';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * POST /api/reports/custom
+ * Runs a custom grouped report (e.g. impressions per zone per creative) for a network.
+ *
+ * Body: { networkId, groupBy: string[], metrics: string[], startDate?, endDate? }
+ * Query: format=csv|json to download the result as a file
+ */
+export async function POST(request: NextRequest) {
+  const access = await requirePermission('reports:run');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format');
+    const body = await request.json();
+
+    const report = await runCustomReport({
+      networkId: parseInt(body.networkId),
+      groupBy: Array.isArray(body.groupBy) ? body.groupBy : [],
+      metrics: Array.isArray(body.metrics) ? body.metrics : [],
+      startDate: body.startDate || undefined,
+      endDate: body.endDate || undefined,
+    });
+
+    if (format === 'csv' || format === 'json') {
+      const name = `report-${report.networkId}-${report.groupBy.join('-')}-${report.startDate}-${report.endDate}`;
+      return createReportExportResponse(report.columns, report.rows, name, format);
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error running custom report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run custom report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReport, ReportValidationError } from '@/lib/reporting-service';
+import { apiConnectionService } from '@/lib/api-connection-service';
+import type { ReportEntityType } from '@/lib/types/broadstreet';
+
+/**
+ * GET /api/reports
+ * Returns views, clicks, hovers, conversions and CTR for a Broadstreet entity.
+ *
+ * Query params: type (advertiser|campaign|advertisement|network), id (broadstreet_id),
+ * startDate/endDate (YYYY-MM-DD), summary=1, refresh=1 (bypass cache)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type') as ReportEntityType | null;
+    const idParam = searchParams.get('id');
+
+    if (!type || !idParam) {
+      return NextResponse.json(
+        { error: 'type and id are required' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getReport({
+      type,
+      id: parseInt(idParam),
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      summary: searchParams.get('summary') === '1' || searchParams.get('summary') === 'true',
+      refresh: searchParams.get('refresh') === '1' || searchParams.get('refresh') === 'true',
+      connection: await apiConnectionService.resolveActive(),
+    });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error fetching report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import SavedReport from '@/lib/models/saved-report';
+import { requirePermission } from '@/lib/server/authorization';
+
+// GET /api/reports/saved/[id] - Get a saved report definition
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    const report = await SavedReport.findById(id).lean({ virtuals: true });
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Saved report not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error fetching saved report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved report' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/reports/saved/[id] - Delete a saved report definition
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('reports:run');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+
+    const report = await SavedReport.findByIdAndDelete(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Saved report not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Saved report deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting saved report:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved report' },
+      { status: 500 }
+    );
+  }
+}
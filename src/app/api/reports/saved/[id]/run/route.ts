@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import SavedReport from '@/lib/models/saved-report';
+import { runCustomReport, getSavedReportRange, ReportValidationError } from '@/lib/reporting-service';
+import { createReportExportResponse } from '@/lib/utils/report-export';
+import { requirePermission } from '@/lib/server/authorization';
+
+/**
+ * POST /api/reports/saved/[id]/run
+ * Re-runs a saved report definition. Rolling windows are resolved against today.
+ * Query: format=csv|json to download the result as a file
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('reports:run');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format');
+
+    const saved = await SavedReport.findById(id).lean() as any;
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Saved report not found' },
+        { status: 404 }
+      );
+    }
+
+    const { startDate, endDate } = getSavedReportRange(saved);
+    const report = await runCustomReport({
+      networkId: saved.network_id,
+      groupBy: saved.group_by,
+      metrics: saved.metrics,
+      startDate,
+      endDate,
+    });
+
+    await SavedReport.updateOne({ _id: saved._id }, { $set: { last_run_at: new Date() } });
+
+    if (format === 'csv' || format === 'json') {
+      return createReportExportResponse(report.columns, report.rows, `${saved.name}-${startDate}-${endDate}`, format);
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error running saved report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run saved report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
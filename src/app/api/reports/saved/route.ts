@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import SavedReport from '@/lib/models/saved-report';
+import { requirePermission } from '@/lib/server/authorization';
+import { CUSTOM_REPORT_DIMENSIONS, CUSTOM_REPORT_METRICS, isValidReportDate } from '@/lib/reporting-service';
+
+// GET /api/reports/saved - List saved report definitions (optionally by network)
+export async function GET(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const networkParam = searchParams.get('network');
+    const query: any = {};
+    if (networkParam) query.network_id = parseInt(networkParam);
+
+    const reports = await SavedReport.find(query)
+      .sort({ createdAt: -1 })
+      .lean({ virtuals: true });
+
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error fetching saved reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved reports' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/reports/saved - Save a custom report definition
+export async function POST(request: NextRequest) {
+  const access = await requirePermission('reports:run');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const { name, description, network_id, group_by = [], metrics = [], start_date, end_date, range_days } = body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Report name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!network_id || !Number.isInteger(Number(network_id))) {
+      return NextResponse.json(
+        { error: 'network_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const validGroupBy = CUSTOM_REPORT_DIMENSIONS.filter(d => group_by.includes(d));
+    const validMetrics = CUSTOM_REPORT_METRICS.filter(m => metrics.includes(m));
+    if (validGroupBy.length === 0 || validMetrics.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one grouping dimension and one metric are required' },
+        { status: 400 }
+      );
+    }
+
+    if ((start_date && !isValidReportDate(start_date)) || (end_date && !isValidReportDate(end_date))) {
+      return NextResponse.json(
+        { error: 'Dates must use the YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const report = new SavedReport({
+      name: name.trim(),
+      description: description?.trim(),
+      network_id: Number(network_id),
+      group_by: validGroupBy,
+      metrics: validMetrics,
+      // Fixed range only when both ends are given, otherwise a rolling window
+      ...(start_date && end_date
+        ? { start_date, end_date }
+        : { range_days: Number(range_days) > 0 ? Number(range_days) : 30 }),
+    });
+
+    await report.save();
+
+    return NextResponse.json({ report: report.toJSON() }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving report:', error);
+    return NextResponse.json(
+      { error: 'Failed to save report' },
+      { status: 500 }
+    );
+  }
+}
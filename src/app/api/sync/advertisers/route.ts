@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import syncService from '@/lib/sync-service';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('sync:run');
+  if (access instanceof NextResponse) return access;
+
   try {
     const { networkId } = await request.json();
 
@@ -1,14 +1,27 @@
-import { NextResponse } from 'next/server';
-import { syncAll } from '@/lib/utils/sync-helpers';
+import { NextRequest, NextResponse } from 'next/server';
+import { syncAll, DownloadSyncMode } from '@/lib/utils/sync-helpers';
 import { clearAllZoneSelections } from '@/lib/utils/zone-selection-helpers';
 import { themeValidationService } from '@/lib/theme-validation-service';
+import { requirePermission } from '@/lib/server/authorization';
+import { apiConnectionService } from '@/lib/api-connection-service';
+
+export async function POST(request: NextRequest) {
+  // Incremental by default; full wipe-and-reload must be requested explicitly
+  const body = await request.json().catch(() => ({}));
+  const mode: DownloadSyncMode = body?.mode === 'full' ? 'full' : 'incremental';
+
+  // A full reload also deletes local drafts
+  const access = await requirePermission(mode === 'full' ? 'admin:destructive' : 'sync:run');
+  if (access instanceof NextResponse) return access;
 
-export async function POST() {
   try {
+
     // Clear zone selections before syncing
     await Promise.resolve().then(() => clearAllZoneSelections());
     
-    const result = await syncAll();
+    // Download the account picked in the header
+    const connection = await apiConnectionService.resolveActive();
+    const result = await syncAll({ mode, connection });
 
     if (result.success) {
       // Trigger theme validation workflow in background (non-blocking)
@@ -22,6 +35,7 @@ export async function POST() {
       return NextResponse.json({
         success: true,
         message: 'All data synced successfully',
+        mode: result.mode,
         results: result.results,
         overallSuccess: result.success,
         themeValidationStarted: true
@@ -30,6 +44,7 @@ export async function POST() {
       return NextResponse.json({
         success: false,
         message: 'Some sync operations failed',
+        mode: result.mode,
         results: result.results,
         overallSuccess: false,
       }, { status: 500 });
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { syncJobService, SyncJobError } from '@/lib/sync-job-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+// GET /api/sync/jobs/[id] - Sync job with its checkpoints
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid sync job id' }, { status: 400 });
+    }
+
+    const job = await syncJobService.getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Error fetching sync job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync job' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sync/jobs/[id] - { action: 'cancel' | 'resume' | 'discard' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('sync:run');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid sync job id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    switch (body?.action) {
+      case 'cancel': {
+        const job = await syncJobService.requestCancel(id);
+        return NextResponse.json({ success: true, job });
+      }
+
+      case 'discard': {
+        const job = await syncJobService.discardJob(id);
+        return NextResponse.json({ success: true, job });
+      }
+
+      case 'resume': {
+        // Runs to completion (or the next cancel) like POST /api/sync/local-all
+        const outcome = await syncJobService.resumeJob(id);
+        return NextResponse.json(outcome);
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof SyncJobError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Sync job action error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { syncRetryService, SyncRetryError } from '@/lib/sync-retry-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+// GET /api/sync/logs/[id]/retry - Failed operations of a sync log, split into retryable and not
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid sync log id' }, { status: 400 });
+    }
+
+    const plan = await syncRetryService.getPlan(id);
+    return NextResponse.json({ success: true, plan });
+  } catch (error) {
+    if (error instanceof SyncRetryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Error building retry plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to load failed operations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sync/logs/[id]/retry - Re-run the retryable failures under a new linked 'retry' log
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await requirePermission('sync:run');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid sync log id' }, { status: 400 });
+    }
+
+    const outcome = await syncRetryService.retryFailed(id);
+    return NextResponse.json(outcome);
+  } catch (error) {
+    if (error instanceof SyncRetryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Retry failed operations error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncRetryService } from '@/lib/sync-retry-service';
+
+// GET /api/sync/logs?networkId=&limit= - Recent local sync runs with how many failures can be retried
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const networkParam = searchParams.get('networkId');
+    const networkId = networkParam ? parseInt(networkParam, 10) : undefined;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const logs = await syncRetryService.listRuns(networkId || undefined, limit);
+
+    return NextResponse.json({ success: true, logs });
+  } catch (error) {
+    console.error('Error fetching sync logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync logs' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,10 +5,15 @@ import Advertiser from '@/lib/models/advertiser';
 import Zone from '@/lib/models/zone';
 import Campaign from '@/lib/models/campaign';
 import Advertisement from '@/lib/models/advertisement';
-import broadstreetAPI from '@/lib/broadstreet-api';
+import { apiConnectionService } from '@/lib/api-connection-service';
 import { withRateLimit } from '@/lib/rate-limiter';
+import { requirePermission } from '@/lib/server/authorization';
+import { getAdvertiserIdsByName } from '@/lib/utils/sync-helpers';
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('sync:run');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
@@ -27,6 +32,10 @@ export async function POST(request: NextRequest) {
       console.warn(`[sync/network] Proceeding without local network record for ${networkId}`);
     }
 
+    // Use the token of the connection this network was synced under
+    const connection = await apiConnectionService.getConnectionForNetwork(networkId);
+    const api = connection.client;
+
     // 1) Delete all non-local data scoped to this network
     //    We treat non-local as main collections (synced with API). Local collections are not touched here.
     const [advDel, zoneDel, campDel, adDel] = await Promise.all([
@@ -40,14 +49,14 @@ export async function POST(request: NextRequest) {
     // Use sequential calls with rate limiting instead of parallel to prevent API overload
     console.log('[sync/network] Fetching advertisers with rate limiting...');
     const remoteAdvertisers = await withRateLimit(
-      () => broadstreetAPI.getAdvertisers(networkId),
+      () => api.getAdvertisers(networkId),
       2, // High priority
       `sync-advertisers-${networkId}`
     ).catch(() => []);
 
     console.log('[sync/network] Fetching zones with rate limiting...');
     const remoteZones = await withRateLimit(
-      () => broadstreetAPI.getZones(networkId),
+      () => api.getZones(networkId),
       2, // High priority
       `sync-zones-${networkId}`
     ).catch(() => []);
@@ -61,7 +70,7 @@ export async function POST(request: NextRequest) {
           const aid = (a as any).broadstreet_id ?? (a as any).id;
           if (typeof aid === 'number') {
             const campaigns = await withRateLimit(
-              () => broadstreetAPI.getCampaignsByAdvertiser(aid),
+              () => api.getCampaignsByAdvertiser(aid),
               1, // Normal priority
               `sync-campaigns-${aid}`
             ).catch(() => []);
@@ -76,7 +85,7 @@ export async function POST(request: NextRequest) {
 
     console.log('[sync/network] Fetching advertisements with rate limiting...');
     const remoteAds = await withRateLimit(
-      () => broadstreetAPI.getAdvertisements({ networkId }),
+      () => api.getAdvertisements({ networkId }),
       1, // Normal priority
       `sync-advertisements-${networkId}`
     ).catch(() => []);
@@ -98,12 +107,14 @@ export async function POST(request: NextRequest) {
       notes: (a as any).notes,
       admins: (a as any).admins,
       network_id: networkId,
+      connection_id: connection.id,
     }));
 
     const zoneDocs = (remoteZones as any[]).map((z) => ({
       broadstreet_id: (z as any).broadstreet_id ?? (z as any).id,
       name: (z as any).name,
       network_id: networkId,
+      connection_id: connection.id,
       alias: (z as any).alias,
       self_serve: (z as any).self_serve,
     }));
@@ -125,6 +136,7 @@ export async function POST(request: NextRequest) {
       paused: (c as any).paused,
       notes: (c as any).notes,
       network_id: networkId,
+      connection_id: connection.id,
     }));
 
     // Fetch placements for each campaign and embed
@@ -133,7 +145,7 @@ export async function POST(request: NextRequest) {
         const placedMap = new Map<number, any[]>();
         for (const c of campaignDocs) {
           const cid = c.broadstreet_id as number;
-          const placements = await broadstreetAPI.getPlacements(cid).catch(() => []);
+          const placements = await api.getPlacements(cid).catch(() => []);
           placedMap.set(cid, placements);
         }
         // Assign embedded placements
@@ -159,6 +171,7 @@ export async function POST(request: NextRequest) {
       active_placement: (a as any).active_placement,
       preview_url: (a as any).preview_url,
       network_id: networkId,
+      connection_id: connection.id,
     }));
 
     // Drop legacy unique indexes on `id` where present to avoid dup key on null
@@ -183,6 +196,9 @@ export async function POST(request: NextRequest) {
     if (advertiserDocs.length) await Advertiser.insertMany(advertiserDocs, { ordered: false }).catch(() => {});
     if (zoneDocs.length) await Zone.insertMany(zoneDocs, { ordered: false }).catch(() => {});
     if (campaignDocs.length) await Campaign.insertMany(campaignDocs, { ordered: false }).catch(() => {});
+    // Ads only name their advertiser; link them to the advertisers just inserted
+    const advertiserIds = await getAdvertiserIdsByName(networkId);
+    adDocs.forEach((ad: any) => { ad.advertiser_id = advertiserIds.get(ad.advertiser) ?? null; });
     if (adDocs.length) await Advertisement.insertMany(adDocs, { ordered: false }).catch(() => {});
 
     return NextResponse.json({
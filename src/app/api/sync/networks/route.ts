@@ -1,9 +1,15 @@
 import { NextResponse } from 'next/server';
 import { syncNetworks } from '@/lib/utils/sync-helpers';
+import { requirePermission } from '@/lib/server/authorization';
+import { apiConnectionService } from '@/lib/api-connection-service';
 
 export async function POST() {
+  const access = await requirePermission('sync:run');
+  if (access instanceof NextResponse) return access;
+
   try {
-    const result = await syncNetworks();
+    const connection = await apiConnectionService.resolveActive();
+    const result = await syncNetworks({ connection });
     
     if (result.success) {
       return NextResponse.json({
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSSEResponse, progressService } from '@/lib/progress-service';
+import { syncJobService } from '@/lib/sync-job-service';
+import { requirePermission } from '@/lib/server/authorization';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -103,6 +105,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('sync:run');
+  if (access instanceof NextResponse) return access;
+
   try {
     const body = await request.json();
     const { action, syncLogId, ...data } = body;
@@ -137,6 +142,8 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: true });
 
       case 'cancel':
+        // Stop the persisted job between entities, not just the in-memory progress
+        await syncJobService.requestCancelForSyncLog(syncLogId);
         progressService.cancelSync(syncLogId, data.reason);
         return NextResponse.json({ success: true });
 
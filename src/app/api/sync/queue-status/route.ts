@@ -1,21 +1,25 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { broadstreetRateLimiter } from '@/lib/rate-limiter';
+import { syncJobService } from '@/lib/sync-job-service';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const status = broadstreetRateLimiter.getQueueStatus();
+    // Live token buckets: why requests are waiting, and whether Broadstreet has been answering 429
+    const buckets = broadstreetRateLimiter.getStatus();
+
+    // Active and paused local-to-Broadstreet sync jobs (optionally for one network)
+    const networkParam = new URL(request.url).searchParams.get('networkId');
+    const networkId = networkParam ? parseInt(networkParam, 10) : undefined;
+    const jobs = await syncJobService.listJobs(['running', 'cancelling', 'paused'], networkId || undefined);
     
     return NextResponse.json({
       success: true,
       status: {
-        ...status,
-        nextRequestIn: status.canMakeRequest ? 0 : Math.max(0, 5000 - status.timeSinceLastRequest),
-        rateLimitInfo: {
-          requestsPerSecond: 0.2,
-          intervalBetweenRequests: 5000,
-          maxConcurrentRequests: 1
-        }
-      }
+        queueLength: buckets.reduce((total, bucket) => total + bucket.queueLength, 0),
+        activeRequests: buckets.reduce((total, bucket) => total + bucket.activeRequests, 0),
+        buckets
+      },
+      jobs
     });
   } catch (error) {
     console.error('Queue status error:', error);
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  reconciliationService,
+  isReconciliationEntityType,
+  ReconciliationDecisionInput
+} from '@/lib/reconciliation-service';
+import { requirePermission } from '@/lib/server/authorization';
+
+const RECONCILIATION_ACTIONS = ['link', 'rename', 'skip'];
+
+function parseNetworkId(value: unknown): number | undefined {
+  const networkId = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof networkId === 'number' && Number.isInteger(networkId) && networkId > 0 ? networkId : undefined;
+}
+
+// GET /api/sync/reconciliation?networkId= - Local drafts next to their closest Broadstreet matches
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const networkId = parseNetworkId(searchParams.get('networkId'));
+
+    if (!networkId) {
+      return NextResponse.json(
+        { error: 'Network ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const report = await reconciliationService.getReport(networkId);
+
+    return NextResponse.json({
+      success: true,
+      ...report
+    });
+  } catch (error) {
+    console.error('Error building reconciliation report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/sync/reconciliation - Save link / rename / skip decisions on local drafts
+export async function PUT(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const body = await request.json();
+    const networkId = parseNetworkId(body?.networkId);
+    const decisions = body?.decisions;
+
+    if (!networkId) {
+      return NextResponse.json(
+        { error: 'Network ID is required in JSON body' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(decisions) || decisions.length === 0) {
+      return NextResponse.json(
+        { error: 'decisions must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = decisions.find((d: any) =>
+      !isReconciliationEntityType(d?.entityType) ||
+      typeof d?.localId !== 'string' || !d.localId ||
+      (d.action !== null && !RECONCILIATION_ACTIONS.includes(d.action)) ||
+      (d.action === 'link' && !(Number.isInteger(d.targetBroadstreetId) && d.targetBroadstreetId > 0)) ||
+      (d.action === 'rename' && (typeof d.newName !== 'string' || !d.newName.trim()))
+    );
+    if (invalid) {
+      return NextResponse.json(
+        { error: 'Each decision needs entityType (advertiser, zone or campaign), localId and action (link with targetBroadstreetId, rename with newName, skip, or null to clear)' },
+        { status: 400 }
+      );
+    }
+
+    const inputs: ReconciliationDecisionInput[] = decisions.map((d: any) => ({
+      entityType: d.entityType,
+      localId: d.localId,
+      action: d.action,
+      targetBroadstreetId: d.targetBroadstreetId,
+      newName: d.newName,
+    }));
+
+    const results = await reconciliationService.saveDecisions(networkId, inputs);
+    const saved = results.filter(r => r.success).length;
+
+    return NextResponse.json({
+      success: saved === results.length,
+      saved,
+      failed: results.length - saved,
+      results
+    });
+  } catch (error) {
+    console.error('Error saving reconciliation decisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to save reconciliation decisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,21 @@
-import { NextRequest } from 'next/server';
-import { syncAll } from '@/lib/utils/sync-helpers';
+import { NextRequest, NextResponse } from 'next/server';
+import { DownloadSyncMode, DownloadSyncOptions } from '@/lib/utils/sync-helpers';
 import { clearAllZoneSelections } from '@/lib/utils/zone-selection-helpers';
 import { themeValidationService } from '@/lib/theme-validation-service';
+import { requirePermission } from '@/lib/server/authorization';
+import { apiConnectionService } from '@/lib/api-connection-service';
 
 export async function GET(request: NextRequest) {
+  // Incremental by default; full wipe-and-reload must be requested with ?mode=full
+  const mode: DownloadSyncMode = request.nextUrl.searchParams.get('mode') === 'full' ? 'full' : 'incremental';
+
+  // A full reload also deletes local drafts
+  const access = await requirePermission(mode === 'full' ? 'admin:destructive' : 'sync:run');
+  if (access instanceof NextResponse) return access;
+
+  // Download the account picked in the header; resolved here, while the request's cookies are readable
+  const connection = await apiConnectionService.resolveActive();
+
   // Set up Server-Sent Events response
   const encoder = new TextEncoder();
 
@@ -49,7 +61,7 @@ export async function GET(request: NextRequest) {
           // Send initial connection event
           sendEvent({
             phase: 'connecting',
-            message: 'Connecting to Broadstreet API...',
+            message: `Connecting to Broadstreet API (${connection.label})...`,
             progress: 0
           }, 'status');
 
@@ -63,7 +75,7 @@ export async function GET(request: NextRequest) {
           }, 'status');
 
           // Start the sync process with streaming updates
-          const result = await syncAllWithStreaming(sendEvent);
+          const result = await syncAllWithStreaming(sendEvent, { mode, connection });
 
           if (result.success) {
             // Trigger theme validation workflow in background (non-blocking)
@@ -82,6 +94,7 @@ export async function GET(request: NextRequest) {
               phase: 'completed',
               message: 'All data synced successfully',
               progress: 100,
+              mode,
               results: result.results,
               overallSuccess: result.success,
               themeValidationStarted: true
@@ -126,9 +139,9 @@ export async function GET(request: NextRequest) {
 }
 
 // Enhanced sync function with streaming progress updates
-async function syncAllWithStreaming(sendEvent: (data: any, event?: string) => void) {
+async function syncAllWithStreaming(sendEvent: (data: any, event?: string) => void, options: DownloadSyncOptions & { mode: DownloadSyncMode }) {
+  const { mode } = options;
   const results: Record<string, any> = {
-    cleanup: { success: false, count: 0 },
     networks: { success: false, count: 0 },
     advertisers: { success: false, count: 0 },
     zones: { success: false, count: 0 },
@@ -138,12 +151,13 @@ async function syncAllWithStreaming(sendEvent: (data: any, event?: string) => vo
   };
 
   const steps = [
-    { key: 'cleanup', name: 'Cleanup', weight: 10 },
-    { key: 'networks', name: 'Networks', weight: 15 },
+    // Wiping collections only happens on an explicit full reload
+    ...(mode === 'full' ? [{ key: 'cleanup', name: 'Cleanup', weight: 10 }] : []),
+    { key: 'networks', name: 'Networks', weight: mode === 'full' ? 15 : 20 },
     { key: 'advertisers', name: 'Advertisers', weight: 20 },
     { key: 'zones', name: 'Zones', weight: 20 },
     { key: 'campaigns', name: 'Campaigns', weight: 15 },
-    { key: 'advertisements', name: 'Advertisements', weight: 10 },
+    { key: 'advertisements', name: 'Advertisements', weight: mode === 'full' ? 10 : 15 },
     { key: 'placements', name: 'Placements', weight: 10 },
   ];
 
@@ -174,27 +188,27 @@ async function syncAllWithStreaming(sendEvent: (data: any, event?: string) => vo
         switch (step.key) {
           case 'cleanup':
             const { cleanupBroadstreetCollections } = await import('@/lib/utils/sync-helpers');
-            stepResult = await cleanupBroadstreetCollections();
+            stepResult = await cleanupBroadstreetCollections(options);
             break;
           case 'networks':
             const { syncNetworks } = await import('@/lib/utils/sync-helpers');
-            stepResult = await syncNetworks();
+            stepResult = await syncNetworks(options);
             break;
           case 'advertisers':
             const { syncAdvertisers } = await import('@/lib/utils/sync-helpers');
-            stepResult = await syncAdvertisers();
+            stepResult = await syncAdvertisers(options);
             break;
           case 'zones':
             const { syncZones } = await import('@/lib/utils/sync-helpers');
-            stepResult = await syncZones();
+            stepResult = await syncZones(options);
             break;
           case 'campaigns':
             const { syncCampaigns } = await import('@/lib/utils/sync-helpers');
-            stepResult = await syncCampaigns();
+            stepResult = await syncCampaigns(options);
             break;
           case 'advertisements':
             const { syncAdvertisements } = await import('@/lib/utils/sync-helpers');
-            stepResult = await syncAdvertisements();
+            stepResult = await syncAdvertisements(options);
             break;
           case 'placements':
             const { syncPlacements } = await import('@/lib/utils/sync-helpers');
@@ -208,7 +222,7 @@ async function syncAllWithStreaming(sendEvent: (data: any, event?: string) => vo
                 totalCampaigns,
                 campaignName
               }, 'step-progress');
-            });
+            }, options);
             break;
           default:
             stepResult = { success: false, count: 0, error: 'Unknown step' };
@@ -230,7 +244,7 @@ async function syncAllWithStreaming(sendEvent: (data: any, event?: string) => vo
         sendEvent({
           phase: step.key,
           message: stepResult.success
-            ? `${step.name} synced successfully (${stepResult.count} records)`
+            ? `${step.name} synced successfully (${stepResult.count} records${stepResult.removed ? `, ${stepResult.removed} removed in Broadstreet` : ''})`
             : `${step.name} sync failed: ${stepResult.error}`,
           progress: endProgress,
           currentStep: i + 1,
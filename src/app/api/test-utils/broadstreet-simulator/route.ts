@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSimulatorTransportEnabled } from '@/lib/broadstreet-api';
+import { BroadstreetSimulatorError, broadstreetSimulator } from '@/lib/broadstreet-simulator';
+import { requirePermission } from '@/lib/server/authorization';
+
+function unavailable(): NextResponse | null {
+  // Block in production for safety
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Forbidden in production' }, { status: 403 });
+  }
+  if (!isSimulatorTransportEnabled()) {
+    return NextResponse.json(
+      // simulator_enabled tells specs to skip; a bare 404 also comes from Clerk for signed-out calls
+      { error: 'The Broadstreet simulator is not enabled. Start the app with BROADSTREET_TRANSPORT=simulator', simulator_enabled: false },
+      { status: 404 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/test-utils/broadstreet-simulator
+ * Entity counts, active faults and the most recent requests the simulator answered
+ */
+export async function GET() {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
+  const blocked = unavailable();
+  if (blocked) return blocked;
+
+  return NextResponse.json({ simulator: broadstreetSimulator.getStatus() });
+}
+
+/**
+ * POST /api/test-utils/broadstreet-simulator
+ * Body: { reset?: boolean, faults?: Partial<SimulatorFaults> }. Reset runs first, so
+ * { reset: true, faults: {...} } starts a test from the seed data with the given faults.
+ */
+export async function POST(request: NextRequest) {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
+  const blocked = unavailable();
+  if (blocked) return blocked;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body.reset) {
+      broadstreetSimulator.reset();
+    }
+    if (body.faults !== undefined) {
+      if (!body.faults || typeof body.faults !== 'object' || Array.isArray(body.faults)) {
+        return NextResponse.json({ error: 'faults must be an object' }, { status: 400 });
+      }
+      broadstreetSimulator.setFaults(body.faults);
+    }
+
+    return NextResponse.json({ simulator: broadstreetSimulator.getStatus() });
+
+  } catch (error) {
+    if (error instanceof BroadstreetSimulatorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error configuring Broadstreet simulator:', error);
+    return NextResponse.json(
+      { error: 'Failed to configure Broadstreet simulator' },
+      { status: 500 }
+    );
+  }
+}
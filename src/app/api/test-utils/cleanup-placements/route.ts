@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import LocalCampaign from '@/lib/models/local-campaign';
 import Placement from '@/lib/models/placement';
+import { requirePermission } from '@/lib/server/authorization';
 
 type CleanupRequestBody = {
   campaign_id: number;
@@ -10,6 +11,9 @@ type CleanupRequestBody = {
 };
 
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('admin:destructive');
+  if (access instanceof NextResponse) return access;
+
   try {
     // Block in production for safety
     if (process.env.NODE_ENV === 'production') {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Theme from '@/lib/models/theme';
 import Zone from '@/lib/models/zone';
+import { requirePermission } from '@/lib/server/authorization';
 
 // GET /api/themes/[id] - Get theme with zones
 export async function GET(
@@ -44,6 +45,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
@@ -109,6 +113,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
     const { id } = await params;
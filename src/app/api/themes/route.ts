@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Theme from '@/lib/models/theme';
 import Zone from '@/lib/models/zone';
+import { requirePermission } from '@/lib/server/authorization';
 
 // GET /api/themes - List all themes with zone counts
 export async function GET() {
@@ -24,6 +25,9 @@ export async function GET() {
 
 // POST /api/themes - Create new theme
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     await connectDB();
 
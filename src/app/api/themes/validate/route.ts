@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { themeValidationService } from '@/lib/theme-validation-service';
+import { requirePermission } from '@/lib/server/authorization';
 
 /**
  * POST /api/themes/validate
  * Start theme validation process
  */
 export async function POST(request: NextRequest) {
+  const access = await requirePermission('entities:write');
+  if (access instanceof NextResponse) return access;
+
   try {
     console.log('[API] Starting theme validation...');
     
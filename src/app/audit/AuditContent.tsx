@@ -16,6 +16,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { UniversalEntityCard } from '@/components/ui/universal-entity-card';
 import { Search, Calendar, Users, Target, Globe, Trash2, AlertTriangle } from 'lucide-react';
+import SyncHistoryCard from './SyncHistoryCard';
+import { usePermissions } from '@/hooks/usePermissions';
 
 /**
  * Map audit entity to universal card props
@@ -105,6 +107,7 @@ export default function AuditContent({ initialData, searchParams }: { initialDat
   const [entityType, setEntityType] = useState(searchParams?.type || 'all');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const { can } = usePermissions();
   const router = useRouter();
 
   // Fetch audit data function
@@ -194,7 +197,7 @@ export default function AuditContent({ initialData, searchParams }: { initialDat
     <div className="space-y-6">
       {/* Delete All Button */}
       <div className="flex justify-end">
-        {summary && summary.total_synced > 0 && (
+        {can('admin:destructive') && summary && summary.total_synced > 0 && (
           <Button
             onClick={() => setShowDeleteConfirm(true)}
             variant="destructive"
@@ -260,6 +263,9 @@ export default function AuditContent({ initialData, searchParams }: { initialDat
         </div>
       )}
 
+      {/* Recent sync runs with "Retry failed" */}
+      <SyncHistoryCard />
+
       {/* Search and Filters */}
       <Card>
         <CardContent className="p-6">
@@ -0,0 +1,164 @@
+/**
+ * SYNC HISTORY - RECENT LOCAL SYNC RUNS
+ *
+ * Lists recent local-to-Broadstreet sync logs and offers "Retry failed" on runs
+ * whose failures can be re-run without syncing everything again.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import type { SyncRetryPlan, SyncRunSummary } from '@/lib/sync-retry-service';
+import { usePermissions } from '@/hooks/usePermissions';
+
+const STATUS_CLASSES: Record<string, string> = {
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  pending: 'bg-blue-100 text-blue-800',
+};
+
+function formatDateTime(value: string | Date) {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export default function SyncHistoryCard() {
+  const [logs, setLogs] = useState<SyncRunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
+
+  const loadLogs = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/sync/logs?limit=20');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sync history');
+      }
+      setLogs(data.logs || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLogs();
+  }, []);
+
+  const handleRetry = async (log: SyncRunSummary) => {
+    setRetryingId(log._id);
+    setError(null);
+    try {
+      const planResponse = await fetch(`/api/sync/logs/${log._id}/retry`);
+      const planData = await planResponse.json();
+      if (!planResponse.ok) {
+        throw new Error(planData.error || 'Failed to load failed operations');
+      }
+
+      const plan: SyncRetryPlan = planData.plan;
+      const names = plan.retryable.map(op => `• ${op.entityName} (${op.entityType}, ${op.errorCode})`).join('\n');
+      const leftOut = plan.notRetryable.length > 0
+        ? `\n\n${plan.notRetryable.length} other failure(s) need changes first and will not be retried.`
+        : '';
+      if (!confirm(`Retry ${plan.retryable.length} failed operation(s)?\n\n${names}${leftOut}`)) {
+        return;
+      }
+
+      const response = await fetch(`/api/sync/logs/${log._id}/retry`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Retry failed');
+      }
+
+      const { successfulSyncs, failedSyncs, skippedSyncs } = data.report;
+      alert(data.success
+        ? `Retry completed: ${successfulSyncs} synced${skippedSyncs ? `, ${skippedSyncs} skipped` : ''}.`
+        : `Retry finished with ${failedSyncs} error(s); ${successfulSyncs} synced.`);
+      await loadLogs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Sync History</CardTitle>
+          <CardDescription>Recent syncs of local drafts to Broadstreet</CardDescription>
+        </div>
+        <Button onClick={loadLogs} variant="outline" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {!loading && logs.length === 0 ? (
+          <p className="text-center py-4 text-gray-600">No syncs recorded yet</p>
+        ) : (
+          <div className="divide-y" data-testid="sync-history">
+            {logs.map(log => (
+              <div key={log._id} className="flex items-center justify-between gap-4 py-3" data-testid="sync-history-row">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{formatDateTime(log.startTime)}</span>
+                    <Badge variant="outline">{log.syncType === 'retry' ? 'Retry' : 'Full'}</Badge>
+                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[log.status] || STATUS_CLASSES.cancelled}`}>
+                      {log.status}
+                    </span>
+                    <span className="text-xs text-gray-500">Network {log.networkId}</span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {log.successfulEntities} synced, {log.failedEntities} failed
+                    {log.skippedEntities > 0 && `, ${log.skippedEntities} skipped`}
+                    {log.retryOfSyncLogId && (
+                      <span className="text-gray-400"> · retry of {log.retryOfSyncLogId.slice(-6)}</span>
+                    )}
+                  </p>
+                  {log.errorSummary && log.status !== 'success' && (
+                    <p className="mt-1 truncate text-xs text-red-600" title={log.errorSummary}>{log.errorSummary}</p>
+                  )}
+                </div>
+
+                {can('sync:run') && log.retryableCount > 0 && (
+                  <Button
+                    onClick={() => handleRetry(log)}
+                    variant="outline"
+                    size="sm"
+                    disabled={retryingId !== null}
+                    data-testid="sync-history-retry"
+                  >
+                    <RotateCcw className={`h-4 w-4 mr-2 ${retryingId === log._id ? 'animate-spin' : ''}`} />
+                    {retryingId === log._id ? 'Retrying...' : `Retry failed (${log.retryableCount})`}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
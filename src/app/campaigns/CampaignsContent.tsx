@@ -8,7 +8,7 @@
 
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useEntityStore, useAllFilters, useFilterActions } from '@/stores';
 import { useDeferredCampaignsFilter } from '@/lib/hooks/use-deferred-campaigns-filter';
@@ -17,6 +17,9 @@ import { SearchInput } from '@/components/ui/search-input';
 import { UniversalEntityCard } from '@/components/ui/universal-entity-card';
 import { FilterLoadingOverlay } from '@/components/ui/filter-loading-overlay';
 import { useFilterResetAfterDeletion } from '@/lib/utils/filter-reset-helpers';
+import EditCampaignModal from '@/components/campaigns/EditCampaignModal';
+import { AlertTriangle, Pencil } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
 
 // Type for campaign data from Zustand store
 type CampaignLean = {
@@ -30,6 +33,10 @@ type CampaignLean = {
   weight: number;
   max_impression_count?: number;
   notes?: string;
+  paused?: boolean;
+  archived?: boolean;
+  pacing_type?: 'asap' | 'even';
+  impression_max_type?: 'cap' | 'goal';
   display_type: 'no_repeat' | 'allow_repeat_campaign' | 'allow_repeat_advertisement' | 'force_repeat_campaign';
   path: string;
   created_locally?: boolean;
@@ -51,8 +58,11 @@ function mapCampaignToUniversalProps(
     isSelected: boolean;
     onSelect: (c: CampaignLean) => void;
     onDelete?: (c: CampaignLean) => void;
+    onEdit?: (c: CampaignLean) => void;
     onCopyZonesToTheme?: (campaignName: string, themeName: string, description?: string) => Promise<void>;
     parents: { network?: any; advertiser?: any };
+    // Linked to a fulfilled request whose contract dates it no longer matches
+    driftsFromContract?: boolean;
   }
 ) {
   const isLocal = !!(campaign.created_locally && !campaign.synced_with_api);
@@ -87,7 +97,14 @@ function mapCampaignToUniversalProps(
     onCardClick: () => params.onSelect(campaign),
     isLocal,
     onDelete: isLocal && params.onDelete ? () => params.onDelete!(campaign) : undefined,
+    // Only synced campaigns can be written back to Broadstreet
+    actionButtons: !isLocal && typeof campaign.broadstreet_id === 'number' && params.onEdit
+      ? [{ label: 'Edit', onClick: () => params.onEdit!(campaign), variant: 'outline' as const, icon: Pencil }]
+      : undefined,
     statusBadge: isActive ? { label: 'Running', variant: 'success' as const } : { label: 'Paused', variant: 'secondary' as const },
+    topTags: params.driftsFromContract
+      ? [{ label: 'Dates drift from contract', variant: 'destructive' as const, icon: AlertTriangle }]
+      : [],
     parentsBreadcrumb,
     displayData: [
       { label: 'Start Date', value: startDate, type: 'date' as const },
@@ -109,7 +126,7 @@ function mapCampaignToUniversalProps(
  */
 function CampaignsList() {
   // Get data from Zustand stores using exact names from docs/variable-origins.md registry
-  const { campaigns, isLoading } = useEntityStore();
+  const { campaigns, isLoading, updateEntity } = useEntityStore();
   const { selectedCampaign, selectedNetwork, selectedAdvertiser } = useAllFilters();
   const { setSelectedCampaign } = useFilterActions();
 
@@ -123,11 +140,31 @@ function CampaignsList() {
   };
   const [searchTerm, setSearchTerm] = useState('');
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [editingCampaign, setEditingCampaign] = useState<CampaignLean | null>(null);
+  const { can } = usePermissions();
+  const canWrite = can('entities:write');
+  const canManageRequests = can('requests:manage');
   const router = useRouter();
 
+  // Campaigns of fulfilled advertising requests whose dates differ from the contract
+  const [driftingCampaignIds, setDriftingCampaignIds] = useState<Set<number>>(new Set());
+  const [driftVersion, setDriftVersion] = useState(0);
+  useEffect(() => {
+    if (!canManageRequests) return;
+    fetch('/api/advertising-requests/schedule-drift')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data) {
+          setDriftingCampaignIds(new Set((data.requests || []).map((entry: { campaign_id: number }) => entry.campaign_id)));
+        }
+      })
+      .catch(error => console.error('Error loading campaign schedule drift:', error));
+  }, [canManageRequests, driftVersion]);
+
   // Use deferred filtering for better performance with loading states
   const { filteredCampaigns, isFiltering, filterCount } = useDeferredCampaignsFilter({
     campaigns,
+    selectedNetwork,
     selectedAdvertiser,
     searchTerm
   });
@@ -242,6 +279,18 @@ function CampaignsList() {
     }
   };
 
+  const handleCampaignSaved = (updated: CampaignLean) => {
+    if (!updated || typeof updated.broadstreet_id !== 'number') return;
+    updateEntity('campaigns', updated.broadstreet_id, updated);
+
+    // Keep the sidebar selection in sync with the edited record
+    if (String(getEntityId(selectedCampaign)) === String(updated.broadstreet_id)) {
+      setSelectedCampaign({ ...(selectedCampaign as any), ...updated });
+    }
+    setDriftVersion(version => version + 1);
+    router.refresh();
+  };
+
   // Handle copying zones from campaign to theme
   const handleCopyZonesToTheme = async (campaignName: string, themeName: string, description?: string) => {
     try {
@@ -318,9 +367,11 @@ function CampaignsList() {
                   {...mapCampaignToUniversalProps(campaign as any, {
                     isSelected,
                     onSelect: handleCampaignSelect,
-                    onDelete: handleDelete,
-                    onCopyZonesToTheme: handleCopyZonesToTheme,
+                    onDelete: canWrite ? handleDelete : undefined,
+                    onEdit: canWrite ? setEditingCampaign : undefined,
+                    onCopyZonesToTheme: canWrite ? handleCopyZonesToTheme : undefined,
                     parents: { network: entities.network, advertiser: entities.advertiser },
+                    driftsFromContract: typeof campaign.broadstreet_id === 'number' && driftingCampaignIds.has(campaign.broadstreet_id),
                   })}
                 />
               );
@@ -336,6 +387,12 @@ function CampaignsList() {
           />
         </div>
       )}
+
+      <EditCampaignModal
+        campaign={editingCampaign}
+        onClose={() => setEditingCampaign(null)}
+        onSaved={handleCampaignSaved}
+      />
     </div>
   );
 }
@@ -26,6 +26,7 @@ interface DashboardClientProps {
   initialCampaigns: any[];
   initialThemes: any[];
   initialEntityCounts: any;
+  defaultNetworkId: number | null;
   searchParams: any;
 }
 
@@ -40,6 +41,7 @@ export default function DashboardClient({
   initialCampaigns,
   initialThemes,
   initialEntityCounts,
+  defaultNetworkId,
   searchParams
 }: DashboardClientProps) {
   // Get store actions using exact names from docs/variable-origins.md registry
@@ -66,7 +68,7 @@ export default function DashboardClient({
     setThemes(initialThemes);
 
     // Set default network if none is selected (for smooth UX)
-    setDefaultNetworkIfNone(initialNetworks);
+    setDefaultNetworkIfNone(initialNetworks, defaultNetworkId);
 
     // Set filters from URL parameters if provided
     if (searchParams && Object.keys(searchParams).length > 0) {
@@ -80,6 +82,7 @@ export default function DashboardClient({
     initialZones,
     initialCampaigns,
     initialThemes,
+    defaultNetworkId,
     searchParams,
     setNetworks,
     setAdvertisers,
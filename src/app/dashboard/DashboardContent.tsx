@@ -132,10 +132,10 @@ export default function DashboardContent({ entityCounts }: DashboardContentProps
     try {
       setIsRefreshing(true);
 
-      // Get network ID from selected network, default to 9396
-      const networkId = (selectedNetwork as any)?.broadstreet_id || 9396;
+      // Get network ID from selected network; the API falls back to the connection's default
+      const networkId = (selectedNetwork as any)?.broadstreet_id;
 
-      const url = `/api/dashboard/entity-counts?network=${networkId}`;
+      const url = networkId ? `/api/dashboard/entity-counts?network=${networkId}` : '/api/dashboard/entity-counts';
       const response = await fetch(url);
       if (response.ok) {
         const freshCounts = await response.json();
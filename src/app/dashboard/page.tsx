@@ -1,5 +1,6 @@
 import { Suspense } from 'react';
 import { fetchNetworks, fetchAdvertisers, fetchZones, fetchCampaigns, fetchThemes, getEntityCounts } from '@/lib/server/data-fetchers';
+import { apiConnectionService } from '@/lib/api-connection-service';
 import DashboardClient from './DashboardClient';
 import LoadingSkeleton from './LoadingSkeleton';
 
@@ -21,18 +22,22 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
   const params = await searchParams;
 
   // 2. Parse parameters with default network fallback
-  // Default to network 9396 (FASH Medien Verlag GmbH - SCHWULISSIMO) for smooth UX
-  const networkId = params.network ? parseInt(params.network) : 9396;
+  // Default to the active connection's default network, else its first network, for smooth UX
+  const [connection, networks] = await Promise.all([
+    apiConnectionService.resolveActive(),
+    fetchNetworks(),
+  ]);
+  const defaultNetworkId = connection.default_network_id ?? networks[0]?.broadstreet_id ?? null;
+  const networkId = params.network ? parseInt(params.network) : defaultNetworkId ?? undefined;
   const advertiserId = params.advertiser ? parseInt(params.advertiser) : undefined;
   const page = parseInt(params.page || '1');
   const limit = parseInt(params.limit || '20');
 
   // 3. Fetch data based on parameters
-  const [networks, advertisers, zones, campaigns, themes, entityCounts] = await Promise.all([
-    fetchNetworks(),
+  const [advertisers, zones, campaigns, themes, entityCounts] = await Promise.all([
     fetchAdvertisers(networkId),
     fetchZones(networkId),
-    fetchCampaigns(advertiserId, { networkId: networkId.toString() }),
+    fetchCampaigns(advertiserId, { networkId: networkId?.toString() }),
     fetchThemes(),
     getEntityCounts(networkId),
   ]);
@@ -57,6 +62,7 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
           initialCampaigns={campaigns}
           initialThemes={themes}
           initialEntityCounts={entityCounts}
+          defaultNetworkId={defaultNetworkId}
           searchParams={params}
         />
       </Suspense>
@@ -8,26 +8,29 @@
 
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAllFilters } from '@/stores';
 import { Button } from '@/components/ui/button';
 
 
 import { ProgressModal, useSyncProgress } from '@/components/ui/progress-modal';
-import { X, Upload, Trash2, Calendar, Globe, Users, Target, Image, FileText } from 'lucide-react';
+import { X, Upload, Trash2, Calendar, Globe, Users, Target, Image, FileText, GitCompare, PlayCircle } from 'lucide-react';
 
 import { useAllEntities } from '@/stores';
 import { useFilterResetAfterDeletion } from '@/lib/utils/filter-reset-helpers';
 import PaginatedEntitySection from '@/components/local-only/PaginatedEntitySection';
 import PaginatedPlacementSection from '@/components/local-only/PaginatedPlacementSection';
+import { usePermissions } from '@/hooks/usePermissions';
+import ReconciliationDialog from '@/components/local-only/ReconciliationDialog';
 import { DEFAULT_PAGINATION_CONFIGS } from '@/lib/hooks/use-paginated-entities';
 import {
   LocalZoneEntity,
   LocalAdvertiserEntity,
   LocalCampaignEntity,
   LocalNetworkEntity,
-  LocalAdvertisementEntity
+  LocalAdvertisementEntity,
+  ReconciliationDecision
 } from '@/lib/types/database-models';
 
 
@@ -42,6 +45,32 @@ type LocalEntityWithType =
 
 // No props needed - component reads from Zustand stores
 
+// Paused sync job as listed by /api/sync/queue-status
+interface PausedSyncJob {
+  _id: string;
+  networkId: number;
+  pausedReason?: 'cancelled' | 'interrupted';
+  startedAt: string;
+  runCount: number;
+  processedEntities: number;
+  successfulEntities: number;
+  failedEntities: number;
+  skippedEntities: number;
+}
+
+function getReconciliationTag(decision?: ReconciliationDecision) {
+  switch (decision?.action) {
+    case 'link':
+      return { label: `Link to #${decision.target_broadstreet_id}`, variant: 'outline' as const };
+    case 'rename':
+      return { label: `Renamed from ${decision.previous_name}`, variant: 'outline' as const };
+    case 'skip':
+      return { label: 'Skipped', variant: 'outline' as const };
+    default:
+      return null;
+  }
+}
+
 function mapLocalEntityToCardProps(
   entity: LocalEntityWithType,
   params: {
@@ -85,7 +114,10 @@ function mapLocalEntityToCardProps(
     mongo_id: entity.mongo_id ?? entity._id,
     entityType: (entity.type as any),
     isLocal: true,
-    topTags: entity.type ? [{ label: entity.type, variant: 'secondary' as const }] : [],
+    topTags: [
+      ...(entity.type ? [{ label: entity.type, variant: 'secondary' as const }] : []),
+      ...[getReconciliationTag((entity as any).reconciliation)].filter(tag => tag !== null),
+    ],
     parentsBreadcrumb,
     displayData,
     showCheckbox: true,
@@ -147,9 +179,15 @@ export default function LocalOnlyDashboard() {
   };
 
   const [isDeletingAll, setIsDeletingAll] = useState(false);
+  const { can } = usePermissions();
   const [showDeleteAllConfirm, setShowDeleteAllConfirm] = useState(false);
   const [isDeletingSection, setIsDeletingSection] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [syncAfterReconciliation, setSyncAfterReconciliation] = useState(false);
+  const [pausedJobs, setPausedJobs] = useState<PausedSyncJob[]>([]);
+  const [jobActionId, setJobActionId] = useState<string | null>(null);
+  const [isCancellingSync, setIsCancellingSync] = useState(false);
   
   // Enhanced sync progress management
   const {
@@ -171,6 +209,27 @@ export default function LocalOnlyDashboard() {
   // Get selected network from filter store using new Zustand pattern
   const { selectedNetwork } = useAllFilters();
 
+  const selectedNetworkId = selectedNetwork?.broadstreet_id;
+
+  const loadPausedJobs = useCallback(async () => {
+    if (!selectedNetworkId) {
+      setPausedJobs([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/sync/queue-status?networkId=${selectedNetworkId}`);
+      if (!response.ok) return;
+      const result = await response.json();
+      setPausedJobs((result.jobs || []).filter((job: any) => job.status === 'paused'));
+    } catch (error) {
+      console.warn('[LocalOnly] Failed to load paused sync jobs:', error);
+    }
+  }, [selectedNetworkId]);
+
+  useEffect(() => {
+    loadPausedJobs();
+  }, [loadPausedJobs]);
+
   // Count embedded placements within campaigns
   const embeddedPlacementsCount = data.campaigns.reduce((total, campaign) => {
     return total + (Array.isArray((campaign as any).placements) ? (campaign as any).placements.length : 0);
@@ -310,6 +369,43 @@ export default function LocalOnlyDashboard() {
       return;
     }
 
+    if (!selectedNetwork) {
+      alert('Please select a network in the sidebar before syncing');
+      return;
+    }
+
+    // Drafts that match an existing Broadstreet entity need a decision before syncing
+    try {
+      const response = await fetch(`/api/sync/reconciliation?networkId=${selectedNetwork.broadstreet_id}`);
+      if (response.ok) {
+        const reconciliation = await response.json();
+        if (reconciliation.unresolvedConflicts > 0) {
+          setSyncAfterReconciliation(true);
+          setShowReconciliation(true);
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn('[LocalOnly] Reconciliation check failed, continuing with sync:', error);
+    }
+
+    await runSync();
+  };
+
+  const handleReconciliationClose = () => {
+    setShowReconciliation(false);
+    setSyncAfterReconciliation(false);
+    router.refresh();
+  };
+
+  const handleReconciliationContinue = () => {
+    setShowReconciliation(false);
+    setSyncAfterReconciliation(false);
+    runSync();
+  };
+
+  // Start a new sync job, or continue a paused one from its last checkpoint
+  const runSync = async (resumeJobId?: string) => {
     // Initialize progress modal with entity counts for the selected network
     if (!selectedNetwork) {
       alert('Please select a network in the sidebar before syncing');
@@ -341,24 +437,39 @@ export default function LocalOnlyDashboard() {
       const networkId = selectedNetwork.broadstreet_id;
       console.info('[LocalOnly] Starting sync for network:', networkId);
 
-      const response = await fetch('/api/sync/local-all', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ networkId }),
-      });
-      console.info('[LocalOnly] Sent sync request for network:', networkId);
+      const response = resumeJobId
+        ? await fetch(`/api/sync/jobs/${resumeJobId}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'resume' }),
+          })
+        : await fetch('/api/sync/local-all', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ networkId }),
+          });
+      console.info('[LocalOnly] Sent sync request for network:', networkId, resumeJobId ? `(resuming job ${resumeJobId})` : '');
 
       if (!response.ok) {
-        throw new Error('Failed to sync entities');
+        const errorBody = await response.json().catch(() => ({}));
+        throw new Error(errorBody.error || 'Failed to sync entities');
       }
 
       const result = await response.json();
+
+      if (result.cancelled) {
+        setStepCompleted('dry-run', 'Sync stopped before finishing');
+        completeSync(false, ['Sync cancelled. Entities synced so far are kept; resume the paused sync to continue.']);
+        loadPausedJobs();
+        return;
+      }
       
       // Update dry run step
-      if (result.nameConflicts && result.nameConflicts.length > 0) {
-        setStepCompleted('dry-run', `Found and resolved ${result.nameConflicts.length} name conflicts`);
+      const unresolvedConflicts = result.dryRun?.conflicts?.length || 0;
+      if (unresolvedConflicts > 0) {
+        setStepCompleted('dry-run', `${unresolvedConflicts} name conflicts without a reconciliation decision`);
       } else {
-        setStepCompleted('dry-run', 'No name conflicts found');
+        setStepCompleted('dry-run', 'No unresolved name conflicts');
       }
 
       // Handle the new workflow response format
@@ -419,6 +530,9 @@ export default function LocalOnlyDashboard() {
 
       // Create a comprehensive completion message
       let completionMessage = 'Sync completed';
+      if (result.report?.skippedSyncs > 0) {
+        completionMessage += `, skipped ${result.report.skippedSyncs} entities`;
+      }
       if (result.cleanup?.totalDeleted > 0) {
         completionMessage += `, cleaned up ${result.cleanup.totalDeleted} local entities`;
       }
@@ -433,6 +547,73 @@ export default function LocalOnlyDashboard() {
       console.error('Error syncing entities:', error);
       setStepFailed('dry-run', error instanceof Error ? error.message : 'Unknown error occurred');
       completeSync(false, [error instanceof Error ? error.message : 'Unknown error occurred']);
+    } finally {
+      setIsCancellingSync(false);
+      loadPausedJobs();
+    }
+  };
+
+  const handleCancelSync = async () => {
+    if (!selectedNetwork) return;
+    setIsCancellingSync(true);
+    try {
+      const statusResponse = await fetch(`/api/sync/queue-status?networkId=${selectedNetwork.broadstreet_id}`);
+      const status = await statusResponse.json();
+      const runningJob = (status.jobs || []).find((job: any) => job.status === 'running' || job.status === 'cancelling');
+      if (!runningJob) {
+        throw new Error('No running sync found for this network');
+      }
+
+      const response = await fetch(`/api/sync/jobs/${runningJob._id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' }),
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({}));
+        throw new Error(errorBody.error || 'Failed to cancel sync');
+      }
+      // The sync request returns once the entity in progress is finished
+    } catch (error) {
+      console.error('Error cancelling sync:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel sync');
+      setIsCancellingSync(false);
+    }
+  };
+
+  const handleResumeJob = async (jobId: string) => {
+    if (!confirm(`Resume the paused sync? Entities already synced are kept; ${totalEntities} local entities remain.`)) {
+      return;
+    }
+    setJobActionId(jobId);
+    try {
+      await runSync(jobId);
+    } finally {
+      setJobActionId(null);
+    }
+  };
+
+  const handleDiscardJob = async (jobId: string) => {
+    if (!confirm('Discard this paused sync? Local entities stay as they are and can be synced again later.')) {
+      return;
+    }
+    setJobActionId(jobId);
+    try {
+      const response = await fetch(`/api/sync/jobs/${jobId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'discard' }),
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({}));
+        throw new Error(errorBody.error || 'Failed to discard sync');
+      }
+      await loadPausedJobs();
+    } catch (error) {
+      console.error('Error discarding sync job:', error);
+      alert(error instanceof Error ? error.message : 'Failed to discard sync');
+    } finally {
+      setJobActionId(null);
     }
   };
 
@@ -443,7 +624,7 @@ export default function LocalOnlyDashboard() {
 
   const handleSyncRetry = () => {
     setProgressModalOpen(false);
-    handleSyncAll();
+    runSync();
   };
 
   const handleDeleteAll = async () => {
@@ -544,15 +725,28 @@ export default function LocalOnlyDashboard() {
             </p>
           </div>
           <div className="flex space-x-3">
-            <Button
-              onClick={handleSyncAll}
-              disabled={isProgressModalOpen || isDeletingAll}
-              className="bg-blue-600 hover:bg-blue-700 text-white"
-              data-testid="sync-all-button"
-            >
-              <Upload className="h-4 w-4 mr-2" />
-              Sync All to Broadstreet
-            </Button>
+            {can('sync:run') && (
+              <Button
+                onClick={handleSyncAll}
+                disabled={isProgressModalOpen || isDeletingAll}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                data-testid="sync-all-button"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Sync All to Broadstreet
+              </Button>
+            )}
+            {can('sync:run') && (
+              <Button
+                onClick={() => setShowReconciliation(true)}
+                disabled={isProgressModalOpen || isDeletingAll || !selectedNetwork}
+                variant="outline"
+                data-testid="review-matches-button"
+              >
+                <GitCompare className="h-4 w-4 mr-2" />
+                Review Matches
+              </Button>
+            )}
             <Button
               onClick={() => router.push('/audit')}
               variant="outline"
@@ -562,20 +756,59 @@ export default function LocalOnlyDashboard() {
               <FileText className="h-4 w-4 mr-2" />
               View Audit Trail
             </Button>
-            <Button
-              onClick={handleDeleteAll}
-              disabled={isProgressModalOpen || isDeletingAll || totalEntities === 0}
-              variant="destructive"
-              className="bg-red-600 hover:bg-red-700 text-white"
-              data-testid="delete-all-button"
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              {isDeletingAll ? 'Deleting...' : 'Delete All Local'}
-            </Button>
+            {can('admin:destructive') && (
+              <Button
+                onClick={handleDeleteAll}
+                disabled={isProgressModalOpen || isDeletingAll || totalEntities === 0}
+                variant="destructive"
+                className="bg-red-600 hover:bg-red-700 text-white"
+                data-testid="delete-all-button"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {isDeletingAll ? 'Deleting...' : 'Delete All Local'}
+              </Button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Paused sync jobs (cancelled or interrupted) */}
+      {can('sync:run') && pausedJobs.length > 0 && (
+        <div className="bg-yellow-50 rounded-lg border border-yellow-200 p-4 space-y-3" data-testid="paused-sync-jobs">
+          <h3 className="text-sm font-semibold text-yellow-900">Paused syncs</h3>
+          {pausedJobs.map(job => (
+            <div key={job._id} className="flex items-center justify-between gap-4 text-sm">
+              <div className="text-yellow-900">
+                Started {new Date(job.startedAt).toLocaleString()}
+                {' · '}
+                {job.pausedReason === 'interrupted' ? 'interrupted (server stopped)' : 'cancelled'}
+                {' · '}
+                {job.successfulEntities} synced, {job.failedEntities} failed, {job.skippedEntities} skipped
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleResumeJob(job._id)}
+                  disabled={isProgressModalOpen || jobActionId !== null}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <PlayCircle className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDiscardJob(job._id)}
+                  disabled={isProgressModalOpen || jobActionId !== null}
+                >
+                  Discard
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Entity Sections with Pagination */}
       <PaginatedEntitySection
         title="Zones"
@@ -585,7 +818,7 @@ export default function LocalOnlyDashboard() {
         onDelete={handleDelete}
         selectedIds={selectedIds}
         onToggleSelection={toggleSelection}
-        onDeleteSection={() => handleDeleteSection('zones')}
+        onDeleteSection={can('entities:write') ? () => handleDeleteSection('zones') : undefined}
         isDeletingSection={isDeletingSection === 'zones'}
         paginationConfig={DEFAULT_PAGINATION_CONFIGS.zones}
         mapEntityToCardProps={mapLocalEntityToCardProps}
@@ -599,7 +832,7 @@ export default function LocalOnlyDashboard() {
         onDelete={handleDelete}
         selectedIds={selectedIds}
         onToggleSelection={toggleSelection}
-        onDeleteSection={() => handleDeleteSection('advertisers')}
+        onDeleteSection={can('entities:write') ? () => handleDeleteSection('advertisers') : undefined}
         isDeletingSection={isDeletingSection === 'advertisers'}
         paginationConfig={DEFAULT_PAGINATION_CONFIGS.advertisers}
         mapEntityToCardProps={mapLocalEntityToCardProps}
@@ -613,7 +846,7 @@ export default function LocalOnlyDashboard() {
         onDelete={handleDelete}
         selectedIds={selectedIds}
         onToggleSelection={toggleSelection}
-        onDeleteSection={() => handleDeleteSection('campaigns')}
+        onDeleteSection={can('entities:write') ? () => handleDeleteSection('campaigns') : undefined}
         isDeletingSection={isDeletingSection === 'campaigns'}
         paginationConfig={DEFAULT_PAGINATION_CONFIGS.campaigns}
         mapEntityToCardProps={mapLocalEntityToCardProps}
@@ -627,7 +860,7 @@ export default function LocalOnlyDashboard() {
         onDelete={handleDelete}
         selectedIds={selectedIds}
         onToggleSelection={toggleSelection}
-        onDeleteSection={() => handleDeleteSection('networks')}
+        onDeleteSection={can('entities:write') ? () => handleDeleteSection('networks') : undefined}
         isDeletingSection={isDeletingSection === 'networks'}
         paginationConfig={DEFAULT_PAGINATION_CONFIGS.networks}
         mapEntityToCardProps={mapLocalEntityToCardProps}
@@ -641,7 +874,7 @@ export default function LocalOnlyDashboard() {
         onDelete={handleDelete}
         selectedIds={selectedIds}
         onToggleSelection={toggleSelection}
-        onDeleteSection={() => handleDeleteSection('advertisements')}
+        onDeleteSection={can('entities:write') ? () => handleDeleteSection('advertisements') : undefined}
         isDeletingSection={isDeletingSection === 'advertisements'}
         paginationConfig={DEFAULT_PAGINATION_CONFIGS.advertisements}
         mapEntityToCardProps={mapLocalEntityToCardProps}
@@ -656,7 +889,7 @@ export default function LocalOnlyDashboard() {
           networkMap={networkMap}
           advertiserMap={advertiserMap}
           allLocalEntities={data}
-          onDeleteSection={() => handleDeleteSection('placements')}
+          onDeleteSection={can('entities:write') ? () => handleDeleteSection('placements') : undefined}
           isDeletingSection={isDeletingSection === 'placements'}
           paginationConfig={DEFAULT_PAGINATION_CONFIGS.placements}
           isEmbedded={true}
@@ -674,7 +907,7 @@ export default function LocalOnlyDashboard() {
           advertiserMap={advertiserMap}
           allLocalEntities={data}
           onDelete={handleDelete}
-          onDeleteSection={() => handleDeleteSection('placements')}
+          onDeleteSection={can('entities:write') ? () => handleDeleteSection('placements') : undefined}
           isDeletingSection={isDeletingSection === 'placements'}
           paginationConfig={DEFAULT_PAGINATION_CONFIGS.placements}
           isEmbedded={false}
@@ -683,6 +916,13 @@ export default function LocalOnlyDashboard() {
         />
       )}
 
+      <ReconciliationDialog
+        networkId={selectedNetwork?.broadstreet_id ?? null}
+        isOpen={showReconciliation}
+        onClose={handleReconciliationClose}
+        onContinueSync={syncAfterReconciliation ? handleReconciliationContinue : undefined}
+      />
+
       {/* Progress Modal */}
       <ProgressModal
         isOpen={isProgressModalOpen}
@@ -695,6 +935,8 @@ export default function LocalOnlyDashboard() {
         hasErrors={hasErrors}
         onRetry={handleSyncRetry}
         onConfirm={handleSyncComplete}
+        onCancel={handleCancelSync}
+        isCancelling={isCancellingSync}
         data-testid="progress-modal"
       />
     </div>
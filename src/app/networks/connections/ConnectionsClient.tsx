@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+
+interface ApiConnection {
+  id: string | null;
+  label: string;
+  token_hint: string;
+  base_url?: string;
+  default_network_id: number | null;
+  is_default: boolean;
+  needs_token: boolean;
+  network_count: number;
+}
+
+interface ConnectionForm {
+  label: string;
+  token: string;
+  base_url: string;
+  default_network_id: string;
+  is_default: boolean;
+}
+
+const EMPTY_FORM: ConnectionForm = { label: '', token: '', base_url: '', default_network_id: '', is_default: false };
+
+/**
+ * Connections Client Component
+ * Add, edit and remove Broadstreet API connections. Tokens are write-only: they are
+ * verified with Broadstreet on save and only their last characters are shown.
+ */
+export default function ConnectionsClient() {
+  const { can, isLoaded } = usePermissions();
+  const [connections, setConnections] = useState<ApiConnection[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // null: form closed, 'new': adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const editingConnection = connections.find(connection => connection.id === editing);
+  const tokenRequired = editing === 'new' || editingConnection?.needs_token === true;
+  const [form, setForm] = useState<ConnectionForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadConnections = useCallback(async () => {
+    try {
+      const response = await fetch('/api/connections');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load connections');
+      }
+      setConnections(data.connections || []);
+      setActiveId(data.activeConnectionId ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load connections');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConnections();
+  }, [loadConnections]);
+
+  const startAdd = () => {
+    setEditing('new');
+    setForm(EMPTY_FORM);
+    setError(null);
+    setMessage(null);
+  };
+
+  const startEdit = (connection: ApiConnection) => {
+    if (!connection.id) return;
+    setEditing(connection.id);
+    setForm({
+      label: connection.label,
+      token: '',
+      base_url: connection.base_url || '',
+      default_network_id: connection.default_network_id ? String(connection.default_network_id) : '',
+      is_default: connection.is_default,
+    });
+    setError(null);
+    setMessage(null);
+  };
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed (${response.status})`);
+    }
+    return data;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const payload = {
+        label: form.label,
+        token: form.token || undefined,
+        base_url: form.base_url,
+        default_network_id: form.default_network_id || null,
+        is_default: form.is_default,
+      };
+      if (editing === 'new') {
+        await request('/api/connections', 'POST', payload);
+        setMessage(`Connection "${form.label}" added. Run a sync while it is selected to load its data.`);
+      } else {
+        await request(`/api/connections/${editing}`, 'PATCH', payload);
+        setMessage(`Connection "${form.label}" saved`);
+      }
+      setEditing(null);
+      await loadConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save connection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (connection: ApiConnection) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await request(`/api/connections/${connection.id}`, 'PATCH', { is_default: true });
+      setMessage(`"${connection.label}" is now the default connection`);
+      await loadConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the default connection');
+    }
+  };
+
+  const handleDelete = async (connection: ApiConnection) => {
+    if (!confirm(`Delete "${connection.label}"? Its ${connection.network_count} networks and all advertisers, zones, campaigns, ads, placements and cached reports synced with it are removed from this app. Nothing is deleted in Broadstreet.`)) {
+      return;
+    }
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await request(`/api/connections/${connection.id}`, 'DELETE');
+      setMessage(data.message);
+      await loadConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete connection');
+    }
+  };
+
+  if (isLoaded && !can('connections:manage')) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+        Only admins can manage API connections.
+      </div>
+    );
+  }
+
+  const usesEnvironment = connections.length === 1 && connections[0].id === null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Connections</CardTitle>
+            <CardDescription>
+              Networks belong to the connection that synced them, and work on a network always uses that connection&apos;s token. The connection picked in the header decides which networks are shown and which account syncs and reports use. Tokens are stored encrypted with <code>API_CONNECTION_SECRET</code>.
+            </CardDescription>
+          </div>
+          <Button onClick={startAdd} disabled={editing !== null} data-testid="connection-add">
+            <Plus className="w-4 h-4 mr-1" />
+            Add connection
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-700">{message}</div>
+        )}
+        {usesEnvironment && (
+          <p className="text-sm text-gray-600">
+            No connections are stored, so the app uses <code>BROADSTREET_API_TOKEN</code>. The first connection you add becomes the default and replaces it.
+          </p>
+        )}
+
+        {editing !== null && (
+          <form onSubmit={handleSave} className="space-y-3 rounded border border-gray-200 p-4" data-testid="connection-form">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="connection-label">Label</Label>
+                <Input
+                  id="connection-label"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  placeholder="e.g. Gazette"
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="connection-token">API token</Label>
+                <Input
+                  id="connection-token"
+                  type="password"
+                  autoComplete="off"
+                  value={form.token}
+                  onChange={(e) => setForm({ ...form, token: e.target.value })}
+                  placeholder={tokenRequired ? '' : 'Leave empty to keep the current token'}
+                  required={tokenRequired}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="connection-default-network">Default network ID</Label>
+                <Input
+                  id="connection-default-network"
+                  type="number"
+                  min={1}
+                  value={form.default_network_id}
+                  onChange={(e) => setForm({ ...form, default_network_id: e.target.value })}
+                  placeholder="First network"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="connection-base-url">API base URL</Label>
+                <Input
+                  id="connection-base-url"
+                  value={form.base_url}
+                  onChange={(e) => setForm({ ...form, base_url: e.target.value })}
+                  placeholder="BROADSTREET_API_BASE_URL"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="connection-is-default"
+                checked={form.is_default}
+                onCheckedChange={(checked) => setForm({ ...form, is_default: checked === true })}
+              />
+              <Label htmlFor="connection-is-default">Default connection</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button type="submit" disabled={isSaving} data-testid="connection-save">
+                {isSaving ? 'Verifying token...' : 'Save'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading connections...</p>
+        ) : (
+          <div className="rounded border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Label</th>
+                  <th className="px-3 py-2 font-medium">Token</th>
+                  <th className="px-3 py-2 font-medium">Default network</th>
+                  <th className="px-3 py-2 font-medium">Networks</th>
+                  <th className="px-3 py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {connections.map(connection => (
+                  <tr key={connection.id ?? 'environment'} className="border-t border-gray-100" data-testid="connection-row">
+                    <td className="px-3 py-2">
+                      <span className="font-medium text-gray-900">{connection.label}</span>
+                      {connection.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                      {connection.id === activeId && <Badge variant="outline" className="ml-2">Active</Badge>}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {connection.token_hint}
+                      {connection.needs_token && (
+                        <Badge
+                          variant="destructive"
+                          className="ml-2 font-sans"
+                          title="API_CONNECTION_SECRET is missing or was changed, so the stored token can't be read. Edit the connection and enter the token again."
+                        >
+                          Re-enter token
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{connection.default_network_id ?? '—'}</td>
+                    <td className="px-3 py-2">{connection.network_count}</td>
+                    <td className="px-3 py-2">
+                      {connection.id && (
+                        <div className="flex justify-end space-x-1">
+                          {!connection.is_default && (
+                            <Button variant="ghost" size="sm" onClick={() => handleMakeDefault(connection)} title="Make default">
+                              <Star className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => startEdit(connection)} disabled={editing !== null} title="Edit">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(connection)} title="Delete">
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import ConnectionsClient from './ConnectionsClient';
+
+/**
+ * Connections Page - Broadstreet API tokens this deployment can use
+ * Admin only; the list loads client-side so it follows the switcher in the header
+ */
+export default function ConnectionsPage() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">API Connections</h1>
+          <p className="card-text text-gray-600 mt-1">
+            Broadstreet accounts this deployment works with, one API token each
+          </p>
+        </div>
+      </div>
+
+      <ConnectionsClient />
+    </div>
+  );
+}
@@ -3,8 +3,13 @@
 import { useState, useMemo } from 'react';
 import { SearchInput } from '@/components/ui/search-input';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { UniversalEntityCard } from '@/components/ui/universal-entity-card';
 import { isEntitySynced } from '@/lib/utils/entity-helpers';
+import RemovePlacementsDialog, { PlacementRemovalItem } from '@/components/placements/RemovePlacementsDialog';
+import { Trash2, Smartphone } from 'lucide-react';
+import { PLACEMENT_RESTRICTIONS, PLACEMENT_RESTRICTION_LABELS, isPlacementRestriction, getPlacementRestrictionKey } from '@/lib/utils/placement-restrictions';
+import { usePermissions } from '@/hooks/usePermissions';
 
 // Client-side version of isLocalEntity using centralized utility
 function isLocalEntity(entity: any): boolean {
@@ -59,12 +64,37 @@ type PlacementLean = {
   } | null;
 };
 
+// Synced placements live in Campaign.placements with all three Broadstreet IDs
+function isRemotePlacement(placement: PlacementLean): boolean {
+  return placement.source === 'synced_embedded' &&
+    typeof placement.campaign_id === 'number' &&
+    typeof placement.advertisement_id === 'number' &&
+    typeof placement.zone_id === 'number';
+}
+
+function getRemotePlacementKey(placement: PlacementLean): string {
+  return `${placement.campaign_id}-${placement.advertisement_id}-${placement.zone_id}`;
+}
+
+function toRemovalItem(placement: PlacementLean): PlacementRemovalItem {
+  return {
+    key: getRemotePlacementKey(placement),
+    campaignName: placement.campaign?.name ?? `Campaign ${placement.campaign_id}`,
+    zoneName: placement.zone?.name ?? `Zone ${placement.zone_id}`,
+    advertisementName: placement.advertisement?.name ?? `Advertisement ${placement.advertisement_id}`,
+  };
+}
+
 // Map placement to universal card props
 function mapPlacementToUniversalProps(
   placement: PlacementLean,
   params: {
     onDelete: (p: PlacementLean) => void;
     deletingIds: Set<string>;
+    isSelected: boolean;
+    onToggleSelect: (p: PlacementLean) => void;
+    onRemoveRemote: (p: PlacementLean[]) => void;
+    canWrite: boolean;
   }
 ) {
   const startDate = placement.campaign?.start_date ? new Date(placement.campaign.start_date) : undefined;
@@ -79,7 +109,7 @@ function mapPlacementToUniversalProps(
   const isLocalPlacement = placement.source === 'local_collection' || placement.source === 'local_embedded';
   const isLocal = isLocalCampaign || isLocalZone || hasLocalZoneId || hasLocalCampaignId || isLocalPlacement;
 
-  const placementId = `${placement.advertisement_id}-${placement.zone_id || placement.zone_mongo_id || ''}`;
+  const placementId = `${placement.advertisement_id}-${placement.zone_id || placement.zone_mongo_id || ''}-${getPlacementRestrictionKey(placement.restrictions)}`;
   const isDeleting = params.deletingIds.has(placementId);
 
   // Placement hierarchy: Network > Advertiser > Campaign > Advertisement + Zone
@@ -132,11 +162,30 @@ function mapPlacementToUniversalProps(
     entityType: 'placement' as const,
     imageUrl: placement.advertisement?.preview_url,
     statusBadge: isActive ? { label: 'Active', variant: 'success' as const } : { label: 'Inactive', variant: 'secondary' as const },
-    topTags: placement.advertisement?.type ? [{ label: placement.advertisement.type, variant: 'secondary' as const }] : [],
+    topTags: [
+      ...(placement.advertisement?.type ? [{ label: placement.advertisement.type, variant: 'secondary' as const }] : []),
+      // Device targeting badges
+      ...(placement.restrictions || []).map(restriction => ({
+        label: isPlacementRestriction(restriction) ? PLACEMENT_RESTRICTION_LABELS[restriction] : restriction,
+        variant: 'outline' as const,
+        icon: Smartphone,
+      })),
+    ],
     parentsBreadcrumb,
     displayData,
     isLocal,
-    onDelete: isLocal ? () => params.onDelete(placement) : undefined,
+    onDelete: isLocal && params.canWrite ? () => params.onDelete(placement) : undefined,
+    ...(params.canWrite && !isLocal && isRemotePlacement(placement) && {
+      showCheckbox: true,
+      isSelected: params.isSelected,
+      onSelect: () => params.onToggleSelect(placement),
+      actionButtons: [{
+        label: 'Remove from Broadstreet',
+        onClick: () => params.onRemoveRemote([placement]),
+        variant: 'outline' as const,
+        icon: Trash2,
+      }],
+    }),
   };
 }
 
@@ -153,12 +202,70 @@ interface PlacementsListProps {
 
 export default function PlacementsList({ placements: initialPlacements, entities }: PlacementsListProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [deviceFilter, setDeviceFilter] = useState<string>('any');
   const [placements, setPlacements] = useState(initialPlacements);
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [pendingRemoval, setPendingRemoval] = useState<PlacementLean[] | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const { can } = usePermissions();
+  const canWrite = can('entities:write');
+
+  const handleToggleSelect = (placement: PlacementLean) => {
+    const key = getRemotePlacementKey(placement);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  // Remove synced placements from Broadstreet after confirmation
+  const handleConfirmRemoval = async () => {
+    if (!pendingRemoval || pendingRemoval.length === 0) return;
+    setIsRemoving(true);
+
+    try {
+      const response = await fetch('/api/placements/remote', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          placements: pendingRemoval.map(p => ({
+            campaign_id: p.campaign_id,
+            advertisement_id: p.advertisement_id,
+            zone_id: p.zone_id,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove placements');
+      }
+
+      const removedKeys = new Set<string>(
+        data.results
+          .filter((r: any) => r.success)
+          .map((r: any) => `${r.campaign_id}-${r.advertisement_id}-${r.zone_id}`)
+      );
+      setPlacements(prev => prev.filter(p => !(isRemotePlacement(p) && removedKeys.has(getRemotePlacementKey(p)))));
+      setSelectedKeys(prev => new Set([...prev].filter(key => !removedKeys.has(key))));
+      setPendingRemoval(null);
+
+      if (data.failed > 0) {
+        const failures = data.results.filter((r: any) => !r.success);
+        alert(`Removed ${data.removed} placement(s). ${data.failed} failed:\n${failures.map((r: any) => `• Campaign ${r.campaign_id} / zone ${r.zone_id} / ad ${r.advertisement_id}: ${r.error}`).join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error removing placements from Broadstreet:', error);
+      alert(`Failed to remove placements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRemoving(false);
+    }
+  };
 
   // Delete placement function
   const handleDeletePlacement = async (placement: PlacementLean) => {
-    const placementId = `${placement.advertisement_id}-${placement.zone_id || (placement as any).zone_mongo_id || ''}`;
+    const placementId = `${placement.advertisement_id}-${placement.zone_id || (placement as any).zone_mongo_id || ''}-${getPlacementRestrictionKey(placement.restrictions)}`;
 
     if (deletingIds.has(placementId)) return; // Prevent double-clicks
 
@@ -172,14 +279,15 @@ export default function PlacementsList({ placements: initialPlacements, entities
           campaignMongoId: (placement as any).campaign_mongo_id,
           advertisementId: placement.advertisement_id,
           zoneId: placement.zone_id,
-          zoneMongoId: (placement as any).zone_mongo_id
+          zoneMongoId: (placement as any).zone_mongo_id,
+          restrictions: placement.restrictions || []
         })
       });
 
       if (response.ok) {
         // Remove from local state
         setPlacements(prev => prev.filter(p => {
-          const pId = `${p.advertisement_id}-${p.zone_id || (p as any).zone_mongo_id || ''}`;
+          const pId = `${p.advertisement_id}-${p.zone_id || (p as any).zone_mongo_id || ''}-${getPlacementRestrictionKey(p.restrictions)}`;
           return pId !== placementId;
         }));
       } else {
@@ -199,11 +307,16 @@ export default function PlacementsList({ placements: initialPlacements, entities
   };
 
   const filteredPlacements = useMemo(() => {
+    // Device filter: 'any' shows everything, 'all' shows untargeted placements
+    const byDevice = deviceFilter === 'any'
+      ? placements
+      : placements.filter(placement => getPlacementRestrictionKey(placement.restrictions) === deviceFilter);
+
     if (!searchTerm.trim()) {
-      return placements;
+      return byDevice;
     }
     
-    return placements.filter(placement =>
+    return byDevice.filter(placement =>
       placement.advertisement?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       placement.campaign?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       placement.zone?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -218,7 +331,15 @@ export default function PlacementsList({ placements: initialPlacements, entities
         r.toLowerCase().includes(searchTerm.toLowerCase())
       ))
     );
-  }, [placements, searchTerm]);
+  }, [placements, searchTerm, deviceFilter]);
+
+  // Bulk selection only applies to synced placements in the current filtered view
+  const remoteFilteredPlacements = useMemo(
+    () => filteredPlacements.filter(isRemotePlacement),
+    [filteredPlacements]
+  );
+  const selectedRemotePlacements = remoteFilteredPlacements.filter(p => selectedKeys.has(getRemotePlacementKey(p)));
+  const allRemoteSelected = remoteFilteredPlacements.length > 0 && selectedRemotePlacements.length === remoteFilteredPlacements.length;
 
   if (placements.length === 0) {
     const filterDetails = [];
@@ -270,14 +391,50 @@ export default function PlacementsList({ placements: initialPlacements, entities
 
   return (
     <div className="space-y-6">
-      <div className="max-w-md" data-testid="search-input">
-        <SearchInput
-          placeholder="Search placements..."
-          value={searchTerm}
-          onChange={setSearchTerm}
-          className=""
-        />
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="max-w-md flex-1" data-testid="search-input">
+          <SearchInput
+            placeholder="Search placements..."
+            value={searchTerm}
+            onChange={setSearchTerm}
+            className=""
+          />
+        </div>
+        <select
+          aria-label="Filter by device"
+          className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+          value={deviceFilter}
+          onChange={(e) => setDeviceFilter(e.target.value)}
+          data-testid="placement-device-filter"
+        >
+          <option value="any">Any device targeting</option>
+          <option value="all">All devices (no restriction)</option>
+          {PLACEMENT_RESTRICTIONS.map(restriction => (
+            <option key={restriction} value={restriction}>{PLACEMENT_RESTRICTION_LABELS[restriction]}</option>
+          ))}
+        </select>
       </div>
+
+      {canWrite && remoteFilteredPlacements.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3" data-testid="remote-placement-actions">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSelectedKeys(allRemoteSelected ? new Set() : new Set(remoteFilteredPlacements.map(getRemotePlacementKey)))}
+          >
+            {allRemoteSelected ? 'Clear selection' : `Select all synced (${remoteFilteredPlacements.length})`}
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setPendingRemoval(selectedRemotePlacements)}
+            disabled={selectedRemotePlacements.length === 0}
+          >
+            <Trash2 className="h-4 w-4" />
+            Remove {selectedRemotePlacements.length || ''} from Broadstreet
+          </Button>
+        </div>
+      )}
       
       {filteredPlacements.length === 0 ? (
         <div className="text-center py-12">
@@ -287,12 +444,27 @@ export default function PlacementsList({ placements: initialPlacements, entities
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4" data-testid="placements-list">
           {filteredPlacements.map((placement) => (
             <UniversalEntityCard
-              key={`${placement.advertisement_id}-${placement.zone_id}-${placement.campaign_id}`}
-              {...mapPlacementToUniversalProps(placement, { onDelete: handleDeletePlacement, deletingIds })}
+              key={`${placement.advertisement_id}-${placement.zone_id}-${placement.campaign_id}-${getPlacementRestrictionKey(placement.restrictions)}`}
+              {...mapPlacementToUniversalProps(placement, {
+                onDelete: handleDeletePlacement,
+                deletingIds,
+                isSelected: selectedKeys.has(getRemotePlacementKey(placement)),
+                onToggleSelect: handleToggleSelect,
+                onRemoveRemote: setPendingRemoval,
+                canWrite,
+              })}
             />
           ))}
         </div>
       )}
+
+      <RemovePlacementsDialog
+        items={(pendingRemoval || []).map(toRemovalItem)}
+        isOpen={!!pendingRemoval}
+        isRemoving={isRemoving}
+        onConfirm={handleConfirmRemoval}
+        onCancel={() => setPendingRemoval(null)}
+      />
     </div>
   );
 }
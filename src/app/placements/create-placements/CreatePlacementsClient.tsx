@@ -9,6 +9,8 @@ import type { CategorizedPlacements } from '@/lib/utils/placement-categorization
 import RequiredEntitiesCard from './RequiredEntitiesCard';
 import PlacementCategoryCards from './PlacementCategoryCards';
 import CreationButtons from './CreationButtons';
+import PlacementRestrictionSelect from '@/components/placements/PlacementRestrictionSelect';
+import type { PlacementRestriction } from '@/lib/types/broadstreet';
 
 interface CreatePlacementsClientProps {
   initialData: {
@@ -28,6 +30,7 @@ export default function CreatePlacementsClient({
   const { selectedNetwork, selectedAdvertiser, selectedCampaign, selectedZones, selectedAdvertisements } = useAllFilters();
   
   const [placementCategories, setPlacementCategories] = useState<CategorizedPlacements | null>(null);
+  const [restriction, setRestriction] = useState<PlacementRestriction | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -124,7 +127,9 @@ export default function CreatePlacementsClient({
         placements: placementsToCreate.map(p => ({
           advertisementId: p.advertisement.id,
           zoneId: p.zone.id
-        }))
+        })),
+        // Device targeting applies to every placement in this batch
+        ...(restriction ? { restrictions: [restriction] } : {}),
       };
 
       // Set campaign reference (XOR constraint)
@@ -181,6 +186,10 @@ export default function CreatePlacementsClient({
       {placementCategories && (
         <>
           <PlacementCategoryCards categories={placementCategories} />
+
+          <div className="mx-auto w-full max-w-xs">
+            <PlacementRestrictionSelect value={restriction} onChange={setRestriction} disabled={isCreating} />
+          </div>
           
           <CreationButtons
             categories={placementCategories}
@@ -34,7 +34,7 @@ export default async function PlacementsPage({ searchParams }: { searchParams: a
   const [networks, advertisers, campaigns] = await Promise.all([
     fetchNetworks(),
     fetchAdvertisers(networkId || undefined),
-    fetchCampaigns(advertiserId || undefined, params)
+    fetchCampaigns(advertiserId || undefined, { ...params, networkId })
   ]);
 
   return (
@@ -0,0 +1,321 @@
+/**
+ * CUSTOM REPORT BUILDER - GROUPED REPORTS WITH EXPORT
+ *
+ * Builds custom Broadstreet reports (e.g. impressions per zone per creative)
+ * for the network selected in the filter store. Results are joined server-side
+ * to local zones, campaigns and advertisements, can be exported as CSV/JSON,
+ * and report definitions can be saved for re-running.
+ * All variable names follow docs/variable-origins.md registry.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Download, Play, Save, Trash2 } from 'lucide-react';
+import { reportToCsv, reportToJson, getReportExportFilename } from '@/lib/utils/report-export';
+import type { CustomReportDimension, CustomReportMetric } from '@/lib/types/broadstreet';
+import type { CustomReportResult } from '@/lib/reporting-service';
+
+const DIMENSION_OPTIONS: Array<{ value: CustomReportDimension; label: string }> = [
+  { value: 'campaign', label: 'Campaign' },
+  { value: 'zone', label: 'Zone' },
+  { value: 'advertisement', label: 'Advertisement' },
+  { value: 'advertiser', label: 'Advertiser' },
+  { value: 'network', label: 'Network' },
+];
+
+const METRIC_OPTIONS: Array<{ value: CustomReportMetric; label: string }> = [
+  { value: 'view', label: 'Views' },
+  { value: 'mobile_view', label: 'Mobile Views' },
+  { value: 'hover', label: 'Hovers' },
+  { value: 'click', label: 'Clicks' },
+  { value: 'conversion', label: 'Conversions' },
+];
+
+type SavedReportLean = {
+  mongo_id: string;
+  name: string;
+  network_id: number;
+  group_by: CustomReportDimension[];
+  metrics: CustomReportMetric[];
+  start_date?: string;
+  end_date?: string;
+  range_days?: number;
+  last_run_at?: string;
+};
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface CustomReportBuilderProps {
+  startDate: string;
+  endDate: string;
+}
+
+export default function CustomReportBuilder({ startDate, endDate }: CustomReportBuilderProps) {
+  const { network } = useSelectedEntities();
+  const networkId = network?.ids.broadstreet_id;
+
+  const [groupBy, setGroupBy] = useState<CustomReportDimension[]>(['zone', 'advertisement']);
+  const [metrics, setMetrics] = useState<CustomReportMetric[]>(['view', 'click']);
+  const [reportName, setReportName] = useState('');
+  const [result, setResult] = useState<CustomReportResult | null>(null);
+  const [savedReports, setSavedReports] = useState<SavedReportLean[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavedReports = useCallback(async () => {
+    if (!networkId) return;
+    try {
+      const response = await fetch(`/api/reports/saved?network=${networkId}`);
+      const data = await response.json();
+      if (response.ok) setSavedReports(data.reports || []);
+    } catch (err) {
+      console.error('Failed to load saved reports:', err);
+    }
+  }, [networkId]);
+
+  useEffect(() => {
+    loadSavedReports();
+  }, [loadSavedReports]);
+
+  const handleRun = async () => {
+    if (!networkId) return;
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/reports/custom', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ networkId, groupBy, metrics, startDate, endDate }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to run report');
+      setResult(data.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run report');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRunSaved = async (saved: SavedReportLean) => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reports/saved/${saved.mongo_id}/run`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to run saved report');
+      setResult(data.report);
+      setGroupBy(saved.group_by);
+      setMetrics(saved.metrics);
+      setReportName(saved.name);
+      loadSavedReports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run saved report');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!networkId || !reportName.trim()) return;
+    setError(null);
+
+    try {
+      const response = await fetch('/api/reports/saved', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: reportName,
+          network_id: networkId,
+          group_by: groupBy,
+          metrics,
+          start_date: startDate,
+          end_date: endDate,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save report');
+      loadSavedReports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save report');
+    }
+  };
+
+  const handleDeleteSaved = async (saved: SavedReportLean) => {
+    if (!confirm(`Delete saved report "${saved.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/reports/saved/${saved.mongo_id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete saved report');
+      }
+      setSavedReports(prev => prev.filter(r => r.mongo_id !== saved.mongo_id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete saved report');
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!result) return;
+    const name = reportName || `report-${result.groupBy.join('-')}-${result.startDate}-${result.endDate}`;
+    const content = format === 'csv'
+      ? reportToCsv(result.columns, result.rows)
+      : reportToJson(result.columns, result.rows);
+    downloadFile(content, getReportExportFilename(name, format), format === 'csv' ? 'text/csv' : 'application/json');
+  };
+
+  if (!networkId) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="custom-report-builder">
+      <CardHeader>
+        <CardTitle className="card-title">Custom report for {network?.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Group by</Label>
+            <div className="flex flex-wrap gap-4">
+              {DIMENSION_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={groupBy.includes(option.value)}
+                    onCheckedChange={() => setGroupBy(prev => toggle(prev, option.value))}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Metrics</Label>
+            <div className="flex flex-wrap gap-4">
+              {METRIC_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={metrics.includes(option.value)}
+                    onCheckedChange={() => setMetrics(prev => toggle(prev, option.value))}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Button onClick={handleRun} disabled={isRunning || groupBy.length === 0 || metrics.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            {isRunning ? 'Running…' : 'Run report'}
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={!result}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('json')} disabled={!result}>
+            <Download className="h-4 w-4 mr-2" />
+            JSON
+          </Button>
+          <div className="space-y-1">
+            <Label htmlFor="custom-report-name">Report name</Label>
+            <Input
+              id="custom-report-name"
+              value={reportName}
+              onChange={(e) => setReportName(e.target.value)}
+              placeholder="e.g. Monthly zone recap"
+            />
+          </div>
+          <Button variant="outline" onClick={handleSave} disabled={!reportName.trim() || groupBy.length === 0 || metrics.length === 0}>
+            <Save className="h-4 w-4 mr-2" />
+            Save definition
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {savedReports.length > 0 && (
+          <div className="space-y-2">
+            <Label>Saved reports</Label>
+            <ul className="divide-y rounded-md border">
+              {savedReports.map(saved => (
+                <li key={saved.mongo_id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                  <div>
+                    <span className="font-medium">{saved.name}</span>
+                    <span className="ml-2 text-gray-500">
+                      {saved.group_by.join(' × ')} · {saved.start_date && saved.end_date
+                        ? `${saved.start_date} – ${saved.end_date}`
+                        : `last ${saved.range_days || 30} days`}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleRunSaved(saved)} disabled={isRunning}>
+                      <Play className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDeleteSaved(saved)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result && (
+          <div className="overflow-x-auto">
+            <p className="mb-2 text-xs text-gray-500">
+              {result.rows.length} rows · {result.startDate} – {result.endDate}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  {result.columns.map(column => (
+                    <th key={column.key} className="py-2 pr-4 whitespace-nowrap">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row, index) => (
+                  <tr key={index} className="border-b last:border-0">
+                    {result.columns.map(column => (
+                      <td key={column.key} className="py-2 pr-4 whitespace-nowrap">
+                        {row[column.key] === null || row[column.key] === undefined ? '—' : String(row[column.key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
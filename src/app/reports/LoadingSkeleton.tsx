@@ -0,0 +1,40 @@
+/**
+ * REPORTS LOADING SKELETON - REUSABLE LOADING COMPONENT
+ *
+ * Loading skeleton for the reports page matching the date range controls,
+ * metric cards and daily breakdown table.
+ * All variable names follow docs/variable-origins.md registry.
+ */
+
+export default function LoadingSkeleton() {
+  return (
+    <div className="space-y-6">
+      {/* Date Range Skeleton */}
+      <div className="flex gap-4">
+        <div className="h-10 w-40 bg-gray-200 rounded-lg animate-pulse"></div>
+        <div className="h-10 w-40 bg-gray-200 rounded-lg animate-pulse"></div>
+      </div>
+
+      {/* Metric Cards Skeleton */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="animate-pulse">
+              <div className="h-3 bg-gray-200 rounded w-1/2 mb-2"></div>
+              <div className="h-6 bg-gray-200 rounded w-3/4"></div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Table Skeleton */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="animate-pulse space-y-3">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-4 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * REPORTS CONTENT - MAIN REPORTING UI
+ *
+ * Client component that loads Broadstreet reporting data for the entities
+ * selected in the filter store. Only synced entities (with a broadstreet_id)
+ * can be reported on. Requests go through /api/reports, which caches results
+ * in MongoDB and throttles Broadstreet calls on the reporting rate limiter.
+ * All variable names follow docs/variable-origins.md registry.
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw } from 'lucide-react';
+import type { ReportEntityType } from '@/lib/types/broadstreet';
+import type { ReportResult } from '@/lib/reporting-service';
+import CustomReportBuilder from './CustomReportBuilder';
+
+type ReportTarget = {
+  key: string;
+  type: ReportEntityType;
+  id: number;
+  name: string;
+};
+
+function toInputDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function getInitialRange() {
+  const end = new Date();
+  const start = new Date(end);
+  start.setUTCDate(start.getUTCDate() - 29);
+  return { startDate: toInputDate(start), endDate: toInputDate(end) };
+}
+
+const numberFormat = new Intl.NumberFormat();
+
+export default function ReportsContent() {
+  const entities = useSelectedEntities();
+  const { can } = usePermissions();
+
+  // Build the list of reportable targets, most specific first
+  const targets = useMemo<ReportTarget[]>(() => {
+    const list: ReportTarget[] = [];
+    entities.advertisements.forEach((ad) => {
+      if (ad.ids.broadstreet_id) {
+        list.push({ key: `advertisement-${ad.ids.broadstreet_id}`, type: 'advertisement', id: ad.ids.broadstreet_id, name: `Advertisement ${ad.name}` });
+      }
+    });
+    if (entities.campaign?.ids.broadstreet_id) {
+      list.push({ key: `campaign-${entities.campaign.ids.broadstreet_id}`, type: 'campaign', id: entities.campaign.ids.broadstreet_id, name: entities.campaign.name });
+    }
+    if (entities.advertiser?.ids.broadstreet_id) {
+      list.push({ key: `advertiser-${entities.advertiser.ids.broadstreet_id}`, type: 'advertiser', id: entities.advertiser.ids.broadstreet_id, name: entities.advertiser.name });
+    }
+    if (entities.network?.ids.broadstreet_id) {
+      list.push({ key: `network-${entities.network.ids.broadstreet_id}`, type: 'network', id: entities.network.ids.broadstreet_id, name: entities.network.name });
+    }
+    return list;
+  }, [entities.advertisements, entities.campaign, entities.advertiser, entities.network]);
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [range, setRange] = useState(getInitialRange);
+  const [report, setReport] = useState<ReportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fall back to the most specific target when the selection changes
+  const activeTarget = targets.find(t => t.key === selectedKey) || targets[0] || null;
+  const targetType = activeTarget?.type;
+  const targetId = activeTarget?.id;
+
+  const loadReport = useCallback(async (refresh = false) => {
+    if (!targetType || !targetId) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        type: targetType,
+        id: String(targetId),
+        startDate: range.startDate,
+        endDate: range.endDate,
+      });
+      if (refresh) params.set('refresh', '1');
+
+      const response = await fetch(`/api/reports?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load report');
+      }
+      setReport(data.report);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to load report');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [targetType, targetId, range.startDate, range.endDate]);
+
+  useEffect(() => {
+    if (range.startDate && range.endDate && range.startDate <= range.endDate) {
+      loadReport();
+    }
+  }, [loadReport, range.startDate, range.endDate]);
+
+  if (targets.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <p className="card-text text-gray-600">
+            Select a synced network, advertiser, campaign or advertisement in the sidebar to view its report.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const metrics = report?.metrics;
+  const metricCards = [
+    { label: 'Views', value: metrics ? numberFormat.format(metrics.views) : '—' },
+    { label: 'Clicks', value: metrics ? numberFormat.format(metrics.clicks) : '—' },
+    { label: 'Hovers', value: metrics ? numberFormat.format(metrics.hovers) : '—' },
+    { label: 'Conversions', value: metrics ? numberFormat.format(metrics.conversions) : '—' },
+    { label: 'CTR', value: metrics ? `${metrics.ctr.toFixed(2)}%` : '—' },
+  ];
+
+  return (
+    <div className="space-y-6" data-testid="reports-content">
+      {/* Controls */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="report-target">Report for</Label>
+          <select
+            id="report-target"
+            className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+            value={activeTarget?.key}
+            onChange={(e) => setSelectedKey(e.target.value)}
+          >
+            {targets.map(target => (
+              <option key={target.key} value={target.key}>
+                {target.name} ({target.type})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="report-start-date">Start date</Label>
+          <Input
+            id="report-start-date"
+            type="date"
+            value={range.startDate}
+            max={range.endDate}
+            onChange={(e) => setRange(prev => ({ ...prev, startDate: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="report-end-date">End date</Label>
+          <Input
+            id="report-end-date"
+            type="date"
+            value={range.endDate}
+            min={range.startDate}
+            onChange={(e) => setRange(prev => ({ ...prev, endDate: e.target.value }))}
+          />
+        </div>
+        <Button variant="outline" onClick={() => loadReport(true)} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+        {report && (
+          <Badge variant="secondary">
+            {report.cached ? 'Cached' : 'Live'} · {new Date(report.fetchedAt).toLocaleString()}
+          </Badge>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Metric Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {metricCards.map(card => (
+          <Card key={card.label}>
+            <CardContent className="p-4">
+              <p className="text-xs text-gray-500">{card.label}</p>
+              <p className="text-xl font-semibold text-gray-900">{isLoading && !report ? '…' : card.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Daily Breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="card-title">Daily breakdown</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report && report.daily.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2 pr-4 text-right">Views</th>
+                    <th className="py-2 pr-4 text-right">Clicks</th>
+                    <th className="py-2 pr-4 text-right">Hovers</th>
+                    <th className="py-2 pr-4 text-right">Conversions</th>
+                    <th className="py-2 text-right">CTR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.daily.map(row => (
+                    <tr key={row.date} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{row.date}</td>
+                      <td className="py-2 pr-4 text-right">{numberFormat.format(row.views)}</td>
+                      <td className="py-2 pr-4 text-right">{numberFormat.format(row.clicks)}</td>
+                      <td className="py-2 pr-4 text-right">{numberFormat.format(row.hovers)}</td>
+                      <td className="py-2 pr-4 text-right">{numberFormat.format(row.conversions)}</td>
+                      <td className="py-2 text-right">{row.ctr.toFixed(2)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="card-text text-gray-500">
+              {isLoading ? 'Loading report…' : 'No reporting data for this range.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Custom grouped reports for the selected network (shares the date range above) */}
+      {can('reports:run') && (
+        <CustomReportBuilder startDate={range.startDate} endDate={range.endDate} />
+      )}
+    </div>
+  );
+}
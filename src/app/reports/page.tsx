@@ -0,0 +1,33 @@
+/**
+ * REPORTS PAGE - CAMPAIGN PERFORMANCE REPORTING
+ *
+ * Server page for Broadstreet reporting. Report data is fetched on demand by
+ * the client for whatever is currently selected in the filter store, so the
+ * page itself only renders the header and the client content.
+ * All variable names follow docs/variable-origins.md registry.
+ */
+
+import { Suspense } from 'react';
+import ReportsContent from './ReportsContent';
+import LoadingSkeleton from './LoadingSkeleton';
+
+/**
+ * ReportsPage - Server component wrapper for the reporting UI
+ * Variable names follow docs/variable-origins.md registry
+ */
+export default function ReportsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-bold text-gray-900">Reports</h1>
+        <p className="card-text text-gray-600 mt-1">
+          Views, clicks, hovers, conversions and CTR for the selected network, advertiser, campaign or advertisements
+        </p>
+      </div>
+
+      <Suspense fallback={<LoadingSkeleton />}>
+        <ReportsContent />
+      </Suspense>
+    </div>
+  );
+}
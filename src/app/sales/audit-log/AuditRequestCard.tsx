@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
@@ -17,6 +17,9 @@ import {
   Eye
 } from 'lucide-react';
 import { IAdvertisingRequest } from '@/lib/models/advertising-request';
+import { getRequestStatusLabel } from '@/lib/advertising-request-workflow';
+import { RequestCommentView, buildRequestActivity } from '@/lib/request-activity';
+import RequestActivityTimeline from '@/components/requests/RequestActivityTimeline';
 import { useRouter } from 'next/navigation';
 
 interface AuditRequestCardProps {
@@ -30,12 +33,35 @@ interface AuditRequestCardProps {
 export default function AuditRequestCard({ request }: AuditRequestCardProps) {
   const router = useRouter();
   const [expanded, setExpanded] = useState(false);
+  // Comments are loaded the first time the details are expanded
+  const [comments, setComments] = useState<RequestCommentView[] | null>(null);
+  const [commentsError, setCommentsError] = useState<string | null>(null);
+  const requestId = String(request._id);
+
+  useEffect(() => {
+    if (!expanded || comments !== null) return;
+
+    const loadComments = async () => {
+      try {
+        const response = await fetch(`/api/advertising-requests/${requestId}/comments`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load comments');
+        }
+        setComments(data.comments || []);
+      } catch (err) {
+        setCommentsError(err instanceof Error ? err.message : 'Failed to load comments');
+        setComments([]);
+      }
+    };
+    loadComments();
+  }, [expanded, comments, requestId]);
 
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
-      case 'Completed':
+      case 'completed':
         return 'default';
-      case 'Cancelled':
+      case 'cancelled':
         return 'destructive';
       default:
         return 'outline';
@@ -44,9 +70,9 @@ export default function AuditRequestCard({ request }: AuditRequestCardProps) {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'Completed':
+      case 'completed':
         return <CheckCircle className="w-4 h-4 text-green-600" />;
-      case 'Cancelled':
+      case 'cancelled':
         return <XCircle className="w-4 h-4 text-red-600" />;
       default:
         return <Clock className="w-4 h-4 text-gray-400" />;
@@ -98,7 +124,7 @@ export default function AuditRequestCard({ request }: AuditRequestCardProps) {
                 {request.campaign_name || requestNumber}
               </h3>
               <Badge variant={getStatusBadgeVariant(request.status)}>
-                {request.status}
+                {getRequestStatusLabel(request.status)}
               </Badge>
             </div>
             <p className="text-sm text-gray-600">
@@ -198,7 +224,7 @@ export default function AuditRequestCard({ request }: AuditRequestCardProps) {
                   <div className="flex items-center justify-between">
                     <div>
                       <span className="text-gray-600">Changed to:</span>
-                      <span className="ml-2 font-medium">{lastStatus.status}</span>
+                      <span className="ml-2 font-medium">{getRequestStatusLabel(lastStatus.status)}</span>
                     </div>
                     <div>
                       <span className="text-gray-600">By:</span>
@@ -292,25 +318,18 @@ export default function AuditRequestCard({ request }: AuditRequestCardProps) {
                 </div>
               )}
 
-              {/* Complete Status History */}
-              {request.status_history && request.status_history.length > 1 && (
-                <div>
-                  <h5 className="font-medium text-gray-900 mb-2">Status History</h5>
-                  <div className="space-y-2">
-                    {request.status_history.map((status, index) => (
-                      <div key={index} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
-                        <div className="flex items-center space-x-2">
-                          <Badge variant="outline" className="text-xs">
-                            {status.status}
-                          </Badge>
-                          <span className="text-gray-600">{formatDate(status.changed_at)}</span>
-                        </div>
-                        <span className="text-gray-600">{status.changed_by_user_name}</span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+              {/* Status history and comments, interleaved */}
+              <div>
+                <h5 className="font-medium text-gray-900 mb-2">Activity</h5>
+                {commentsError && (
+                  <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 mb-2">{commentsError}</div>
+                )}
+                {comments === null ? (
+                  <p className="text-sm text-gray-500">Loading comments...</p>
+                ) : (
+                  <RequestActivityTimeline items={buildRequestActivity(request.status_history || [], comments)} />
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -10,8 +10,11 @@ import {
   Archive,
   FileText,
   Clock,
-  CheckCircle
+  CheckCircle,
+  Bell,
+  HardDrive
 } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface SalesLayoutProps {
   children: React.ReactNode;
@@ -23,6 +26,7 @@ interface SalesLayoutProps {
  */
 export default function SalesLayout({ children }: SalesLayoutProps) {
   const pathname = usePathname();
+  const { can } = usePermissions();
 
   const navigationItems = [
     {
@@ -46,7 +50,22 @@ export default function SalesLayout({ children }: SalesLayoutProps) {
       description: 'View completed and cancelled requests',
       active: pathname === '/sales/audit-log',
     },
-  ];
+    {
+      name: 'Notifications',
+      href: '/sales/notifications',
+      icon: Bell,
+      description: 'Choose which request emails you receive',
+      active: pathname === '/sales/notifications',
+    },
+    {
+      name: 'Storage',
+      href: '/sales/storage',
+      icon: HardDrive,
+      description: 'Delete uploaded files no request uses any more',
+      active: pathname === '/sales/storage',
+      permission: 'admin:destructive' as const,
+    },
+  ].filter(item => !item.permission || can(item.permission));
 
   return (
     <div className="space-y-6">
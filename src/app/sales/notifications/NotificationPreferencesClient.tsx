@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_DESCRIPTIONS,
+  NOTIFICATION_EVENT_LABELS,
+  NotificationEvent,
+} from '@/lib/notification-events';
+
+interface NotificationPreferences {
+  email_enabled: boolean;
+  events: Record<NotificationEvent, boolean>;
+}
+
+/**
+ * Notification Preferences Client Component
+ * Loads and saves the signed-in user's email subscriptions
+ */
+export default function NotificationPreferencesClient() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch('/api/notifications/preferences');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load notification preferences');
+        }
+        setPreferences(data.preferences);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load notification preferences');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPreferences();
+  }, []);
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setIsSaving(true);
+    setError(null);
+    setSavedMessage(null);
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save notification preferences');
+      }
+      setPreferences(data.preferences);
+      setSavedMessage('Preferences saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setEvent = (event: NotificationEvent, enabled: boolean) => {
+    setPreferences(current => current && { ...current, events: { ...current.events, [event]: enabled } });
+    setSavedMessage(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="h-10 bg-gray-200 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Request emails</CardTitle>
+        <CardDescription>
+          You are emailed about requests you created, are assigned to or watch, and when someone @mentions you in a comment. Watch a request from its detail page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {preferences && (
+          <>
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="notifications-email-enabled"
+                checked={preferences.email_enabled}
+                onCheckedChange={(checked) => {
+                  setPreferences({ ...preferences, email_enabled: checked === true });
+                  setSavedMessage(null);
+                }}
+                data-testid="notifications-email-enabled"
+              />
+              <Label htmlFor="notifications-email-enabled" className="font-medium">
+                Send me request emails
+              </Label>
+            </div>
+
+            <div className="space-y-3 border-t border-gray-200 pt-4">
+              {NOTIFICATION_EVENTS.map(event => (
+                <div key={event} className="flex items-start space-x-3">
+                  <Checkbox
+                    id={`notifications-${event}`}
+                    checked={preferences.events[event]}
+                    disabled={!preferences.email_enabled}
+                    onCheckedChange={(checked) => setEvent(event, checked === true)}
+                  />
+                  <div>
+                    <Label htmlFor={`notifications-${event}`}>{NOTIFICATION_EVENT_LABELS[event]}</Label>
+                    <p className="text-sm text-gray-500">{NOTIFICATION_EVENT_DESCRIPTIONS[event]}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-end space-x-3">
+              {savedMessage && <span className="text-sm text-green-700">{savedMessage}</span>}
+              <Button onClick={handleSave} disabled={isSaving} data-testid="notifications-save">
+                {isSaving ? 'Saving...' : 'Save preferences'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
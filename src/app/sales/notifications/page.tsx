@@ -0,0 +1,22 @@
+import NotificationPreferencesClient from './NotificationPreferencesClient';
+
+/**
+ * Sales Notifications Page - Choose which request emails you receive
+ * Preferences are per user and loaded client-side
+ */
+export default function NotificationsPage() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Email Notifications</h1>
+          <p className="card-text text-gray-600 mt-1">
+            Choose which advertising request emails you receive
+          </p>
+        </div>
+      </div>
+
+      <NotificationPreferencesClient />
+    </div>
+  );
+}
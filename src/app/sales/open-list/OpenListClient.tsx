@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import OpenListContent from './OpenListContent';
 import { IAdvertisingRequest } from '@/lib/models/advertising-request';
+import { getRequestStatusLabel } from '@/lib/advertising-request-workflow';
 
 interface OpenListClientProps {
   searchParams: { [key: string]: string | string[] | undefined };
@@ -31,6 +32,7 @@ export default function OpenListClient({ searchParams }: OpenListClientProps) {
   const currentPage = parseInt((searchParams.page as string) || '1');
   const statusFilter = (searchParams.status as string) || '';
   const searchQuery = (searchParams.search as string) || '';
+  const assignedFilter = (searchParams.assignedTo as string) || '';
   const createdRequestId = searchParams.created as string;
 
   const fetchRequests = async () => {
@@ -45,6 +47,11 @@ export default function OpenListClient({ searchParams }: OpenListClientProps) {
         search: searchQuery,
       });
 
+      // "me" is My queue; "unassigned" lists requests nobody has picked up
+      if (assignedFilter) {
+        params.set('assignedTo', assignedFilter);
+      }
+
       // Only show open requests (new and in_progress)
       if (!statusFilter || statusFilter === 'all') {
         params.set('status', 'new,in_progress');
@@ -69,7 +76,7 @@ export default function OpenListClient({ searchParams }: OpenListClientProps) {
 
   useEffect(() => {
     fetchRequests();
-  }, [currentPage, statusFilter, searchQuery]);
+  }, [currentPage, statusFilter, searchQuery, assignedFilter]);
 
   const handleStatusUpdate = async (requestId: string, newStatus: string, notes?: string) => {
     try {
@@ -80,12 +87,13 @@ export default function OpenListClient({ searchParams }: OpenListClientProps) {
         },
         body: JSON.stringify({
           status: newStatus,
-          notes: notes || `Status updated to ${newStatus}`,
+          notes: notes || `Status updated to ${getRequestStatusLabel(newStatus)}`,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update status');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update status');
       }
 
       // Refresh the list
@@ -144,6 +152,7 @@ export default function OpenListClient({ searchParams }: OpenListClientProps) {
       currentPage={currentPage}
       statusFilter={statusFilter}
       searchQuery={searchQuery}
+      assignedFilter={assignedFilter}
       createdRequestId={createdRequestId}
       onStatusUpdate={handleStatusUpdate}
       onDelete={handleDelete}
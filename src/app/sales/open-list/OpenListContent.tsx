@@ -21,6 +21,7 @@ import {
 import { IAdvertisingRequest } from '@/lib/models/advertising-request';
 import { useRouter } from 'next/navigation';
 import RequestCard from './RequestCard';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Pagination } from '@/components/ui/pagination';
 
 interface OpenListContentProps {
@@ -38,6 +39,7 @@ interface OpenListContentProps {
   currentPage: number;
   statusFilter: string;
   searchQuery: string;
+  assignedFilter: string;
   createdRequestId?: string;
   onStatusUpdate: (requestId: string, newStatus: string, notes?: string) => Promise<void>;
   onDelete: (requestId: string) => Promise<void>;
@@ -58,6 +60,7 @@ export default function OpenListContent({
   currentPage,
   statusFilter,
   searchQuery,
+  assignedFilter,
   createdRequestId,
   onStatusUpdate,
   onDelete,
@@ -67,27 +70,19 @@ export default function OpenListContent({
 }: OpenListContentProps) {
   const router = useRouter();
   const [localSearch, setLocalSearch] = useState(searchQuery);
+  const { can } = usePermissions();
+
+  const queueTabs = [
+    { value: '', label: 'All open' },
+    { value: 'me', label: 'My queue' },
+    { value: 'unassigned', label: 'Unassigned' },
+  ];
 
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onFilterChange('search', localSearch);
   };
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status) {
-      case 'New':
-        return 'default';
-      case 'In Progress':
-        return 'secondary';
-      case 'Completed':
-        return 'default';
-      case 'Cancelled':
-        return 'destructive';
-      default:
-        return 'outline';
-    }
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -163,6 +158,26 @@ export default function OpenListContent({
         </div>
       )}
 
+      {/* Queue tabs - sales only see their own requests, so there is no queue to pick */}
+      {can('requests:manage') && (
+        <div className="flex items-center space-x-1 border-b border-gray-200" data-testid="request-queue-tabs">
+          {queueTabs.map(tab => (
+            <button
+              key={tab.value || 'all'}
+              type="button"
+              onClick={() => onFilterChange('assignedTo', tab.value)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                assignedFilter === tab.value
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Filters and Actions */}
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-4">
@@ -234,7 +249,9 @@ export default function OpenListContent({
           <Clock className="mx-auto h-12 w-12 text-gray-400 mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No open requests</h3>
           <p className="text-gray-600 mb-4">
-            {searchQuery || statusFilter 
+            {assignedFilter === 'me' && !searchQuery && !statusFilter
+              ? 'Nothing is assigned to you. Pick up a request from the Unassigned tab.'
+              : searchQuery || statusFilter || assignedFilter
               ? 'No requests match your current filters.' 
               : 'There are no open advertising requests at the moment.'
             }
@@ -251,6 +268,7 @@ export default function OpenListContent({
               request={request}
               onStatusUpdate={onStatusUpdate}
               onDelete={onDelete}
+              onAssigned={onRefresh}
             />
           ))}
         </div>
@@ -18,15 +18,20 @@ import {
   Target,
   Image as ImageIcon,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  UserCheck
 } from 'lucide-react';
 import { IAdvertisingRequest } from '@/lib/models/advertising-request';
+import { getRequestStatusBadgeVariant, getRequestStatusLabel } from '@/lib/advertising-request-workflow';
 import { useRouter } from 'next/navigation';
+import AssignRequestDialog from '@/components/requests/AssignRequestDialog';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface RequestCardProps {
   request: IAdvertisingRequest;
   onStatusUpdate: (requestId: string, newStatus: string, notes?: string) => Promise<void>;
   onDelete: (requestId: string) => Promise<void>;
+  onAssigned: () => Promise<void>;
 }
 
 /**
@@ -37,40 +42,14 @@ export default function RequestCard({
   request,
   onStatusUpdate,
   onDelete,
+  onAssigned,
 }: RequestCardProps) {
   const router = useRouter();
   const [expanded, setExpanded] = useState(false);
   const [updating, setUpdating] = useState(false);
-
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status) {
-      case 'new':
-        return 'default';
-      case 'in_progress':
-        return 'secondary';
-      case 'completed':
-        return 'default';
-      case 'cancelled':
-        return 'destructive';
-      default:
-        return 'outline';
-    }
-  };
-
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case 'new':
-        return 'New';
-      case 'in_progress':
-        return 'In Progress';
-      case 'completed':
-        return 'Completed';
-      case 'cancelled':
-        return 'Cancelled';
-      default:
-        return status;
-    }
-  };
+  const [showAssign, setShowAssign] = useState(false);
+  const { can } = usePermissions();
+  const canManage = can('requests:manage');
 
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -110,8 +89,8 @@ export default function RequestCard({
               <h3 className="font-semibold text-lg text-gray-900">
                 {request.campaign_name || requestNumber}
               </h3>
-              <Badge variant={getStatusBadgeVariant(request.status)}>
-                {getStatusLabel(request.status)}
+              <Badge variant={getRequestStatusBadgeVariant(request.status)}>
+                {getRequestStatusLabel(request.status)}
               </Badge>
             </div>
             <p className="text-sm text-gray-600">
@@ -121,7 +100,7 @@ export default function RequestCard({
           
           <div className="flex items-center space-x-2">
             {/* Status Update Buttons */}
-            {request.status === 'new' && (
+            {canManage && request.status === 'new' && (
               <Button
                 size="sm"
                 variant="outline"
@@ -132,18 +111,30 @@ export default function RequestCard({
               </Button>
             )}
             
-            {request.status === 'in_progress' && (
+            {canManage && request.status === 'in_progress' && (
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => handleStatusUpdate('completed')}
+                onClick={handleView}
                 disabled={updating}
               >
-                Complete
+                Fulfil
               </Button>
             )}
 
             {/* Action Buttons */}
+            {canManage && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowAssign(true)}
+                title={request.assigned_to_user_id ? 'Reassign' : 'Assign'}
+                data-testid="request-assign"
+              >
+                <UserCheck className="w-4 h-4" />
+              </Button>
+            )}
+
             <Button
               size="sm"
               variant="ghost"
@@ -153,21 +144,23 @@ export default function RequestCard({
               <Eye className="w-4 h-4" />
             </Button>
             
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={handleDelete}
-              className="text-red-600 hover:text-red-800"
-            >
-              <Trash2 className="w-4 h-4" />
-            </Button>
+            {canManage && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleDelete}
+                className="text-red-600 hover:text-red-800"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
 
       <CardContent className="pt-0">
         {/* Basic Info Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
           <div className="flex items-center space-x-2 text-sm">
             <User className="w-4 h-4 text-gray-400" />
             <span className="text-gray-600">Contact:</span>
@@ -185,6 +178,14 @@ export default function RequestCard({
             <span className="text-gray-600">Created:</span>
             <span className="font-medium">{formatDate(request.created_at)}</span>
           </div>
+
+          <div className="flex items-center space-x-2 text-sm">
+            <UserCheck className="w-4 h-4 text-gray-400" />
+            <span className="text-gray-600">Assignee:</span>
+            <span className={`font-medium ${request.assigned_to_user_id ? '' : 'text-gray-400'}`}>
+              {request.assigned_to_user_name || 'Unassigned'}
+            </span>
+          </div>
         </div>
 
         {/* Advertisement Info */}
@@ -197,6 +198,19 @@ export default function RequestCard({
                 <span>{request.advertisements.length} file{request.advertisements.length !== 1 ? 's' : ''}</span>
               </div>
             </div>
+
+            {/* Thumbnails; requests from before derivatives fall back to the full image */}
+            <div className="flex flex-wrap gap-2 mb-2">
+              {request.advertisements.map((ad, index) => (
+                <img
+                  key={index}
+                  src={ad.thumbnail_url || ad.image_url}
+                  alt={ad.image_alt_text}
+                  loading="lazy"
+                  className="h-12 w-auto max-w-[120px] object-contain rounded border border-gray-200 bg-white"
+                />
+              ))}
+            </div>
             
             <p className="text-sm text-gray-700 mb-2">
               <strong>Contract:</strong> {request.contract_id}
@@ -270,7 +284,7 @@ export default function RequestCard({
                   <div className="flex flex-wrap gap-1">
                     {request.ad_areas_sold.map((area, index) => (
                       <Badge key={index} variant="outline" className="text-xs">
-                        {getStatusLabel(area)}
+                        {area}
                       </Badge>
                     ))}
                   </div>
@@ -308,6 +322,15 @@ export default function RequestCard({
           )}
         </div>
       </CardContent>
+
+      <AssignRequestDialog
+        requestId={String(request._id)}
+        assignedToUserId={request.assigned_to_user_id}
+        assignedToUserName={request.assigned_to_user_name}
+        isOpen={showAssign}
+        onClose={() => setShowAssign(false)}
+        onAssigned={() => onAssigned()}
+      />
     </Card>
   );
 }
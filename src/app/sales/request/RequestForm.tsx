@@ -7,8 +7,12 @@ import AdvertiserInfoSection from './sections/AdvertiserInfoSection';
 import AdvertisementSection from './sections/AdvertisementSection';
 import AIIntelligenceSection from './sections/AIIntelligenceSection';
 import { Button } from '@/components/ui/button';
+import { validateCreative } from '@/lib/utils/creative-specs';
 
 interface FormData {
+  // ID minted by the first image upload; the images are stored under it
+  request_id: string;
+
   // Advertiser Info
   advertiser_name: string;
   advertiser_id: string;
@@ -31,7 +35,12 @@ interface FormData {
     advertisement_name: string;
     target_url: string;
     html_code?: string;
+    original_url?: string;
+    thumbnail_url?: string;
+    image_1x_url?: string;
+    content_hash?: string;
     r2_key: string;
+    r2_keys?: string[];
     uploaded_at: Date;
   }>;
   ad_areas_sold: string;
@@ -56,6 +65,8 @@ export default function RequestForm() {
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState<FormData>({
+    request_id: '',
+
     // Advertiser Info
     advertiser_name: '',
     advertiser_id: '',
@@ -118,6 +129,11 @@ export default function RequestForm() {
         if (!ad.target_url || ad.target_url === 'https://') {
           newErrors[`ad_${index}_target_url`] = 'Target URL is required';
         }
+        const creative = validateCreative(ad);
+        if (!creative.valid) {
+          newErrors[`ad_${index}_creative`] = creative.errors.join('; ');
+          newErrors.advertisements = 'Replace the advertisements that do not meet the creative specs';
+        }
       });
 
       // Validate ad areas sold
@@ -194,6 +210,8 @@ export default function RequestForm() {
         created_by_user_name: user.fullName || user.username || 'Unknown User',
         created_by_user_email: user.primaryEmailAddress?.emailAddress || '',
 
+        request_id: formData.request_id || undefined,
+
         // Advertiser Info
         advertiser_name: formData.advertiser_name,
         advertiser_id: formData.advertiser_id,
@@ -215,7 +233,12 @@ export default function RequestForm() {
           advertisement_name: ad.advertisement_name,
           target_url: ad.target_url,
           html_code: ad.html_code || '',
+          original_url: ad.original_url,
+          thumbnail_url: ad.thumbnail_url,
+          image_1x_url: ad.image_1x_url,
+          content_hash: ad.content_hash,
           r2_key: ad.r2_key,
+          r2_keys: ad.r2_keys,
           uploaded_at: ad.uploaded_at,
         })),
         ad_areas_sold,
@@ -315,6 +338,7 @@ export default function RequestForm() {
         {currentStep === 2 && (
           <AdvertisementSection
             data={{
+              request_id: formData.request_id,
               advertisements: formData.advertisements,
               ad_areas_sold: formData.ad_areas_sold,
               themes: formData.themes,
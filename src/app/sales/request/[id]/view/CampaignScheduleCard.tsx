@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, CalendarClock, CheckCircle, RefreshCw } from 'lucide-react';
+import { CampaignSchedule, ScheduleDrift, formatScheduleDateTime } from '@/lib/utils/campaign-schedule';
+
+// As returned by /api/advertising-requests/[id]/schedule
+interface CampaignScheduleStatus {
+  time_zone: string;
+  expected: CampaignSchedule;
+  campaign: { broadstreet_id: number; name: string; start_date?: string; end_date?: string } | null;
+  drift: ScheduleDrift[];
+}
+
+interface CampaignScheduleCardProps {
+  requestId: string;
+  // Changes when the request is saved, e.g. after fulfilment
+  refreshKey?: string | Date;
+  canAlign: boolean;
+}
+
+/**
+ * Contract dates against the fulfilled campaign's Broadstreet dates, with a fix for drift
+ */
+export default function CampaignScheduleCard({ requestId, refreshKey, canAlign }: CampaignScheduleCardProps) {
+  const [status, setStatus] = useState<CampaignScheduleStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [aligning, setAligning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Compared by value; a Date prop is a new object on every render
+  const refreshToken = refreshKey ? String(refreshKey) : '';
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/schedule`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check campaign schedule');
+      }
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check campaign schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus, refreshToken]);
+
+  const handleAlign = async () => {
+    if (!confirm('Update the campaign in Broadstreet to run exactly over the contract dates?')) {
+      return;
+    }
+
+    setAligning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/schedule`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update campaign dates');
+      }
+      setStatus(data);
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update campaign dates');
+    } finally {
+      setAligning(false);
+    }
+  };
+
+  // Only fulfilled requests have a campaign to compare
+  if (!status?.campaign && !error) {
+    return null;
+  }
+
+  const formatValue = (value?: string | null) => value ? formatScheduleDateTime(value, status?.time_zone) : '—';
+
+  return (
+    <Card data-testid="campaign-schedule">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5" />
+            <span>Campaign Schedule</span>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadStatus} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        {status?.campaign && (
+          <>
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <span className="text-gray-500"></span>
+              <span className="font-medium text-gray-500">Contract</span>
+              <span className="font-medium text-gray-500">Campaign #{status.campaign.broadstreet_id}</span>
+              <span className="text-gray-500">Start</span>
+              <span>{formatValue(status.expected.start_date)}</span>
+              <span>{formatValue(status.campaign.start_date)}</span>
+              <span className="text-gray-500">End</span>
+              <span>{formatValue(status.expected.end_date)}</span>
+              <span>{formatValue(status.campaign.end_date)}</span>
+            </div>
+            <p className="text-xs text-gray-500">Times are {status.time_zone}, as of the last campaign sync.</p>
+
+            {status.drift.length === 0 ? (
+              <p className="flex items-center space-x-2 text-sm text-green-700">
+                <CheckCircle className="w-4 h-4" />
+                <span>The campaign runs exactly over the contract dates.</span>
+              </p>
+            ) : (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-2" data-testid="campaign-schedule-drift">
+                <p className="flex items-center space-x-2 font-medium">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>Campaign dates drift from the contract</span>
+                </p>
+                <ul className="list-disc pl-5 space-y-1">
+                  {status.drift.map(drift => (
+                    <li key={drift.field}>{drift.message}</li>
+                  ))}
+                </ul>
+                {canAlign && (
+                  <Button size="sm" variant="outline" onClick={handleAlign} disabled={aligning}>
+                    {aligning ? 'Updating...' : 'Align with contract'}
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
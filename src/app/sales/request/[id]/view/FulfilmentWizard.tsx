@@ -0,0 +1,319 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { useFilterStore } from '@/stores';
+import type { FulfilmentProposal, FulfilmentResult } from '@/lib/request-fulfilment-service';
+import { PUBLICATION_TIME_ZONE } from '@/lib/utils/campaign-schedule';
+
+interface FulfilmentWizardProps {
+  requestId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+type Step = 'entities' | 'placements' | 'result';
+
+function placementKey(p: { advertisement_index: number; zone_id: number }) {
+  return `${p.advertisement_index}:${p.zone_id}`;
+}
+
+/**
+ * Fulfilment wizard - builds the Broadstreet advertiser, campaign, ads and placements
+ * for an advertising request and completes it once everything is synced
+ */
+export default function FulfilmentWizard({ requestId, isOpen, onClose, onCompleted }: FulfilmentWizardProps) {
+  const { selectedNetwork } = useFilterStore();
+  const networkId = selectedNetwork?.broadstreet_id ?? null;
+
+  const [step, setStep] = useState<Step>('entities');
+  const [proposal, setProposal] = useState<FulfilmentProposal | null>(null);
+  const [selectedPlacements, setSelectedPlacements] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<FulfilmentResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProposal = useCallback(async () => {
+    if (!networkId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/fulfil?networkId=${networkId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load proposal');
+      }
+      setProposal(data.proposal);
+      setSelectedPlacements(new Set(data.proposal.placements.map(placementKey)));
+      setStep('entities');
+      setResult(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load proposal');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [requestId, networkId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadProposal();
+    }
+  }, [isOpen, loadProposal]);
+
+  const updateProposal = (changes: Partial<FulfilmentProposal>) => {
+    setProposal(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const togglePlacement = (key: string, checked: boolean) => {
+    setSelectedPlacements(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key); else next.delete(key);
+      return next;
+    });
+  };
+
+  const entitiesValid = !!proposal &&
+    !!proposal.advertiser.name.trim() &&
+    !!proposal.campaign.name.trim() &&
+    !!proposal.campaign.start_date &&
+    proposal.advertisements.every(ad => ad.name.trim());
+
+  const handleSubmit = async () => {
+    if (!proposal || !networkId) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/fulfil`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          networkId,
+          advertiser: proposal.advertiser,
+          campaign: {
+            ...proposal.campaign,
+            end_date: proposal.campaign.end_date || undefined,
+          },
+          advertisements: proposal.advertisements.map(ad => ({ index: ad.index, name: ad.name })),
+          placements: proposal.placements
+            .filter(p => selectedPlacements.has(placementKey(p)))
+            .map(p => ({ advertisement_index: p.advertisement_index, zone_id: p.zone_id })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Fulfilment failed');
+      }
+      setResult(data);
+      setStep('result');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fulfilment failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    if (result?.success) {
+      onCompleted();
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) handleClose(); }}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Fulfil request</DialogTitle>
+          <DialogDescription>
+            {step === 'entities' && 'Review the advertiser, campaign and advertisements that will be created in Broadstreet.'}
+            {step === 'placements' && 'Choose the zones each advertisement is placed in.'}
+            {step === 'result' && 'Sync results'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!networkId && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+            Select a network in the sidebar before fulfilling a request.
+          </div>
+        )}
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        {isLoading && <p className="text-sm text-gray-500">Preparing proposal...</p>}
+
+        {proposal && !isLoading && step === 'entities' && (
+          <div className="max-h-[60vh] space-y-5 overflow-y-auto">
+            <div className="space-y-2">
+              <Label htmlFor="fulfil-advertiser">Advertiser</Label>
+              <Input
+                id="fulfil-advertiser"
+                value={proposal.advertiser.name}
+                onChange={(e) => updateProposal({ advertiser: { name: e.target.value } })}
+              />
+              {proposal.advertiser.broadstreet_id && (
+                <p className="text-xs text-gray-500">
+                  Uses the existing Broadstreet advertiser #{proposal.advertiser.broadstreet_id}. Editing the name creates a new one.
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="fulfil-campaign">Campaign</Label>
+                <Input
+                  id="fulfil-campaign"
+                  value={proposal.campaign.name}
+                  onChange={(e) => updateProposal({ campaign: { ...proposal.campaign, name: e.target.value } })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fulfil-start">Start</Label>
+                <Input
+                  id="fulfil-start"
+                  type="date"
+                  value={proposal.campaign.start_date}
+                  onChange={(e) => updateProposal({ campaign: { ...proposal.campaign, start_date: e.target.value } })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fulfil-end">End</Label>
+                <Input
+                  id="fulfil-end"
+                  type="date"
+                  value={proposal.campaign.end_date || ''}
+                  onChange={(e) => updateProposal({ campaign: { ...proposal.campaign, end_date: e.target.value } })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              The campaign runs from 00:00 on the start day to 23:59 on the end day, {PUBLICATION_TIME_ZONE} time.
+            </p>
+
+            <div className="space-y-2">
+              <Label>Advertisements</Label>
+              {proposal.advertisements.map(ad => (
+                <div key={ad.index} className="flex items-center gap-3 rounded-md border p-2">
+                  <img src={ad.image_url} alt={ad.name} className="h-12 w-16 rounded border object-contain" />
+                  <div className="flex-1 space-y-1">
+                    <Input
+                      value={ad.name}
+                      onChange={(e) => updateProposal({
+                        advertisements: proposal.advertisements.map(a => (a.index === ad.index ? { ...a, name: e.target.value } : a)),
+                      })}
+                    />
+                    <p className="truncate text-xs text-gray-500">
+                      {ad.width}x{ad.height} ({ad.size_coding}) → {ad.target_url}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {proposal && !isLoading && step === 'placements' && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto" data-testid="fulfil-placements">
+            {proposal.warnings.map(warning => (
+              <div key={warning} className="rounded-md border border-yellow-200 bg-yellow-50 p-2 text-xs text-yellow-800">{warning}</div>
+            ))}
+            {proposal.advertisements.map(ad => {
+              const options = proposal.placements.filter(p => p.advertisement_index === ad.index);
+              return (
+                <div key={ad.index} className="space-y-2">
+                  <h4 className="text-sm font-semibold text-gray-900">
+                    {ad.name} <Badge variant="outline">{ad.size_coding}</Badge>
+                  </h4>
+                  {options.length === 0 && <p className="text-xs text-gray-500">No matching zones; the ad is created without placements.</p>}
+                  {options.map(option => {
+                    const key = placementKey(option);
+                    return (
+                      <label key={key} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={selectedPlacements.has(key)}
+                          onCheckedChange={(checked) => togglePlacement(key, checked === true)}
+                        />
+                        <span>{option.zone_name}</span>
+                        <span className="text-xs text-gray-400">#{option.zone_id} · {option.matched_by.join(', ')}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 'result' && result && (
+          <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+            <p className={`text-sm font-medium ${result.success ? 'text-green-700' : 'text-red-700'}`}>
+              {result.success
+                ? `Request completed: campaign #${result.completed_campaign_id} with ${result.completed_advertisement_ids.length} advertisement(s).`
+                : 'Some items could not be synced. Fix the cause and run the wizard again; items already in Broadstreet are reused.'}
+            </p>
+            {result.steps.map((s, index) => (
+              <div key={index} className="flex items-start gap-2 text-sm">
+                {s.success
+                  ? <CheckCircle className="mt-0.5 h-4 w-4 text-green-600" />
+                  : <XCircle className="mt-0.5 h-4 w-4 text-red-600" />}
+                <div>
+                  <span className="font-medium capitalize">{s.entityType}</span>: {s.name}
+                  {s.broadstreet_id && <span className="text-gray-400"> #{s.broadstreet_id}</span>}
+                  {s.error && <p className="text-xs text-red-600">{s.error}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'entities' && (
+            <>
+              <Button type="button" variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button type="button" onClick={() => setStep('placements')} disabled={!entitiesValid}>
+                Next: placements
+              </Button>
+            </>
+          )}
+          {step === 'placements' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('entities')} disabled={isSubmitting}>Back</Button>
+              <Button
+                type="button"
+                onClick={handleSubmit}
+                disabled={isSubmitting || !networkId}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                data-testid="fulfil-submit"
+              >
+                {isSubmitting ? 'Syncing to Broadstreet...' : `Create in Broadstreet (${selectedPlacements.size} placements)`}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <>
+              {!result?.success && (
+                <Button type="button" variant="outline" onClick={() => setStep('placements')}>Back</Button>
+              )}
+              <Button type="button" onClick={handleClose}>Close</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
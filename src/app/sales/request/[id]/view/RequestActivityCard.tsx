@@ -0,0 +1,325 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Clock, Paperclip, RefreshCw, Send, X } from 'lucide-react';
+import type { RequestActor, StatusHistoryEntry } from '@/lib/advertising-request-workflow';
+import {
+  MAX_COMMENT_ATTACHMENTS,
+  MAX_COMMENT_ATTACHMENT_SIZE,
+  MAX_COMMENT_LENGTH,
+  COMMENT_ATTACHMENT_ACCEPT,
+  COMMENT_ATTACHMENT_TYPES_LABEL,
+  getCommentAttachmentType,
+  RequestCommentView,
+  buildRequestActivity,
+  isMentionedIn,
+} from '@/lib/request-activity';
+import RequestActivityTimeline from '@/components/requests/RequestActivityTimeline';
+
+interface CommentComposerProps {
+  requestId: string;
+  parentCommentId?: string;
+  mentionableUsers: RequestActor[];
+  placeholder: string;
+  onPosted: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Comment form with @mentions and attachments
+ */
+function CommentComposer({ requestId, parentCommentId, mentionableUsers, placeholder, onPosted, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState('');
+  const [mentionIds, setMentionIds] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addMention = (userId: string) => {
+    const user = mentionableUsers.find(candidate => candidate.user_id === userId);
+    if (!user) return;
+    setBody(current => `${current}${current && !current.endsWith(' ') ? ' ' : ''}@${user.user_name} `);
+    setMentionIds(current => current.includes(userId) ? current : [...current, userId]);
+  };
+
+  const addFiles = (selected: FileList | null) => {
+    if (!selected) return;
+    const next = [...files, ...Array.from(selected)];
+    const oversized = next.find(file => file.size > MAX_COMMENT_ATTACHMENT_SIZE);
+    const unsupported = next.find(file => !getCommentAttachmentType(file));
+    if (oversized) {
+      setError(`${oversized.name} is larger than ${MAX_COMMENT_ATTACHMENT_SIZE / (1024 * 1024)}MB`);
+    } else if (unsupported) {
+      setError(`${unsupported.name} is not an allowed attachment. Attach ${COMMENT_ATTACHMENT_TYPES_LABEL}`);
+    } else if (next.length > MAX_COMMENT_ATTACHMENTS) {
+      setError(`At most ${MAX_COMMENT_ATTACHMENTS} attachments per comment`);
+    } else {
+      setFiles(next);
+      setError(null);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSubmit = async () => {
+    setPosting(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('body', body);
+      if (parentCommentId) {
+        formData.append('parent_comment_id', parentCommentId);
+      }
+      // Mentions removed from the text while editing are dropped
+      const mentioned = mentionIds.filter(userId => {
+        const user = mentionableUsers.find(candidate => candidate.user_id === userId);
+        return user && isMentionedIn(body, user.user_name);
+      });
+      formData.append('mention_user_ids', JSON.stringify(mentioned));
+      files.forEach(file => formData.append('files', file));
+
+      const response = await fetch(`/api/advertising-requests/${requestId}/comments`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to post comment');
+      }
+
+      setBody('');
+      setMentionIds([]);
+      setFiles([]);
+      onPosted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid={parentCommentId ? 'comment-reply-composer' : 'comment-composer'}>
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        disabled={posting}
+        rows={parentCommentId ? 2 : 3}
+      />
+
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <span key={`${file.name}-${index}`} className="flex items-center space-x-1 rounded border border-gray-200 px-2 py-1 text-xs">
+              <Paperclip className="w-3 h-3" />
+              <span>{file.name}</span>
+              <button
+                type="button"
+                onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <select
+            value=""
+            onChange={(e) => addMention(e.target.value)}
+            disabled={posting || mentionableUsers.length === 0}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label="Mention a user"
+          >
+            <option value="">@ Mention</option>
+            {mentionableUsers.map(user => (
+              <option key={user.user_id} value={user.user_id}>{user.user_name}</option>
+            ))}
+          </select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={COMMENT_ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={(e) => addFiles(e.target.files)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={posting || files.length >= MAX_COMMENT_ATTACHMENTS}
+          >
+            <Paperclip className="w-4 h-4 mr-1" />
+            Attach
+          </Button>
+        </div>
+        <div className="flex items-center space-x-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={posting}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSubmit}
+            disabled={posting || (!body.trim() && files.length === 0)}
+          >
+            <Send className="w-4 h-4 mr-1" />
+            {posting ? 'Posting...' : parentCommentId ? 'Reply' : 'Comment'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RequestActivityCardProps {
+  requestId: string;
+  statusHistory: StatusHistoryEntry[];
+  canManage: boolean;
+  // Called after a comment is posted or deleted, e.g. to refresh the notifications card
+  onCommentsChanged?: () => void;
+}
+
+/**
+ * Status history and the discussion thread of a request, interleaved, with a comment form
+ */
+export default function RequestActivityCard({ requestId, statusHistory, canManage, onCommentsChanged }: RequestActivityCardProps) {
+  const [comments, setComments] = useState<RequestCommentView[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [mentionableUsers, setMentionableUsers] = useState<RequestActor[]>([]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/comments`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load comments');
+      }
+      setComments(data.comments || []);
+      setCurrentUserId(data.current_user_id || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestId]);
+
+  const loadMentionableUsers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/mentionable-users`);
+      const data = await response.json();
+      if (response.ok) {
+        setMentionableUsers(data.users || []);
+      }
+    } catch (err) {
+      // Comments still work without the mention picker
+      console.error('Error loading mentionable users:', err);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    loadComments();
+    loadMentionableUsers();
+  }, [loadComments, loadMentionableUsers]);
+
+  const handlePosted = async () => {
+    setReplyingTo(null);
+    await loadComments();
+    onCommentsChanged?.();
+  };
+
+  const handleDelete = async (comment: RequestCommentView) => {
+    const hasReplies = comments.some(candidate => candidate.parent_comment_id === comment._id);
+    if (!confirm(hasReplies ? 'Delete this comment and its replies?' : 'Delete this comment?')) {
+      return;
+    }
+
+    setDeletingId(comment._id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/comments/${comment._id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete comment');
+      }
+      await loadComments();
+      onCommentsChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card data-testid="request-activity">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Clock className="w-5 h-5" />
+            <span>Activity</span>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadComments} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <RequestActivityTimeline
+          items={buildRequestActivity(statusHistory, comments)}
+          onReply={(comment) => setReplyingTo(comment._id)}
+          onDelete={handleDelete}
+          canDelete={(comment) => canManage || comment.author_user_id === currentUserId}
+          deletingId={deletingId}
+          renderThreadFooter={(comment) => replyingTo === comment._id && (
+            <CommentComposer
+              requestId={requestId}
+              parentCommentId={comment._id}
+              mentionableUsers={mentionableUsers}
+              placeholder={`Reply to ${comment.author_user_name}...`}
+              onPosted={handlePosted}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+        />
+
+        <div className="border-t border-gray-200 pt-4">
+          <CommentComposer
+            requestId={requestId}
+            mentionableUsers={mentionableUsers}
+            placeholder="Add a comment, e.g. about missing creatives or wrong URLs..."
+            onPosted={handlePosted}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useUser } from '@clerk/nextjs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,10 +21,19 @@ import {
   Target,
   Tag,
   CheckCircle,
-  XCircle
+  XCircle,
+  UserCheck,
+  Bell,
+  BellOff
 } from 'lucide-react';
 import { IAdvertisingRequest } from '@/lib/models/advertising-request';
-// import CompletionModal from './CompletionModal'; // TODO: Implement completion modal
+import { getRequestStatusBadgeVariant, getRequestStatusLabel, isRequestEditable } from '@/lib/advertising-request-workflow';
+import AssignRequestDialog from '@/components/requests/AssignRequestDialog';
+import { usePermissions } from '@/hooks/usePermissions';
+import FulfilmentWizard from './FulfilmentWizard';
+import RequestNotificationsCard from './RequestNotificationsCard';
+import RequestActivityCard from './RequestActivityCard';
+import CampaignScheduleCard from './CampaignScheduleCard';
 
 interface RequestDetailClientProps {
   request: IAdvertisingRequest;
@@ -41,36 +51,14 @@ export default function RequestDetailClient({
   const router = useRouter();
   const [updating, setUpdating] = useState(false);
   const [showCompletionModal, setShowCompletionModal] = useState(false);
-
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status) {
-      case 'new':
-        return 'default';
-      case 'in_progress':
-        return 'secondary';
-      case 'completed':
-        return 'default';
-      case 'cancelled':
-        return 'destructive';
-      default:
-        return 'outline';
-    }
-  };
-
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case 'new':
-        return 'New';
-      case 'in_progress':
-        return 'In Progress';
-      case 'completed':
-        return 'Completed';
-      case 'cancelled':
-        return 'Cancelled';
-      default:
-        return status;
-    }
-  };
+  const [showAssign, setShowAssign] = useState(false);
+  const [watchUpdating, setWatchUpdating] = useState(false);
+  // Bumped when comments change, so the notifications card picks up comment emails
+  const [commentsVersion, setCommentsVersion] = useState(0);
+  const { can } = usePermissions();
+  const canManage = can('requests:manage');
+  const { user } = useUser();
+  const isWatching = !!user && (request.watchers || []).some(watcher => watcher.user_id === user.id);
 
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -92,24 +80,46 @@ export default function RequestDetailClient({
         },
         body: JSON.stringify({
           status: newStatus,
-          notes: `Status updated to ${getStatusLabel(newStatus)}`,
+          notes: `Status updated to ${getRequestStatusLabel(newStatus)}`,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update status');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update status');
       }
 
       // Refresh the page to show updated data
       router.refresh();
     } catch (err) {
       console.error('Error updating status:', err);
-      alert('Failed to update status. Please try again.');
+      alert(err instanceof Error ? err.message : 'Failed to update status. Please try again.');
     } finally {
       setUpdating(false);
     }
   };
 
+  const handleToggleWatch = async () => {
+    setWatchUpdating(true);
+    try {
+      const response = await fetch(`/api/advertising-requests/${String(request._id)}/watchers`, {
+        method: isWatching ? 'DELETE' : 'POST',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update watch status');
+      }
+
+      router.refresh();
+    } catch (err) {
+      console.error('Error updating watch status:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update watch status. Please try again.');
+    } finally {
+      setWatchUpdating(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this request? This action cannot be undone.')) {
       return;
@@ -156,8 +166,8 @@ export default function RequestDetailClient({
                 <h1 className="text-2xl font-bold text-gray-900">
                   {request.campaign_name || `Request ${requestNumber}`}
                 </h1>
-                <Badge variant={getStatusBadgeVariant(request.status)}>
-                  {getStatusLabel(request.status)}
+                <Badge variant={getRequestStatusBadgeVariant(request.status)}>
+                  {getRequestStatusLabel(request.status)}
                 </Badge>
               </div>
               <p className="text-lg text-gray-600">
@@ -167,7 +177,7 @@ export default function RequestDetailClient({
             
             <div className="flex items-center space-x-2">
               {/* Status Update Buttons */}
-              {request.status === 'new' && (
+              {canManage && request.status === 'new' && (
                 <Button
                   onClick={() => handleStatusUpdate('in_progress')}
                   disabled={updating}
@@ -178,26 +188,54 @@ export default function RequestDetailClient({
                 </Button>
               )}
               
-              {request.status === 'in_progress' && (
+              {canManage && request.status === 'in_progress' && (
                 <Button
                   onClick={() => setShowCompletionModal(true)}
                   disabled={updating}
                   className="flex items-center space-x-2"
                 >
                   <CheckCircle className="w-4 h-4" />
-                  <span>Complete</span>
+                  <span>Fulfil</span>
                 </Button>
               )}
 
               {/* Action Buttons */}
+              {canManage && isRequestEditable(request.status) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowAssign(true)}
+                  className="flex items-center space-x-2"
+                  data-testid="request-assign"
+                >
+                  <UserCheck className="w-4 h-4" />
+                  <span>{request.assigned_to_user_id ? 'Reassign' : 'Assign'}</span>
+                </Button>
+              )}
+
               <Button
                 variant="outline"
                 size="sm"
-                onClick={handleDelete}
-                className="text-red-600 hover:text-red-800"
+                onClick={handleToggleWatch}
+                disabled={watchUpdating || !user}
+                className="flex items-center space-x-2"
+                title={isWatching ? 'Stop emails about this request' : 'Get emails when this request changes'}
+                data-testid="request-watch"
               >
-                <Trash2 className="w-4 h-4" />
+                {isWatching ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                <span>{isWatching ? 'Unwatch' : 'Watch'}</span>
               </Button>
+
+              {canManage && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDelete}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -226,6 +264,15 @@ export default function RequestDetailClient({
                 <label className="text-sm font-medium text-gray-500">Contract ID</label>
                 <p className="text-base text-gray-900">{request.contract_id}</p>
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Assignee</label>
+                <p className={`text-base ${request.assigned_to_user_id ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {request.assigned_to_user_name || 'Unassigned'}
+                  {request.assigned_at && (
+                    <span className="text-sm text-gray-500"> · since {formatDate(request.assigned_at)}</span>
+                  )}
+                </p>
+              </div>
             </div>
             <div className="space-y-4">
               <div>
@@ -246,6 +293,17 @@ export default function RequestDetailClient({
                   </p>
                 </div>
               )}
+              {request.completed_campaign_id && (
+                <div>
+                  <label className="text-sm font-medium text-gray-500">Broadstreet Campaign</label>
+                  <p className="text-base text-gray-900">
+                    #{request.completed_campaign_id}
+                    {request.completed_advertisement_ids && request.completed_advertisement_ids.length > 0 && (
+                      <span className="text-gray-500"> · ads {request.completed_advertisement_ids.map(adId => `#${adId}`).join(', ')}</span>
+                    )}
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -265,16 +323,30 @@ export default function RequestDetailClient({
               {request.advertisements.map((ad, index) => (
                 <div key={index} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex items-start space-x-4">
-                    <img
-                      src={ad.image_url}
-                      alt={ad.image_alt_text}
-                      className="w-32 h-auto rounded border"
-                    />
+                    <a href={ad.image_url} target="_blank" rel="noopener noreferrer" title="Open full size">
+                      <img
+                        src={ad.thumbnail_url || ad.image_url}
+                        alt={ad.image_alt_text}
+                        loading="lazy"
+                        className="w-32 h-auto rounded border"
+                      />
+                    </a>
                     <div className="flex-1 space-y-2">
                       <h4 className="font-medium text-gray-900">{ad.advertisement_name}</h4>
                       <p className="text-sm text-gray-600">
                         Size: {ad.width}x{ad.height} ({ad.size_coding})
                       </p>
+                      {(ad.original_url || ad.image_1x_url) && (
+                        <p className="text-sm text-gray-600 space-x-3">
+                          <a href={ad.image_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Web copy</a>
+                          {ad.image_1x_url && (
+                            <a href={ad.image_1x_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">1x copy</a>
+                          )}
+                          {ad.original_url && (
+                            <a href={ad.original_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Original</a>
+                          )}
+                        </p>
+                      )}
                       <p className="text-sm text-gray-600">
                         Target: <a href={ad.target_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
                           {ad.target_url}
@@ -410,33 +482,46 @@ export default function RequestDetailClient({
         </CardContent>
       </Card>
 
-      {/* TODO: Add CompletionModal component */}
-      {showCompletionModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h3 className="text-lg font-semibold mb-4">Complete Request</h3>
-            <p className="text-gray-600 mb-4">
-              Completion workflow will be implemented here. For now, this will mark the request as completed.
-            </p>
-            <div className="flex justify-end space-x-2">
-              <Button
-                variant="outline"
-                onClick={() => setShowCompletionModal(false)}
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={() => {
-                  handleStatusUpdate('completed');
-                  setShowCompletionModal(false);
-                }}
-              >
-                Mark Complete
-              </Button>
-            </div>
-          </div>
-        </div>
+      {/* Contract dates against the fulfilled campaign */}
+      {request.completed_campaign_id && (
+        <CampaignScheduleCard
+          requestId={String(request._id)}
+          refreshKey={request.updated_at}
+          canAlign={canManage}
+        />
       )}
+
+      {/* Status changes and comments, interleaved */}
+      <RequestActivityCard
+        requestId={String(request._id)}
+        statusHistory={request.status_history || []}
+        canManage={canManage}
+        onCommentsChanged={() => setCommentsVersion(version => version + 1)}
+      />
+
+      {/* Emails sent about this request */}
+      <RequestNotificationsCard
+        requestId={String(request._id)}
+        refreshKey={`${String(request.updated_at)}:${commentsVersion}`}
+        canRetry={canManage}
+      />
+
+      {/* Fulfilment wizard: builds and syncs the Broadstreet entities, then completes the request */}
+      <FulfilmentWizard
+        requestId={String(request._id)}
+        isOpen={showCompletionModal}
+        onClose={() => setShowCompletionModal(false)}
+        onCompleted={() => router.refresh()}
+      />
+
+      <AssignRequestDialog
+        requestId={String(request._id)}
+        assignedToUserId={request.assigned_to_user_id}
+        assignedToUserName={request.assigned_to_user_name}
+        isOpen={showAssign}
+        onClose={() => setShowAssign(false)}
+        onAssigned={() => router.refresh()}
+      />
     </div>
   );
 }
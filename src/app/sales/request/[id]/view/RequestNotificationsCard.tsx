@@ -0,0 +1,170 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Mail, RefreshCw, RotateCcw } from 'lucide-react';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_REASON_LABELS,
+  NotificationEvent,
+  NotificationReason,
+  NotificationStatus,
+} from '@/lib/notification-events';
+
+// Outbox entry as listed by /api/advertising-requests/[id]/notifications
+interface RequestNotification {
+  _id: string;
+  event: NotificationEvent;
+  recipient_name: string;
+  recipient_email: string;
+  reason: NotificationReason;
+  subject: string;
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string | null;
+  transport?: string;
+  sent_at?: string;
+  created_at: string;
+}
+
+const STATUS_BADGE_VARIANTS: Record<NotificationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  sending: 'secondary',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+interface RequestNotificationsCardProps {
+  requestId: string;
+  // Changes whenever the request is saved, so new notifications are picked up
+  refreshKey?: string | Date;
+  canRetry: boolean;
+}
+
+/**
+ * Emails sent (or still queued) about a request, with retry for failed ones
+ */
+export default function RequestNotificationsCard({ requestId, refreshKey, canRetry }: RequestNotificationsCardProps) {
+  const [notifications, setNotifications] = useState<RequestNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Compared by value; a Date prop is a new object on every render
+  const refreshToken = refreshKey ? String(refreshKey) : '';
+
+  const loadNotifications = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/notifications`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load notifications');
+      }
+      setNotifications(data.notifications || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications, refreshToken]);
+
+  const handleRetry = async (notificationId: string) => {
+    setRetryingId(notificationId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/notifications/${notificationId}/retry`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Retry failed');
+      }
+      await loadNotifications();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <Card data-testid="request-notifications">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Mail className="w-5 h-5" />
+            <span>Notifications</span>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadNotifications} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {!loading && notifications.length === 0 && (
+          <p className="text-sm text-gray-500">No emails have been sent about this request.</p>
+        )}
+
+        {notifications.map(notification => (
+          <div
+            key={notification._id}
+            className="flex items-start justify-between gap-4 border-b border-gray-100 pb-3 last:border-0 last:pb-0 text-sm"
+          >
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900">{NOTIFICATION_EVENT_LABELS[notification.event]}</span>
+                <Badge variant={STATUS_BADGE_VARIANTS[notification.status]}>{notification.status}</Badge>
+              </div>
+              <p className="text-gray-600">
+                To {notification.recipient_name} ({notification.recipient_email})
+                <span className="text-gray-400"> · {NOTIFICATION_REASON_LABELS[notification.reason]}</span>
+              </p>
+              <p className="text-gray-500">
+                {notification.status === 'sent' && notification.sent_at
+                  ? `Sent ${formatDate(notification.sent_at)}${notification.transport && notification.transport !== 'smtp' ? ` via ${notification.transport}` : ''}`
+                  : notification.status === 'pending' && notification.attempts > 0
+                  ? `Attempt ${notification.attempts} failed, retrying ${formatDate(notification.next_attempt_at)}`
+                  : notification.status === 'failed'
+                  ? `Gave up after ${notification.attempts} attempts`
+                  : `Queued ${formatDate(notification.created_at)}`}
+              </p>
+              {notification.last_error && notification.status !== 'sent' && (
+                <p className="text-red-600">{notification.last_error}</p>
+              )}
+            </div>
+
+            {canRetry && notification.status === 'failed' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(notification._id)}
+                disabled={retryingId !== null}
+                data-testid="notification-retry"
+              >
+                <RotateCcw className={`h-4 w-4 mr-2 ${retryingId === notification._id ? 'animate-spin' : ''}`} />
+                {retryingId === notification._id ? 'Retrying...' : 'Retry'}
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
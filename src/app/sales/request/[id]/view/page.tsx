@@ -2,6 +2,8 @@ import { Suspense } from 'react';
 import { notFound } from 'next/navigation';
 import connectDB from '@/lib/mongodb';
 import AdvertisingRequest from '@/lib/models/advertising-request';
+import { canViewRequest } from '@/lib/access-control';
+import { getAccessContext } from '@/lib/server/authorization';
 import RequestDetailClient from './RequestDetailClient';
 import LoadingSkeleton from './LoadingSkeleton';
 
@@ -24,10 +26,14 @@ export default async function RequestDetailPage({
   let request = null;
   try {
     await connectDB();
-    request = await AdvertisingRequest.findById(id)
-      .lean({ virtuals: true }) as unknown as any;
+    const [access, found] = await Promise.all([
+      getAccessContext(),
+      AdvertisingRequest.findById(id).lean({ virtuals: true }) as unknown as any,
+    ]);
+    request = found;
     
-    if (!request) {
+    // Sales only see the requests they created
+    if (!request || !access || !canViewRequest(access.role, access.userId, request)) {
       notFound();
     }
   } catch (error) {
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Loader2 } from 'lucide-react';
+import { useAllFilters } from '@/stores';
 
 interface CreateAdvertiserModalProps {
   isOpen: boolean;
@@ -45,6 +46,7 @@ export default function CreateAdvertiserModal({
   
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { selectedNetwork } = useAllFilters();
 
   // Reset form when modal opens/closes
   const handleClose = () => {
@@ -67,6 +69,10 @@ export default function CreateAdvertiserModal({
       newErrors.name = 'Company name is required';
     }
 
+    if (!selectedNetwork) {
+      newErrors.submit = 'Select a network first';
+    }
+
     // Validate admins if provided
     formData.admins.forEach((admin, index) => {
       if (admin.name && !admin.email) {
@@ -100,7 +106,7 @@ export default function CreateAdvertiserModal({
 
       const payload = {
         name: formData.name.trim(),
-        networkId: 9396, // Default network ID from user preferences
+        networkId: selectedNetwork?.broadstreet_id, // Network selected for the active API connection
         webHomeUrl: formData.web_home_url.trim() || undefined,
         notes: formData.notes.trim() || undefined,
         admins: validAdmins.length > 0 ? validAdmins : undefined,
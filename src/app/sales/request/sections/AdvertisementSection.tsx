@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
-import { X, Upload, Image as ImageIcon } from 'lucide-react';
+import { X, Upload, CheckCircle, XCircle } from 'lucide-react';
+import { determineSizeCoding, getImageDimensionsFromFile } from '@/lib/utils/image-processing';
+import { CreativeValidationResult, DEFAULT_CREATIVE_MAX_FILE_SIZE, validateCreative } from '@/lib/utils/creative-specs';
 
 interface Advertisement {
   id: string; // Temporary ID for managing array
@@ -20,11 +22,17 @@ interface Advertisement {
   advertisement_name: string;
   target_url: string;
   html_code?: string;
+  original_url?: string;
+  thumbnail_url?: string;
+  image_1x_url?: string;
+  content_hash?: string;
   r2_key: string;
+  r2_keys?: string[];
   uploaded_at: Date;
 }
 
 interface AdvertisementData {
+  request_id: string;
   advertisements: Advertisement[];
   ad_areas_sold: string;
   themes: string;
@@ -55,20 +63,8 @@ export default function AdvertisementSection({
   advertiserInfo,
 }: AdvertisementSectionProps) {
   const [uploadingIndex, setUploadingIndex] = useState<number | null>(null);
-
-  // Auto-select size coding based on dimensions
-  const getSizeCoding = (width: number, height: number): 'SQ' | 'PT' | 'LS' => {
-    const ratio = width / height;
-
-    // Portrait: height > width (ratio < 1)
-    if (ratio < 0.9) return 'PT';
-
-    // Landscape: width > height significantly (ratio > 1.5)
-    if (ratio > 1.5) return 'LS';
-
-    // Square: roughly equal dimensions
-    return 'SQ';
-  };
+  // Images rejected by the creative spec check, with the reasons
+  const [rejectedImages, setRejectedImages] = useState<Array<{ file_name: string; errors: string[] }>>([]);
 
   // Generate advertisement name according to spec
   const generateAdvertisementName = (
@@ -97,75 +93,112 @@ export default function AdvertisementSection({
     return `${advertiser_id} | ${advertiserShort} - ${contract_id} - ${startDate} - ${endDate} - ${imageShort} - ${sizeCoding} ${width} x ${height}`;
   };
 
-  // Handle image upload
-  const handleImageUpload = async (file: File) => {
+  // Check one image against the creative specs and upload it; returns the new ad or the rejection reasons
+  const uploadImage = async (file: File, requestId: string): Promise<{ ad: Advertisement; requestId: string } | { errors: string[] }> => {
+    // Check in the browser first, so a wrong size never leaves the machine
     try {
-      setUploadingIndex(data.advertisements.length);
-
-      // Validate file size (20MB max)
-      if (file.size > 20 * 1024 * 1024) {
-        alert('File size must be less than 20MB');
-        return;
+      const dimensions = await getImageDimensionsFromFile(file);
+      const validation = validateCreative({ ...dimensions, file_size: file.size, mime_type: file.type });
+      if (!validation.valid) {
+        return { errors: validation.errors };
       }
+    } catch {
+      return { errors: ['The file could not be read as an image'] };
+    }
 
-      // Validate file type
-      if (!file.type.startsWith('image/')) {
-        alert('Only image files are allowed');
-        return;
-      }
+    // Upload to API, which checks the specs again
+    const formData = new FormData();
+    formData.append('file', file);
+    if (requestId) {
+      formData.append('request_id', requestId);
+    }
 
-      // Upload to API
-      const formData = new FormData();
-      formData.append('file', file);
+    const response = await fetch('/api/advertising-requests/upload', {
+      method: 'POST',
+      body: formData,
+    });
 
-      const response = await fetch('/api/advertising-requests/upload', {
-        method: 'POST',
-        body: formData,
-      });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const validation = errorData.validation as CreativeValidationResult | undefined;
+      return { errors: validation ? validation.errors : [errorData.error || 'Upload failed'] };
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Upload failed');
-      }
+    const uploadResult = await response.json();
 
-      const uploadResult = await response.json();
+    // The same image twice would be the same creative twice
+    if (uploadResult.content_hash && data.advertisements.some(ad => ad.content_hash === uploadResult.content_hash)) {
+      return { errors: ['This image has already been added'] };
+    }
 
-      // Generate metadata
-      const imageName = file.name.replace(/\.[^/.]+$/, ''); // Remove extension
-      const sizeCoding = getSizeCoding(uploadResult.width, uploadResult.height);
-      const advertisementName = generateAdvertisementName(
-        imageName,
-        uploadResult.width,
-        uploadResult.height,
-        sizeCoding
-      );
-      const altText = `${advertiserInfo.campaign_name} - ${imageName}`;
-
-      // Create new advertisement object
-      const newAd: Advertisement = {
-        id: Date.now().toString(),
-        image_url: uploadResult.url,
-        image_name: imageName,
-        image_alt_text: altText,
-        width: uploadResult.width,
-        height: uploadResult.height,
-        file_size: file.size,
-        mime_type: file.type,
-        size_coding: sizeCoding,
-        advertisement_name: advertisementName,
-        target_url: 'https://',
-        html_code: '',
-        r2_key: uploadResult.key,
-        uploaded_at: new Date(),
-      };
-
-      // Add to advertisements array
-      onChange({
-        advertisements: [...data.advertisements, newAd],
-      });
-    } catch (error) {
-      console.error('Upload error:', error);
-      alert(error instanceof Error ? error.message : 'Failed to upload image');
+    // Generate metadata
+    const imageName = file.name.replace(/\.[^/.]+$/, ''); // Remove extension
+    const sizeCoding = uploadResult.size_coding || determineSizeCoding(uploadResult.width, uploadResult.height);
+    const advertisementName = generateAdvertisementName(
+      imageName,
+      uploadResult.width,
+      uploadResult.height,
+      sizeCoding
+    );
+    const altText = `${advertiserInfo.campaign_name} - ${imageName}`;
+
+    const ad: Advertisement = {
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      image_url: uploadResult.url,
+      image_name: imageName,
+      image_alt_text: altText,
+      width: uploadResult.width,
+      height: uploadResult.height,
+      file_size: uploadResult.size,
+      mime_type: uploadResult.type,
+      size_coding: sizeCoding,
+      advertisement_name: advertisementName,
+      target_url: 'https://',
+      html_code: '',
+      original_url: uploadResult.original_url,
+      thumbnail_url: uploadResult.thumbnail_url,
+      image_1x_url: uploadResult.image_1x_url,
+      content_hash: uploadResult.content_hash,
+      r2_key: uploadResult.key,
+      r2_keys: uploadResult.keys,
+      uploaded_at: new Date(),
+    };
+    return { ad, requestId: uploadResult.request_id };
+  };
+
+  // Handle image upload (one or more files)
+  const handleImageUpload = async (files: File[]) => {
+    setUploadingIndex(data.advertisements.length);
+    setRejectedImages([]);
+
+    const uploaded: Advertisement[] = [];
+    const rejected: Array<{ file_name: string; errors: string[] }> = [];
+    let requestId = data.request_id;
+    try {
+      for (const file of files) {
+        try {
+          const result = await uploadImage(file, requestId);
+          if ('errors' in result) {
+            rejected.push({ file_name: file.name, errors: result.errors });
+          } else if (uploaded.some(ad => ad.content_hash === result.ad.content_hash)) {
+            rejected.push({ file_name: file.name, errors: ['This image has already been added'] });
+          } else {
+            uploaded.push(result.ad);
+            requestId = result.requestId;
+          }
+        } catch (error) {
+          console.error('Upload error:', error);
+          rejected.push({ file_name: file.name, errors: [error instanceof Error ? error.message : 'Failed to upload image'] });
+        }
+      }
+
+      if (uploaded.length > 0) {
+        onChange({
+          request_id: requestId,
+          advertisements: [...data.advertisements, ...uploaded],
+        });
+      }
+      setRejectedImages(rejected);
     } finally {
       setUploadingIndex(null);
     }
@@ -222,9 +255,10 @@ export default function AdvertisementSection({
         <Input
           type="file"
           accept="image/*"
+          multiple
           onChange={(e) => {
-            const file = e.target.files?.[0];
-            if (file) handleImageUpload(file);
+            const files = Array.from(e.target.files || []);
+            if (files.length > 0) handleImageUpload(files);
             e.target.value = ''; // Reset input
           }}
           className="hidden"
@@ -237,10 +271,13 @@ export default function AdvertisementSection({
         >
           <Upload className="w-12 h-12 text-gray-400 mb-2" />
           <span className="text-sm font-medium text-gray-700">
-            {uploadingIndex !== null ? 'Uploading...' : 'Click to upload image'}
+            {uploadingIndex !== null ? 'Uploading...' : 'Click to upload images'}
+          </span>
+          <span className="text-xs text-gray-500 mt-1">
+            Max {DEFAULT_CREATIVE_MAX_FILE_SIZE / (1024 * 1024)}MB • JPEG, PNG, GIF, WebP
           </span>
           <span className="text-xs text-gray-500 mt-1">
-            Max 20MB • JPEG, PNG, GIF, WebP
+            Exact sizes: SQ 300x250, 336x280, 250x250 • PT 300x600, 160x600, 120x600 • LS 728x90, 970x90, 970x250, 320x50, 320x100 (or 2x for retina)
           </span>
         </label>
       </div>
@@ -249,119 +286,147 @@ export default function AdvertisementSection({
         <p className="text-sm text-red-600">{errors.advertisements}</p>
       )}
 
-      {/* Advertisements List */}
-      {data.advertisements.map((ad, index) => (
-        <div key={ad.id} className="border border-gray-200 rounded-lg p-6 space-y-4">
-          <div className="flex items-start justify-between">
-            <h3 className="text-md font-medium text-gray-900">Advertisement {index + 1}</h3>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => handleRemoveAd(index)}
-              className="text-red-600 hover:text-red-700 hover:bg-red-50"
-            >
-              <X className="w-4 h-4" />
-            </Button>
-          </div>
-
-          {/* Image Preview */}
-          <div className="flex items-center gap-4">
-            <img
-              src={ad.image_url}
-              alt={ad.image_alt_text}
-              className="w-[300px] h-auto border border-gray-200 rounded"
-            />
-            <div className="text-sm text-gray-600">
-              <p><strong>Dimensions:</strong> {ad.width} x {ad.height}px</p>
-              <p><strong>Size:</strong> {(ad.file_size / 1024).toFixed(2)} KB</p>
-              <p><strong>Type:</strong> {ad.mime_type}</p>
+      {rejectedImages.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-2" data-testid="creative-rejections">
+          {rejectedImages.map((rejection, index) => (
+            <div key={`${rejection.file_name}-${index}`}>
+              <p className="font-medium">{rejection.file_name} was not uploaded</p>
+              <ul className="list-disc pl-5">
+                {rejection.errors.map((error, errorIndex) => (
+                  <li key={errorIndex}>{error}</li>
+                ))}
+              </ul>
             </div>
-          </div>
+          ))}
+        </div>
+      )}
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Image Name */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700">
-                Image Name *
-              </Label>
-              <Input
-                value={ad.image_name}
-                onChange={(e) => handleAdUpdate(index, 'image_name', e.target.value)}
-              />
+      {/* Advertisements List */}
+      {data.advertisements.map((ad, index) => {
+        const creative = validateCreative(ad);
+        return (
+          <div key={ad.id} className="border border-gray-200 rounded-lg p-6 space-y-4">
+            <div className="flex items-start justify-between">
+              <h3 className="text-md font-medium text-gray-900">Advertisement {index + 1}</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveAd(index)}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <X className="w-4 h-4" />
+              </Button>
             </div>
 
-            {/* Size Coding */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700">
-                Size Coding *
-              </Label>
-              <div className="flex gap-4 mt-2">
-                {(['SQ', 'PT', 'LS'] as const).map((code) => (
-                  <label key={code} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="radio"
-                      name={`size-coding-${index}`}
-                      value={code}
-                      checked={ad.size_coding === code}
-                      onChange={(e) => handleAdUpdate(index, 'size_coding', e.target.value)}
-                      className="w-4 h-4"
-                    />
-                    <span className="text-sm">{code} - {code === 'SQ' ? 'Square' : code === 'PT' ? 'Portrait' : 'Landscape'}</span>
-                  </label>
-                ))}
+            {/* Image Preview */}
+            <div className="flex items-center gap-4">
+              <img
+                src={ad.image_url}
+                alt={ad.image_alt_text}
+                className="w-[300px] h-auto border border-gray-200 rounded"
+              />
+              <div className="text-sm text-gray-600">
+                <p><strong>Dimensions:</strong> {ad.width} x {ad.height}px</p>
+                <p><strong>Size:</strong> {(ad.file_size / 1024).toFixed(2)} KB</p>
+                <p><strong>Type:</strong> {ad.mime_type}</p>
               </div>
             </div>
 
-            {/* Advertisement Name (read-only, auto-generated) */}
-            <div className="md:col-span-2">
-              <Label className="text-sm font-medium text-gray-700">
-                Advertisement Name (auto-generated)
-              </Label>
-              <Input
-                value={ad.advertisement_name}
-                readOnly
-                className="bg-gray-50"
-              />
+            {/* Creative spec check */}
+            <div className="space-y-1 text-sm" data-testid="creative-checks">
+              {creative.checks.map(check => (
+                <p key={check.rule} className={`flex items-center gap-2 ${check.passed ? 'text-green-700' : 'text-red-700'}`}>
+                  {check.passed ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                  <span>{check.message}</span>
+                </p>
+              ))}
             </div>
 
-            {/* Image Alt Text */}
-            <div className="md:col-span-2">
-              <Label className="text-sm font-medium text-gray-700">
-                Image Alt Text *
-              </Label>
-              <Input
-                value={ad.image_alt_text}
-                onChange={(e) => handleAdUpdate(index, 'image_alt_text', e.target.value)}
-              />
-            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Image Name */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700">
+                  Image Name *
+                </Label>
+                <Input
+                  value={ad.image_name}
+                  onChange={(e) => handleAdUpdate(index, 'image_name', e.target.value)}
+                />
+              </div>
 
-            {/* Target URL */}
-            <div className="md:col-span-2">
-              <Label className="text-sm font-medium text-gray-700">
-                Target URL *
-              </Label>
-              <Input
-                value={ad.target_url}
-                onChange={(e) => handleTargetUrlChange(index, e.target.value)}
-                placeholder="https://example.com"
-              />
-            </div>
+              {/* Size Coding */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700">
+                  Size Coding *
+                </Label>
+                <div className="flex gap-4 mt-2">
+                  {(['SQ', 'PT', 'LS'] as const).map((code) => (
+                    <label key={code} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`size-coding-${index}`}
+                        value={code}
+                        checked={ad.size_coding === code}
+                        onChange={(e) => handleAdUpdate(index, 'size_coding', e.target.value)}
+                        className="w-4 h-4"
+                      />
+                      <span className="text-sm">{code} - {code === 'SQ' ? 'Square' : code === 'PT' ? 'Portrait' : 'Landscape'}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
 
-            {/* HTML Code */}
-            <div className="md:col-span-2">
-              <Label className="text-sm font-medium text-gray-700">
-                HTML Code (Optional)
-              </Label>
-              <Textarea
-                value={ad.html_code || ''}
-                onChange={(e) => handleAdUpdate(index, 'html_code', e.target.value)}
-                placeholder="Paste tracking pixels or custom HTML here"
-                rows={3}
-              />
+              {/* Advertisement Name (read-only, auto-generated) */}
+              <div className="md:col-span-2">
+                <Label className="text-sm font-medium text-gray-700">
+                  Advertisement Name (auto-generated)
+                </Label>
+                <Input
+                  value={ad.advertisement_name}
+                  readOnly
+                  className="bg-gray-50"
+                />
+              </div>
+
+              {/* Image Alt Text */}
+              <div className="md:col-span-2">
+                <Label className="text-sm font-medium text-gray-700">
+                  Image Alt Text *
+                </Label>
+                <Input
+                  value={ad.image_alt_text}
+                  onChange={(e) => handleAdUpdate(index, 'image_alt_text', e.target.value)}
+                />
+              </div>
+
+              {/* Target URL */}
+              <div className="md:col-span-2">
+                <Label className="text-sm font-medium text-gray-700">
+                  Target URL *
+                </Label>
+                <Input
+                  value={ad.target_url}
+                  onChange={(e) => handleTargetUrlChange(index, e.target.value)}
+                  placeholder="https://example.com"
+                />
+              </div>
+
+              {/* HTML Code */}
+              <div className="md:col-span-2">
+                <Label className="text-sm font-medium text-gray-700">
+                  HTML Code (Optional)
+                </Label>
+                <Textarea
+                  value={ad.html_code || ''}
+                  onChange={(e) => handleAdUpdate(index, 'html_code', e.target.value)}
+                  placeholder="Paste tracking pixels or custom HTML here"
+                  rows={3}
+                />
+              </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       {/* Ad Areas Sold */}
       <div>
@@ -3,6 +3,7 @@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import Autosuggest, { AutosuggestOption } from '@/components/ui/autosuggest';
+import { useAllFilters } from '@/stores';
 
 interface AdvertiserInfo {
   advertiser_name: string;
@@ -28,10 +29,13 @@ export default function AdvertiserInfoSection({
   onChange,
   errors,
 }: AdvertiserInfoSectionProps) {
-  // Search function for autosuggest
+  const { selectedNetwork } = useAllFilters();
+
+  // Search function for autosuggest, within the selected network when there is one
   const searchAdvertisers = async (query: string): Promise<AutosuggestOption[]> => {
     try {
-      const response = await fetch(`/api/advertisers/search?q=${encodeURIComponent(query)}&networkId=9396`);
+      const networkParam = selectedNetwork ? `&networkId=${selectedNetwork.broadstreet_id}` : '';
+      const response = await fetch(`/api/advertisers/search?q=${encodeURIComponent(query)}${networkParam}`);
       if (!response.ok) throw new Error('Search failed');
 
       const result = await response.json();
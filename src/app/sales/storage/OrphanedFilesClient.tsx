@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Search, Trash2 } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+
+interface OrphanedFileReport {
+  dry_run: boolean;
+  grace_hours: number;
+  cutoff: string;
+  scanned: number;
+  referenced: number;
+  within_grace: number;
+  orphans: Array<{ key: string; size: number; last_modified: string }>;
+  orphan_bytes: number;
+  deleted: string[];
+  failed: string[];
+}
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.round(bytes / 1024)} KB`;
+
+const formatDate = (date: string) => new Date(date).toLocaleString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+/**
+ * Orphaned Files Client Component
+ * Dry-run report of unreferenced R2 files, then deletion after confirmation
+ */
+export default function OrphanedFilesClient() {
+  const { can, isLoaded } = usePermissions();
+  const [graceHours, setGraceHours] = useState('');
+  const [report, setReport] = useState<OrphanedFileReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const query = graceHours ? `?grace_hours=${encodeURIComponent(graceHours)}` : '';
+      const response = await fetch(`/api/advertising-requests/orphaned-files${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to scan for orphaned files');
+      }
+      setReport(data.report);
+      setGraceHours(String(data.report.grace_hours));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan for orphaned files');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!report || report.orphans.length === 0) return;
+    if (!confirm(`Delete ${report.orphans.length} orphaned files (${formatBytes(report.orphan_bytes)}) from R2? This cannot be undone.`)) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/advertising-requests/orphaned-files', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grace_hours: report.grace_hours }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete orphaned files');
+      }
+      setReport(data.report);
+      setMessage(data.report.failed.length > 0
+        ? `${data.message}; ${data.report.failed.length} could not be deleted`
+        : data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete orphaned files');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoaded && !can('admin:destructive')) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+        Only admins can clean up storage.
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Orphaned files</CardTitle>
+        <CardDescription>
+          Creatives from abandoned request forms, removed images and attachments of deleted comments stay in Cloudflare R2. Files younger than the grace period are kept, since a request form may still be open. The same check runs from the command line with <code>pnpm r2:cleanup-orphans</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        <div className="flex items-end space-x-3">
+          <div className="space-y-1">
+            <Label htmlFor="orphaned-files-grace-hours">Grace period (hours)</Label>
+            <Input
+              id="orphaned-files-grace-hours"
+              type="number"
+              min={1}
+              value={graceHours}
+              onChange={(e) => setGraceHours(e.target.value)}
+              placeholder="Default"
+              className="w-32"
+            />
+          </div>
+          <Button onClick={handleScan} disabled={isScanning || isDeleting} data-testid="orphaned-files-scan">
+            <Search className="w-4 h-4 mr-1" />
+            {isScanning ? 'Scanning...' : 'Dry run'}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={!report || !report.dry_run || report.orphans.length === 0 || isScanning || isDeleting}
+            data-testid="orphaned-files-delete"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            {isDeleting ? 'Deleting...' : 'Delete orphaned files'}
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-3 border-t border-gray-200 pt-4" data-testid="orphaned-files-report">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div>
+                <p className="text-gray-500">Files scanned</p>
+                <p className="font-medium text-gray-900">{report.scanned}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">In use</p>
+                <p className="font-medium text-gray-900">{report.referenced}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Within grace period</p>
+                <p className="font-medium text-gray-900">{report.within_grace}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">{report.dry_run ? 'Orphaned' : 'Deleted'}</p>
+                <p className="font-medium text-gray-900">
+                  {report.dry_run ? report.orphans.length : report.deleted.length} ({formatBytes(report.orphan_bytes)})
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Only files last modified before {formatDate(report.cutoff)} ({report.grace_hours} hours ago) are considered.
+            </p>
+
+            {report.orphans.length === 0 ? (
+              <p className="text-sm text-gray-500">No orphaned files.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto rounded border border-gray-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Key</th>
+                      <th className="px-3 py-2 font-medium">Size</th>
+                      <th className="px-3 py-2 font-medium">Last modified</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.orphans.map(orphan => (
+                      <tr key={orphan.key} className="border-t border-gray-100">
+                        <td className="px-3 py-2 font-mono text-xs break-all">
+                          {orphan.key}
+                          {report.failed.includes(orphan.key) && (
+                            <span className="ml-2 text-red-600">(delete failed)</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{formatBytes(orphan.size)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">{formatDate(orphan.last_modified)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import OrphanedFilesClient from './OrphanedFilesClient';
+
+/**
+ * Sales Storage Page - Find and delete creatives no request uses any more
+ * Admin only; the scan runs client-side on demand
+ */
+export default function StoragePage() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Storage Cleanup</h1>
+          <p className="card-text text-gray-600 mt-1">
+            Find and delete uploaded files no advertising request or comment uses
+          </p>
+        </div>
+      </div>
+
+      <OrphanedFilesClient />
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { UniversalEntityCard } from '@/components/ui/universal-entity-card';
 import ThemeCreateModal from '@/components/themes/ThemeCreateModal';
 import { useCreateTheme } from './useCreateTheme';
 import { useFilterResetAfterDeletion } from '@/lib/utils/filter-reset-helpers';
+import { usePermissions } from '@/hooks/usePermissions';
 
 /**
  * ThemesList - Main themes display component
@@ -29,6 +30,8 @@ function ThemesList() {
   const { resetFiltersAfterDeletion } = useFilterResetAfterDeletion();
   const [searchTerm, setSearchTerm] = useState('');
   const router = useRouter();
+  const { can } = usePermissions();
+  const canWrite = can('entities:write');
 
   // Use custom hook for theme creation
   const { createTheme: handleCreateTheme } = useCreateTheme({ postCreateBehavior: 'refresh' });
@@ -185,14 +188,16 @@ function ThemesList() {
               <p className="text-gray-500 mb-4">
                 No themes yet. Create your first theme to get started.
               </p>
-              <ThemeCreateModal 
-                onCreateTheme={handleCreateTheme}
-                trigger={
-                  <button className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90">
-                    Create Your First Theme
-                  </button>
-                }
-              />
+              {canWrite && (
+                <ThemeCreateModal 
+                  onCreateTheme={handleCreateTheme}
+                  trigger={
+                    <button className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90">
+                      Create Your First Theme
+                    </button>
+                  }
+                />
+              )}
             </>
           )}
         </div>
@@ -212,11 +217,13 @@ function ThemesList() {
               ]}
               actionButtons={[
                 { label: 'View Zones', onClick: () => router.push(`/themes/${theme._id}`), variant: 'default' },
-                { label: 'Edit', onClick: () => handleEditTheme(theme), variant: 'outline' },
-                { label: 'Clone', onClick: () => handleCloneTheme(theme), variant: 'secondary' },
+                ...(canWrite ? [
+                  { label: 'Edit', onClick: () => handleEditTheme(theme), variant: 'outline' as const },
+                  { label: 'Clone', onClick: () => handleCloneTheme(theme), variant: 'secondary' as const },
+                ] : []),
               ]}
               onCardClick={() => router.push(`/themes/${theme._id}`)}
-              onDelete={() => handleDeleteTheme(theme._id)}
+              onDelete={canWrite ? () => handleDeleteTheme(theme._id) : undefined}
             />
           ))}
         </div>
@@ -234,11 +241,12 @@ export default function ThemesContent() {
 
   // Use custom hook for theme creation
   const { createTheme: handleCreateTheme } = useCreateTheme({ postCreateBehavior: 'reload' });
+  const { can } = usePermissions();
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <ThemeCreateModal onCreateTheme={handleCreateTheme} />
+        {can('entities:write') && <ThemeCreateModal onCreateTheme={handleCreateTheme} />}
       </div>
       
       <ThemesList />
@@ -15,6 +15,7 @@ import { Badge } from '@/components/ui/badge';
 import { UniversalEntityCard } from '@/components/ui/universal-entity-card';
 import { SearchInput } from '@/components/ui/search-input';
 import Link from 'next/link';
+import { usePermissions } from '@/hooks/usePermissions';
 
 /**
  * ZoneCard - Individual zone card component
@@ -48,6 +49,7 @@ export default function ThemeDetailContent() {
   const { currentTheme, zones, isLoading } = useEntityStore();
   const [searchTerm, setSearchTerm] = useState('');
   const router = useRouter();
+  const { can } = usePermissions();
 
   // Filter zones based on search term
   const filteredZones = useMemo(() => {
@@ -177,7 +179,7 @@ export default function ThemeDetailContent() {
             <ZoneCard
               key={zone._id}
               zone={zone}
-              onRemove={handleRemoveZone}
+              onRemove={can('entities:write') ? handleRemoveZone : undefined}
             />
           ))}
         </div>
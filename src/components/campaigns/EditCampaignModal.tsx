@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  diffCampaignUpdate,
+  toCampaignDateInput,
+  CampaignUpdateInput,
+} from '@/lib/utils/campaign-update-helpers';
+import { PUBLICATION_TIME_ZONE } from '@/lib/utils/campaign-schedule';
+
+interface EditableCampaign {
+  broadstreet_id?: number;
+  name: string;
+  start_date: string;
+  end_date?: string | null;
+  weight: number;
+  paused?: boolean;
+  max_impression_count?: number | null;
+  impression_max_type?: 'cap' | 'goal';
+  pacing_type?: 'asap' | 'even';
+  display_type: CampaignUpdateInput['display_type'];
+  archived?: boolean;
+  notes?: string;
+}
+
+interface EditCampaignModalProps {
+  campaign: EditableCampaign | null;
+  onClose: () => void;
+  onSaved: (campaign: any) => void;
+}
+
+type FormState = {
+  name: string;
+  start_date: string;
+  end_date: string;
+  weight: string;
+  paused: boolean;
+  max_impression_count: string;
+  impression_max_type: 'cap' | 'goal';
+  pacing_type: 'asap' | 'even';
+  display_type: NonNullable<CampaignUpdateInput['display_type']>;
+  archived: boolean;
+  notes: string;
+};
+
+const selectClassName = 'h-9 w-full rounded-md border border-gray-300 bg-white px-3 text-sm';
+
+const WEIGHT_OPTIONS = [
+  { value: '0', label: 'Remnant (0)' },
+  { value: '0.5', label: 'Low (0.5)' },
+  { value: '1', label: 'Default (1)' },
+  { value: '1.5', label: 'High (1.5)' },
+  { value: '127', label: 'Sponsorship (127)' },
+];
+
+function toFormState(campaign: EditableCampaign): FormState {
+  return {
+    name: campaign.name,
+    start_date: toCampaignDateInput(campaign.start_date),
+    end_date: toCampaignDateInput(campaign.end_date),
+    weight: String(campaign.weight ?? 1),
+    paused: !!campaign.paused,
+    max_impression_count: campaign.max_impression_count != null ? String(campaign.max_impression_count) : '',
+    impression_max_type: campaign.impression_max_type || 'cap',
+    pacing_type: campaign.pacing_type || 'asap',
+    display_type: campaign.display_type || 'no_repeat',
+    archived: !!campaign.archived,
+    notes: campaign.notes || '',
+  };
+}
+
+function toUpdateInput(form: FormState): CampaignUpdateInput {
+  return {
+    name: form.name.trim(),
+    start_date: form.start_date,
+    end_date: form.end_date || null,
+    weight: Number(form.weight),
+    paused: form.paused,
+    max_impression_count: form.max_impression_count ? Number(form.max_impression_count) : null,
+    impression_max_type: form.impression_max_type,
+    pacing_type: form.pacing_type,
+    display_type: form.display_type,
+    archived: form.archived,
+    notes: form.notes,
+  };
+}
+
+function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+export default function EditCampaignModal({ campaign, onClose, onSaved }: EditCampaignModalProps) {
+  const [form, setForm] = useState<FormState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever a different campaign is opened
+  useEffect(() => {
+    setForm(campaign ? toFormState(campaign) : null);
+    setError(null);
+  }, [campaign]);
+
+  // Live field-level diff against the stored record
+  const changes = useMemo(
+    () => (campaign && form ? diffCampaignUpdate(campaign, toUpdateInput(form)) : []),
+    [campaign, form]
+  );
+
+  const validationError = form
+    ? !form.name.trim()
+      ? 'Campaign name is required'
+      : form.end_date && form.start_date && form.end_date < form.start_date
+        ? 'End date must be on or after start date'
+        : null
+    : null;
+
+  const update = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campaign?.broadstreet_id || !form || changes.length === 0 || validationError) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Only send changed fields so untouched values are left alone in Broadstreet
+      const input = toUpdateInput(form);
+      const body = Object.fromEntries(changes.map(change => [change.field, input[change.field]]));
+
+      const response = await fetch(`/api/campaigns/${campaign.broadstreet_id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update campaign');
+      }
+
+      onSaved(data.campaign);
+      onClose();
+    } catch (err) {
+      // Keep modal open on error so user can retry
+      setError(err instanceof Error ? err.message : 'Failed to update campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={(open) => { if (!open && !isSaving) onClose(); }}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        {form && (
+          <form onSubmit={handleSubmit} data-testid="edit-campaign-form">
+            <DialogHeader>
+              <DialogTitle>Edit Campaign</DialogTitle>
+              <DialogDescription>
+                Changes are written to Broadstreet (campaign #{campaign?.broadstreet_id}) and then saved locally.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="edit-campaign-name">
+                  Name <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="edit-campaign-name"
+                  value={form.name}
+                  onChange={(e) => update('name', e.target.value)}
+                  disabled={isSaving}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-start">Start date</Label>
+                  <Input
+                    id="edit-campaign-start"
+                    type="date"
+                    value={form.start_date}
+                    onChange={(e) => update('start_date', e.target.value)}
+                    disabled={isSaving}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-end">
+                    End date <span className="text-gray-500">(optional)</span>
+                  </Label>
+                  <Input
+                    id="edit-campaign-end"
+                    type="date"
+                    value={form.end_date}
+                    min={form.start_date}
+                    onChange={(e) => update('end_date', e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+              </div>
+              <p className="-mt-2 text-xs text-gray-500">
+                Runs from 00:00 on the start date to 23:59 on the end date, {PUBLICATION_TIME_ZONE} time.
+              </p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-weight">Weight</Label>
+                  <select
+                    id="edit-campaign-weight"
+                    className={selectClassName}
+                    value={form.weight}
+                    onChange={(e) => update('weight', e.target.value)}
+                    disabled={isSaving}
+                  >
+                    {/* Synced campaigns can carry weights outside the presets; keep the stored one selectable */}
+                    {campaign && !WEIGHT_OPTIONS.some(option => option.value === String(campaign.weight)) && (
+                      <option value={String(campaign.weight)}>Current ({campaign.weight})</option>
+                    )}
+                    {WEIGHT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-display-type">Display type</Label>
+                  <select
+                    id="edit-campaign-display-type"
+                    className={selectClassName}
+                    value={form.display_type}
+                    onChange={(e) => update('display_type', e.target.value as FormState['display_type'])}
+                    disabled={isSaving}
+                  >
+                    <option value="no_repeat">No repeat</option>
+                    <option value="allow_repeat_campaign">Allow repeat campaign</option>
+                    <option value="allow_repeat_advertisement">Allow repeat advertisement</option>
+                    <option value="force_repeat_campaign">Force repeat campaign</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-max-impressions">Impression limit</Label>
+                  <Input
+                    id="edit-campaign-max-impressions"
+                    type="number"
+                    min={0}
+                    value={form.max_impression_count}
+                    onChange={(e) => update('max_impression_count', e.target.value)}
+                    placeholder="Unlimited"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-impression-type">Limit type</Label>
+                  <select
+                    id="edit-campaign-impression-type"
+                    className={selectClassName}
+                    value={form.impression_max_type}
+                    onChange={(e) => update('impression_max_type', e.target.value as FormState['impression_max_type'])}
+                    disabled={isSaving}
+                  >
+                    <option value="cap">Cap</option>
+                    <option value="goal">Goal</option>
+                  </select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-campaign-pacing">Pacing</Label>
+                  <select
+                    id="edit-campaign-pacing"
+                    className={selectClassName}
+                    value={form.pacing_type}
+                    onChange={(e) => update('pacing_type', e.target.value as FormState['pacing_type'])}
+                    disabled={isSaving}
+                  >
+                    <option value="asap">ASAP</option>
+                    <option value="even">Even</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.paused}
+                    onCheckedChange={(checked) => update('paused', checked === true)}
+                    disabled={isSaving}
+                  />
+                  Paused
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.archived}
+                    onCheckedChange={(checked) => update('archived', checked === true)}
+                    disabled={isSaving}
+                  />
+                  Archived
+                </label>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="edit-campaign-notes">
+                  Notes <span className="text-gray-500">(optional)</span>
+                </Label>
+                <Textarea
+                  id="edit-campaign-notes"
+                  value={form.notes}
+                  onChange={(e) => update('notes', e.target.value)}
+                  disabled={isSaving}
+                  rows={3}
+                />
+              </div>
+
+              {/* Field-level diff against the stored record */}
+              <div className="grid gap-2" data-testid="edit-campaign-diff">
+                <Label>Changes</Label>
+                {changes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No changes yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-1 pr-4">Field</th>
+                        <th className="py-1 pr-4">Stored</th>
+                        <th className="py-1">New</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map(change => (
+                        <tr key={change.field} className="border-b last:border-0">
+                          <td className="py-1 pr-4 font-medium">{change.label}</td>
+                          <td className="py-1 pr-4 text-red-700 line-through">{formatChangeValue(change.from)}</td>
+                          <td className="py-1 text-green-700">{formatChangeValue(change.to)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {(error || validationError) && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                  {error || validationError}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || changes.length === 0 || !!validationError}>
+                {isSaving ? 'Saving...' : `Save ${changes.length || ''} change${changes.length === 1 ? '' : 's'}`}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import CreationModal from './CreationModal';
 import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface CreationButtonProps {
   className?: string;
@@ -15,6 +16,7 @@ export default function CreationButton({ className = '' }: CreationButtonProps)
   const [isModalOpen, setIsModalOpen] = useState(false);
   const pathname = usePathname();
   const entities = useSelectedEntities();
+  const { can } = usePermissions();
 
   // Determine what type of entity to create based on current page
   const getEntityType = () => {
@@ -28,8 +30,8 @@ export default function CreationButton({ className = '' }: CreationButtonProps)
 
   const entityType = getEntityType();
 
-  // Don't show button if we can't determine entity type
-  if (!entityType) {
+  // Don't show button if we can't determine entity type or the user may not create entities
+  if (!entityType || !can('entities:write')) {
     return null;
   }
 
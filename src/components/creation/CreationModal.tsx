@@ -19,6 +19,10 @@ interface CreationModalProps {
 export default function CreationModal({ isOpen, onClose, entityType }: CreationModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const entities = useSelectedEntities();
+  const selectedNetworkId = entities.network?.ids.broadstreet_id;
+  const broadstreetAdvertisersUrl = selectedNetworkId
+    ? `https://my.broadstreetads.com/networks/${selectedNetworkId}/advertisers`
+    : 'https://my.broadstreetads.com/networks';
 
   // Close modal on escape key
   useEffect(() => {
@@ -83,12 +87,12 @@ export default function CreationModal({ isOpen, onClose, entityType }: CreationM
                 <p className="text-sm text-blue-800">
                   <strong>Please use this link to create advertisements:</strong><br />
                   <a
-                    href="https://my.broadstreetads.com/networks/9396/advertisers"
+                    href={broadstreetAdvertisersUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-blue-600 hover:text-blue-800 underline"
                   >
-                    https://my.broadstreetads.com/networks/9396/advertisers
+                    {broadstreetAdvertisersUrl}
                   </a><br />
                   <strong>Remember to resync if you add something in backend.</strong>
                 </p>
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
 import { getEntityId } from '@/lib/utils/entity-helpers';
 import { EntityIdBadge } from '@/components/ui/entity-id-badge';
+import { PUBLICATION_TIME_ZONE, scheduleCampaignDate, todayInTimeZone } from '@/lib/utils/campaign-schedule';
 
 interface CampaignCreationFormProps {
   onClose: () => void;
@@ -28,34 +29,10 @@ export default function CampaignCreationForm({ onClose, setIsLoading }: Campaign
   };
   const router = useRouter();
   
-  // Get today's date in datetime-local format
-  const getTodayDateTime = () => {
-    const now = new Date();
-    // Format as YYYY-MM-DDTHH:MM for datetime-local input
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    const hours = String(now.getHours()).padStart(2, '0');
-    const minutes = String(now.getMinutes()).padStart(2, '0');
-    return `${year}-${month}-${day}T${hours}:${minutes}`;
-  };
-
-  // Format date with smart default times
-  const formatDateTimeWithDefaults = (dateString: string, isEndDate: boolean = false) => {
-    if (!dateString) return '';
-    
-    // If it already has time, return as is
-    if (dateString.includes('T')) return dateString;
-    
-    // If it's just a date, add smart default time
-    const defaultTime = isEndDate ? '23:59' : '00:00';
-    return `${dateString}T${defaultTime}`;
-  };
-
   const [formData, setFormData] = useState({
     // Required fields
     name: '',
-    start_date: getTodayDateTime(),
+    start_date: todayInTimeZone(), // YYYY-MM-DD in the publication's timezone
     weight: 1, // Default weight (default = 1)
     
     // Optional fields - empty by default
@@ -106,12 +83,9 @@ export default function CampaignCreationForm({ onClose, setIsLoading }: Campaign
     }
 
     // Date validation
-    if (formData.end_date && formData.start_date) {
-      const startDate = new Date(formData.start_date);
-      const endDate = new Date(formData.end_date);
-      if (endDate <= startDate) {
-        newErrors.end_date = 'End date must be after start date';
-      }
+    // Whole days, so a campaign may start and end on the same day
+    if (formData.end_date && formData.start_date && formData.end_date < formData.start_date) {
+      newErrors.end_date = 'End date must be on or after start date';
     }
 
     // Weight validation (should be one of the predefined values)
@@ -174,16 +148,7 @@ export default function CampaignCreationForm({ onClose, setIsLoading }: Campaign
   };
 
   const handleInputChange = (field: string, value: any) => {
-    let processedValue = value;
-
-    // Apply smart default times for date fields
-    if (field === 'start_date') {
-      processedValue = formatDateTimeWithDefaults(value, false);
-    } else if (field === 'end_date') {
-      processedValue = formatDateTimeWithDefaults(value, true);
-    }
-
-    setFormData(prev => ({ ...prev, [field]: processedValue }));
+    setFormData(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
@@ -423,14 +388,15 @@ export default function CampaignCreationForm({ onClose, setIsLoading }: Campaign
               <Input
                 id="start_date"
                 type="date"
-                value={formData.start_date ? formData.start_date.split('T')[0] : ''}
+                value={formData.start_date}
                 onChange={(e) => handleInputChange('start_date', e.target.value)}
                 className={errors.start_date ? 'border-red-500' : ''}
                 required
               />
               {errors.start_date && <p className="text-sm text-red-500 mt-1">{errors.start_date}</p>}
               <p className="text-sm text-gray-500 mt-1">
-                When the campaign will go live (time will be set to 00:00:00 UTC)
+                When the campaign will go live: 00:00:00 {PUBLICATION_TIME_ZONE}
+                {formData.start_date && ` (${scheduleCampaignDate(formData.start_date, 'start')} UTC in Broadstreet)`}
               </p>
             </div>
 
@@ -439,13 +405,15 @@ export default function CampaignCreationForm({ onClose, setIsLoading }: Campaign
               <Input
                 id="end_date"
                 type="date"
-                value={formData.end_date ? formData.end_date.split('T')[0] : ''}
+                value={formData.end_date}
+                min={formData.start_date}
                 onChange={(e) => handleInputChange('end_date', e.target.value)}
                 className={errors.end_date ? 'border-red-500' : ''}
               />
               {errors.end_date && <p className="text-sm text-red-500 mt-1">{errors.end_date}</p>}
               <p className="text-sm text-gray-500 mt-1">
-                When the campaign will end (time will be set to 23:59:59 UTC)
+                When the campaign will end: 23:59:59 {PUBLICATION_TIME_ZONE}
+                {formData.end_date && ` (${scheduleCampaignDate(formData.end_date, 'end')} UTC in Broadstreet)`}
               </p>
             </div>
           </div>
@@ -4,14 +4,29 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import StreamingSyncProgress from '@/components/dashboard/StreamingSyncProgress';
 import { Card, CardContent } from '@/components/ui/card';
+import type { DownloadSyncMode } from '@/lib/utils/sync-helpers';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export default function QuickActions() {
   const [showSyncProgress, setShowSyncProgress] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [syncMode, setSyncMode] = useState<DownloadSyncMode>('incremental');
   const router = useRouter();
+  const { can } = usePermissions();
 
   const handleSyncAll = () => {
     if (isSyncing) return; // Prevent multiple sync operations
+    setSyncMode('incremental');
+    setShowSyncProgress(true);
+    setIsSyncing(true);
+  };
+
+  const handleFullReload = () => {
+    if (isSyncing) return;
+    if (!confirm('Full reload deletes ALL synced and local-only data (including unsynced drafts) before downloading from Broadstreet. This cannot be undone. Continue?')) {
+      return;
+    }
+    setSyncMode('full');
     setShowSyncProgress(true);
     setIsSyncing(true);
   };
@@ -35,23 +50,43 @@ export default function QuickActions() {
 
   return (
     <>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         
-        <Card className="group cursor-pointer transition-all duration-200 hover:shadow-lg hover:shadow-green-500/5 hover:border-green-500/20 group-hover:scale-[1.02]" onClick={handleSyncAll}>
-          <CardContent className="p-6">
-            <div className="flex items-center space-x-4">
-              <div className="w-12 h-12 bg-gradient-to-br from-green-500 to-green-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
-                <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                </svg>
+        {can('sync:run') && (
+          <Card className="group cursor-pointer transition-all duration-200 hover:shadow-lg hover:shadow-green-500/5 hover:border-green-500/20 group-hover:scale-[1.02]" onClick={handleSyncAll}>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-4">
+                <div className="w-12 h-12 bg-gradient-to-br from-green-500 to-green-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
+                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold card-title group-hover:text-green-700 transition-colors">Sync Data</h3>
+                  <p className="card-text text-muted-foreground group-hover:text-green-600 transition-colors">Update data from Broadstreet API, keeping local drafts</p>
+                </div>
               </div>
-              <div className="flex-1">
-                <h3 className="font-semibold card-title group-hover:text-green-700 transition-colors">Sync Data</h3>
-                <p className="card-text text-muted-foreground group-hover:text-green-600 transition-colors">Sync all data from Broadstreet API</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {can('admin:destructive') && (
+          <Card className="group cursor-pointer transition-all duration-200 hover:shadow-lg hover:shadow-red-500/5 hover:border-red-500/20 group-hover:scale-[1.02]" onClick={handleFullReload}>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-4">
+                <div className="w-12 h-12 bg-gradient-to-br from-red-500 to-red-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
+                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold card-title group-hover:text-red-700 transition-colors">Full Reload</h3>
+                  <p className="card-text text-muted-foreground group-hover:text-red-600 transition-colors">Wipe all data, including local drafts, and re-download</p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
         
         <Card className="group cursor-pointer transition-all duration-200 hover:shadow-lg hover:shadow-purple-500/5 hover:border-purple-500/20 group-hover:scale-[1.02]" onClick={() => router.push('/audit')}>
           <CardContent className="p-6">
@@ -74,6 +109,7 @@ export default function QuickActions() {
       {showSyncProgress && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <StreamingSyncProgress
+            mode={syncMode}
             onComplete={handleSyncComplete}
             onClose={handleCloseSyncProgress}
           />
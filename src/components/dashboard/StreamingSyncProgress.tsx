@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, XCircle, AlertCircle, Loader2, Clock } from 'lucide-react';
+import type { DownloadSyncMode } from '@/lib/utils/sync-helpers';
 
 interface SyncStep {
   key: string;
@@ -20,9 +21,10 @@ interface SyncStep {
 interface StreamingSyncProgressProps {
   onComplete: (success: boolean) => void;
   onClose: () => void;
+  mode?: DownloadSyncMode;
 }
 
-export default function StreamingSyncProgress({ onComplete, onClose }: StreamingSyncProgressProps) {
+export default function StreamingSyncProgress({ onComplete, onClose, mode = 'incremental' }: StreamingSyncProgressProps) {
   const [isConnecting, setIsConnecting] = useState(true);
   const [overallProgress, setOverallProgress] = useState(0);
   const [, setCurrentPhase] = useState('connecting');
@@ -30,7 +32,7 @@ export default function StreamingSyncProgress({ onComplete, onClose }: Streaming
   const [isComplete, setIsComplete] = useState(false);
   const [hasErrors, setHasErrors] = useState(false);
   const [steps, setSteps] = useState<SyncStep[]>([
-    { key: 'cleanup', name: 'Cleanup', status: 'pending' },
+    ...(mode === 'full' ? [{ key: 'cleanup', name: 'Cleanup', status: 'pending' as const }] : []),
     { key: 'networks', name: 'Networks', status: 'pending' },
     { key: 'advertisers', name: 'Advertisers', status: 'pending' },
     { key: 'zones', name: 'Zones', status: 'pending' },
@@ -45,7 +47,7 @@ export default function StreamingSyncProgress({ onComplete, onClose }: Streaming
 
   useEffect(() => {
     // Start the streaming sync
-    const eventSource = new EventSource('/api/sync/stream', {
+    const eventSource = new EventSource(`/api/sync/stream?mode=${mode}`, {
       withCredentials: false
     });
     eventSourceRef.current = eventSource;
@@ -252,7 +254,7 @@ export default function StreamingSyncProgress({ onComplete, onClose }: Streaming
         eventSourceRef.current.close();
       }
     };
-  }, [onComplete, startTime]);
+  }, [onComplete, startTime, mode]);
 
   const getStatusIcon = (status: SyncStep['status']) => {
     switch (status) {
@@ -299,7 +301,9 @@ export default function StreamingSyncProgress({ onComplete, onClose }: Streaming
               Real-time Sync Progress
             </CardTitle>
             <CardDescription>
-              Syncing data from Broadstreet API with rate limiting (1 request every 5s)
+              {mode === 'full'
+                ? 'Full reload: wiping and re-downloading all data from Broadstreet API'
+                : 'Updating data from Broadstreet API - local drafts are kept'}
             </CardDescription>
           </div>
           <Button variant="ghost" size="sm" onClick={onClose} disabled={!isComplete}>
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFilterActions } from '@/stores';
+
+interface ConnectionOption {
+  id: string | null;
+  label: string;
+}
+
+// Select values cannot be empty; stands for the BROADSTREET_API_TOKEN fallback
+const ENVIRONMENT_VALUE = 'environment';
+
+/**
+ * Connection Switcher
+ * Picks the Broadstreet API connection (account) the app works with. Hidden while there is
+ * only one. Switching clears the network and filters, then reloads with the new connection.
+ */
+export default function ConnectionSwitcher() {
+  const { clearAllFilters, setSelectedNetwork } = useFilterActions();
+  const [connections, setConnections] = useState<ConnectionOption[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/connections')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (cancelled || !data) return;
+        setConnections(data.connections || []);
+        setActiveId(data.activeConnectionId ?? null);
+      })
+      .catch(error => console.error('Failed to load API connections:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleChange = async (value: string) => {
+    const connectionId = value === ENVIRONMENT_VALUE ? null : value;
+    if (connectionId === activeId) return;
+
+    setIsSwitching(true);
+    try {
+      const response = await fetch('/api/connections/active', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to switch connection');
+      }
+
+      // Networks, advertisers and zones of the old connection no longer apply
+      clearAllFilters();
+      setSelectedNetwork(null);
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to switch API connection:', error);
+      alert(error instanceof Error ? error.message : 'Failed to switch connection');
+      setIsSwitching(false);
+    }
+  };
+
+  if (connections.length < 2) return null;
+
+  return (
+    <Select
+      value={activeId ?? ENVIRONMENT_VALUE}
+      onValueChange={handleChange}
+      disabled={isSwitching}
+    >
+      <SelectTrigger className="h-8 w-48 text-sm" title="Broadstreet account" data-testid="connection-switcher">
+        <SelectValue placeholder="Connection" />
+      </SelectTrigger>
+      <SelectContent>
+        {connections.map(connection => (
+          <SelectItem key={connection.id ?? ENVIRONMENT_VALUE} value={connection.id ?? ENVIRONMENT_VALUE}>
+            {connection.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
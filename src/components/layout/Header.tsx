@@ -5,9 +5,13 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useSyncStatus } from '@/hooks/use-sync-status';
 import { UserButton } from '@clerk/nextjs';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Permission } from '@/lib/access-control';
+import { useAllFilters } from '@/stores';
+import ConnectionSwitcher from './ConnectionSwitcher';
 
-const navigation = [
-  { name: 'Broadstreet', href: 'https://my.broadstreetads.com/networks/9396/advertisers', external: true },
+const navigation: { name: string; href: string; external?: boolean; permission?: Permission }[] = [
+  { name: 'Broadstreet', href: 'https://my.broadstreetads.com/networks', external: true },
   { name: 'Dashboard', href: '/dashboard' },
   { name: 'Networks', href: '/networks' },
   { name: 'Advertisers', href: '/advertisers' },
@@ -15,13 +19,22 @@ const navigation = [
   { name: 'Zones', href: '/zones' },
   { name: 'Campaigns', href: '/campaigns' },
   { name: 'Placements', href: '/placements' },
+  { name: 'Reports', href: '/reports' },
   { name: 'Themes', href: '/themes' },
   { name: 'Sales', href: '/sales' },
-  { name: 'Local Only', href: '/local-only' },
+  { name: 'Local Only', href: '/local-only', permission: 'entities:write' },
+  { name: 'Connections', href: '/networks/connections', permission: 'connections:manage' },
 ];
 
 export default function Header() {
   const { status, error } = useSyncStatus();
+  const { can } = usePermissions();
+  const { selectedNetwork } = useAllFilters();
+
+  // Open Broadstreet on the selected network of the active connection
+  const getHref = (item: typeof navigation[number]) => item.name === 'Broadstreet' && selectedNetwork
+    ? `https://my.broadstreetads.com/networks/${selectedNetwork.broadstreet_id}/advertisers`
+    : item.href;
 
   // Determine badge color and animation based on status
   const getBadgeProps = () => {
@@ -70,10 +83,10 @@ export default function Header() {
         
         <div className="flex flex-1 items-center justify-between space-x-2 md:justify-end">
           <nav className="hidden md:flex items-center space-x-1">
-            {navigation.map((item) => (
+            {navigation.filter(item => !item.permission || can(item.permission)).map((item) => (
               <Button key={item.name} variant="ghost" size="sm" asChild>
                 {item.external ? (
-                  <a href={item.href} target="_blank" rel="noopener noreferrer">
+                  <a href={getHref(item)} target="_blank" rel="noopener noreferrer">
                     {item.name}
                   </a>
                 ) : (
@@ -86,6 +99,7 @@ export default function Header() {
           </nav>
           
           <div className="flex items-center space-x-2">
+            <ConnectionSwitcher />
             <Badge
               variant={badgeProps.variant}
               className={badgeProps.className}
@@ -8,11 +8,13 @@ import { Badge } from '@/components/ui/badge';
 import FiltersCard from './FiltersCard';
 import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
 import ThemeSelector from '@/components/themes/ThemeSelector';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export default function Sidebar() {
   const router = useRouter();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const entities = useSelectedEntities();
+  const { can } = usePermissions();
 
   const canCreatePlacements = !!entities.campaign && entities.zones.length > 0 && entities.advertisements.length > 0;
 
@@ -67,30 +69,32 @@ export default function Sidebar() {
               <ThemeSelector />
             </div>
 
-            <Card className="bg-sidebar-accent/50 border-sidebar-border">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-sidebar-foreground text-lg">Utilities</CardTitle>
-                <CardDescription className="text-sidebar-foreground/70">Tools and actions for managing your campaigns</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {utilities.map((utility) => (
-                  <div key={utility.name} className="bg-sidebar-accent/30 rounded-lg p-3 border border-sidebar-border/50">
-                    <p className="text-xs text-sidebar-foreground/70 mb-3 leading-relaxed">{utility.description}</p>
-                    {!utility.enabled && utility.disabledReason && (
-                      <p className="text-xs text-red-400 mb-2">{utility.disabledReason}</p>
-                    )}
-                    <Button
-                      onClick={() => handleUtilityAction(utility.action)}
-                      size="sm"
-                      className="w-full"
-                      disabled={!utility.enabled}
-                    >
-                      {utility.name}
-                    </Button>
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+            {can('entities:write') && (
+              <Card className="bg-sidebar-accent/50 border-sidebar-border">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sidebar-foreground text-lg">Utilities</CardTitle>
+                  <CardDescription className="text-sidebar-foreground/70">Tools and actions for managing your campaigns</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {utilities.map((utility) => (
+                    <div key={utility.name} className="bg-sidebar-accent/30 rounded-lg p-3 border border-sidebar-border/50">
+                      <p className="text-xs text-sidebar-foreground/70 mb-3 leading-relaxed">{utility.description}</p>
+                      {!utility.enabled && utility.disabledReason && (
+                        <p className="text-xs text-red-400 mb-2">{utility.disabledReason}</p>
+                      )}
+                      <Button
+                        onClick={() => handleUtilityAction(utility.action)}
+                        size="sm"
+                        className="w-full"
+                        disabled={!utility.enabled}
+                      >
+                        {utility.name}
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,265 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ReconciliationItem, ReconciliationReport } from '@/lib/reconciliation-service';
+
+interface ReconciliationDialogProps {
+  networkId: number | null;
+  isOpen: boolean;
+  onClose: () => void;
+  // When set, a "Save and sync" button continues into Sync All once every conflict has a decision
+  onContinueSync?: () => void;
+}
+
+// '' = create as new, 'link:<id>', 'rename' or 'skip'
+type Choice = string;
+
+const ENTITY_SECTIONS: Array<{ type: ReconciliationItem['entityType']; title: string }> = [
+  { type: 'advertiser', title: 'Advertisers' },
+  { type: 'zone', title: 'Zones' },
+  { type: 'campaign', title: 'Campaigns' },
+];
+
+function itemKey(item: ReconciliationItem): string {
+  return `${item.entityType}:${item.local_id}`;
+}
+
+function initialChoice(item: ReconciliationItem): Choice {
+  if (item.decision?.action === 'link') return `link:${item.decision.target_broadstreet_id}`;
+  if (item.decision?.action === 'rename') return 'rename';
+  if (item.decision?.action === 'skip') return 'skip';
+  return '';
+}
+
+export default function ReconciliationDialog({ networkId, isOpen, onClose, onContinueSync }: ReconciliationDialogProps) {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    if (!networkId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sync/reconciliation?networkId=${networkId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load reconciliation');
+      }
+      setReport(data);
+      setChoices(Object.fromEntries(data.items.map((item: ReconciliationItem) => [itemKey(item), initialChoice(item)])));
+      setNames(Object.fromEntries(data.items.map((item: ReconciliationItem) => [itemKey(item), item.name])));
+      setItemErrors({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reconciliation');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [networkId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadReport();
+    }
+  }, [isOpen, loadReport]);
+
+  // Only drafts with a Broadstreet look-alike (or an earlier decision) need review
+  const reviewItems = useMemo(
+    () => (report?.items || []).filter(item => item.candidates.length > 0 || item.decision),
+    [report]
+  );
+  const untouchedCount = (report?.items.length || 0) - reviewItems.length;
+
+  const pendingConflicts = reviewItems.filter(item => item.conflict && !choices[itemKey(item)]).length;
+
+  const buildDecisions = () => reviewItems
+    .filter(item => {
+      const key = itemKey(item);
+      const choice = choices[key] || '';
+      if (choice !== initialChoice(item)) return true;
+      return choice === 'rename' && names[key].trim() !== item.name;
+    })
+    .map(item => {
+      const key = itemKey(item);
+      const choice = choices[key] || '';
+      const base = { entityType: item.entityType, localId: item.local_id };
+      if (choice.startsWith('link:')) {
+        return { ...base, action: 'link', targetBroadstreetId: parseInt(choice.slice(5), 10) };
+      }
+      if (choice === 'rename') return { ...base, action: 'rename', newName: names[key].trim() };
+      if (choice === 'skip') return { ...base, action: 'skip' };
+      return { ...base, action: null };
+    });
+
+  const handleSave = async (continueSync: boolean) => {
+    if (!networkId) return;
+    const decisions = buildDecisions();
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (decisions.length > 0) {
+        const response = await fetch('/api/sync/reconciliation', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ networkId, decisions }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to save decisions');
+        }
+
+        const failures = (data.results || []).filter((r: any) => !r.success);
+        if (failures.length > 0) {
+          setItemErrors(Object.fromEntries(failures.map((r: any) => [`${r.entityType}:${r.localId}`, r.error])));
+          setError(`${failures.length} of ${decisions.length} decisions could not be saved`);
+          return;
+        }
+      }
+
+      if (continueSync && onContinueSync) {
+        onContinueSync();
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save decisions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isSaving) onClose(); }}>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle>Review matches in Broadstreet</DialogTitle>
+          <DialogDescription>
+            These local drafts look like entities that already exist in Broadstreet. Link a draft to the existing
+            entity, rename it so a new one is created, or skip it for now. The next sync follows these decisions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        {report?.errors.map(message => (
+          <div key={message} className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">{message}</div>
+        ))}
+
+        <div className="max-h-[60vh] space-y-6 overflow-y-auto" data-testid="reconciliation-list">
+          {isLoading && <p className="text-sm text-gray-500">Comparing local drafts with Broadstreet...</p>}
+
+          {!isLoading && report && reviewItems.length === 0 && (
+            <p className="text-sm text-gray-600">No local drafts resemble existing Broadstreet entities.</p>
+          )}
+
+          {!isLoading && ENTITY_SECTIONS.map(section => {
+            const items = reviewItems.filter(item => item.entityType === section.type);
+            if (items.length === 0) return null;
+
+            return (
+              <div key={section.type} className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-900">{section.title}</h3>
+                {items.map(item => {
+                  const key = itemKey(item);
+                  const choice = choices[key] || '';
+                  return (
+                    <div key={key} className="rounded-md border p-3" data-testid="reconciliation-item">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900">{item.name}</span>
+                            {item.conflict && <Badge variant="destructive">Same name exists</Badge>}
+                          </div>
+                          <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                            {item.candidates.map(candidate => (
+                              <li key={candidate.broadstreet_id}>
+                                {candidate.name} <span className="text-gray-400">#{candidate.broadstreet_id}</span>{' '}
+                                <span className="text-gray-400">({Math.round(candidate.score * 100)}% match)</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <select
+                          className="h-9 w-64 shrink-0 rounded-md border border-gray-300 bg-white px-3 text-sm"
+                          value={choice}
+                          onChange={(e) => setChoices(prev => ({ ...prev, [key]: e.target.value }))}
+                          disabled={isSaving}
+                          data-testid="reconciliation-choice"
+                        >
+                          <option value="" disabled={item.conflict}>
+                            {item.conflict ? 'Choose an action...' : 'Create as new'}
+                          </option>
+                          {item.candidates.map(candidate => (
+                            <option key={candidate.broadstreet_id} value={`link:${candidate.broadstreet_id}`}>
+                              Link to {candidate.name} (#{candidate.broadstreet_id})
+                            </option>
+                          ))}
+                          <option value="rename">Rename and create</option>
+                          <option value="skip">Skip for now</option>
+                        </select>
+                      </div>
+
+                      {choice === 'rename' && (
+                        <Input
+                          className="mt-2"
+                          value={names[key] ?? ''}
+                          onChange={(e) => setNames(prev => ({ ...prev, [key]: e.target.value }))}
+                          placeholder="New name"
+                          disabled={isSaving}
+                        />
+                      )}
+                      {itemErrors[key] && <p className="mt-2 text-xs text-red-600">{itemErrors[key]}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+
+          {!isLoading && untouchedCount > 0 && (
+            <p className="text-xs text-gray-500">
+              {untouchedCount} other local {untouchedCount === 1 ? 'draft has' : 'drafts have'} no close match and will be created as new.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" variant="outline" onClick={() => handleSave(false)} disabled={isSaving || isLoading || !report}>
+            {isSaving ? 'Saving...' : 'Save decisions'}
+          </Button>
+          {onContinueSync && (
+            <Button
+              type="button"
+              onClick={() => handleSave(true)}
+              disabled={isSaving || isLoading || !report || pendingConflicts > 0}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              data-testid="reconciliation-save-and-sync"
+            >
+              {pendingConflicts > 0 ? `${pendingConflicts} unresolved` : 'Save and sync'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
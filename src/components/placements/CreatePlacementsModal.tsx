@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { X } from 'lucide-react';
 import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
 import { useLocalPlacementCreation } from '@/hooks/useLocalPlacementCreation';
+import PlacementRestrictionSelect from '@/components/placements/PlacementRestrictionSelect';
+import { PLACEMENT_RESTRICTION_LABELS } from '@/lib/utils/placement-restrictions';
 
 interface CreatePlacementsModalProps {
   isOpen: boolean;
@@ -20,9 +22,11 @@ export default function CreatePlacementsModal({ isOpen, onClose }: CreatePlaceme
     adCount,
     zoneCount,
     combinationsCount,
+    restriction,
     isSubmitting,
     error,
     successMessage,
+    setRestriction,
     createLocalPlacements,
     clearMessages,
   } = useLocalPlacementCreation();
@@ -101,9 +105,14 @@ export default function CreatePlacementsModal({ isOpen, onClose }: CreatePlaceme
             </div>
           </div>
 
+          <div className="max-w-xs">
+            <PlacementRestrictionSelect value={restriction} onChange={setRestriction} disabled={isSubmitting} />
+          </div>
+
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-3" data-testid="placement-summary">
             <p className="text-sm text-blue-800">
               {adCount} advertisements × {entities.zones.length} zones = <strong>{combinationsCount}</strong> local placements
+              {restriction && <> ({PLACEMENT_RESTRICTION_LABELS[restriction]})</>}
             </p>
             <p className="text-xs text-blue-600 mt-1">
               These will be stored in the local placement collection and can be synced to Broadstreet later.
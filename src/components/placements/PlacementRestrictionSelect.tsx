@@ -0,0 +1,43 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { PLACEMENT_RESTRICTIONS, PLACEMENT_RESTRICTION_LABELS, isPlacementRestriction } from '@/lib/utils/placement-restrictions';
+import type { PlacementRestriction } from '@/lib/types/broadstreet';
+
+interface PlacementRestrictionSelectProps {
+  value: PlacementRestriction | null;
+  onChange: (value: PlacementRestriction | null) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+export default function PlacementRestrictionSelect({
+  value,
+  onChange,
+  disabled,
+  id = 'placement-restriction',
+}: PlacementRestrictionSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>Device targeting</Label>
+      <select
+        id={id}
+        className="h-9 w-full rounded-md border border-gray-300 bg-white px-3 text-sm"
+        value={value ?? ''}
+        onChange={(e) => onChange(isPlacementRestriction(e.target.value) ? e.target.value : null)}
+        disabled={disabled}
+        data-testid="placement-restriction-select"
+      >
+        <option value="">All devices</option>
+        {PLACEMENT_RESTRICTIONS.map(restriction => (
+          <option key={restriction} value={restriction}>
+            {PLACEMENT_RESTRICTION_LABELS[restriction]}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500">
+        Placements that differ only by device are created as separate placements.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export interface PlacementRemovalItem {
+  key: string;
+  campaignName: string;
+  zoneName: string;
+  advertisementName: string;
+}
+
+interface RemovePlacementsDialogProps {
+  items: PlacementRemovalItem[];
+  isOpen: boolean;
+  isRemoving: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function RemovePlacementsDialog({ items, isOpen, isRemoving, onConfirm, onCancel }: RemovePlacementsDialogProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isRemoving) onCancel(); }}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Remove from Broadstreet</DialogTitle>
+          <DialogDescription>
+            The following {items.length === 1 ? 'placement' : `${items.length} placements`} will stop running in Broadstreet.
+            This cannot be undone from here; re-create the placement to run the ad again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 overflow-y-auto rounded-md border" data-testid="remove-placements-list">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr className="border-b text-left text-gray-500">
+                <th className="px-3 py-2">Campaign</th>
+                <th className="px-3 py-2">Zone</th>
+                <th className="px-3 py-2">Advertisement</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.key} className="border-b last:border-0">
+                  <td className="px-3 py-2">{item.campaignName}</td>
+                  <td className="px-3 py-2">{item.zoneName}</td>
+                  <td className="px-3 py-2">{item.advertisementName}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isRemoving}>
+            Cancel
+          </Button>
+          <Button type="button" variant="destructive" onClick={onConfirm} disabled={isRemoving || items.length === 0}>
+            {isRemoving ? 'Removing...' : `Remove ${items.length === 1 ? 'placement' : `${items.length} placements`}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
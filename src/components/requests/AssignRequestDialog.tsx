@@ -0,0 +1,153 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { RequestActor } from '@/lib/advertising-request-workflow';
+import type { IAdvertisingRequest } from '@/lib/models/advertising-request';
+
+interface AssignRequestDialogProps {
+  requestId: string;
+  assignedToUserId?: string | null;
+  assignedToUserName?: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onAssigned: (request: IAdvertisingRequest) => void;
+}
+
+/**
+ * Assign, reassign or unassign an advertising request. The assignee shown when the
+ * dialog opened is sent along, so a request someone else just picked up is not taken over.
+ */
+export default function AssignRequestDialog({
+  requestId,
+  assignedToUserId,
+  assignedToUserName,
+  isOpen,
+  onClose,
+  onAssigned,
+}: AssignRequestDialogProps) {
+  const [assignees, setAssignees] = useState<RequestActor[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [selectedUserId, setSelectedUserId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAssignees = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/advertising-requests/assignees');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load users');
+      }
+      setAssignees(data.assignees || []);
+      setCurrentUserId(data.current_user_id || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedUserId(assignedToUserId || '');
+      loadAssignees();
+    }
+  }, [isOpen, assignedToUserId, loadAssignees]);
+
+  const saveAssignment = async (assigneeUserId: string | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/advertising-requests/${requestId}/assignment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          assignee_user_id: assigneeUserId,
+          expected_assignee_user_id: assignedToUserId || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to assign request');
+      }
+      onAssigned(data.request);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign request');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isSaving) onClose(); }}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Assign request</DialogTitle>
+          <DialogDescription>
+            {assignedToUserId
+              ? `Currently assigned to ${assignedToUserName || assignedToUserId}.`
+              : 'This request is not assigned yet.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="assign-request-user">Assignee</Label>
+          <select
+            id="assign-request-user"
+            value={selectedUserId}
+            onChange={(e) => setSelectedUserId(e.target.value)}
+            disabled={isLoading || isSaving}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            data-testid="assign-request-select"
+          >
+            <option value="">{isLoading ? 'Loading users...' : 'Select a user'}</option>
+            {assignees.map(assignee => (
+              <option key={assignee.user_id} value={assignee.user_id}>
+                {assignee.user_name}{assignee.user_id === currentUserId ? ' (me)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {assignedToUserId && (
+            <Button type="button" variant="outline" onClick={() => saveAssignment(null)} disabled={isSaving}>
+              Unassign
+            </Button>
+          )}
+          {currentUserId && currentUserId !== assignedToUserId && (
+            <Button type="button" variant="outline" onClick={() => saveAssignment(currentUserId)} disabled={isSaving}>
+              Assign to me
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={() => saveAssignment(selectedUserId)}
+            disabled={isSaving || !selectedUserId || selectedUserId === assignedToUserId}
+            data-testid="assign-request-submit"
+          >
+            {isSaving ? 'Saving...' : 'Assign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MessageSquare, Paperclip, Reply, Trash2 } from 'lucide-react';
+import { getRequestStatusLabel } from '@/lib/advertising-request-workflow';
+import { RequestActivityItem, RequestCommentView, splitCommentMentions } from '@/lib/request-activity';
+
+interface RequestActivityTimelineProps {
+  items: RequestActivityItem[];
+  onReply?: (comment: RequestCommentView) => void;
+  onDelete?: (comment: RequestCommentView) => void;
+  canDelete?: (comment: RequestCommentView) => boolean;
+  deletingId?: string | null;
+  // Shown under a thread, e.g. the reply composer for the thread being answered
+  renderThreadFooter?: (comment: RequestCommentView) => ReactNode;
+}
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const formatFileSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Status changes and comment threads of a request as one chronological list
+ */
+export default function RequestActivityTimeline({
+  items,
+  onReply,
+  onDelete,
+  canDelete,
+  deletingId,
+  renderThreadFooter,
+}: RequestActivityTimelineProps) {
+  const renderComment = (comment: RequestCommentView, isReply: boolean) => (
+    <div key={comment._id} className={isReply ? 'ml-6 border-l-2 border-gray-200 pl-3' : ''} data-testid="request-comment">
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-sm">
+          <span className="font-medium text-gray-900">{comment.author_user_name}</span>
+          <span className="text-gray-500"> · {formatDate(comment.created_at)}</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {onReply && !isReply && (
+            <Button variant="ghost" size="sm" onClick={() => onReply(comment)}>
+              <Reply className="w-4 h-4 mr-1" />
+              Reply
+            </Button>
+          )}
+          {onDelete && canDelete?.(comment) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(comment)}
+              disabled={deletingId === comment._id}
+              className="text-red-600 hover:text-red-800"
+              title="Delete comment"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {comment.body && (
+        <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">
+          {splitCommentMentions(comment.body, comment.mentions || []).map((segment, index) => (
+            segment.mention
+              ? <span key={index} className="font-medium text-blue-700">{segment.text}</span>
+              : <span key={index}>{segment.text}</span>
+          ))}
+        </p>
+      )}
+
+      {comment.attachments && comment.attachments.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {comment.attachments.map(attachment => (
+            <a
+              key={attachment.r2_key}
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center space-x-1 rounded border border-gray-200 px-2 py-1 text-xs text-blue-600 hover:underline"
+            >
+              <Paperclip className="w-3 h-3" />
+              <span>{attachment.file_name}</span>
+              <span className="text-gray-400">({formatFileSize(attachment.file_size)})</span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">No activity yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item, index) => item.kind === 'status' ? (
+        <div key={`status-${index}`} className="flex items-start justify-between gap-4 text-sm" data-testid="request-activity-status">
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Badge variant="outline" className="text-xs">
+                {getRequestStatusLabel(item.entry.status)}
+              </Badge>
+              <span className="text-gray-600">{item.entry.changed_by_user_name}</span>
+            </div>
+            {item.entry.notes && (
+              <p className="text-gray-700">{item.entry.notes}</p>
+            )}
+          </div>
+          <span className="text-gray-500 whitespace-nowrap">{formatDate(item.entry.changed_at)}</span>
+        </div>
+      ) : (
+        <div key={item.comment._id} className="rounded-lg bg-gray-50 p-3 space-y-3">
+          <div className="flex items-center space-x-2 text-xs text-gray-500">
+            <MessageSquare className="w-3 h-3" />
+            <span>Comment</span>
+          </div>
+          {renderComment(item.comment, false)}
+          {item.replies.map(reply => renderComment(reply, true))}
+          {renderThreadFooter?.(item.comment)}
+        </div>
+      ))}
+    </div>
+  );
+}
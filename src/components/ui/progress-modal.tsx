@@ -28,6 +28,9 @@ export interface ProgressModalProps {
   hasErrors: boolean;
   onRetry?: () => void;
   onConfirm?: () => void;
+  // Stops a running sync between entities; without it the Cancel button stays disabled
+  onCancel?: () => void;
+  isCancelling?: boolean;
   'data-testid'?: string;
 }
 
@@ -42,6 +45,8 @@ export function ProgressModal({
   hasErrors,
   onRetry,
   onConfirm,
+  onCancel,
+  isCancelling,
   'data-testid': dataTestId
 }: ProgressModalProps) {
   const [isClosing, setIsClosing] = useState(false);
@@ -194,8 +199,8 @@ export function ProgressModal({
                 Close
               </Button>
             ) : (
-              <Button onClick={onClose} variant="outline" disabled>
-                Cancel
+              <Button onClick={onCancel} variant="outline" disabled={!onCancel || isCancelling} data-testid="progress-cancel-button">
+                {isCancelling ? 'Cancelling...' : 'Cancel'}
               </Button>
             )}
           </div>
@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useSelectedEntities } from '@/lib/hooks/use-selected-entities';
+import type { PlacementRestriction } from '@/lib/types/broadstreet';
 
 interface UseLocalPlacementCreationResult {
   // Computed values
@@ -15,17 +16,20 @@ interface UseLocalPlacementCreationResult {
   combinationsCount: number;
 
   // State
+  restriction: PlacementRestriction | null;
   isSubmitting: boolean;
   error: string | null;
   successMessage: string | null;
 
   // Actions
+  setRestriction: (restriction: PlacementRestriction | null) => void;
   createLocalPlacements: () => Promise<void>;
   clearMessages: () => void;
 }
 
 export function useLocalPlacementCreation(): UseLocalPlacementCreationResult {
   const entities = useSelectedEntities();
+  const [restriction, setRestriction] = useState<PlacementRestriction | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -98,12 +102,13 @@ export function useLocalPlacementCreation(): UseLocalPlacementCreationResult {
         // Create placements with Broadstreet zones
         for (const zoneId of zoneIds) {
           const placementData = {
-            network_id: networkId,
-            advertiser_id: advertiserId,
-            advertisement_id: advertisementId,
-            zone_id: zoneId,
+            networkId,
+            advertiserId,
+            advertisementId,
+            zoneId,
             // XOR constraint: exactly one campaign reference
-            ...(campaignId ? { campaign_id: campaignId } : { campaign_mongo_id: campaignMongoId }),
+            ...(campaignId ? { campaignId } : { campaignMongoId }),
+            ...(restriction ? { restrictions: [restriction] } : {}),
           };
 
           placementPromises.push(
@@ -118,12 +123,13 @@ export function useLocalPlacementCreation(): UseLocalPlacementCreationResult {
         // Create placements with local zones
         for (const zoneMongoId of zoneMongoIds) {
           const placementData = {
-            network_id: networkId,
-            advertiser_id: advertiserId,
-            advertisement_id: advertisementId,
-            zone_mongo_id: zoneMongoId,
+            networkId,
+            advertiserId,
+            advertisementId,
+            zoneMongoId,
             // XOR constraint: exactly one campaign reference
-            ...(campaignId ? { campaign_id: campaignId } : { campaign_mongo_id: campaignMongoId }),
+            ...(campaignId ? { campaignId } : { campaignMongoId }),
+            ...(restriction ? { restrictions: [restriction] } : {}),
           };
 
           placementPromises.push(
@@ -203,9 +209,11 @@ export function useLocalPlacementCreation(): UseLocalPlacementCreationResult {
     adCount,
     zoneCount,
     combinationsCount,
+    restriction,
     isSubmitting,
     error,
     successMessage,
+    setRestriction,
     createLocalPlacements,
     clearMessages,
   };
@@ -0,0 +1,26 @@
+'use client';
+
+import { useUser } from '@clerk/nextjs';
+import { Permission, UserRole, hasPermission, resolveUserRole } from '@/lib/access-control';
+
+interface UsePermissionsReturn {
+  role: UserRole;
+  isLoaded: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+/**
+ * Role of the signed-in user, for hiding actions they cannot perform.
+ * API routes enforce the same permissions; this only keeps the UI honest.
+ */
+export function usePermissions(): UsePermissionsReturn {
+  const { user, isLoaded } = useUser();
+  const role = resolveUserRole(user?.publicMetadata);
+
+  return {
+    role,
+    isLoaded,
+    // Nothing is allowed until Clerk has loaded the user
+    can: (permission: Permission) => isLoaded && !!user && hasPermission(role, permission),
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Access control
+ * Roles come from the Clerk user's `publicMetadata.role`. This module holds the role and
+ * permission tables only, so client components can use it to hide actions; API routes
+ * enforce the same tables through src/lib/server/authorization.ts.
+ */
+
+export const USER_ROLES = ['sales', 'trafficker', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  sales: 'Sales',
+  trafficker: 'Trafficker',
+  admin: 'Admin',
+};
+
+export type Permission =
+  // Create advertising requests and view the ones you created
+  | 'requests:create'
+  // View every request, change status, assign, fulfil, edit and delete
+  | 'requests:manage'
+  // Create, edit and delete advertisers, campaigns, ads, zones, placements and themes
+  | 'entities:write'
+  // Run Broadstreet syncs, retries and sync jobs
+  | 'sync:run'
+  // Run custom reports, save and delete report definitions
+  | 'reports:run'
+  // Wipe local data and audit history, test utilities
+  | 'admin:destructive'
+  // Add, edit and remove Broadstreet API connections (tokens)
+  | 'connections:manage';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  sales: ['requests:create'],
+  trafficker: ['requests:create', 'requests:manage', 'entities:write', 'sync:run', 'reports:run'],
+  admin: ['requests:create', 'requests:manage', 'entities:write', 'sync:run', 'reports:run', 'admin:destructive', 'connections:manage'],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Role from Clerk public metadata. Users without one get NEXT_PUBLIC_DEFAULT_USER_ROLE,
+ * or sales when that is not set either.
+ */
+export function resolveUserRole(publicMetadata: Record<string, unknown> | null | undefined): UserRole {
+  const role = publicMetadata?.role;
+  if (isUserRole(role)) return role;
+
+  const fallback = process.env.NEXT_PUBLIC_DEFAULT_USER_ROLE;
+  return isUserRole(fallback) ? fallback : 'sales';
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getRolePermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+/**
+ * Sales see the requests they created; request managers see all of them
+ */
+export function canViewRequest(role: UserRole, userId: string, request: { created_by_user_id?: string }): boolean {
+  return hasPermission(role, 'requests:manage') || request.created_by_user_id === userId;
+}
@@ -0,0 +1,288 @@
+/**
+ * Advertising request workflow
+ * Owns the request states, the allowed transitions, the payload each transition needs,
+ * assignment rules and the shape of status-history entries. Every /api/advertising-requests route goes
+ * through here; nothing else writes `status` or `status_history`.
+ */
+
+export const REQUEST_STATUSES = ['new', 'in_progress', 'completed', 'cancelled'] as const;
+
+export type RequestStatus = typeof REQUEST_STATUSES[number];
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  new: 'New',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Badge variant per status for request lists and detail pages
+export const REQUEST_STATUS_BADGE_VARIANTS: Record<RequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'default',
+  in_progress: 'secondary',
+  completed: 'default',
+  cancelled: 'destructive',
+};
+
+const TRANSITIONS: Record<RequestStatus, RequestStatus[]> = {
+  new: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Open requests can still be edited; only new or cancelled ones can be deleted
+export const OPEN_REQUEST_STATUSES: RequestStatus[] = ['new', 'in_progress'];
+export const CLOSED_REQUEST_STATUSES: RequestStatus[] = ['completed', 'cancelled'];
+export const DELETABLE_REQUEST_STATUSES: RequestStatus[] = ['new', 'cancelled'];
+
+// Spellings written by older code ("In Progress", "Completed", ...); see scripts/migrate-advertising-request-status.mjs
+const LEGACY_STATUS_ALIASES: Record<string, RequestStatus> = {
+  'new': 'new',
+  'in progress': 'in_progress',
+  'in_progress': 'in_progress',
+  'in-progress': 'in_progress',
+  'completed': 'completed',
+  'complete': 'completed',
+  'cancelled': 'cancelled',
+  'canceled': 'cancelled',
+};
+
+export class RequestWorkflowError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface RequestActor {
+  user_id: string;
+  user_name: string;
+  user_email: string;
+}
+
+export interface StatusHistoryEntry {
+  status: RequestStatus;
+  changed_by_user_id: string;
+  changed_by_user_name: string;
+  changed_by_user_email: string;
+  changed_at: Date;
+  notes?: string;
+  // Set on assignment entries; null when the request was unassigned
+  assigned_to_user_id?: string | null;
+  assigned_to_user_name?: string | null;
+}
+
+// Payload required by each target status
+export interface CompletionPayload {
+  completed_campaign_id: number;
+  completed_advertisement_ids: number[];
+}
+
+export interface TransitionPayload {
+  notes?: string;
+  completion?: CompletionPayload;
+}
+
+// Fields set on the request by a transition, besides status and history
+export interface TransitionChanges {
+  completed_campaign_id?: number;
+  completed_advertisement_ids?: number[];
+  completed_by_user_id?: string;
+  completed_by_user_name?: string;
+  completed_at?: Date;
+}
+
+// Assignee fields on the request; all null when unassigned
+export interface AssignmentChanges {
+  assigned_to_user_id: string | null;
+  assigned_to_user_name: string | null;
+  assigned_to_user_email: string | null;
+  assigned_at: Date | null;
+}
+
+export function isRequestStatus(value: unknown): value is RequestStatus {
+  return typeof value === 'string' && (REQUEST_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a status from a query string or a legacy document to the canonical value
+ */
+export function normalizeRequestStatus(value: unknown): RequestStatus | null {
+  if (typeof value !== 'string') return null;
+  return LEGACY_STATUS_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+export function getRequestStatusLabel(status: string): string {
+  const normalized = normalizeRequestStatus(status);
+  return normalized ? REQUEST_STATUS_LABELS[normalized] : status;
+}
+
+export function getRequestStatusBadgeVariant(status: string) {
+  const normalized = normalizeRequestStatus(status);
+  return normalized ? REQUEST_STATUS_BADGE_VARIANTS[normalized] : 'outline';
+}
+
+export function getNextRequestStatuses(status: RequestStatus): RequestStatus[] {
+  return TRANSITIONS[status] || [];
+}
+
+export function canTransitionRequest(from: RequestStatus, to: RequestStatus): boolean {
+  return getNextRequestStatuses(from).includes(to);
+}
+
+export function isRequestEditable(status: RequestStatus): boolean {
+  return OPEN_REQUEST_STATUSES.includes(status);
+}
+
+export function isRequestDeletable(status: RequestStatus): boolean {
+  return DELETABLE_REQUEST_STATUSES.includes(status);
+}
+
+/**
+ * Parse a comma-separated status filter ("new,in_progress"; legacy labels are accepted)
+ */
+export function parseRequestStatusFilter(value: string): RequestStatus[] {
+  return value.split(',').map(part => {
+    const status = normalizeRequestStatus(part);
+    if (!status) {
+      throw new RequestWorkflowError(`Unknown status "${part.trim()}"`);
+    }
+    return status;
+  });
+}
+
+export function buildStatusHistoryEntry(
+  status: RequestStatus,
+  actor: RequestActor,
+  notes?: string,
+  changedAt: Date = new Date()
+): StatusHistoryEntry {
+  return {
+    status,
+    changed_by_user_id: actor.user_id,
+    changed_by_user_name: actor.user_name,
+    changed_by_user_email: actor.user_email,
+    changed_at: changedAt,
+    notes: notes?.trim() || `Status changed to ${REQUEST_STATUS_LABELS[status]}`,
+  };
+}
+
+/**
+ * Check a transition and its payload. Returns the fields to set next to the status and
+ * the history entry to push; throws RequestWorkflowError when the transition is not allowed.
+ */
+export function planTransition(
+  from: RequestStatus,
+  to: RequestStatus,
+  actor: RequestActor,
+  payload: TransitionPayload = {}
+): { changes: TransitionChanges; historyEntry: StatusHistoryEntry } {
+  if (!canTransitionRequest(from, to)) {
+    throw new RequestWorkflowError(
+      `Invalid status transition from ${REQUEST_STATUS_LABELS[from]} to ${REQUEST_STATUS_LABELS[to]}`,
+      409
+    );
+  }
+
+  const now = new Date();
+  const changes: TransitionChanges = {};
+
+  if (to === 'completed') {
+    const completion = payload.completion;
+    const adIds = completion?.completed_advertisement_ids || [];
+    if (!completion || !Number.isInteger(completion.completed_campaign_id) || completion.completed_campaign_id <= 0 ||
+        adIds.length === 0 || adIds.some(id => !Number.isInteger(id) || id <= 0)) {
+      throw new RequestWorkflowError('Completing a request requires the Broadstreet campaign ID and at least one advertisement ID');
+    }
+    changes.completed_campaign_id = completion.completed_campaign_id;
+    changes.completed_advertisement_ids = adIds;
+    changes.completed_by_user_id = actor.user_id;
+    changes.completed_by_user_name = actor.user_name;
+    changes.completed_at = now;
+  }
+
+  if (to === 'cancelled' && !payload.notes?.trim()) {
+    throw new RequestWorkflowError('Cancelling a request requires a reason in notes');
+  }
+
+  return { changes, historyEntry: buildStatusHistoryEntry(to, actor, payload.notes, now) };
+}
+
+/**
+ * Check an assignment change. `expectedAssigneeId` is the assignee the caller last saw; when
+ * someone else has picked the request up in the meantime the change is refused with 409.
+ */
+export function planAssignment(
+  request: { status: RequestStatus; assigned_to_user_id?: string | null; assigned_to_user_name?: string | null },
+  assignee: RequestActor | null,
+  actor: RequestActor,
+  expectedAssigneeId?: string | null,
+  notes?: string
+): { changes: AssignmentChanges; historyEntry: StatusHistoryEntry } {
+  if (!isRequestEditable(request.status)) {
+    throw new RequestWorkflowError(`${REQUEST_STATUS_LABELS[request.status]} requests cannot be reassigned`, 409);
+  }
+
+  const currentId = request.assigned_to_user_id || null;
+  if (expectedAssigneeId !== undefined && (expectedAssigneeId || null) !== currentId) {
+    throw new RequestWorkflowError(
+      currentId
+        ? `This request has just been assigned to ${request.assigned_to_user_name || currentId}`
+        : 'This request has just been unassigned',
+      409
+    );
+  }
+  if ((assignee?.user_id || null) === currentId) {
+    throw new RequestWorkflowError(assignee ? `Already assigned to ${assignee.user_name}` : 'This request is not assigned', 409);
+  }
+
+  const now = new Date();
+  const changes: AssignmentChanges = {
+    assigned_to_user_id: assignee?.user_id || null,
+    assigned_to_user_name: assignee?.user_name || null,
+    assigned_to_user_email: assignee?.user_email || null,
+    assigned_at: assignee ? now : null,
+  };
+
+  const defaultNotes = assignee
+    ? assignee.user_id === actor.user_id ? `Picked up by ${assignee.user_name}` : `Assigned to ${assignee.user_name}`
+    : `Unassigned from ${request.assigned_to_user_name || currentId}`;
+
+  return {
+    changes,
+    historyEntry: {
+      ...buildStatusHistoryEntry(request.status, actor, notes || defaultNotes, now),
+      assigned_to_user_id: changes.assigned_to_user_id,
+      assigned_to_user_name: changes.assigned_to_user_name,
+    },
+  };
+}
+
+/**
+ * Apply a transition to a loaded request document (the caller saves it)
+ */
+export function applyTransition(
+  request: {
+    status: RequestStatus;
+    status_history: StatusHistoryEntry[];
+    assigned_to_user_id?: string | null;
+    assigned_to_user_name?: string | null;
+    set: (changes: object) => unknown;
+  },
+  to: RequestStatus,
+  actor: RequestActor,
+  payload: TransitionPayload = {}
+): RequestStatus {
+  const from = request.status;
+  const { changes, historyEntry } = planTransition(from, to, actor, payload);
+  request.set({ ...changes, status: to });
+  request.status_history.push(historyEntry);
+
+  // Starting work on an unassigned request claims it for whoever started it
+  if (to === 'in_progress' && !request.assigned_to_user_id) {
+    const assignment = planAssignment({ status: to }, actor, actor);
+    request.set(assignment.changes);
+    request.status_history.push(assignment.historyEntry);
+  }
+  return from;
+}
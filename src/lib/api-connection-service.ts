@@ -0,0 +1,370 @@
+import { cookies } from 'next/headers';
+import { isValidObjectId } from 'mongoose';
+import connectDB from './mongodb';
+import ApiConnection, { IApiConnection } from './models/api-connection';
+import Network from './models/network';
+import Advertiser from './models/advertiser';
+import Zone from './models/zone';
+import Campaign from './models/campaign';
+import Advertisement from './models/advertisement';
+import Placement from './models/placement';
+import ReportCache from './models/report-cache';
+import { BroadstreetAPI, BroadstreetApiError } from './broadstreet-api';
+import { decryptSecret, encryptSecret, getSecretHint, isReadableSecret } from './server/secret-encryption';
+
+// Holds the id of the connection the user switched to in the header
+export const ACTIVE_CONNECTION_COOKIE = 'broadstreet_connection';
+
+export class ApiConnectionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+/**
+ * A connection resolved for use: its settings and a client using its token.
+ * id is null for the BROADSTREET_API_TOKEN fallback, used while no connection is stored.
+ * The token is only decrypted when client is first read, so listing and switching
+ * connections keeps working when API_CONNECTION_SECRET is missing or was changed.
+ */
+export interface BroadstreetConnection {
+  id: string | null;
+  label: string;
+  token_hint: string;
+  default_network_id: number | null;
+  is_default: boolean;
+  client: BroadstreetAPI;
+}
+
+// As listed to the UI; never includes the token
+export interface ApiConnectionSummary {
+  id: string | null;
+  label: string;
+  token_hint: string;
+  base_url?: string;
+  default_network_id: number | null;
+  is_default: boolean;
+  // The stored token can't be decrypted (API_CONNECTION_SECRET missing or changed); re-enter it
+  needs_token: boolean;
+  network_count: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface ApiConnectionInput {
+  label?: string;
+  token?: string;
+  base_url?: string;
+  default_network_id?: number | null;
+  is_default?: boolean;
+}
+
+const ENV_CONNECTION_LABEL = 'Environment (BROADSTREET_API_TOKEN)';
+
+// Broadstreet-sourced collections scoped by connection_id
+const SCOPED_MODELS = [Network, Advertiser, Zone, Campaign, Advertisement, Placement, ReportCache];
+
+/**
+ * Query filter for documents synced under a connection. The environment fallback is the
+ * only connection while it is used, so it sees everything.
+ */
+export function connectionFilter(connection: Pick<BroadstreetConnection, 'id'>): Record<string, unknown> {
+  return connection.id ? { connection_id: connection.id } : {};
+}
+
+/**
+ * Default network from a request body: a number, null to clear it, or undefined to leave it
+ */
+export function parseConnectionNetworkId(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const networkId = Number(value);
+  if (!Number.isInteger(networkId) || networkId <= 0) {
+    throw new ApiConnectionError('default_network_id must be a Broadstreet network ID');
+  }
+  return networkId;
+}
+
+/**
+ * Broadstreet API connections: one token (and usually one publication) each. Networks are
+ * stamped with the connection that synced them, so work on a network always uses that
+ * network's token; the connection picked in the header decides which networks are shown
+ * and which account download syncs and reports use.
+ */
+export class ApiConnectionService {
+  // Clients by connection id, rebuilt when the connection changes
+  private clients = new Map<string, { updatedAt: number; client: BroadstreetAPI }>();
+
+  async list(): Promise<ApiConnectionSummary[]> {
+    await connectDB();
+    const [connections, networkCounts] = await Promise.all([
+      ApiConnection.find({}).select('+token_encrypted').sort({ label: 1 }).lean<IApiConnection[]>(),
+      Network.aggregate([
+        { $match: { deleted_remotely: { $ne: true } } },
+        { $group: { _id: '$connection_id', count: { $sum: 1 } } },
+      ]),
+    ]);
+    const counts = new Map<string | null, number>(networkCounts.map((c: any) => [c._id ?? null, Number(c.count)]));
+
+    if (connections.length === 0) {
+      const fallback = this.getEnvironmentConnection();
+      return [{
+        id: null,
+        label: fallback.label,
+        token_hint: fallback.token_hint,
+        default_network_id: null,
+        is_default: true,
+        needs_token: false,
+        network_count: Array.from(counts.values()).reduce((total, count) => total + count, 0),
+      }];
+    }
+
+    return connections.map(connection => ({
+      id: String(connection._id),
+      label: connection.label,
+      token_hint: connection.token_hint,
+      base_url: connection.base_url,
+      default_network_id: connection.default_network_id ?? null,
+      is_default: connection.is_default,
+      needs_token: !isReadableSecret(connection.token_encrypted),
+      network_count: counts.get(String(connection._id)) || 0,
+      created_at: connection.createdAt,
+      updated_at: connection.updatedAt,
+    }));
+  }
+
+  /**
+   * Store a connection. The token is checked against Broadstreet first, and the default
+   * network must be one it can see. The first connection becomes the default.
+   */
+  async create(input: ApiConnectionInput, userId?: string): Promise<ApiConnectionSummary> {
+    await connectDB();
+    const label = input.label?.trim();
+    const token = input.token?.trim();
+    if (!label) throw new ApiConnectionError('Label is required');
+    if (!token) throw new ApiConnectionError('API token is required');
+    if (await ApiConnection.exists({ label })) {
+      throw new ApiConnectionError(`A connection named "${label}" already exists`, 409);
+    }
+
+    const baseUrl = input.base_url?.trim() || undefined;
+    await this.verifyToken(token, baseUrl, input.default_network_id ?? null);
+
+    const isFirst = (await ApiConnection.countDocuments()) === 0;
+    const isDefault = isFirst || input.is_default === true;
+    if (isDefault) {
+      await ApiConnection.updateMany({ is_default: true }, { $set: { is_default: false } });
+    }
+
+    const connection = await ApiConnection.create({
+      label,
+      token_encrypted: encryptSecret(token),
+      token_hint: getSecretHint(token),
+      base_url: baseUrl,
+      default_network_id: input.default_network_id ?? null,
+      is_default: isDefault,
+      created_by_user_id: userId,
+    });
+
+    return this.summarize(connection);
+  }
+
+  /**
+   * Change a connection. A new token is verified like on create; leave it out to keep the old one.
+   */
+  async update(id: string, input: ApiConnectionInput): Promise<ApiConnectionSummary> {
+    await connectDB();
+    const connection = await this.findStored(id, true);
+
+    const label = input.label?.trim();
+    if (input.label !== undefined) {
+      if (!label) throw new ApiConnectionError('Label is required');
+      if (await ApiConnection.exists({ label, _id: { $ne: connection._id } })) {
+        throw new ApiConnectionError(`A connection named "${label}" already exists`, 409);
+      }
+      connection.label = label;
+    }
+
+    const token = input.token?.trim();
+    const baseUrl = input.base_url !== undefined ? input.base_url.trim() || undefined : connection.base_url;
+    const defaultNetworkId = input.default_network_id !== undefined ? input.default_network_id : connection.default_network_id ?? null;
+    if (token || input.base_url !== undefined || input.default_network_id !== undefined) {
+      await this.verifyToken(token || this.readToken(connection), baseUrl, defaultNetworkId);
+    }
+    if (token) {
+      connection.token_encrypted = encryptSecret(token);
+      connection.token_hint = getSecretHint(token);
+    }
+    connection.base_url = baseUrl;
+    connection.default_network_id = defaultNetworkId;
+
+    if (input.is_default === true && !connection.is_default) {
+      await ApiConnection.updateMany({ is_default: true }, { $set: { is_default: false } });
+      connection.is_default = true;
+    }
+
+    await connection.save();
+    this.clients.delete(String(connection._id));
+    return this.summarize(connection);
+  }
+
+  /**
+   * Delete a connection with the Broadstreet data synced under it. Local drafts are kept.
+   * The default connection can only go once another one is the default, or when it is the last.
+   */
+  async remove(id: string): Promise<{ removed_documents: number }> {
+    await connectDB();
+    const connection = await this.findStored(id);
+    if (connection.is_default && (await ApiConnection.countDocuments()) > 1) {
+      throw new ApiConnectionError('Make another connection the default before deleting this one', 409);
+    }
+
+    const results = await Promise.all(SCOPED_MODELS.map(model => model.deleteMany({ connection_id: id })));
+    await ApiConnection.deleteOne({ _id: connection._id });
+    this.clients.delete(id);
+
+    return { removed_documents: results.reduce((total, result) => total + (result.deletedCount || 0), 0) };
+  }
+
+  /**
+   * A stored connection by id, or null if there is none
+   */
+  async getConnection(id: string): Promise<BroadstreetConnection | null> {
+    if (!isValidObjectId(id)) return null;
+    await connectDB();
+    const connection = await ApiConnection.findById(id).select('+token_encrypted');
+    return connection ? this.toConnection(connection) : null;
+  }
+
+  /**
+   * The default connection, or the oldest one if none is marked; BROADSTREET_API_TOKEN while
+   * no connection is stored
+   */
+  async getDefaultConnection(): Promise<BroadstreetConnection> {
+    await connectDB();
+    const connection = await ApiConnection.findOne({})
+      .sort({ is_default: -1, createdAt: 1 })
+      .select('+token_encrypted');
+    return connection ? this.toConnection(connection) : this.getEnvironmentConnection();
+  }
+
+  /**
+   * The connection picked in the header (cookie), falling back to the default.
+   * Only call this while handling a request.
+   */
+  async resolveActive(): Promise<BroadstreetConnection> {
+    const cookieStore = await cookies();
+    const selected = cookieStore.get(ACTIVE_CONNECTION_COOKIE)?.value;
+    const connection = selected ? await this.getConnection(selected) : null;
+    return connection || this.getDefaultConnection();
+  }
+
+  /**
+   * The connection for work on a network: the one that synced it, or the default
+   * connection for networks not synced under one yet
+   */
+  async getConnectionForNetwork(networkId: number): Promise<BroadstreetConnection> {
+    await connectDB();
+    const network = await Network.findOne({ broadstreet_id: networkId }).select('connection_id').lean<{ connection_id?: string | null }>();
+    const connection = network?.connection_id ? await this.getConnection(network.connection_id) : null;
+    return connection || this.getDefaultConnection();
+  }
+
+  async getClientForNetwork(networkId: number): Promise<BroadstreetAPI> {
+    return (await this.getConnectionForNetwork(networkId)).client;
+  }
+
+  private getEnvironmentConnection(): BroadstreetConnection {
+    const token = process.env.BROADSTREET_API_TOKEN || '';
+    return {
+      id: null,
+      label: ENV_CONNECTION_LABEL,
+      token_hint: getSecretHint(token),
+      default_network_id: null,
+      is_default: true,
+      client: this.getClient('env', 0, () => ({})),
+    };
+  }
+
+  private toConnection(connection: IApiConnection): BroadstreetConnection {
+    const id = String(connection._id);
+    const getClient = () => this.getClient(id, connection.updatedAt?.getTime() || 0, () => ({
+      token: this.readToken(connection),
+      baseURL: connection.base_url,
+    }));
+    return {
+      id,
+      label: connection.label,
+      token_hint: connection.token_hint,
+      default_network_id: connection.default_network_id ?? null,
+      is_default: connection.is_default,
+      get client() {
+        return getClient();
+      },
+    };
+  }
+
+  private getClient(key: string, updatedAt: number, options: () => { token?: string; baseURL?: string }): BroadstreetAPI {
+    const cached = this.clients.get(key);
+    if (cached && cached.updatedAt === updatedAt) return cached.client;
+    const client = new BroadstreetAPI(options());
+    this.clients.set(key, { updatedAt, client });
+    return client;
+  }
+
+  private readToken(connection: IApiConnection): string {
+    try {
+      return decryptSecret(connection.token_encrypted);
+    } catch {
+      throw new ApiConnectionError(
+        `The API token of "${connection.label}" can't be read: API_CONNECTION_SECRET is missing or was changed. Re-enter the token on the Connections page`,
+        409
+      );
+    }
+  }
+
+  private async findStored(id: string, withToken: boolean = false): Promise<IApiConnection> {
+    if (!isValidObjectId(id)) throw new ApiConnectionError('Invalid connection ID');
+    const query = ApiConnection.findById(id);
+    const connection = await (withToken ? query.select('+token_encrypted') : query);
+    if (!connection) throw new ApiConnectionError('Connection not found', 404);
+    return connection;
+  }
+
+  private async verifyToken(token: string, baseUrl: string | undefined, defaultNetworkId: number | null): Promise<void> {
+    let networkIds: number[];
+    try {
+      const networks = await new BroadstreetAPI({ token, baseURL: baseUrl }).getNetworks();
+      networkIds = networks.map(network => network.broadstreet_id);
+    } catch (error) {
+      if (error instanceof BroadstreetApiError && error.status === 401) {
+        throw new ApiConnectionError('Broadstreet rejected the API token', 422);
+      }
+      throw new ApiConnectionError(
+        `Could not reach Broadstreet with this token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        502
+      );
+    }
+    if (defaultNetworkId !== null && !networkIds.includes(defaultNetworkId)) {
+      throw new ApiConnectionError(`Network ${defaultNetworkId} is not available with this token`, 422);
+    }
+  }
+
+  private async summarize(connection: IApiConnection): Promise<ApiConnectionSummary> {
+    const id = String(connection._id);
+    return {
+      id,
+      label: connection.label,
+      token_hint: connection.token_hint,
+      base_url: connection.base_url,
+      default_network_id: connection.default_network_id ?? null,
+      is_default: connection.is_default,
+      needs_token: !isReadableSecret(connection.token_encrypted),
+      network_count: await Network.countDocuments({ connection_id: id, deleted_remotely: { $ne: true } }),
+      created_at: connection.createdAt,
+      updated_at: connection.updatedAt,
+    };
+  }
+}
+
+export const apiConnectionService = new ApiConnectionService();
@@ -5,12 +5,17 @@ export class AuditService {
   /**
    * Create a new sync log entry
    */
-  async createSyncLog(networkId: number, syncType: 'full' | 'incremental' | 'retry' = 'full'): Promise<ISyncLog> {
+  async createSyncLog(
+    networkId: number,
+    syncType: ISyncLog['syncType'] = 'full',
+    retryOfSyncLogId?: string
+  ): Promise<ISyncLog> {
     await connectDB();
     
     const syncLog = new SyncLog({
       networkId,
       syncType,
+      retryOfSyncLogId,
       status: 'pending',
       startTime: new Date(),
       phases: [],
@@ -192,6 +197,50 @@ export class AuditService {
     await syncLog.save();
   }
 
+  /**
+   * Record a single write-back to Broadstreet (e.g. editing a synced entity)
+   * as its own 'update' sync log with one phase and one operation
+   */
+  async logEntityUpdate(
+    networkId: number,
+    phase: ISyncPhase['phase'],
+    operation: Omit<ISyncOperation, 'timestamp' | 'operation'>
+  ): Promise<ISyncLog | null> {
+    return this.logEntityOperations(networkId, phase, 'update', [{ ...operation, operation: 'update' }]);
+  }
+
+  /**
+   * Record a batch of direct write-backs to Broadstreet (outside a full sync)
+   * as one sync log with a single phase
+   */
+  async logEntityOperations(
+    networkId: number,
+    phase: ISyncPhase['phase'],
+    syncType: ISyncLog['syncType'],
+    operations: Array<Omit<ISyncOperation, 'timestamp'>>
+  ): Promise<ISyncLog | null> {
+    const syncLog = await this.createSyncLog(networkId, syncType);
+    const syncLogId = String(syncLog._id);
+
+    await this.startPhase(syncLogId, phase, operations.length);
+    for (const operation of operations) {
+      await this.logOperation(syncLogId, phase, operation);
+    }
+
+    const failed = operations.filter(op => op.status === 'error');
+    const errorSummary = failed.length > 0
+      ? failed.length === 1 && operations.length === 1
+        ? failed[0].errorMessage
+        : `${failed.length} of ${operations.length} operations failed`
+      : undefined;
+    const status = failed.length > 0 ? 'error' : 'success';
+
+    await this.completePhase(syncLogId, phase, status, errorSummary);
+    await this.completeSyncLog(syncLogId, status, errorSummary);
+
+    return this.getSyncLogById(syncLogId);
+  }
+
   /**
    * Get sync logs with filtering and pagination
    */
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import {
   Network,
   Advertiser,
@@ -5,78 +6,270 @@ import {
   Campaign,
   Advertisement,
   Placement,
-  NetworksResponse,
-  AdvertisersResponse,
-  ZonesResponse,
-  CampaignsResponse,
-  AdvertisementsResponse,
-  PlacementsResponse,
+  RecordsResponse,
+  ReportEntityType,
+  CustomRecordsResponse,
 } from './types/broadstreet';
-import { mapApiIds } from './types/mapApiIds';
+import {
+  advertisementResponseSchema,
+  advertisementsResponseSchema,
+  advertiserResponseSchema,
+  advertisersResponseSchema,
+  campaignResponseSchema,
+  campaignsResponseSchema,
+  campaignUpdateResponseSchema,
+  customRecordsResponseSchema,
+  networkResponseSchema,
+  networksResponseSchema,
+  placementCreateResponseSchema,
+  placementsResponseSchema,
+  recordsResponseSchema,
+  zoneResponseSchema,
+  zonesResponseSchema,
+} from './types/broadstreet-schemas';
+import { normalizeRestrictions, toApiRestriction } from './utils/placement-restrictions';
+import { simulatorTransport } from './broadstreet-simulator';
+import { broadstreetRateLimiter, getRateLimitBucket } from './rate-limiter';
 
 const API_BASE_URL = process.env.BROADSTREET_API_BASE_URL || 'https://api.broadstreetads.com/api/1';
 const API_TOKEN = process.env.BROADSTREET_API_TOKEN || '';
 
-// Configuration validation removed for production
+/**
+ * Sends one HTTP request to Broadstreet. Defaults to fetch; tests and local development
+ * swap in the in-memory simulator (BROADSTREET_TRANSPORT=simulator) or their own function.
+ */
+export type BroadstreetTransport = (url: string, init: RequestInit) => Promise<Response>;
 
-class BroadstreetAPI {
-  private baseURL: string;
-  private token: string;
+export const fetchTransport: BroadstreetTransport = (url, init) => fetch(url, init);
+
+export interface BroadstreetAPIOptions {
+  baseURL?: string;
+  token?: string;
+  transport?: BroadstreetTransport;
+}
 
-  constructor() {
-    this.baseURL = API_BASE_URL || 'https://api.broadstreetads.com/api/1';
-    this.token = API_TOKEN || '';
+function resolveDefaultTransport(): BroadstreetTransport {
+  const transport = process.env.BROADSTREET_TRANSPORT || 'fetch';
+  if (transport === 'simulator') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('BROADSTREET_TRANSPORT=simulator is not allowed in production');
+    }
+    return simulatorTransport;
+  }
+  if (transport !== 'fetch') {
+    throw new Error(`Unknown BROADSTREET_TRANSPORT "${transport}"; use "fetch" or "simulator"`);
   }
+  return fetchTransport;
+}
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseURL}${endpoint}${endpoint.includes('?') ? '&' : '?'}access_token=${this.token}`;
+export interface BroadstreetValidationIssue {
+  path: string; // e.g. "zones.3.name"
+  message: string;
+}
 
+interface BroadstreetApiErrorDetails {
+  kind: 'http' | 'validation';
+  status: number;
+  statusText: string;
+  method: string;
+  endpoint: string;
+  responseText: string;
+  body?: unknown;
+  issues?: BroadstreetValidationIssue[];
+  retryAfter?: number | null;
+}
 
+/**
+ * A failed Broadstreet call: an error status (kind "http") or a response that doesn't match
+ * its schema (kind "validation", with the issues). status is always the HTTP status Broadstreet
+ * answered with, so a validation failure usually carries 200.
+ */
+export class BroadstreetApiError extends Error {
+  kind: 'http' | 'validation';
+  status: number;
+  statusText: string;
+  method: string;
+  endpoint: string; // Without the access token
+  responseText: string;
+  body: unknown; // Parsed JSON body, if there was one
+  issues: BroadstreetValidationIssue[];
+  retryAfter: number | null; // Seconds, from the Retry-After header of a 429 or 503
+
+  constructor(message: string, details: BroadstreetApiErrorDetails) {
+    super(message);
+    this.name = 'BroadstreetApiError';
+    this.kind = details.kind;
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.responseText = details.responseText;
+    this.body = details.body;
+    this.issues = details.issues || [];
+    this.retryAfter = details.retryAfter ?? null;
+  }
+}
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+// Broadstreet's own explanation from an error body: { message, errors: { field: [...] } }
+function describeErrorBody(body: unknown): string {
+  if (!body || typeof body !== 'object') return '';
+  const { message, errors } = body as { message?: unknown; errors?: unknown };
+  const details = errors && typeof errors === 'object' && !Array.isArray(errors)
+    ? Object.entries(errors as Record<string, unknown>)
+      .map(([field, messages]) => `${field} ${Array.isArray(messages) ? messages.join(', ') : String(messages)}`)
+    : [];
+  return details.length > 0 ? details.join('; ') : typeof message === 'string' ? message : '';
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function toValidationIssues(error: z.ZodError): BroadstreetValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
 
-    const status = response.status;
-    const statusText = response.statusText;
-    const responseText = await response.text();
+/**
+ * The parts of a local advertisement draft that Broadstreet's create endpoint takes
+ */
+export interface AdvertisementDraft {
+  name: string;
+  type: string;
+  preview_url?: string; // The creative (image, or HTML for html ads)
+  active?: { url?: string | null }; // Click-through URL
+}
 
+// Local advertisement types Broadstreet can create, and the API type each becomes
+const API_ADVERTISEMENT_TYPES: Record<string, 'static' | 'html'> = {
+  image: 'static',
+  html: 'html',
+};
 
+export function toApiAdvertisementType(type: string): 'static' | 'html' | null {
+  return API_ADVERTISEMENT_TYPES[type] ?? null;
+}
 
-    // Try to parse JSON safely
-    let json: any = undefined;
-    try {
-      json = responseText ? JSON.parse(responseText) : undefined;
-    } catch (parseError) {
-      json = undefined;
-    }
+// POST /advertisements body: only the documented fields (type, name, destination, active_url)
+function toAdvertisementCreateBody(advertisement: AdvertisementDraft) {
+  const type = toApiAdvertisementType(advertisement.type);
+  if (!type) {
+    throw new Error(`Advertisement type "${advertisement.type}" cannot be created in Broadstreet; use image or html`);
+  }
+  const destination = advertisement.active?.url?.trim();
+  const activeUrl = advertisement.preview_url?.trim();
+  return {
+    type,
+    name: advertisement.name,
+    ...(destination ? { destination } : {}),
+    ...(activeUrl ? { active_url: activeUrl } : {}),
+  };
+}
+
+export function isSimulatorTransportEnabled(): boolean {
+  return process.env.BROADSTREET_TRANSPORT === 'simulator' && process.env.NODE_ENV !== 'production';
+}
+
+export class BroadstreetAPI {
+  private baseURL: string;
+  private token: string;
+  private transport: BroadstreetTransport;
+
+  constructor(options: BroadstreetAPIOptions = {}) {
+    this.baseURL = options.baseURL || API_BASE_URL || 'https://api.broadstreetads.com/api/1';
+    this.token = options.token ?? API_TOKEN ?? '';
+    this.transport = options.transport || resolveDefaultTransport();
+  }
+
+  /**
+   * Route subsequent requests through another transport, e.g. a test double
+   */
+  setTransport(transport: BroadstreetTransport) {
+    this.transport = transport;
+  }
 
-    if (!response.ok) {
-      const error: any = new Error(`API request failed: ${status} ${statusText}`);
-      error.status = status;
-      error.statusText = statusText;
-      error.endpoint = endpoint;
-      error.responseText = responseText;
-      throw error;
+  private async request<S extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: S,
+    options: RequestInit = {}
+  ): Promise<z.output<S>> {
+    const url = `${this.baseURL}${endpoint}${endpoint.includes('?') ? '&' : '?'}access_token=${this.token}`;
+    const method = (options.method || 'GET').toUpperCase();
+
+    // Every request waits for a token from its endpoint family's bucket; 429s are retried there
+    const { status, statusText, responseText, json } = await broadstreetRateLimiter.schedule(
+      getRateLimitBucket(endpoint),
+      async () => {
+        const response = await this.transport(url, {
+          ...options,
+          headers: {
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
+        });
+
+        const status = response.status;
+        const statusText = response.statusText;
+        const responseText = await response.text();
+
+        // Try to parse JSON safely
+        let json: unknown = undefined;
+        try {
+          json = responseText ? JSON.parse(responseText) : undefined;
+        } catch {
+          json = undefined;
+        }
+
+        if (!response.ok) {
+          const reason = describeErrorBody(json);
+          throw new BroadstreetApiError(
+            `Broadstreet API request failed: ${status} ${statusText} (${method} ${endpoint})${reason ? `: ${reason}` : ''}`,
+            {
+              kind: 'http',
+              status,
+              statusText,
+              method,
+              endpoint,
+              responseText,
+              body: json,
+              retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+            }
+          );
+        }
+
+        return { status, statusText, responseText, json };
+      }
+    );
+
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) {
+      const issues = toValidationIssues(parsed.error);
+      const summary = issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+      throw new BroadstreetApiError(
+        `Unexpected Broadstreet response from ${method} ${endpoint}: ${summary}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`,
+        { kind: 'validation', status, statusText, method, endpoint, responseText, body: json, issues }
+      );
     }
 
-    return json as T;
+    return parsed.data;
   }
 
   // Networks
   async getNetworks(): Promise<Network[]> {
-    const response = await this.request<NetworksResponse>('/networks');
-    // Map legacy broadstreet_id -> broadstreet_id but keep legacy broadstreet_id for compatibility
-    return response.networks.map((n: any) => mapApiIds(n, { stripId: false })) as unknown as Network[];
+    const response = await this.request('/networks', networksResponseSchema);
+    return response.networks;
   }
 
   async getNetwork(networkId: number): Promise<Network> {
-    const response = await this.request<{ network: any }>(`/networks/${networkId}`);
-    return mapApiIds(response.network, { stripId: false }) as unknown as Network;
+    const response = await this.request(`/networks/${networkId}`, networkResponseSchema);
+    return response.network;
   }
 
   async createNetwork(network: {
@@ -88,22 +281,22 @@ class BroadstreetAPI {
     path?: string;
     notes?: string;
   }): Promise<Network> {
-    const response = await this.request<{ network: any }>('/networks', {
+    const response = await this.request('/networks', networkResponseSchema, {
       method: 'POST',
       body: JSON.stringify(network),
     });
-    return mapApiIds(response.network, { stripId: false }) as unknown as Network;
+    return response.network;
   }
 
   // Advertisers
   async getAdvertisers(networkId: number): Promise<Advertiser[]> {
-    const response = await this.request<AdvertisersResponse>(`/advertisers?network_id=${networkId}`);
-    return response.advertisers.map((a: any) => mapApiIds(a, { stripId: false })) as unknown as Advertiser[];
+    const response = await this.request(`/advertisers?network_id=${networkId}`, advertisersResponseSchema);
+    return response.advertisers;
   }
 
   async getAdvertiser(advertiserId: number): Promise<Advertiser> {
-    const response = await this.request<{ advertiser: any }>(`/advertisers/${advertiserId}`);
-    return mapApiIds(response.advertiser, { stripId: false }) as unknown as Advertiser;
+    const response = await this.request(`/advertisers/${advertiserId}`, advertiserResponseSchema);
+    return response.advertiser;
   }
 
   async updateAdvertiser(advertiserId: number, advertiser: {
@@ -116,11 +309,11 @@ class BroadstreetAPI {
     if (typeof advertiser.web_home_url === 'string' && advertiser.web_home_url.trim()) body.web_home_url = advertiser.web_home_url.trim();
     if (typeof advertiser.notes === 'string') body.notes = advertiser.notes.trim();
 
-    const response = await this.request<{ advertiser: any }>(`/advertisers/${advertiserId}`, {
+    const response = await this.request(`/advertisers/${advertiserId}`, advertiserResponseSchema, {
       method: 'PUT',
       body: JSON.stringify(body),
     });
-    return mapApiIds(response.advertiser, { stripId: false }) as unknown as Advertiser;
+    return response.advertiser;
   }
 
   async createAdvertiser(advertiser: {
@@ -138,22 +331,22 @@ class BroadstreetAPI {
     if (web_home_url) body.web_home_url = web_home_url;
     if (typeof notes === 'string' && notes.trim()) body.notes = notes.trim();
 
-    const response = await this.request<{ advertiser: any }>(endpoint, {
+    const response = await this.request(endpoint, advertiserResponseSchema, {
       method: 'POST',
       body: JSON.stringify(body),
     });
-    return mapApiIds(response.advertiser, { stripId: false }) as unknown as Advertiser;
+    return response.advertiser;
   }
 
   // Zones
   async getZones(networkId: number): Promise<Zone[]> {
-    const response = await this.request<ZonesResponse>(`/zones?network_id=${networkId}`);
-    return response.zones.map((z: any) => mapApiIds(z, { stripId: false })) as unknown as Zone[];
+    const response = await this.request(`/zones?network_id=${networkId}`, zonesResponseSchema);
+    return response.zones;
   }
 
   async getZone(zoneId: number): Promise<Zone> {
-    const response = await this.request<{ zone: any }>(`/zones/${zoneId}`);
-    return mapApiIds(response.zone, { stripId: false }) as unknown as Zone;
+    const response = await this.request(`/zones/${zoneId}`, zoneResponseSchema);
+    return response.zone;
   }
 
   async createZone(zone: {
@@ -174,27 +367,27 @@ class BroadstreetAPI {
     rss_shuffle?: boolean;
     style?: string;
   }): Promise<Zone> {
-    const response = await this.request<{ zone: any }>('/zones', {
+    const response = await this.request('/zones', zoneResponseSchema, {
       method: 'POST',
       body: JSON.stringify(zone),
     });
-    return mapApiIds(response.zone, { stripId: false }) as unknown as Zone;
+    return response.zone;
   }
 
   // Campaigns
   async getCampaignsByAdvertiser(advertiserId: number): Promise<Campaign[]> {
-    const response = await this.request<CampaignsResponse>(`/campaigns?advertiser_id=${advertiserId}`);
-    return response.campaigns.map((c: any) => mapApiIds(c, { stripId: false })) as unknown as Campaign[];
+    const response = await this.request(`/campaigns?advertiser_id=${advertiserId}`, campaignsResponseSchema);
+    return response.campaigns;
   }
 
   async getCampaignsByZone(zoneId: number): Promise<Campaign[]> {
-    const response = await this.request<CampaignsResponse>(`/campaigns?zone_id=${zoneId}`);
-    return response.campaigns.map((c: any) => mapApiIds(c, { stripId: false })) as unknown as Campaign[];
+    const response = await this.request(`/campaigns?zone_id=${zoneId}`, campaignsResponseSchema);
+    return response.campaigns;
   }
 
   async getCampaign(campaignId: number): Promise<Campaign> {
-    const response = await this.request<{ campaign: any }>(`/campaigns/${campaignId}`);
-    return mapApiIds(response.campaign, { stripId: false }) as unknown as Campaign;
+    const response = await this.request(`/campaigns/${campaignId}`, campaignResponseSchema);
+    return response.campaign;
   }
 
   async createCampaign(campaign: {
@@ -213,11 +406,31 @@ class BroadstreetAPI {
     paused?: boolean;
     notes?: string;
   }): Promise<Campaign> {
-    const response = await this.request<{ campaign: any }>('/campaigns', {
+    const response = await this.request('/campaigns', campaignResponseSchema, {
       method: 'POST',
       body: JSON.stringify(campaign),
     });
-    return mapApiIds(response.campaign, { stripId: false }) as unknown as Campaign;
+    return response.campaign;
+  }
+
+  async updateCampaign(campaignId: number, updates: {
+    name?: string;
+    start_date?: string;
+    end_date?: string | null;
+    max_impression_count?: number | null;
+    archived?: boolean;
+    display_type?: string;
+    pacing_type?: string;
+    impression_max_type?: string;
+    paused?: boolean;
+    weight?: number | string;
+    notes?: string;
+  }): Promise<Campaign> {
+    // The API may return the campaign bare or wrapped in { campaign }
+    return this.request(`/campaigns/${campaignId}`, campaignUpdateResponseSchema, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
   }
 
   // Advertisements
@@ -230,45 +443,29 @@ class BroadstreetAPI {
     if (params.zoneId) query += `&zone_id=${params.zoneId}`;
     if (params.advertiserId) query += `&advertiser_id=${params.advertiserId}`;
     
-    const response = await this.request<AdvertisementsResponse>(`/advertisements?${query}`);
-    return response.advertisements.map((a: any) => mapApiIds(a, { stripId: false })) as unknown as Advertisement[];
+    const response = await this.request(`/advertisements?${query}`, advertisementsResponseSchema);
+    return response.advertisements;
   }
 
-  async createAdvertisement(advertisement: {
-    name: string;
-    network_id: number;
-    type: string;
-    advertiser?: string;
-    advertiser_id?: number;
-    active?: { url?: string | null };
-    active_placement?: boolean;
-    preview_url?: string;
-    notes?: string;
-  }): Promise<Advertisement> {
-    const response = await this.request<{ advertisement: any }>('/advertisements', {
+  async createAdvertisement(advertisement: AdvertisementDraft & { advertiser_id: number }): Promise<Advertisement> {
+    // The API documents advertiser_id as a query parameter for this endpoint
+    const response = await this.request(`/advertisements?advertiser_id=${advertisement.advertiser_id}`, advertisementResponseSchema, {
       method: 'POST',
-      body: JSON.stringify(advertisement),
+      body: JSON.stringify(toAdvertisementCreateBody(advertisement)),
     });
-    return mapApiIds(response.advertisement, { stripId: false }) as unknown as Advertisement;
+    return response.advertisement;
   }
 
   // Placements
-  async getPlacements(campaignId: number): Promise<any[]> {
-    const response = await this.request<any[]>(`/placements?campaign_id=${campaignId}`);
-    
-    // API returns array of placement objects directly
-    // Normalize field names to internal schema (advertisement_id, zone_id)
-    if (Array.isArray(response)) {
-      return response.map((placement: any) => ({
-        advertisement_id: placement.advertisement_id,
-        zone_id: placement.zone_id,
-        campaign_id: campaignId,
-        restrictions: placement.restrictions || [],
-      }));
-    }
-    
-    // If not an array, return empty array
-    return [];
+  async getPlacements(campaignId: number): Promise<Placement[]> {
+    const placements = await this.request(`/placements?campaign_id=${campaignId}`, placementsResponseSchema);
+    return placements.map(placement => ({
+      advertisement_id: placement.advertisement_id,
+      zone_id: placement.zone_id,
+      campaign_id: campaignId,
+      // API returns a single string (e.g. "phone"); store as an array
+      restrictions: normalizeRestrictions(placement.restrictions),
+    }));
   }
 
   async createPlacement(placement: {
@@ -277,38 +474,25 @@ class BroadstreetAPI {
     zone_id: number;
     restrictions?: string[];
   }): Promise<Placement> {
-    const response = await this.request<PlacementsResponse>('/placements', {
+    // Broadstreet takes a single restriction string; omit it to target all devices
+    const restriction = toApiRestriction(placement.restrictions);
+    const created = await this.request('/placements', placementCreateResponseSchema, {
       method: 'POST',
-      body: JSON.stringify(placement),
-    });
-
-    // Handle Broadstreet API behavior: 201 Created with empty response body
-    // This means the placement was created successfully, but no data is returned
-    if (response === undefined || response === null) {
-      // Return the placement data based on the request since API doesn't return it
-      return {
+      body: JSON.stringify({
+        campaign_id: placement.campaign_id,
         advertisement_id: placement.advertisement_id,
         zone_id: placement.zone_id,
-        campaign_id: placement.campaign_id,
-        restrictions: placement.restrictions || [],
-      } as unknown as Placement;
-    }
-
-    // Handle normal response with placement data
-    let placementData: any;
-    if (response && typeof response === 'object') {
-      // Try different possible response structures
-      placementData = response.placement || (response as any).data || response;
-    } else {
-      throw new Error(`Invalid API response structure: ${typeof response}`);
-    }
+        ...(restriction ? { restrictions: restriction } : {}),
+      }),
+    });
 
+    // Broadstreet usually answers 201 Created with an empty body; fall back to what we sent
     return {
-      advertisement_id: placementData.advertisement_id || placement.advertisement_id,
-      zone_id: placementData.zone_id || placement.zone_id,
+      advertisement_id: created?.advertisement_id ?? placement.advertisement_id,
+      zone_id: created?.zone_id ?? placement.zone_id,
       campaign_id: placement.campaign_id,
-      restrictions: placementData.restrictions || placement.restrictions || [],
-    } as unknown as Placement;
+      restrictions: normalizeRestrictions(created?.restrictions ?? placement.restrictions),
+    };
   }
 
   async deletePlacement(params: {
@@ -317,15 +501,49 @@ class BroadstreetAPI {
     zone_id: number;
   }): Promise<void> {
     const query = `campaign_id=${params.campaign_id}&advertisement_id=${params.advertisement_id}&zone_id=${params.zone_id}`;
-    await this.request(`/placements?${query}`, {
+    // 204 No Content; any body is ignored
+    await this.request(`/placements?${query}`, z.unknown(), {
       method: 'DELETE',
     });
   }
 
+  // Reporting
+  // NOTE: /records has its own rate-limit bucket (2 requests per 5 seconds)
+  async getRecords(params: {
+    type: ReportEntityType;
+    id: number;
+    summary?: boolean;
+    startDate?: string; // YYYY-MM-DD
+    endDate?: string;   // YYYY-MM-DD, inclusive
+  }): Promise<RecordsResponse> {
+    let query = `type=${params.type}&id=${params.id}`;
+    if (params.summary) query += '&summary=1';
+    if (params.startDate) query += `&start_date=${params.startDate}`;
+    if (params.endDate) query += `&end_date=${params.endDate}`;
+
+    return this.request(`/records?${query}`, recordsResponseSchema);
+  }
+
+  async getCustomRecords(params: {
+    networkId: number;
+    select: string[]; // e.g. ['zone.id', 'zone.name', 'count(view)']
+    group: string[];  // e.g. ['zone', 'advertisement']
+    startDate?: string;
+    endDate?: string;
+  }): Promise<CustomRecordsResponse> {
+    let query = `type=custom&network_id=${params.networkId}`;
+    query += `&select=${encodeURIComponent(params.select.join(','))}`;
+    query += `&group=${encodeURIComponent(params.group.join(','))}`;
+    if (params.startDate) query += `&start_date=${params.startDate}`;
+    if (params.endDate) query += `&end_date=${params.endDate}`;
+
+    return this.request(`/records?${query}`, customRecordsResponseSchema);
+  }
+
   // Dry run validation methods for checking existing entities
   async checkExistingAdvertiser(name: string, networkId: number): Promise<boolean> {
     try {
-      const response = await this.request<{ advertisers: Advertiser[] }>(`/advertisers?network_id=${networkId}`);
+      const response = await this.request(`/advertisers?network_id=${networkId}`, advertisersResponseSchema);
       return response.advertisers.some(advertiser => 
         advertiser.name.toLowerCase().trim() === name.toLowerCase().trim()
       );
@@ -339,7 +557,7 @@ class BroadstreetAPI {
    */
   async findAdvertiserByName(networkId: number, name: string): Promise<Advertiser | null> {
     try {
-      const response = await this.request<{ advertisers: Advertiser[] }>(`/advertisers?network_id=${networkId}`);
+      const response = await this.request(`/advertisers?network_id=${networkId}`, advertisersResponseSchema);
       const normalized = name.toLowerCase().trim();
       const match = response.advertisers.find(a => a.name.toLowerCase().trim() === normalized);
       return match || null;
@@ -350,7 +568,7 @@ class BroadstreetAPI {
 
   async checkExistingCampaign(name: string, advertiserId: number): Promise<boolean> {
     try {
-      const response = await this.request<{ campaigns: Campaign[] }>(`/campaigns?advertiser_id=${advertiserId}`);
+      const response = await this.request(`/campaigns?advertiser_id=${advertiserId}`, campaignsResponseSchema);
       return response.campaigns.some(campaign => 
         campaign.name.toLowerCase().trim() === name.toLowerCase().trim()
       );
@@ -361,7 +579,7 @@ class BroadstreetAPI {
 
   async findCampaignByName(advertiserId: number, name: string): Promise<Campaign | null> {
     try {
-      const response = await this.request<{ campaigns: Campaign[] }>(`/campaigns?advertiser_id=${advertiserId}`);
+      const response = await this.request(`/campaigns?advertiser_id=${advertiserId}`, campaignsResponseSchema);
       const normalized = name.toLowerCase().trim();
       const match = response.campaigns.find(c => c.name.toLowerCase().trim() === normalized);
       return match || null;
@@ -372,7 +590,7 @@ class BroadstreetAPI {
 
   async checkExistingZone(name: string, networkId: number): Promise<boolean> {
     try {
-      const response = await this.request<{ zones: Zone[] }>(`/zones?network_id=${networkId}`);
+      const response = await this.request(`/zones?network_id=${networkId}`, zonesResponseSchema);
       return response.zones.some(zone => 
         zone.name.toLowerCase().trim() === name.toLowerCase().trim()
       );
@@ -383,7 +601,7 @@ class BroadstreetAPI {
 
   async checkExistingAdvertisement(name: string, networkId: number): Promise<boolean> {
     try {
-      const response = await this.request<{ advertisements: Advertisement[] }>(`/advertisements?network_id=${networkId}`);
+      const response = await this.request(`/advertisements?network_id=${networkId}`, advertisementsResponseSchema);
       return response.advertisements.some(advertisement => 
         advertisement.name.toLowerCase().trim() === name.toLowerCase().trim()
       );
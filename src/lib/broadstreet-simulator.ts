@@ -0,0 +1,1129 @@
+/**
+ * Broadstreet API simulator
+ * An in-memory stand-in for api.broadstreetads.com, so Playwright and local development can
+ * run offline and without touching the real account. With BROADSTREET_TRANSPORT=simulator,
+ * BroadstreetAPI hands its requests to simulatorTransport instead of fetch.
+ *
+ * It answers the endpoints the client uses and copies Broadstreet's quirks: placement create
+ * returns 201 with an empty body, advertiser create only reads network_id from the query string,
+ * placements are listed as a bare array, campaign updates return the campaign unwrapped and
+ * custom report values arrive as strings. Errors come back as { message, errors? } JSON, except
+ * simulated 5xx responses, which are HTML like a failing gateway.
+ *
+ * Faults (latency, 429s, 5xx and scripted one-off failures) are set per process through
+ * /api/test-utils/broadstreet-simulator or the BROADSTREET_SIMULATOR_* environment variables.
+ */
+
+import type { BroadstreetTransport } from './broadstreet-api';
+import type { ReportRecord, ReportTotals } from './types/broadstreet';
+
+// The first seeded network; specs create their drafts in it
+export const SIMULATOR_NETWORK_ID = 9396;
+
+export const SIMULATOR_RESOURCES = [
+  'networks',
+  'advertisers',
+  'zones',
+  'campaigns',
+  'advertisements',
+  'placements',
+  'records',
+] as const;
+
+type SimulatorResource = typeof SIMULATOR_RESOURCES[number];
+
+const VALID_RESTRICTIONS = ['phone', 'non_phone', 'tablet', 'desktop', 'mobile'];
+const VALID_ADVERTISEMENT_TYPES = ['static', 'html'];
+const VALID_DISPLAY_TYPES = ['no_repeat', 'allow_repeat_campaign', 'allow_repeat_advertisement', 'force_repeat_campaign'];
+
+// Broadstreet throttles /records to 2 requests per 5 seconds
+const REPORTING_LIMIT = 2;
+const REPORTING_WINDOW_MS = 5000;
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+const REQUEST_LOG_SIZE = 200;
+const SEED_REPORT_DAYS = 30;
+
+export interface SimulatorScriptedFailure {
+  status: number;
+  path?: string; // Matches when the request path contains it, e.g. "/placements"
+  method?: string;
+  times?: number; // Defaults to 1
+}
+
+export interface SimulatorFaults {
+  latency_ms: number; // Added before every response
+  latency_jitter_ms: number; // Random extra latency, up to this much
+  rate_limit_rate: number; // Share of requests (0-1) answered with 429
+  retry_after_seconds: number; // Retry-After on simulated 429s
+  server_error_rate: number; // Share of requests (0-1) answered with server_error_status
+  server_error_status: number;
+  enforce_reporting_limit: boolean; // 429 on /records beyond 2 requests per 5 seconds
+  fail_next: SimulatorScriptedFailure[]; // Consumed in order, before the random faults
+}
+
+export interface SimulatorRequestLogEntry {
+  at: string;
+  method: string;
+  path: string; // Without the access token
+  status: number;
+  fault?: 'scripted' | 'rate_limit' | 'reporting_limit' | 'server_error';
+}
+
+export interface SimulatorStatus {
+  seeded_at: string;
+  counts: Record<SimulatorResource, number>;
+  faults: SimulatorFaults;
+  requests: SimulatorRequestLogEntry[];
+}
+
+interface SimNetwork {
+  id: number;
+  name: string;
+  group_id: number | null;
+  web_home_url: string;
+  logo: { url: string };
+  valet_active: boolean;
+  path: string;
+}
+
+interface SimAdvertiser {
+  id: number;
+  network_id: number;
+  name: string;
+  logo: Record<string, unknown>;
+  web_home_url: string | null;
+  notes: string | null;
+  admins: Array<{ name: string; email: string }>;
+}
+
+interface SimZone extends Record<string, unknown> {
+  id: number;
+  network_id: number;
+  name: string;
+  alias: string | null;
+  self_serve: boolean;
+}
+
+interface SimCampaign {
+  id: number;
+  advertiser_id: number;
+  name: string;
+  start_date: string;
+  end_date: string | null;
+  max_impression_count: number | null;
+  display_type: string;
+  weight: string;
+  archived: boolean;
+  pacing_type: string;
+  impression_max_type: string;
+  paused: boolean;
+  notes: string | null;
+}
+
+interface SimAdvertisement {
+  id: number;
+  network_id: number;
+  advertiser_id: number;
+  name: string;
+  updated_at: string;
+  type: string;
+  destination: string | null;
+  active: { url: string | null };
+}
+
+interface SimPlacement {
+  campaign_id: number;
+  advertisement_id: number;
+  zone_id: number;
+  restrictions: string | null;
+}
+
+interface SimRecord extends ReportRecord {
+  network_id: number;
+}
+
+interface SimulatorState {
+  next_id: number;
+  seeded_at: string;
+  networks: SimNetwork[];
+  advertisers: SimAdvertiser[];
+  zones: SimZone[];
+  campaigns: SimCampaign[];
+  advertisements: SimAdvertisement[];
+  placements: SimPlacement[];
+  records: SimRecord[];
+  faults: SimulatorFaults;
+  requests: SimulatorRequestLogEntry[];
+  reporting_calls: number[];
+}
+
+export class BroadstreetSimulatorError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'BroadstreetSimulatorError';
+  }
+}
+
+// A Broadstreet error response, raised inside a handler
+class SimulatorHttpError extends Error {
+  constructor(message: string, public status = 400, public errors?: Record<string, string[]>) {
+    super(message);
+    this.name = 'SimulatorHttpError';
+  }
+}
+
+interface SimulatorResponse {
+  status: number;
+  body?: unknown; // undefined sends an empty body
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && process.env[name] !== '' && process.env[name] !== undefined ? value : fallback;
+}
+
+export function defaultSimulatorFaults(): SimulatorFaults {
+  return {
+    latency_ms: envNumber('BROADSTREET_SIMULATOR_LATENCY_MS', 0),
+    latency_jitter_ms: 0,
+    rate_limit_rate: envNumber('BROADSTREET_SIMULATOR_RATE_LIMIT_RATE', 0),
+    retry_after_seconds: 5,
+    server_error_rate: envNumber('BROADSTREET_SIMULATOR_SERVER_ERROR_RATE', 0),
+    server_error_status: 503,
+    enforce_reporting_limit: true,
+    fail_next: [],
+  };
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toBroadstreetDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Stable pseudo-random counts, so the seeded reports are the same on every run
+function seededCount(seed: number, max: number): number {
+  const x = Math.sin(seed) * 10000;
+  return Math.floor((x - Math.floor(x)) * max);
+}
+
+function toId(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isInteger(num) && num > 0 ? num : null;
+}
+
+function requireId(params: URLSearchParams, name: string): number {
+  const id = toId(params.get(name));
+  if (!id) {
+    throw new SimulatorHttpError(`${name} is required`, 400);
+  }
+  return id;
+}
+
+function isHttpErrorStatus(value: unknown, min: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= 599;
+}
+
+function blank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim() === '';
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value.trim()).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// network_id is only kept for filtering; Broadstreet doesn't return it on these objects
+function withoutNetworkId<T extends { network_id: number }>(value: T): Omit<T, 'network_id'> {
+  const clone: Partial<T> = { ...value };
+  delete clone.network_id;
+  return clone as Omit<T, 'network_id'>;
+}
+
+function createSeedState(): SimulatorState {
+  const now = new Date();
+  const today = new Date(`${formatDay(now)}T00:00:00Z`);
+  const state: SimulatorState = {
+    next_id: 1000,
+    seeded_at: now.toISOString(),
+    networks: [],
+    advertisers: [],
+    zones: [],
+    campaigns: [],
+    advertisements: [],
+    placements: [],
+    records: [],
+    faults: defaultSimulatorFaults(),
+    requests: [],
+    reporting_calls: [],
+  };
+
+  const networkSeeds = [
+    { id: SIMULATOR_NETWORK_ID, name: 'Simulated Gazette', web_home_url: 'https://gazette.example.com' },
+    { id: 9415, name: 'Simulated Courier', web_home_url: 'https://courier.example.com' },
+  ];
+  const zoneNames = ['Home SQ1', 'Home LS1', 'Home PT1', 'Rubrik Sport SQ2', 'Rubrik Kultur PT2', 'Rubrik Lokal LS2'];
+  const advertiserNames = ['Bakery', 'Hardware Store', 'Bike Shop', 'Dental Clinic', 'Bookshop', 'Garden Centre'];
+
+  for (const networkSeed of networkSeeds) {
+    state.networks.push({
+      ...networkSeed,
+      group_id: null,
+      logo: { url: `${networkSeed.web_home_url}/logo.png` },
+      valet_active: false,
+      path: `/networks/${networkSeed.id}`,
+    });
+
+    const zones = zoneNames.map(name => {
+      const zone: SimZone = {
+        id: state.next_id++,
+        network_id: networkSeed.id,
+        name,
+        alias: name.toLowerCase().replace(/\s+/g, '-'),
+        self_serve: false,
+      };
+      state.zones.push(zone);
+      return zone;
+    });
+
+    advertiserNames.forEach((label, index) => {
+      const advertiser: SimAdvertiser = {
+        id: state.next_id++,
+        network_id: networkSeed.id,
+        name: `${networkSeed.name.replace('Simulated ', '')} ${label}`,
+        logo: {},
+        web_home_url: null,
+        notes: null,
+        admins: [],
+      };
+      state.advertisers.push(advertiser);
+
+      // Alternate running, finished and upcoming campaigns
+      const offset = [-10, -45, 5][index % 3];
+      const campaign: SimCampaign = {
+        id: state.next_id++,
+        advertiser_id: advertiser.id,
+        name: `${advertiser.name} Campaign`,
+        start_date: toBroadstreetDate(addDays(today, offset)),
+        end_date: toBroadstreetDate(addDays(today, offset + 30)),
+        max_impression_count: null,
+        display_type: 'no_repeat',
+        weight: '1',
+        archived: false,
+        pacing_type: 'asap',
+        impression_max_type: 'cap',
+        paused: false,
+        notes: null,
+      };
+      state.campaigns.push(campaign);
+
+      const advertisement: SimAdvertisement = {
+        id: state.next_id++,
+        network_id: networkSeed.id,
+        advertiser_id: advertiser.id,
+        name: `${advertiser.name} SQ Banner`,
+        updated_at: now.toISOString(),
+        type: 'static',
+        destination: `https://example.com/${advertiser.id}`,
+        active: { url: `https://placehold.co/300x250?text=${advertiser.id}` },
+      };
+      state.advertisements.push(advertisement);
+
+      for (const zone of [zones[index % zones.length], zones[(index + 3) % zones.length]]) {
+        state.placements.push({
+          campaign_id: campaign.id,
+          advertisement_id: advertisement.id,
+          zone_id: zone.id,
+          restrictions: null,
+        });
+
+        for (let day = SEED_REPORT_DAYS; day >= 1; day--) {
+          const seed = campaign.id * 31 + zone.id * 7 + day;
+          const views = 200 + seededCount(seed, 1800);
+          const clicks = seededCount(seed + 1, Math.max(1, Math.floor(views / 50)));
+          state.records.push({
+            network_id: networkSeed.id,
+            dated: `${formatDay(addDays(today, -day))}T00:00:00.000+00:00`,
+            advertisement_id: advertisement.id,
+            campaign_id: campaign.id,
+            zone_id: zone.id,
+            advertiser_id: advertiser.id,
+            view_count: views,
+            hover_count: seededCount(seed + 2, Math.max(1, Math.floor(views / 10))),
+            click_count: clicks,
+            conversion_count: seededCount(seed + 3, clicks + 1),
+          });
+        }
+      }
+    });
+  }
+
+  return state;
+}
+
+export class BroadstreetSimulator {
+  private state: SimulatorState = createSeedState();
+
+  /**
+   * Drop everything created since the last reset and restore the seed data and default faults
+   */
+  reset(): SimulatorStatus {
+    this.state = createSeedState();
+    return this.getStatus();
+  }
+
+  /**
+   * Merge fault settings; fail_next replaces the queue when given
+   */
+  setFaults(faults: Partial<SimulatorFaults>): SimulatorFaults {
+    for (const field of ['latency_ms', 'latency_jitter_ms', 'retry_after_seconds'] as const) {
+      if (field in faults && !(Number.isFinite(faults[field]) && faults[field]! >= 0)) {
+        throw new BroadstreetSimulatorError(`${field} must be a number of 0 or more`);
+      }
+    }
+    for (const field of ['rate_limit_rate', 'server_error_rate'] as const) {
+      if (field in faults && !(Number.isFinite(faults[field]) && faults[field]! >= 0 && faults[field]! <= 1)) {
+        throw new BroadstreetSimulatorError(`${field} must be between 0 and 1`);
+      }
+    }
+    if ('server_error_status' in faults && !isHttpErrorStatus(faults.server_error_status, 500)) {
+      throw new BroadstreetSimulatorError('server_error_status must be a 5xx status');
+    }
+    if ('enforce_reporting_limit' in faults && typeof faults.enforce_reporting_limit !== 'boolean') {
+      throw new BroadstreetSimulatorError('enforce_reporting_limit must be true or false');
+    }
+    if ('fail_next' in faults) {
+      if (!Array.isArray(faults.fail_next) || faults.fail_next.some(failure => !isHttpErrorStatus(failure?.status, 400))) {
+        throw new BroadstreetSimulatorError('fail_next must be a list of { status, path?, method?, times? } with 4xx or 5xx statuses');
+      }
+    }
+
+    this.state.faults = { ...this.state.faults, ...faults };
+    return this.state.faults;
+  }
+
+  getStatus(): SimulatorStatus {
+    return {
+      seeded_at: this.state.seeded_at,
+      counts: {
+        networks: this.state.networks.length,
+        advertisers: this.state.advertisers.length,
+        zones: this.state.zones.length,
+        campaigns: this.state.campaigns.length,
+        advertisements: this.state.advertisements.length,
+        placements: this.state.placements.length,
+        records: this.state.records.length,
+      },
+      faults: this.state.faults,
+      requests: [...this.state.requests].reverse(),
+    };
+  }
+
+  /**
+   * Answer a request the way Broadstreet would; the transport behind BroadstreetAPI
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const parsed = new URL(url, 'http://broadstreet.simulator');
+    const method = (init.method || 'GET').toUpperCase();
+    const params = parsed.searchParams;
+    const token = params.get('access_token');
+    params.delete('access_token');
+    const query = params.toString();
+    const path = `${parsed.pathname}${query ? `?${query}` : ''}`;
+
+    const faults = this.state.faults;
+    const latency = faults.latency_ms + (faults.latency_jitter_ms > 0 ? Math.random() * faults.latency_jitter_ms : 0);
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    const { resource, id } = this.resolveRoute(parsed.pathname);
+    const fault = this.nextFault(method, path, resource);
+    if (fault) {
+      this.log(method, path, fault.status, fault.kind);
+      if (fault.status === 429) {
+        return this.toResponse(
+          { status: 429, body: { message: 'Rate limit exceeded' } },
+          { 'Retry-After': String(faults.retry_after_seconds) }
+        );
+      }
+      return this.toErrorResponse(fault.status);
+    }
+
+    let result: SimulatorResponse;
+    try {
+      if (!token) {
+        throw new SimulatorHttpError('Invalid or missing access token', 401);
+      }
+      if (!resource) {
+        throw new SimulatorHttpError('Not Found', 404);
+      }
+      const body = this.parseBody(init.body);
+      result = this.route(method, resource, id, params, body);
+    } catch (error) {
+      if (!(error instanceof SimulatorHttpError)) throw error;
+      result = {
+        status: error.status,
+        body: error.errors ? { message: error.message, errors: error.errors } : { message: error.message },
+      };
+    }
+
+    this.log(method, path, result.status);
+    return this.toResponse(result);
+  }
+
+  private resolveRoute(pathname: string): { resource: SimulatorResource | null; id: number | null } {
+    const segments = pathname.split('/').filter(Boolean);
+    const index = segments.findIndex(segment => (SIMULATOR_RESOURCES as readonly string[]).includes(segment));
+    if (index === -1) return { resource: null, id: null };
+    const rest = segments.slice(index + 1);
+    if (rest.length > 1 || (rest.length === 1 && !toId(rest[0]))) return { resource: null, id: null };
+    return { resource: segments[index] as SimulatorResource, id: rest.length === 1 ? toId(rest[0]) : null };
+  }
+
+  private nextFault(method: string, path: string, resource: SimulatorResource | null):
+    { status: number; kind: NonNullable<SimulatorRequestLogEntry['fault']> } | null {
+    const faults = this.state.faults;
+
+    const scriptedIndex = faults.fail_next.findIndex(failure =>
+      (!failure.method || failure.method.toUpperCase() === method) && (!failure.path || path.includes(failure.path))
+    );
+    if (scriptedIndex !== -1) {
+      const failure = faults.fail_next[scriptedIndex];
+      const remaining = (failure.times ?? 1) - 1;
+      faults.fail_next = remaining > 0
+        ? faults.fail_next.map((item, i) => i === scriptedIndex ? { ...item, times: remaining } : item)
+        : faults.fail_next.filter((_, i) => i !== scriptedIndex);
+      return { status: failure.status, kind: 'scripted' };
+    }
+
+    if (resource === 'records' && faults.enforce_reporting_limit) {
+      const now = Date.now();
+      this.state.reporting_calls = this.state.reporting_calls.filter(at => now - at < REPORTING_WINDOW_MS);
+      if (this.state.reporting_calls.length >= REPORTING_LIMIT) {
+        return { status: 429, kind: 'reporting_limit' };
+      }
+      this.state.reporting_calls.push(now);
+    }
+
+    if (faults.rate_limit_rate > 0 && Math.random() < faults.rate_limit_rate) {
+      return { status: 429, kind: 'rate_limit' };
+    }
+    if (faults.server_error_rate > 0 && Math.random() < faults.server_error_rate) {
+      return { status: faults.server_error_status, kind: 'server_error' };
+    }
+    return null;
+  }
+
+  private route(
+    method: string,
+    resource: SimulatorResource,
+    id: number | null,
+    params: URLSearchParams,
+    body: Record<string, any>
+  ): SimulatorResponse {
+    const key = `${method} ${resource}${id ? '/:id' : ''}`;
+    switch (key) {
+      case 'GET networks':
+        return { status: 200, body: { networks: this.state.networks.map(n => this.presentNetwork(n)) } };
+      case 'GET networks/:id':
+        return { status: 200, body: { network: this.presentNetwork(this.findNetwork(id!)) } };
+      case 'POST networks':
+        return { status: 201, body: { network: this.presentNetwork(this.createNetwork(body)) } };
+
+      case 'GET advertisers': {
+        const networkId = this.findNetwork(requireId(params, 'network_id')).id;
+        return { status: 200, body: { advertisers: this.state.advertisers.filter(a => a.network_id === networkId).map(a => this.presentAdvertiser(a)) } };
+      }
+      case 'GET advertisers/:id':
+        return { status: 200, body: { advertiser: this.presentAdvertiser(this.findAdvertiser(id!)) } };
+      case 'PUT advertisers/:id':
+        return { status: 200, body: { advertiser: this.presentAdvertiser(this.updateAdvertiser(id!, body)) } };
+      case 'POST advertisers':
+        return { status: 201, body: { advertiser: this.presentAdvertiser(this.createAdvertiser(params, body)) } };
+
+      case 'GET zones': {
+        const networkId = this.findNetwork(requireId(params, 'network_id')).id;
+        return { status: 200, body: { zones: this.state.zones.filter(z => z.network_id === networkId) } };
+      }
+      case 'GET zones/:id':
+        return { status: 200, body: { zone: this.findZone(id!) } };
+      case 'POST zones':
+        return { status: 201, body: { zone: this.createZone(body) } };
+
+      case 'GET campaigns':
+        return { status: 200, body: { campaigns: this.listCampaigns(params).map(c => this.presentCampaign(c)) } };
+      case 'GET campaigns/:id':
+        return { status: 200, body: { campaign: this.presentCampaign(this.findCampaign(id!)) } };
+      case 'POST campaigns':
+        return { status: 201, body: { campaign: this.presentCampaign(this.createCampaign(params, body)) } };
+      case 'PUT campaigns/:id':
+        // Updates come back unwrapped, unlike every other response
+        return { status: 200, body: this.presentCampaign(this.updateCampaign(id!, body)) };
+
+      case 'GET advertisements':
+        return { status: 200, body: { advertisements: this.listAdvertisements(params).map(a => this.presentAdvertisement(a)) } };
+      case 'POST advertisements':
+        return { status: 201, body: { advertisement: this.presentAdvertisement(this.createAdvertisement(params, body)) } };
+
+      case 'GET placements': {
+        const campaignId = this.findCampaign(requireId(params, 'campaign_id')).id;
+        // A bare array, not the { placement } object the reference docs show
+        return { status: 200, body: this.state.placements.filter(p => p.campaign_id === campaignId) };
+      }
+      case 'POST placements':
+        this.createPlacement(body);
+        // 201 Created with an empty body
+        return { status: 201 };
+      case 'DELETE placements':
+        this.deletePlacement(params);
+        return { status: 204 };
+
+      case 'GET records':
+        return { status: 200, body: params.get('type') === 'custom' ? this.customRecords(params) : this.records(params) };
+
+      default:
+        throw new SimulatorHttpError('Not Found', 404);
+    }
+  }
+
+  // Lookups
+
+  private findNetwork(id: number): SimNetwork {
+    const network = this.state.networks.find(n => n.id === id);
+    if (!network) throw new SimulatorHttpError('Network not found', 404);
+    return network;
+  }
+
+  private findAdvertiser(id: number): SimAdvertiser {
+    const advertiser = this.state.advertisers.find(a => a.id === id);
+    if (!advertiser) throw new SimulatorHttpError('Advertiser not found', 404);
+    return advertiser;
+  }
+
+  private findZone(id: number): SimZone {
+    const zone = this.state.zones.find(z => z.id === id);
+    if (!zone) throw new SimulatorHttpError('Zone not found', 404);
+    return zone;
+  }
+
+  private findCampaign(id: number): SimCampaign {
+    const campaign = this.state.campaigns.find(c => c.id === id);
+    if (!campaign) throw new SimulatorHttpError('Campaign not found', 404);
+    return campaign;
+  }
+
+  // Presentation: derived fields Broadstreet adds to its payloads
+
+  private presentNetwork(network: SimNetwork) {
+    return {
+      ...network,
+      advertiser_count: this.state.advertisers.filter(a => a.network_id === network.id).length,
+      zone_count: this.state.zones.filter(z => z.network_id === network.id).length,
+    };
+  }
+
+  private presentAdvertiser(advertiser: SimAdvertiser) {
+    return withoutNetworkId(advertiser);
+  }
+
+  private presentCampaign(campaign: SimCampaign) {
+    const advertiser = this.state.advertisers.find(a => a.id === campaign.advertiser_id);
+    const now = Date.now();
+    const start = Date.parse(`${campaign.start_date.replace(' ', 'T')}Z`);
+    const end = campaign.end_date ? Date.parse(`${campaign.end_date.replace(' ', 'T')}Z`) : Infinity;
+    return {
+      ...campaign,
+      active: !campaign.paused && !campaign.archived && start <= now && now <= end,
+      path: `/networks/${advertiser?.network_id}/advertisers/${campaign.advertiser_id}/campaigns/${campaign.id}`,
+    };
+  }
+
+  private presentAdvertisement(advertisement: SimAdvertisement) {
+    const advertiser = this.state.advertisers.find(a => a.id === advertisement.advertiser_id);
+    const script = `https://ad.broadstreetads.com/display/${advertisement.id}.js`;
+    return {
+      id: advertisement.id,
+      name: advertisement.name,
+      updated_at: advertisement.updated_at,
+      type: advertisement.type,
+      advertiser: advertiser?.name || '',
+      active: advertisement.active,
+      active_placement: this.state.placements.some(p => p.advertisement_id === advertisement.id),
+      destination: advertisement.destination,
+      preview_url: advertisement.active.url || '',
+      html: `<script type="text/javascript" src="${script}"></script>`,
+      preview_html: `<script type="text/javascript" src="${script}?preview=true"></script>`,
+    };
+  }
+
+  // Writes
+
+  private createNetwork(body: Record<string, any>): SimNetwork {
+    if (blank(body.name)) {
+      throw new SimulatorHttpError('Validation failed', 422, { name: ["can't be blank"] });
+    }
+    const id = this.state.next_id++;
+    const network: SimNetwork = {
+      id,
+      name: body.name.trim(),
+      group_id: null,
+      web_home_url: body.web_home_url || '',
+      logo: { url: '' },
+      valet_active: false,
+      path: `/networks/${id}`,
+    };
+    this.state.networks.push(network);
+    return network;
+  }
+
+  private createAdvertiser(params: URLSearchParams, body: Record<string, any>): SimAdvertiser {
+    // Broadstreet ignores network_id in the body; it must be in the query string
+    const networkId = toId(params.get('network_id'));
+    if (!networkId) {
+      throw new SimulatorHttpError('Validation failed', 422, { network_id: ['must be given as a query parameter'] });
+    }
+    this.findNetwork(networkId);
+    if (blank(body.name)) {
+      throw new SimulatorHttpError('Validation failed', 422, { name: ["can't be blank"] });
+    }
+    const advertiser: SimAdvertiser = {
+      id: this.state.next_id++,
+      network_id: networkId,
+      name: body.name.trim(),
+      logo: {},
+      web_home_url: body.web_home_url || null,
+      notes: body.notes ?? null,
+      admins: [],
+    };
+    this.state.advertisers.push(advertiser);
+    return advertiser;
+  }
+
+  private updateAdvertiser(id: number, body: Record<string, any>): SimAdvertiser {
+    const advertiser = this.findAdvertiser(id);
+    if ('name' in body && blank(body.name)) {
+      throw new SimulatorHttpError('Validation failed', 422, { name: ["can't be blank"] });
+    }
+    if (typeof body.name === 'string') advertiser.name = body.name.trim();
+    if ('web_home_url' in body) advertiser.web_home_url = body.web_home_url || null;
+    if ('notes' in body) advertiser.notes = body.notes ?? null;
+    return advertiser;
+  }
+
+  private createZone(body: Record<string, any>): SimZone {
+    const networkId = toId(body.network_id);
+    if (!networkId) {
+      throw new SimulatorHttpError('Validation failed', 422, { network_id: ['is required'] });
+    }
+    this.findNetwork(networkId);
+    if (blank(body.name)) {
+      throw new SimulatorHttpError('Validation failed', 422, { name: ["can't be blank"] });
+    }
+    const zone: SimZone = {
+      ...body,
+      id: this.state.next_id++,
+      network_id: networkId,
+      name: body.name.trim(),
+      alias: body.alias ?? null,
+      self_serve: !!body.self_serve,
+    };
+    this.state.zones.push(zone);
+    return zone;
+  }
+
+  private listCampaigns(params: URLSearchParams): SimCampaign[] {
+    const zoneId = toId(params.get('zone_id'));
+    if (zoneId) {
+      this.findZone(zoneId);
+      const campaignIds = new Set(this.state.placements.filter(p => p.zone_id === zoneId).map(p => p.campaign_id));
+      return this.state.campaigns.filter(c => campaignIds.has(c.id));
+    }
+    const advertiserId = this.findAdvertiser(requireId(params, 'advertiser_id')).id;
+    return this.state.campaigns.filter(c => c.advertiser_id === advertiserId);
+  }
+
+  private validateCampaignFields(campaign: SimCampaign) {
+    const errors: Record<string, string[]> = {};
+    if (blank(campaign.name)) errors.name = ["can't be blank"];
+    if (!campaign.start_date || isNaN(Date.parse(campaign.start_date.replace(' ', 'T')))) {
+      errors.start_date = ['is invalid'];
+    }
+    if (campaign.end_date && campaign.end_date.replace(' ', 'T') < campaign.start_date.replace(' ', 'T')) {
+      errors.end_date = ['must be after the start date'];
+    }
+    if (!VALID_DISPLAY_TYPES.includes(campaign.display_type)) errors.display_type = ['is not included in the list'];
+    if (Object.keys(errors).length > 0) {
+      throw new SimulatorHttpError('Validation failed', 422, errors);
+    }
+  }
+
+  private createCampaign(params: URLSearchParams, body: Record<string, any>): SimCampaign {
+    const advertiserId = toId(body.advertiser_id) || toId(params.get('advertiser_id'));
+    if (!advertiserId) {
+      throw new SimulatorHttpError('Validation failed', 422, { advertiser_id: ['is required'] });
+    }
+    this.findAdvertiser(advertiserId);
+
+    const campaign: SimCampaign = {
+      id: this.state.next_id,
+      advertiser_id: advertiserId,
+      name: typeof body.name === 'string' ? body.name.trim() : '',
+      start_date: body.start_date || toBroadstreetDate(new Date()),
+      end_date: body.end_date || null,
+      max_impression_count: body.max_impression_count ?? null,
+      display_type: body.display_type || 'no_repeat',
+      weight: String(body.weight ?? '1'),
+      archived: !!body.archived,
+      pacing_type: body.pacing_type || 'asap',
+      impression_max_type: body.impression_max_type || 'cap',
+      paused: !!body.paused,
+      notes: body.notes ?? null,
+    };
+    this.validateCampaignFields(campaign);
+    this.state.next_id++;
+    this.state.campaigns.push(campaign);
+    return campaign;
+  }
+
+  private updateCampaign(id: number, body: Record<string, any>): SimCampaign {
+    const current = this.findCampaign(id);
+    const updated: SimCampaign = { ...current };
+    for (const field of ['name', 'start_date', 'display_type', 'pacing_type', 'impression_max_type'] as const) {
+      if (typeof body[field] === 'string') updated[field] = body[field];
+    }
+    if ('end_date' in body) updated.end_date = body.end_date || null;
+    if ('max_impression_count' in body) updated.max_impression_count = body.max_impression_count ?? null;
+    if ('notes' in body) updated.notes = body.notes ?? null;
+    if ('weight' in body) updated.weight = String(body.weight);
+    if (typeof body.archived === 'boolean') updated.archived = body.archived;
+    if (typeof body.paused === 'boolean') updated.paused = body.paused;
+
+    this.validateCampaignFields(updated);
+    Object.assign(current, updated);
+    return current;
+  }
+
+  private listAdvertisements(params: URLSearchParams): SimAdvertisement[] {
+    const networkId = this.findNetwork(requireId(params, 'network_id')).id;
+    const zoneId = toId(params.get('zone_id'));
+    const advertiserId = toId(params.get('advertiser_id'));
+    const inZone = zoneId
+      ? new Set(this.state.placements.filter(p => p.zone_id === zoneId).map(p => p.advertisement_id))
+      : null;
+    return this.state.advertisements.filter(a =>
+      a.network_id === networkId
+      && (!advertiserId || a.advertiser_id === advertiserId)
+      && (!inZone || inZone.has(a.id))
+    );
+  }
+
+  private createAdvertisement(params: URLSearchParams, body: Record<string, any>): SimAdvertisement {
+    // advertiser_id is a query parameter here; the body is { type, name, destination, active_url | active_base64 }
+    const advertiserId = toId(params.get('advertiser_id'));
+    const errors: Record<string, string[]> = {};
+    if (!advertiserId) errors.advertiser_id = ['is required'];
+    if (blank(body.name)) errors.name = ["can't be blank"];
+    if (!VALID_ADVERTISEMENT_TYPES.includes(body.type)) errors.type = ['must be static or html'];
+    if (body.destination !== undefined && body.destination !== null && !isHttpUrl(body.destination)) {
+      errors.destination = ['is not a valid URL'];
+    }
+    if (blank(body.active_url) && blank(body.active_base64)) {
+      errors.active_url = ["can't be blank without active_base64"];
+    } else if (!blank(body.active_url) && !isHttpUrl(body.active_url)) {
+      errors.active_url = ['is not a valid URL'];
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new SimulatorHttpError('Validation failed', 422, errors);
+    }
+
+    const advertiser = this.findAdvertiser(advertiserId!);
+    const id = this.state.next_id++;
+    const advertisement: SimAdvertisement = {
+      id,
+      network_id: advertiser.network_id,
+      advertiser_id: advertiser.id,
+      name: body.name.trim(),
+      updated_at: new Date().toISOString(),
+      type: body.type,
+      destination: body.destination || null,
+      // Uploaded base64 creatives get a hosted URL, as Broadstreet does
+      active: { url: blank(body.active_url) ? `https://cdn.broadstreetads.com/creatives/${id}` : body.active_url.trim() },
+    };
+    this.state.advertisements.push(advertisement);
+    return advertisement;
+  }
+
+  private createPlacement(body: Record<string, any>) {
+    const campaign = this.findCampaign(toId(body.campaign_id) || 0);
+    const advertisement = this.state.advertisements.find(a => a.id === toId(body.advertisement_id));
+    const zone = this.state.zones.find(z => z.id === toId(body.zone_id));
+    const advertiser = this.findAdvertiser(campaign.advertiser_id);
+
+    const errors: Record<string, string[]> = {};
+    if (!advertisement || advertisement.advertiser_id !== campaign.advertiser_id) {
+      errors.advertisement_id = ['does not exist or belongs to another advertiser'];
+    }
+    if (!zone || zone.network_id !== advertiser.network_id) {
+      errors.zone_id = ['does not exist or belongs to another network'];
+    }
+    if (body.restrictions !== undefined && body.restrictions !== null && !VALID_RESTRICTIONS.includes(body.restrictions)) {
+      errors.restrictions = ['is not included in the list'];
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new SimulatorHttpError('Validation failed', 422, errors);
+    }
+
+    const placement: SimPlacement = {
+      campaign_id: campaign.id,
+      advertisement_id: advertisement!.id,
+      zone_id: zone!.id,
+      restrictions: body.restrictions ?? null,
+    };
+    this.state.placements = [
+      ...this.state.placements.filter(p =>
+        !(p.campaign_id === placement.campaign_id && p.advertisement_id === placement.advertisement_id && p.zone_id === placement.zone_id)
+      ),
+      placement,
+    ];
+  }
+
+  private deletePlacement(params: URLSearchParams) {
+    const campaignId = requireId(params, 'campaign_id');
+    const advertisementId = requireId(params, 'advertisement_id');
+    const zoneId = requireId(params, 'zone_id');
+    const remaining = this.state.placements.filter(p =>
+      !(p.campaign_id === campaignId && p.advertisement_id === advertisementId && p.zone_id === zoneId)
+    );
+    if (remaining.length === this.state.placements.length) {
+      throw new SimulatorHttpError('Placement not found', 404);
+    }
+    this.state.placements = remaining;
+  }
+
+  // Reporting
+
+  private recordsInRange(params: URLSearchParams): SimRecord[] {
+    const startDate = params.get('start_date');
+    const endDate = params.get('end_date');
+    return this.state.records.filter(record => {
+      const day = record.dated.slice(0, 10);
+      return (!startDate || day >= startDate) && (!endDate || day <= endDate);
+    });
+  }
+
+  private records(params: URLSearchParams) {
+    const type = params.get('type');
+    const id = requireId(params, 'id');
+    let object: { id: number; name: string; advertiser_id?: number; advertiser_name?: string };
+    let matches: (record: SimRecord) => boolean;
+
+    switch (type) {
+      case 'network': {
+        const network = this.findNetwork(id);
+        object = { id: network.id, name: network.name };
+        matches = record => record.network_id === id;
+        break;
+      }
+      case 'advertiser': {
+        const advertiser = this.findAdvertiser(id);
+        object = { id: advertiser.id, name: advertiser.name };
+        matches = record => record.advertiser_id === id;
+        break;
+      }
+      case 'campaign': {
+        const campaign = this.findCampaign(id);
+        const advertiser = this.findAdvertiser(campaign.advertiser_id);
+        object = { id: campaign.id, name: campaign.name, advertiser_id: advertiser.id, advertiser_name: advertiser.name };
+        matches = record => record.campaign_id === id;
+        break;
+      }
+      case 'advertisement': {
+        const advertisement = this.state.advertisements.find(a => a.id === id);
+        if (!advertisement) throw new SimulatorHttpError('Advertisement not found', 404);
+        const advertiser = this.findAdvertiser(advertisement.advertiser_id);
+        object = { id: advertisement.id, name: advertisement.name, advertiser_id: advertiser.id, advertiser_name: advertiser.name };
+        matches = record => record.advertisement_id === id;
+        break;
+      }
+      default:
+        throw new SimulatorHttpError('Validation failed', 422, { type: ['is not included in the list'] });
+    }
+
+    const rows = this.recordsInRange(params).filter(matches);
+    const totals: ReportTotals = {
+      views: rows.reduce((sum, r) => sum + r.view_count, 0),
+      clicks: rows.reduce((sum, r) => sum + r.click_count, 0),
+      hovers: rows.reduce((sum, r) => sum + r.hover_count, 0),
+      conversions: rows.reduce((sum, r) => sum + r.conversion_count, 0),
+    };
+
+    // Summary requests get one row per day rather than one per placement
+    let records: ReportRecord[];
+    if (params.get('summary') === '1') {
+      const byDay = new Map<string, ReportRecord>();
+      for (const row of rows) {
+        const day = byDay.get(row.dated) || {
+          dated: row.dated,
+          advertisement_id: type === 'advertisement' ? id : null,
+          campaign_id: type === 'campaign' ? id : null,
+          zone_id: null,
+          advertiser_id: type === 'advertiser' ? id : null,
+          view_count: 0,
+          hover_count: 0,
+          click_count: 0,
+          conversion_count: 0,
+        };
+        day.view_count += row.view_count;
+        day.hover_count += row.hover_count;
+        day.click_count += row.click_count;
+        day.conversion_count += row.conversion_count;
+        byDay.set(row.dated, day);
+      }
+      records = Array.from(byDay.values());
+    } else {
+      records = rows.map(withoutNetworkId);
+    }
+
+    return { object, records, totals };
+  }
+
+  private customRecords(params: URLSearchParams) {
+    const networkId = this.findNetwork(requireId(params, 'network_id')).id;
+    const select = (params.get('select') || '').split(',').map(s => s.trim()).filter(Boolean);
+    const group = (params.get('group') || '').split(',').map(s => s.trim()).filter(Boolean);
+    const dimensions = ['network', 'advertiser', 'campaign', 'advertisement', 'zone'];
+    if (select.length === 0 || group.length === 0 || group.some(g => !dimensions.includes(g))) {
+      throw new SimulatorHttpError('Validation failed', 422, { group: ['select and group are required'] });
+    }
+
+    const nameOf = (dimension: string, id: number | null | undefined): string => {
+      if (!id) return '';
+      const list: Array<{ id: number; name: string }> = {
+        network: this.state.networks,
+        advertiser: this.state.advertisers,
+        campaign: this.state.campaigns,
+        advertisement: this.state.advertisements,
+        zone: this.state.zones,
+      }[dimension] || [];
+      return list.find(item => item.id === id)?.name || '';
+    };
+    const idOf = (record: SimRecord, dimension: string): number | null | undefined =>
+      (record as unknown as Record<string, number | null | undefined>)[`${dimension}_id`];
+
+    const groups = new Map<string, Record<string, string>>();
+    const counts = new Map<string, Record<string, number>>();
+    for (const record of this.recordsInRange(params).filter(r => r.network_id === networkId)) {
+      const groupKey = group.map(dimension => idOf(record, dimension) ?? '').join('|');
+      if (!groups.has(groupKey)) {
+        const row: Record<string, string> = {};
+        for (const field of select) {
+          const match = field.match(/^(\w+)\.(id|name)$/);
+          if (!match) continue;
+          const id = idOf(record, match[1]);
+          row[`${match[1]}_${match[2]}`] = match[2] === 'id' ? String(id ?? '') : nameOf(match[1], id);
+        }
+        groups.set(groupKey, row);
+        counts.set(groupKey, {});
+      }
+      const totals = counts.get(groupKey)!;
+      totals['count(view)'] = (totals['count(view)'] || 0) + record.view_count;
+      totals['count(mobile_view)'] = (totals['count(mobile_view)'] || 0) + Math.floor(record.view_count * 0.6);
+      totals['count(hover)'] = (totals['count(hover)'] || 0) + record.hover_count;
+      totals['count(click)'] = (totals['count(click)'] || 0) + record.click_count;
+      totals['count(conversion)'] = (totals['count(conversion)'] || 0) + record.conversion_count;
+    }
+
+    // Broadstreet returns every value as a string
+    const records = Array.from(groups.entries()).map(([groupKey, row]) => {
+      const totals = counts.get(groupKey)!;
+      for (const field of select) {
+        if (field.startsWith('count(')) row[field] = String(totals[field] ?? 0);
+      }
+      return row;
+    });
+    return { records };
+  }
+
+  // Plumbing
+
+  private parseBody(body: RequestInit['body']): Record<string, any> {
+    if (body === undefined || body === null || body === '') return {};
+    if (typeof body !== 'string') {
+      throw new SimulatorHttpError('The simulator only accepts JSON string bodies', 400);
+    }
+    try {
+      const parsed = JSON.parse(body);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      throw new SimulatorHttpError('Malformed JSON body', 400);
+    }
+  }
+
+  private log(method: string, path: string, status: number, fault?: SimulatorRequestLogEntry['fault']) {
+    this.state.requests.push({ at: new Date().toISOString(), method, path, status, ...(fault ? { fault } : {}) });
+    if (this.state.requests.length > REQUEST_LOG_SIZE) {
+      this.state.requests.splice(0, this.state.requests.length - REQUEST_LOG_SIZE);
+    }
+  }
+
+  private toResponse(result: SimulatorResponse, headers: Record<string, string> = {}): Response {
+    const statusText = STATUS_TEXT[result.status] || '';
+    if (result.body === undefined) {
+      return new Response(null, { status: result.status, statusText, headers });
+    }
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      statusText,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+
+  private toErrorResponse(status: number): Response {
+    const statusText = STATUS_TEXT[status] || 'Error';
+    if (status < 500) {
+      return this.toResponse({ status, body: { message: statusText } });
+    }
+    // Gateways in front of Broadstreet answer 5xx with HTML, not JSON
+    return new Response(`<html><body><h1>${status} ${statusText}</h1></body></html>`, {
+      status,
+      statusText,
+      headers: { 'Content-Type': 'text/html' },
+    });
+  }
+}
+
+// Keep one simulator across hot reloads in development, like the mongoose connection cache
+declare global {
+  var broadstreetSimulator: BroadstreetSimulator | undefined;
+}
+
+export const broadstreetSimulator = globalThis.broadstreetSimulator ?? (globalThis.broadstreetSimulator = new BroadstreetSimulator());
+
+export const simulatorTransport: BroadstreetTransport = (url, init) => broadstreetSimulator.fetch(url, init);
@@ -0,0 +1,259 @@
+import connectDB from '@/lib/mongodb';
+import Campaign from '@/lib/models/campaign';
+import Advertiser from '@/lib/models/advertiser';
+import AdvertisingRequest from '@/lib/models/advertising-request';
+import { BroadstreetApiError } from './broadstreet-api';
+import { apiConnectionService } from './api-connection-service';
+import { withRateLimit } from './rate-limiter';
+import { auditService } from './audit-service';
+import { mapCampaignForStorage } from './utils/sync-helpers';
+import { diffCampaignUpdate, CampaignUpdateInput, CampaignFieldChange, CAMPAIGN_FIELD_LABELS } from './utils/campaign-update-helpers';
+import { ContractDates, ScheduleDrift, checkScheduleDrift, scheduleCampaignDate, toContractDate } from './utils/campaign-schedule';
+
+export interface CampaignUpdateResult {
+  success: boolean;
+  campaign?: any;
+  changes: CampaignFieldChange[];
+  error?: string;
+  status?: number;
+}
+
+export interface CampaignUpdateOptions {
+  // Rewrite dates that fall on the right day but at the wrong time (e.g. scheduled in UTC)
+  realignSchedule?: boolean;
+}
+
+/**
+ * Convert diffed changes into a Broadstreet PUT /campaigns/{id} payload.
+ * Date-only values get the same times used when creating campaigns
+ * (start of day for start_date, end of day for end_date, in the publication's timezone).
+ */
+function buildUpdatePayload(changes: CampaignFieldChange[]): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+
+  for (const change of changes) {
+    if (change.field === 'start_date' && change.to) {
+      payload.start_date = scheduleCampaignDate(String(change.to), 'start');
+    } else if (change.field === 'end_date') {
+      payload.end_date = change.to ? scheduleCampaignDate(String(change.to), 'end') : null;
+    } else {
+      payload[change.field] = change.to;
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * Date fields the diff sees as unchanged (same day) whose stored time is not the
+ * scheduled start or end of that day
+ */
+function findScheduleRealignments(
+  stored: any,
+  update: CampaignUpdateInput,
+  changes: CampaignFieldChange[]
+): CampaignFieldChange[] {
+  const drift = checkScheduleDrift(stored, {
+    contract_start_date: update.start_date,
+    contract_end_date: update.end_date,
+  });
+  return drift
+    .filter(({ field }) => update[field] && !changes.some(change => change.field === field))
+    .map(({ field }) => ({ field, label: CAMPAIGN_FIELD_LABELS[field], from: stored[field] ?? null, to: update[field] }));
+}
+
+/**
+ * Network of a stored campaign; older records only carry the advertiser
+ */
+export async function resolveCampaignNetworkId(campaign: any): Promise<number> {
+  if (typeof campaign.network_id === 'number') return campaign.network_id;
+  const advertiser = await Advertiser.findOne({ broadstreet_id: campaign.advertiser_id }).lean() as any;
+  return advertiser?.network_id ?? -1;
+}
+
+/**
+ * Write changes to a synced campaign back to Broadstreet, then update the
+ * local Campaign document and record the operation in the audit trail.
+ */
+export async function updateSyncedCampaign(
+  broadstreetId: number,
+  update: CampaignUpdateInput,
+  options: CampaignUpdateOptions = {}
+): Promise<CampaignUpdateResult> {
+  await connectDB();
+
+  const stored = await Campaign.findOne({ broadstreet_id: broadstreetId }).lean() as any;
+  if (!stored) {
+    return { success: false, changes: [], error: 'Campaign not found', status: 404 };
+  }
+
+  const changes = diffCampaignUpdate(stored, update);
+  if (options.realignSchedule) {
+    changes.push(...findScheduleRealignments(stored, update, changes));
+  }
+  if (changes.length === 0) {
+    return { success: true, campaign: stored, changes };
+  }
+
+  const networkId = await resolveCampaignNetworkId(stored);
+  const payload = buildUpdatePayload(changes);
+  const api = await apiConnectionService.getClientForNetwork(networkId);
+
+  try {
+    const response = await withRateLimit(
+      () => api.updateCampaign(broadstreetId, payload),
+      1, // User-initiated edits take priority over background work
+      `update-campaign-${broadstreetId}`
+    );
+
+    // The PUT response may omit fields (e.g. paused, notes); fall back to what we sent
+    const mapped = mapCampaignForStorage(response, stored.advertiser_id);
+    const definedFields = Object.fromEntries(
+      Object.entries(mapped).filter(([key, value]) => value !== undefined && key !== 'raw' && key !== 'broadstreet_id')
+    );
+
+    const updated = await Campaign.findOneAndUpdate(
+      { broadstreet_id: broadstreetId },
+      {
+        $set: {
+          ...payload,
+          // Store dates in the same raw form Broadstreet returned (or what we sent)
+          ...definedFields,
+          raw: { ...(stored.raw || {}), ...mapped.raw },
+          // Campaigns synced before network scoping have no network yet
+          ...(typeof stored.network_id !== 'number' && networkId > 0 ? { network_id: networkId } : {}),
+          synced_at: new Date(),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    await auditService.logEntityUpdate(networkId, 'campaigns', {
+      entityType: 'campaign',
+      entityId: String(broadstreetId),
+      entityName: stored.name,
+      status: 'success',
+      broadstreetId,
+      changes: changes.map(({ field, from, to }) => ({ field, from, to })),
+    });
+
+    return { success: true, campaign: updated, changes };
+  } catch (error: any) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    // An unexpected response body comes with a 2xx status; report it as a bad gateway
+    const invalidResponse = error instanceof BroadstreetApiError && error.kind === 'validation';
+
+    await auditService.logEntityUpdate(networkId, 'campaigns', {
+      entityType: 'campaign',
+      entityId: String(broadstreetId),
+      entityName: stored.name,
+      status: 'error',
+      errorCode: invalidResponse || error?.status === 422 ? 'VALIDATION' : error?.status === 401 ? 'AUTH' : 'NETWORK',
+      errorMessage: message,
+      broadstreetId,
+      changes: changes.map(({ field, from, to }) => ({ field, from, to })),
+    });
+
+    return {
+      success: false,
+      changes,
+      error: message,
+      status: !invalidResponse && typeof error?.status === 'number' && error.status < 500 ? error.status : 502,
+    };
+  }
+}
+
+export interface CampaignScheduleCheck {
+  campaign: { broadstreet_id: number; name: string; start_date?: string; end_date?: string } | null;
+  drift: ScheduleDrift[];
+}
+
+/**
+ * Compare the campaign a request was fulfilled with against the request's contract.
+ * Uses the campaign as of the last sync.
+ */
+export async function checkRequestCampaignSchedule(
+  request: ContractDates & { completed_campaign_id?: number | null }
+): Promise<CampaignScheduleCheck> {
+  if (!request.completed_campaign_id) {
+    return { campaign: null, drift: [] };
+  }
+
+  await connectDB();
+  const campaign = await Campaign.findOne({ broadstreet_id: request.completed_campaign_id })
+    .select('broadstreet_id name start_date end_date')
+    .lean() as any;
+  if (!campaign) {
+    return { campaign: null, drift: [] };
+  }
+
+  return {
+    campaign: {
+      broadstreet_id: campaign.broadstreet_id,
+      name: campaign.name,
+      start_date: campaign.start_date,
+      end_date: campaign.end_date,
+    },
+    drift: checkScheduleDrift(campaign, request),
+  };
+}
+
+/**
+ * Move a fulfilled request's campaign onto its contract dates in Broadstreet
+ */
+export async function alignCampaignToContract(
+  request: ContractDates & { completed_campaign_id?: number | null }
+): Promise<CampaignUpdateResult> {
+  const startDate = toContractDate(request.contract_start_date);
+  if (!request.completed_campaign_id || !startDate) {
+    return { success: false, changes: [], error: 'Request has no campaign or contract start date', status: 400 };
+  }
+
+  return updateSyncedCampaign(
+    request.completed_campaign_id,
+    { start_date: startDate, end_date: toContractDate(request.contract_end_date) || null },
+    { realignSchedule: true }
+  );
+}
+
+export interface CampaignScheduleDriftEntry {
+  request_id: string;
+  advertiser_name: string;
+  campaign_name: string;
+  contract_id: string;
+  campaign_id: number;
+  drift: ScheduleDrift[];
+}
+
+/**
+ * Fulfilled requests whose campaign dates no longer match their contract
+ */
+export async function listCampaignScheduleDrift(): Promise<CampaignScheduleDriftEntry[]> {
+  await connectDB();
+  const requests = await AdvertisingRequest.find({ completed_campaign_id: { $ne: null } })
+    .select('advertiser_name campaign_name contract_id contract_start_date contract_end_date completed_campaign_id')
+    .lean() as any[];
+  if (requests.length === 0) return [];
+
+  const campaigns = await Campaign.find({ broadstreet_id: { $in: requests.map(request => request.completed_campaign_id) } })
+    .select('broadstreet_id start_date end_date')
+    .lean() as any[];
+  const campaignsById = new Map(campaigns.map(campaign => [campaign.broadstreet_id, campaign]));
+
+  const entries: CampaignScheduleDriftEntry[] = [];
+  for (const request of requests) {
+    const campaign = campaignsById.get(request.completed_campaign_id);
+    if (!campaign) continue;
+    const drift = checkScheduleDrift(campaign, request);
+    if (drift.length === 0) continue;
+    entries.push({
+      request_id: String(request._id),
+      advertiser_name: request.advertiser_name,
+      campaign_name: request.campaign_name,
+      contract_id: request.contract_id,
+      campaign_id: request.completed_campaign_id,
+      drift,
+    });
+  }
+  return entries;
+}
@@ -8,7 +8,7 @@
  */
 
 import { useMemo, useTransition, useEffect, useState } from 'react';
-import { getEntityId } from '@/lib/utils/entity-helpers';
+import { getEntityId, isAdvertisementOfAdvertiser, isInNetwork } from '@/lib/utils/entity-helpers';
 
 /**
  * Interface for filter parameters
@@ -55,10 +55,14 @@ const applyAdvertisementFilters = (params: FilterParams): any[] => {
 
   let filtered = advertisements;
 
-  // 1. Filter by selected advertiser (highest priority)
-  const advertiserName = entities.advertiser?.name;
-  if (advertiserName) {
-    filtered = filtered.filter(ad => ad.advertiser === advertiserName);
+  // 1. Filter by selected network and advertiser (highest priority)
+  const networkId = entities.network?.ids?.broadstreet_id;
+  if (networkId) {
+    filtered = filtered.filter(ad => isInNetwork(ad, networkId));
+  }
+  if (entities.advertiser) {
+    const advertiser = { broadstreet_id: entities.advertiser.ids?.broadstreet_id, name: entities.advertiser.name };
+    filtered = filtered.filter(ad => isAdvertisementOfAdvertiser(ad, advertiser));
   }
 
   // 2. Apply "Only Selected" filter
@@ -116,6 +120,8 @@ export function useDeferredAdvertisementsFilter(params: FilterParams): UseDeferr
     JSON.stringify(params.selectedTypes ? [...params.selectedTypes].sort() : []),
     params.showActiveOnly,
     params.searchTerm,
+    params.entities?.network?.ids?.broadstreet_id,
+    params.entities?.advertiser?.ids?.broadstreet_id,
     params.entities?.advertiser?.name
   ]);
 
@@ -8,7 +8,7 @@
  */
 
 import { useMemo, useTransition, useEffect, useState } from 'react';
-import { getEntityId } from '@/lib/utils/entity-helpers';
+import { getEntityId, isInNetwork } from '@/lib/utils/entity-helpers';
 
 /**
  * Interface for filter parameters
@@ -16,6 +16,7 @@ import { getEntityId } from '@/lib/utils/entity-helpers';
  */
 interface FilterParams {
   campaigns: any[];
+  selectedNetwork?: any;
   selectedAdvertiser: any;
   searchTerm: string;
 }
@@ -35,7 +36,7 @@ interface UseDeferredCampaignsFilterReturn {
  * Variable names follow docs/variable-origins.md registry
  */
 const applyCampaignFilters = (params: FilterParams): any[] => {
-  const { campaigns, selectedAdvertiser, searchTerm } = params;
+  const { campaigns, selectedNetwork, selectedAdvertiser, searchTerm } = params;
 
   if (!campaigns || !Array.isArray(campaigns)) {
     return [];
@@ -43,7 +44,12 @@ const applyCampaignFilters = (params: FilterParams): any[] => {
 
   let filtered = campaigns;
 
-  // 1. Apply advertiser filter
+  // 1. Apply network and advertiser filters
+  if (selectedNetwork) {
+    const networkId = selectedNetwork.broadstreet_id;
+    filtered = filtered.filter(campaign => isInNetwork(campaign, networkId));
+  }
+
   if (selectedAdvertiser) {
     // If advertiser is selected, show only campaigns for that advertiser
     const advertiserId = getEntityId(selectedAdvertiser);
@@ -95,10 +101,12 @@ export function useDeferredCampaignsFilter(params: FilterParams): UseDeferredCam
   // Memoize the filter parameters to prevent unnecessary re-renders
   const stableParams = useMemo(() => ({
     campaigns: params.campaigns,
+    selectedNetwork: params.selectedNetwork,
     selectedAdvertiser: params.selectedAdvertiser,
     searchTerm: params.searchTerm
   }), [
     params.campaigns?.length,
+    params.selectedNetwork?.broadstreet_id,
     params.selectedAdvertiser?.broadstreet_id || params.selectedAdvertiser?.mongo_id,
     params.searchTerm
   ]);
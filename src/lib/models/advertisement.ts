@@ -6,6 +6,8 @@ export interface IAdvertisement extends Document {
   broadstreet_id: number;
   mongo_id: string;
   network_id?: number;
+  // Broadstreet only sends the advertiser's name; resolved to its id within the network on sync
+  advertiser_id?: number | null;
   name: string;
   updated_at: string;
   type: string;
@@ -21,6 +23,11 @@ export interface IAdvertisement extends Document {
   synced_with_api?: boolean;
   created_at?: Date;
   synced_at?: Date;
+  // Set by incremental download sync when Broadstreet no longer returns the entity
+  deleted_remotely?: boolean;
+  deleted_remotely_at?: Date;
+  // ApiConnection that synced it; unset for data synced with BROADSTREET_API_TOKEN
+  connection_id?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +41,10 @@ const AdvertisementSchema = new Schema<IAdvertisement>({
   network_id: {
     type: Number,
   },
+  advertiser_id: {
+    type: Number,
+    default: null,
+  },
   name: {
     type: String,
     required: true,
@@ -82,6 +93,17 @@ const AdvertisementSchema = new Schema<IAdvertisement>({
   synced_at: {
     type: Date,
   },
+  deleted_remotely: {
+    type: Boolean,
+    default: false,
+  },
+  deleted_remotely_at: {
+    type: Date,
+  },
+  connection_id: {
+    type: String,
+    default: null,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -91,10 +113,12 @@ const AdvertisementSchema = new Schema<IAdvertisement>({
 
 // Create indexes for faster queries
 // Note: broadstreet_id field already has unique: true which creates an index
+AdvertisementSchema.index({ connection_id: 1 });
 AdvertisementSchema.index({ advertiser: 1 });
 AdvertisementSchema.index({ type: 1 });
 AdvertisementSchema.index({ active_placement: 1 });
 AdvertisementSchema.index({ network_id: 1 });
+AdvertisementSchema.index({ network_id: 1, advertiser_id: 1 });
 
 // Virtual getters for standardized three-tier ID system
 AdvertisementSchema.virtual('mongo_id').get(function (this: any) {
@@ -20,6 +20,11 @@ export interface IAdvertiser extends Document {
   synced_with_api?: boolean;
   created_at?: Date;
   synced_at?: Date;
+  // Set by incremental download sync when Broadstreet no longer returns the entity
+  deleted_remotely?: boolean;
+  deleted_remotely_at?: Date;
+  // ApiConnection that synced it; unset for data synced with BROADSTREET_API_TOKEN
+  connection_id?: string | null;
   network_id?: number;
   createdAt: Date;
   updatedAt: Date;
@@ -70,6 +75,17 @@ const AdvertiserSchema = new Schema<IAdvertiser>({
   synced_at: {
     type: Date,
   },
+  deleted_remotely: {
+    type: Boolean,
+    default: false,
+  },
+  deleted_remotely_at: {
+    type: Date,
+  },
+  connection_id: {
+    type: String,
+    default: null,
+  },
   network_id: {
     type: Number,
   },
@@ -95,5 +111,6 @@ AdvertiserSchema.statics.fromApi = function fromApi(payload: any) {
 };
 
 // Note: broadstreet_id field already has unique: true which creates an index
+AdvertiserSchema.index({ connection_id: 1 });
 
 export default mongoose.models.Advertiser || mongoose.model<IAdvertiser>('Advertiser', AdvertiserSchema);
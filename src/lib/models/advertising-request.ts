@@ -1,5 +1,11 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import leanVirtuals from 'mongoose-lean-virtuals';
+import {
+  REQUEST_STATUSES,
+  RequestStatus,
+  StatusHistoryEntry,
+  buildStatusHistoryEntry,
+} from '@/lib/advertising-request-workflow';
 
 export interface IAdvertisingRequest extends Document {
   // MongoDB identifiers
@@ -11,15 +17,21 @@ export interface IAdvertisingRequest extends Document {
   created_by_user_name: string; // Clerk user display name
   created_by_user_email: string; // Clerk user email
 
-  // Status and workflow
-  status: 'new' | 'in_progress' | 'completed' | 'cancelled';
-  status_history: Array<{
-    status: string;
-    changed_by_user_id: string;
-    changed_by_user_name: string;
-    changed_by_user_email: string;
-    changed_at: Date;
-    notes?: string;
+  // Status and workflow (see advertising-request-workflow)
+  status: RequestStatus;
+  status_history: StatusHistoryEntry[];
+
+  // Assignment - the trafficker working on the request
+  assigned_to_user_id?: string | null; // Clerk user ID
+  assigned_to_user_name?: string | null;
+  assigned_to_user_email?: string | null;
+  assigned_at?: Date | null;
+
+  // Watchers - users who asked to be notified about this request
+  watchers: Array<{
+    user_id: string; // Clerk user ID
+    user_name: string;
+    user_email: string;
   }>;
 
   // Advertiser Information
@@ -51,9 +63,16 @@ export interface IAdvertisingRequest extends Document {
     target_url: string; // Required, validated URL
     html_code?: string; // Optional tracking code
 
+    // Derivatives built on upload (image_url is the web-optimised copy)
+    original_url?: string; // Upload without EXIF
+    thumbnail_url?: string; // For request lists
+    image_1x_url?: string; // 1x copy of a 2x retina upload
+    content_hash?: string; // sha256 of the uploaded bytes
+
     // Upload metadata
     uploaded_at: Date;
     r2_key: string; // Internal R2 object key
+    r2_keys?: string[]; // Every stored object of the image (original and derivatives)
   }>;
 
   // Marketing information
@@ -95,13 +114,14 @@ const AdvertisingRequestSchema = new Schema<IAdvertisingRequest>({
   // Status and workflow
   status: {
     type: String,
-    enum: ['new', 'in_progress', 'completed', 'cancelled'],
+    enum: REQUEST_STATUSES,
     default: 'new',
     required: true,
   },
   status_history: [{
     status: {
       type: String,
+      enum: REQUEST_STATUSES,
       required: true,
     },
     changed_by_user_id: {
@@ -123,8 +143,51 @@ const AdvertisingRequestSchema = new Schema<IAdvertisingRequest>({
     notes: {
       type: String,
     },
+    assigned_to_user_id: {
+      type: String,
+    },
+    assigned_to_user_name: {
+      type: String,
+    },
   }],
 
+  // Assignment
+  assigned_to_user_id: {
+    type: String,
+    default: null,
+  },
+  assigned_to_user_name: {
+    type: String,
+    default: null,
+  },
+  assigned_to_user_email: {
+    type: String,
+    default: null,
+  },
+  assigned_at: {
+    type: Date,
+    default: null,
+  },
+
+  // Watchers
+  watchers: {
+    type: [{
+      user_id: {
+        type: String,
+        required: true,
+      },
+      user_name: {
+        type: String,
+        required: true,
+      },
+      user_email: {
+        type: String,
+        required: true,
+      },
+    }],
+    default: [],
+  },
+
   // Advertiser Information
   advertiser_name: {
     type: String,
@@ -214,6 +277,20 @@ const AdvertisingRequestSchema = new Schema<IAdvertisingRequest>({
         type: String,
       },
 
+      // Derivatives
+      original_url: {
+        type: String,
+      },
+      thumbnail_url: {
+        type: String,
+      },
+      image_1x_url: {
+        type: String,
+      },
+      content_hash: {
+        type: String,
+      },
+
       // Upload metadata
       uploaded_at: {
         type: Date,
@@ -223,6 +300,10 @@ const AdvertisingRequestSchema = new Schema<IAdvertisingRequest>({
         type: String,
         required: true,
       },
+      r2_keys: {
+        type: [String],
+        default: undefined,
+      },
     }],
     required: true,
     validate: {
@@ -279,6 +360,8 @@ const AdvertisingRequestSchema = new Schema<IAdvertisingRequest>({
   },
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  // Concurrent saves (two people starting work on the same request) fail with a VersionError
+  optimisticConcurrency: true,
   toJSON: { virtuals: true },
   toObject: { virtuals: true },
   id: false,
@@ -296,14 +379,11 @@ AdvertisingRequestSchema.plugin(leanVirtuals);
 AdvertisingRequestSchema.pre('save', async function (next) {
   // Initialize status history if not present
   if (this.isNew && (!this.status_history || this.status_history.length === 0)) {
-    this.status_history = [{
-      status: this.status,
-      changed_by_user_id: this.created_by_user_id,
-      changed_by_user_name: this.created_by_user_name,
-      changed_by_user_email: this.created_by_user_email,
-      changed_at: new Date(),
-      notes: 'Request created',
-    }];
+    this.status_history = [buildStatusHistoryEntry(this.status, {
+      user_id: this.created_by_user_id,
+      user_name: this.created_by_user_name,
+      user_email: this.created_by_user_email,
+    }, 'Request created')];
   }
 
   next();
@@ -312,6 +392,7 @@ AdvertisingRequestSchema.pre('save', async function (next) {
 // Indexes for efficient queries
 AdvertisingRequestSchema.index({ status: 1 });
 AdvertisingRequestSchema.index({ created_by_user_id: 1 });
+AdvertisingRequestSchema.index({ assigned_to_user_id: 1, status: 1 });
 AdvertisingRequestSchema.index({ created_at: -1 });
 AdvertisingRequestSchema.index({ advertiser_name: 1 });
 
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import leanVirtuals from 'mongoose-lean-virtuals';
+
+/**
+ * A Broadstreet account the app talks to: one API token, usually one publication.
+ * The token is encrypted (src/lib/server/secret-encryption.ts) and never leaves the server.
+ */
+export interface IApiConnection extends Document {
+  mongo_id: string;
+  label: string;
+  token_encrypted: string;
+  token_hint: string; // e.g. "…a1b2", for telling connections apart in the UI
+  base_url?: string; // Defaults to BROADSTREET_API_BASE_URL
+  // Network selected when switching to this connection
+  default_network_id?: number | null;
+  // Used when no connection is selected, and for networks not yet synced under any connection
+  is_default: boolean;
+  created_by_user_id?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiConnectionSchema = new Schema<IApiConnection>({
+  label: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+    unique: true,
+  },
+  token_encrypted: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  token_hint: {
+    type: String,
+    default: '',
+  },
+  base_url: {
+    type: String,
+    trim: true,
+  },
+  default_network_id: {
+    type: Number,
+    default: null,
+  },
+  is_default: {
+    type: Boolean,
+    default: false,
+  },
+  created_by_user_id: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+  id: false,
+});
+
+// Virtual getters for IDs
+ApiConnectionSchema.virtual('mongo_id').get(function (this: any) {
+  return this._id?.toString();
+});
+
+// Note: label field already has unique: true which creates an index
+ApiConnectionSchema.index({ is_default: 1 });
+
+// Ensure virtuals are present in lean() results
+ApiConnectionSchema.plugin(leanVirtuals);
+
+export default mongoose.models.ApiConnection || mongoose.model<IApiConnection>('ApiConnection', ApiConnectionSchema);
@@ -35,6 +35,12 @@ export interface ICampaign extends Document {
   synced_with_api?: boolean;
   created_at?: Date;
   synced_at?: Date;
+  // Set by incremental download sync when Broadstreet no longer returns the entity
+  deleted_remotely?: boolean;
+  deleted_remotely_at?: Date;
+  // ApiConnection that synced it; unset for data synced with BROADSTREET_API_TOKEN
+  connection_id?: string | null;
+  // Network of the advertiser; set on sync
   network_id?: number;
   createdAt: Date;
   updatedAt: Date;
@@ -141,6 +147,17 @@ const CampaignSchema = new Schema<ICampaign>({
   synced_at: {
     type: Date,
   },
+  deleted_remotely: {
+    type: Boolean,
+    default: false,
+  },
+  deleted_remotely_at: {
+    type: Date,
+  },
+  connection_id: {
+    type: String,
+    default: null,
+  },
   network_id: {
     type: Number,
   },
@@ -153,7 +170,9 @@ const CampaignSchema = new Schema<ICampaign>({
 
 // Create indexes for faster queries
 // Note: broadstreet_id field already has unique: true which creates an index
+CampaignSchema.index({ connection_id: 1 });
 CampaignSchema.index({ advertiser_id: 1 });
+CampaignSchema.index({ network_id: 1, advertiser_id: 1 });
 CampaignSchema.index({ active: 1 });
 
 // Virtual getters for standardized three-tier ID system
@@ -9,7 +9,8 @@ export interface ILocalAdvertisement extends Document {
   network_id: number;
   type: string;
   advertiser?: string;
-  advertiser_id?: number;
+  // Broadstreet advertiser ID, or the mongo_id of a LocalAdvertiser that is not synced yet
+  advertiser_id?: number | string;
   active?: {
     url?: string | null;
   };
@@ -51,7 +52,7 @@ const LocalAdvertisementSchema = new Schema<ILocalAdvertisement>({
     trim: true,
   },
   advertiser_id: {
-    type: Number,
+    type: Schema.Types.Mixed,
   },
   active: {
     url: {
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import leanVirtuals from 'mongoose-lean-virtuals';
+import { IReconciliationDecision, ReconciliationDecisionSchema } from './reconciliation-decision';
 
 export interface ILocalAdvertiser extends Document {
   mongo_id: string;
@@ -24,6 +25,7 @@ export interface ILocalAdvertiser extends Document {
   synced_at?: Date;
   original_broadstreet_id?: number;
   sync_errors: string[];
+  reconciliation?: IReconciliationDecision;
   
   // Timestamps
   createdAt: Date;
@@ -88,6 +90,9 @@ const LocalAdvertiserSchema = new Schema<ILocalAdvertiser>({
     type: [String],
     default: [],
   },
+  reconciliation: {
+    type: ReconciliationDecisionSchema,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import leanVirtuals from 'mongoose-lean-virtuals';
+import { IReconciliationDecision, ReconciliationDecisionSchema } from './reconciliation-decision';
 
 export interface ILocalCampaign extends Document {
   mongo_id: string;
@@ -33,6 +34,7 @@ export interface ILocalCampaign extends Document {
   synced_at?: Date;
   original_broadstreet_id?: number;
   sync_errors: string[];
+  reconciliation?: IReconciliationDecision;
   
   // Timestamps
   createdAt: Date;
@@ -144,6 +146,9 @@ const LocalCampaignSchema = new Schema<ILocalCampaign>({
     type: [String],
     default: [],
   },
+  reconciliation: {
+    type: ReconciliationDecisionSchema,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
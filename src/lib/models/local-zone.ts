@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import leanVirtuals from 'mongoose-lean-virtuals';
+import { IReconciliationDecision, ReconciliationDecisionSchema } from './reconciliation-decision';
 
 export interface ILocalZone extends Document {
   mongo_id: string;
@@ -31,6 +32,7 @@ export interface ILocalZone extends Document {
   synced_at?: Date;
   original_broadstreet_id?: number;
   sync_errors: string[];
+  reconciliation?: IReconciliationDecision;
   
   // Timestamps
   createdAt: Date;
@@ -125,6 +127,9 @@ const LocalZoneSchema = new Schema<ILocalZone>({
     type: [String],
     default: [],
   },
+  reconciliation: {
+    type: ReconciliationDecisionSchema,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -21,6 +21,11 @@ export interface INetwork extends Document {
   synced_with_api?: boolean;
   created_at?: Date;
   synced_at?: Date;
+  // Set by incremental download sync when Broadstreet no longer returns the entity
+  deleted_remotely?: boolean;
+  deleted_remotely_at?: Date;
+  // ApiConnection that synced it; unset for data synced with BROADSTREET_API_TOKEN
+  connection_id?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -79,6 +84,17 @@ const NetworkSchema = new Schema<INetwork>({
   synced_at: {
     type: Date,
   },
+  deleted_remotely: {
+    type: Boolean,
+    default: false,
+  },
+  deleted_remotely_at: {
+    type: Date,
+  },
+  connection_id: {
+    type: String,
+    default: null,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -87,6 +103,7 @@ const NetworkSchema = new Schema<INetwork>({
 });
 
 // Note: broadstreet_id field already has unique: true which creates an index
+NetworkSchema.index({ connection_id: 1 });
 
 // Virtual getters for standardized three-tier ID system
 NetworkSchema.virtual('mongo_id').get(function (this: any) {
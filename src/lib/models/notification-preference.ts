@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NOTIFICATION_EVENTS, NotificationEvent } from '@/lib/notification-events';
+
+/**
+ * Per-user email subscriptions. Users without a document get every notification.
+ */
+export interface INotificationPreference extends Document {
+  user_id: string; // Clerk user ID
+  email_enabled: boolean; // Master switch for all request emails
+  events: Record<NotificationEvent, boolean>;
+
+  // Timestamps
+  created_at: Date;
+  updated_at: Date;
+}
+
+const EventSubscriptionsSchema = new Schema(
+  Object.fromEntries(NOTIFICATION_EVENTS.map(event => [event, { type: Boolean, default: true }])),
+  { _id: false }
+);
+
+const NotificationPreferenceSchema = new Schema<INotificationPreference>({
+  user_id: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  email_enabled: {
+    type: Boolean,
+    default: true,
+  },
+  events: {
+    type: EventSubscriptionsSchema,
+    default: () => ({}),
+  },
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+export default mongoose.models.NotificationPreference || mongoose.model<INotificationPreference>('NotificationPreference', NotificationPreferenceSchema);
@@ -0,0 +1,138 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_REASONS,
+  NOTIFICATION_STATUSES,
+  NotificationEvent,
+  NotificationReason,
+  NotificationStatus,
+  NotificationTransportName,
+} from '@/lib/notification-events';
+
+/**
+ * Outbox entry: one rendered email to one recipient about one request event.
+ * Entries stay after sending, so each request keeps a record of what went out.
+ */
+export interface INotification extends Document {
+  _id: mongoose.Types.ObjectId;
+
+  request_id: mongoose.Types.ObjectId;
+  event: NotificationEvent;
+  triggered_by_user_id?: string; // Clerk user ID of whoever caused the event
+
+  // Recipient
+  recipient_user_id: string; // Clerk user ID
+  recipient_name: string;
+  recipient_email: string;
+  reason: NotificationReason;
+
+  // Rendered message
+  subject: string;
+  html: string;
+  text: string;
+
+  // Delivery
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: Date; // Pending entries are sent once this has passed
+  locked_at?: Date | null; // Set while a dispatcher is sending the entry
+  last_error?: string | null;
+  transport?: NotificationTransportName;
+  message_id?: string;
+  sent_at?: Date;
+
+  // Timestamps
+  created_at: Date;
+  updated_at: Date;
+}
+
+const NotificationSchema = new Schema<INotification>({
+  request_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdvertisingRequest',
+    required: true,
+  },
+  event: {
+    type: String,
+    enum: NOTIFICATION_EVENTS,
+    required: true,
+  },
+  triggered_by_user_id: {
+    type: String,
+  },
+
+  // Recipient
+  recipient_user_id: {
+    type: String,
+    required: true,
+  },
+  recipient_name: {
+    type: String,
+    required: true,
+  },
+  recipient_email: {
+    type: String,
+    required: true,
+  },
+  reason: {
+    type: String,
+    enum: NOTIFICATION_REASONS,
+    required: true,
+  },
+
+  // Rendered message
+  subject: {
+    type: String,
+    required: true,
+  },
+  html: {
+    type: String,
+    required: true,
+  },
+  text: {
+    type: String,
+    required: true,
+  },
+
+  // Delivery
+  status: {
+    type: String,
+    enum: NOTIFICATION_STATUSES,
+    default: 'pending',
+    required: true,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  next_attempt_at: {
+    type: Date,
+    default: Date.now,
+  },
+  locked_at: {
+    type: Date,
+    default: null,
+  },
+  last_error: {
+    type: String,
+    default: null,
+  },
+  transport: {
+    type: String,
+    enum: ['smtp', 'file', 'mongo'],
+  },
+  message_id: {
+    type: String,
+  },
+  sent_at: {
+    type: Date,
+  },
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+// Indexes for efficient queries
+NotificationSchema.index({ status: 1, next_attempt_at: 1 });
+NotificationSchema.index({ request_id: 1, created_at: -1 });
+
+export default mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
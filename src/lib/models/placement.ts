@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PLACEMENT_RESTRICTIONS } from '@/lib/utils/placement-restrictions';
 
 export interface IPlacement extends Document {
   // Entity relationships - all required for clear data lineage
@@ -14,7 +15,7 @@ export interface IPlacement extends Document {
   zone_id?: number;             // Broadstreet ID (if synced zone)
   zone_mongo_id?: string;       // MongoDB ObjectId (if local zone)
 
-  // Optional placement configuration
+  // Optional device targeting (at most one value; Broadstreet takes a single string)
   restrictions?: string[];
 
   // Local tracking metadata
@@ -23,6 +24,8 @@ export interface IPlacement extends Document {
   created_at: Date;
   synced_at?: Date;
   sync_errors?: string[];
+  // ApiConnection it was synced to Broadstreet with; unset until synced
+  connection_id?: string | null;
 
   // Mongoose timestamps
   createdAt: Date;
@@ -64,9 +67,10 @@ const PlacementSchema = new Schema<IPlacement>({
     required: false,
   },
 
-  // Optional placement configuration
+  // Optional device targeting (at most one value; Broadstreet takes a single string)
   restrictions: [{
     type: String,
+    enum: PLACEMENT_RESTRICTIONS,
   }],
 
   // Local tracking metadata
@@ -89,6 +93,10 @@ const PlacementSchema = new Schema<IPlacement>({
     type: [String],
     default: [],
   },
+  connection_id: {
+    type: String,
+    default: null,
+  },
 }, {
   timestamps: true,
 });
@@ -115,11 +123,13 @@ PlacementSchema.pre('validate', function(next) {
 });
 
 // Create compound indexes for unique placements (covering both ID types)
+// restrictions is part of the key so the same ad/zone can run per device
 // For Broadstreet campaign + Broadstreet zone
 PlacementSchema.index({
   advertisement_id: 1,
   zone_id: 1,
-  campaign_id: 1
+  campaign_id: 1,
+  restrictions: 1
 }, {
   unique: true,
   partialFilterExpression: {
@@ -132,7 +142,8 @@ PlacementSchema.index({
 PlacementSchema.index({
   advertisement_id: 1,
   zone_mongo_id: 1,
-  campaign_id: 1
+  campaign_id: 1,
+  restrictions: 1
 }, {
   unique: true,
   partialFilterExpression: {
@@ -145,7 +156,8 @@ PlacementSchema.index({
 PlacementSchema.index({
   advertisement_id: 1,
   zone_id: 1,
-  campaign_mongo_id: 1
+  campaign_mongo_id: 1,
+  restrictions: 1
 }, {
   unique: true,
   partialFilterExpression: {
@@ -158,7 +170,8 @@ PlacementSchema.index({
 PlacementSchema.index({
   advertisement_id: 1,
   zone_mongo_id: 1,
-  campaign_mongo_id: 1
+  campaign_mongo_id: 1,
+  restrictions: 1
 }, {
   unique: true,
   partialFilterExpression: {
@@ -177,5 +190,6 @@ PlacementSchema.index({ zone_id: 1 });
 PlacementSchema.index({ zone_mongo_id: 1 });
 PlacementSchema.index({ created_locally: 1 });
 PlacementSchema.index({ synced_with_api: 1 });
+PlacementSchema.index({ connection_id: 1 });
 
 export default mongoose.models.Placement || mongoose.model<IPlacement>('Placement', PlacementSchema);
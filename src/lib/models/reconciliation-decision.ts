@@ -0,0 +1,36 @@
+import { Schema } from 'mongoose';
+
+export type ReconciliationAction = 'link' | 'rename' | 'skip';
+
+// Per-entity choice made in the reconciliation view; the next sync follows it
+export interface IReconciliationDecision {
+  action: ReconciliationAction;
+  target_broadstreet_id?: number; // link: existing Broadstreet entity to adopt
+  target_name?: string;           // link: name of that entity when the decision was made
+  previous_name?: string;         // rename: local name before the rename
+  decided_at: Date;
+}
+
+// Embedded in LocalAdvertiser, LocalZone and LocalCampaign
+export const ReconciliationDecisionSchema = new Schema<IReconciliationDecision>({
+  action: {
+    type: String,
+    enum: ['link', 'rename', 'skip'],
+    required: true,
+  },
+  target_broadstreet_id: {
+    type: Number,
+  },
+  target_name: {
+    type: String,
+    trim: true,
+  },
+  previous_name: {
+    type: String,
+    trim: true,
+  },
+  decided_at: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
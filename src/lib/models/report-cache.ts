@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import leanVirtuals from 'mongoose-lean-virtuals';
+import type { ReportEntityType, ReportRecord, ReportTotals } from '@/lib/types/broadstreet';
+
+export interface IReportCache extends Document {
+  mongo_id: string;
+  entity_type: ReportEntityType;
+  entity_id: number; // Broadstreet ID of the reported entity
+  summary: boolean;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD (inclusive)
+  object?: Record<string, any>;
+  records: ReportRecord[];
+  totals: ReportTotals;
+  fetched_at: Date;
+  expires_at?: Date; // Unset for closed ranges - past reporting data does not change
+  // ApiConnection the report was fetched with; unset for BROADSTREET_API_TOKEN
+  connection_id?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReportCacheSchema = new Schema<IReportCache>({
+  entity_type: {
+    type: String,
+    enum: ['advertiser', 'campaign', 'advertisement', 'network'],
+    required: true,
+  },
+  entity_id: {
+    type: Number,
+    required: true,
+  },
+  summary: {
+    type: Boolean,
+    default: false,
+  },
+  start_date: {
+    type: String,
+    required: true,
+  },
+  end_date: {
+    type: String,
+    required: true,
+  },
+  object: {
+    type: Schema.Types.Mixed,
+  },
+  records: [{
+    dated: { type: String, required: true },
+    advertisement_id: { type: Number },
+    campaign_id: { type: Number },
+    zone_id: { type: Number },
+    advertiser_id: { type: Number },
+    view_count: { type: Number, default: 0 },
+    hover_count: { type: Number, default: 0 },
+    click_count: { type: Number, default: 0 },
+    conversion_count: { type: Number, default: 0 },
+    _id: false,
+  }],
+  totals: {
+    views: { type: Number, default: 0 },
+    clicks: { type: Number, default: 0 },
+    hovers: { type: Number, default: 0 },
+    conversions: { type: Number, default: 0 },
+  },
+  fetched_at: {
+    type: Date,
+    default: Date.now,
+  },
+  expires_at: {
+    type: Date,
+  },
+  connection_id: {
+    type: String,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+  id: false,
+});
+
+// Virtual getters for IDs
+ReportCacheSchema.virtual('mongo_id').get(function (this: any) {
+  return this._id?.toString();
+});
+
+// One cached report per entity/range/summary combination
+ReportCacheSchema.index(
+  { entity_type: 1, entity_id: 1, summary: 1, start_date: 1, end_date: 1 },
+  { unique: true }
+);
+ReportCacheSchema.index({ connection_id: 1 });
+// Let MongoDB drop stale entries for ranges that include today
+ReportCacheSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+// Ensure virtuals are present in lean() results
+ReportCacheSchema.plugin(leanVirtuals);
+
+export default mongoose.models.ReportCache || mongoose.model<IReportCache>('ReportCache', ReportCacheSchema);
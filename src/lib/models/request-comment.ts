@@ -0,0 +1,126 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MAX_COMMENT_LENGTH } from '@/lib/request-activity';
+
+/**
+ * A comment in the discussion thread of an advertising request.
+ * Threads are one level deep: replies point at the top-level comment they answer.
+ */
+export interface IRequestComment extends Document {
+  _id: mongoose.Types.ObjectId;
+
+  request_id: mongoose.Types.ObjectId;
+  parent_comment_id?: mongoose.Types.ObjectId | null; // Set on replies
+
+  // Author
+  author_user_id: string; // Clerk user ID
+  author_user_name: string;
+  author_user_email: string;
+
+  body: string;
+
+  // Users @mentioned in the body; each is emailed once when the comment is posted
+  mentions: Array<{
+    user_id: string; // Clerk user ID
+    user_name: string;
+    user_email: string;
+  }>;
+
+  // Files uploaded to Cloudflare R2 with the comment
+  attachments: Array<{
+    file_name: string; // Original filename
+    url: string; // Cloudflare R2 public URL
+    r2_key: string; // Cloudflare R2 storage key
+    mime_type: string;
+    file_size: number; // In bytes
+  }>;
+
+  // Timestamps
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RequestCommentSchema = new Schema<IRequestComment>({
+  request_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdvertisingRequest',
+    required: true,
+  },
+  parent_comment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'RequestComment',
+    default: null,
+  },
+
+  // Author
+  author_user_id: {
+    type: String,
+    required: true,
+  },
+  author_user_name: {
+    type: String,
+    required: true,
+  },
+  author_user_email: {
+    type: String,
+    required: true,
+  },
+
+  body: {
+    type: String,
+    default: '',
+    trim: true,
+    maxlength: MAX_COMMENT_LENGTH,
+  },
+
+  mentions: {
+    type: [{
+      user_id: {
+        type: String,
+        required: true,
+      },
+      user_name: {
+        type: String,
+        required: true,
+      },
+      user_email: {
+        type: String,
+        required: true,
+      },
+    }],
+    default: [],
+  },
+
+  attachments: {
+    type: [{
+      file_name: {
+        type: String,
+        required: true,
+      },
+      url: {
+        type: String,
+        required: true,
+      },
+      r2_key: {
+        type: String,
+        required: true,
+      },
+      mime_type: {
+        type: String,
+        required: true,
+      },
+      file_size: {
+        type: Number,
+        required: true,
+      },
+    }],
+    default: [],
+  },
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+// Indexes for efficient queries
+RequestCommentSchema.index({ request_id: 1, created_at: 1 });
+RequestCommentSchema.index({ parent_comment_id: 1 });
+
+export default mongoose.models.RequestComment || mongoose.model<IRequestComment>('RequestComment', RequestCommentSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import leanVirtuals from 'mongoose-lean-virtuals';
+import type { CustomReportDimension, CustomReportMetric } from '@/lib/types/broadstreet';
+
+export interface ISavedReport extends Document {
+  mongo_id: string;
+  name: string;
+  description?: string;
+  network_id: number;
+  group_by: CustomReportDimension[];
+  metrics: CustomReportMetric[];
+  // Either a fixed range (start_date/end_date) or a rolling window of range_days ending today
+  start_date?: string;
+  end_date?: string;
+  range_days?: number;
+  last_run_at?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedReportSchema = new Schema<ISavedReport>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+  },
+  network_id: {
+    type: Number,
+    required: true,
+  },
+  group_by: [{
+    type: String,
+    enum: ['network', 'advertiser', 'campaign', 'advertisement', 'zone'],
+    required: true,
+  }],
+  metrics: [{
+    type: String,
+    enum: ['view', 'mobile_view', 'hover', 'click', 'conversion'],
+    required: true,
+  }],
+  start_date: {
+    type: String,
+  },
+  end_date: {
+    type: String,
+  },
+  range_days: {
+    type: Number,
+    min: 1,
+  },
+  last_run_at: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+  id: false,
+});
+
+// Virtual getters for IDs
+SavedReportSchema.virtual('mongo_id').get(function (this: any) {
+  return this._id?.toString();
+});
+
+// Indexes for performance
+SavedReportSchema.index({ network_id: 1, name: 1 });
+SavedReportSchema.index({ createdAt: -1 });
+
+// Ensure virtuals are present in lean() results
+SavedReportSchema.plugin(leanVirtuals);
+
+export default mongoose.models.SavedReport || mongoose.model<ISavedReport>('SavedReport', SavedReportSchema);
@@ -0,0 +1,138 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SyncJobStatus = 'running' | 'cancelling' | 'paused' | 'completed' | 'failed' | 'discarded';
+
+export interface ISyncCheckpoint {
+  phase: 'advertisers' | 'zones' | 'campaigns' | 'advertisements' | 'placements';
+  entityType: 'advertiser' | 'zone' | 'campaign' | 'advertisement' | 'placement';
+  entityId: string; // Local MongoDB ObjectId
+  entityName: string;
+  status: 'success' | 'error' | 'skipped';
+  broadstreetId?: number;
+  errorMessage?: string;
+  timestamp: Date;
+}
+
+export interface ISyncJob extends Document {
+  networkId: number;
+  status: SyncJobStatus;
+  // Why a job is paused: the user cancelled it, or the server stopped while it was running
+  pausedReason?: 'cancelled' | 'interrupted';
+
+  // One SyncLog per run: the first is 'full', each resume adds a 'retry' log
+  syncLogIds: string[];
+  currentSyncLogId?: string;
+  runCount: number;
+
+  currentPhase?: string;
+  checkpoints: ISyncCheckpoint[];
+  processedEntities: number;
+  successfulEntities: number;
+  failedEntities: number;
+  skippedEntities: number;
+
+  // Updated on every checkpoint; a running job without a recent heartbeat was interrupted
+  heartbeatAt: Date;
+  startedAt: Date;
+  finishedAt?: Date;
+  cancelRequestedAt?: Date;
+  errorSummary?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SyncCheckpointSchema = new Schema<ISyncCheckpoint>({
+  phase: {
+    type: String,
+    required: true,
+    enum: ['advertisers', 'zones', 'campaigns', 'advertisements', 'placements']
+  },
+  entityType: {
+    type: String,
+    required: true,
+    enum: ['advertiser', 'zone', 'campaign', 'advertisement', 'placement']
+  },
+  entityId: {
+    type: String,
+    required: true
+  },
+  entityName: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['success', 'error', 'skipped']
+  },
+  broadstreetId: Number,
+  errorMessage: String,
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const SyncJobSchema = new Schema<ISyncJob>({
+  networkId: {
+    type: Number,
+    required: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['running', 'cancelling', 'paused', 'completed', 'failed', 'discarded'],
+    default: 'running'
+  },
+  pausedReason: {
+    type: String,
+    enum: ['cancelled', 'interrupted']
+  },
+  syncLogIds: {
+    type: [String],
+    default: []
+  },
+  currentSyncLogId: String,
+  runCount: {
+    type: Number,
+    default: 0
+  },
+  currentPhase: String,
+  checkpoints: [SyncCheckpointSchema],
+  processedEntities: {
+    type: Number,
+    default: 0
+  },
+  successfulEntities: {
+    type: Number,
+    default: 0
+  },
+  failedEntities: {
+    type: Number,
+    default: 0
+  },
+  skippedEntities: {
+    type: Number,
+    default: 0
+  },
+  heartbeatAt: {
+    type: Date,
+    default: Date.now
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: Date,
+  cancelRequestedAt: Date,
+  errorSummary: String
+}, {
+  timestamps: true
+});
+
+SyncJobSchema.index({ networkId: 1, status: 1 });
+SyncJobSchema.index({ status: 1, heartbeatAt: 1 });
+SyncJobSchema.index({ createdAt: -1 });
+
+export default mongoose.models.SyncJob || mongoose.model<ISyncJob>('SyncJob', SyncJobSchema);
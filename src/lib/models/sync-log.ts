@@ -1,21 +1,23 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
 export interface ISyncOperation {
-  entityType: 'advertiser' | 'zone' | 'campaign' | 'placement';
+  entityType: 'advertiser' | 'zone' | 'campaign' | 'advertisement' | 'placement';
   entityId: string; // MongoDB ObjectId or Broadstreet ID
   entityName: string;
-  operation: 'create' | 'update' | 'link' | 'skip';
+  operation: 'create' | 'update' | 'delete' | 'link' | 'skip';
   status: 'success' | 'error' | 'retry' | 'skipped';
   errorCode?: 'DUPLICATE' | 'DEPENDENCY' | 'NETWORK' | 'VALIDATION' | 'AUTH' | 'LINKED_DUPLICATE';
   errorMessage?: string;
   retryCount?: number;
   broadstreetId?: number;
   duration?: number; // milliseconds
+  // Field-level changes for update operations (write-backs to Broadstreet)
+  changes?: Array<{ field: string; from: unknown; to: unknown }>;
   timestamp: Date;
 }
 
 export interface ISyncPhase {
-  phase: 'validation' | 'advertisers' | 'zones' | 'campaigns' | 'placements' | 'cleanup';
+  phase: 'validation' | 'advertisers' | 'zones' | 'campaigns' | 'advertisements' | 'placements' | 'cleanup';
   status: 'pending' | 'running' | 'success' | 'error' | 'skipped';
   startTime: Date;
   endTime?: Date;
@@ -31,8 +33,10 @@ export interface ISyncPhase {
 
 export interface ISyncLog extends Document {
   networkId: number;
-  syncType: 'full' | 'incremental' | 'retry';
+  syncType: 'full' | 'incremental' | 'retry' | 'update' | 'delete';
   status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+  // Set on 'retry' logs created by "Retry failed": the log whose failed operations were re-run
+  retryOfSyncLogId?: string;
   startTime: Date;
   endTime?: Date;
   duration?: number; // milliseconds
@@ -69,7 +73,7 @@ const SyncOperationSchema = new Schema<ISyncOperation>({
   entityType: {
     type: String,
     required: true,
-    enum: ['advertiser', 'zone', 'campaign', 'placement']
+    enum: ['advertiser', 'zone', 'campaign', 'advertisement', 'placement']
   },
   entityId: {
     type: String,
@@ -82,7 +86,7 @@ const SyncOperationSchema = new Schema<ISyncOperation>({
   operation: {
     type: String,
     required: true,
-    enum: ['create', 'update', 'link', 'skip']
+    enum: ['create', 'update', 'delete', 'link', 'skip']
   },
   status: {
     type: String,
@@ -100,6 +104,12 @@ const SyncOperationSchema = new Schema<ISyncOperation>({
   },
   broadstreetId: Number,
   duration: Number,
+  changes: [{
+    _id: false,
+    field: String,
+    from: Schema.Types.Mixed,
+    to: Schema.Types.Mixed
+  }],
   timestamp: {
     type: Date,
     default: Date.now
@@ -110,7 +120,7 @@ const SyncPhaseSchema = new Schema<ISyncPhase>({
   phase: {
     type: String,
     required: true,
-    enum: ['validation', 'advertisers', 'zones', 'campaigns', 'placements', 'cleanup']
+    enum: ['validation', 'advertisers', 'zones', 'campaigns', 'advertisements', 'placements', 'cleanup']
   },
   status: {
     type: String,
@@ -156,7 +166,7 @@ const SyncLogSchema = new Schema<ISyncLog>({
   syncType: {
     type: String,
     required: true,
-    enum: ['full', 'incremental', 'retry'],
+    enum: ['full', 'incremental', 'retry', 'update', 'delete'],
     default: 'full'
   },
   status: {
@@ -165,6 +175,7 @@ const SyncLogSchema = new Schema<ISyncLog>({
     enum: ['pending', 'running', 'success', 'error', 'cancelled'],
     default: 'pending'
   },
+  retryOfSyncLogId: String,
   startTime: {
     type: Date,
     required: true,
@@ -232,6 +243,7 @@ SyncLogSchema.index({ status: 1 });
 SyncLogSchema.index({ syncType: 1 });
 SyncLogSchema.index({ createdAt: -1 });
 SyncLogSchema.index({ startTime: -1 });
+SyncLogSchema.index({ retryOfSyncLogId: 1 });
 SyncLogSchema.index({ 'phases.phase': 1 });
 SyncLogSchema.index({ 'phases.status': 1 });
 
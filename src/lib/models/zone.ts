@@ -20,6 +20,11 @@ export interface IZone extends Document {
   synced_with_api?: boolean;
   created_at?: Date;
   synced_at?: Date;
+  // Set by incremental download sync when Broadstreet no longer returns the entity
+  deleted_remotely?: boolean;
+  deleted_remotely_at?: Date;
+  // ApiConnection that synced it; unset for data synced with BROADSTREET_API_TOKEN
+  connection_id?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -83,6 +88,17 @@ const ZoneSchema = new Schema<IZone>({
   synced_at: {
     type: Date,
   },
+  deleted_remotely: {
+    type: Boolean,
+    default: false,
+  },
+  deleted_remotely_at: {
+    type: Date,
+  },
+  connection_id: {
+    type: String,
+    default: null,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -92,6 +108,7 @@ const ZoneSchema = new Schema<IZone>({
 
 // Create indexes for faster queries
 // Note: broadstreet_id field already has unique: true which creates an index
+ZoneSchema.index({ connection_id: 1 });
 ZoneSchema.index({ network_id: 1 });
 ZoneSchema.index({ size_type: 1 });
 ZoneSchema.index({ category: 1 });
@@ -0,0 +1,56 @@
+/**
+ * Notification events
+ * The request events users can subscribe to by email. Kept free of server imports so
+ * the preferences page and the request detail page can use the same list and labels.
+ */
+
+export const NOTIFICATION_EVENTS = [
+  'request_created',
+  'request_assigned',
+  'status_changed',
+  'request_completed',
+  'request_cancelled',
+  'comment_added',
+  'comment_mention',
+] as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  request_created: 'New request',
+  request_assigned: 'Request assigned',
+  status_changed: 'Status changed',
+  request_completed: 'Request completed',
+  request_cancelled: 'Request cancelled',
+  comment_added: 'New comment',
+  comment_mention: 'Mentioned in a comment',
+};
+
+export const NOTIFICATION_EVENT_DESCRIPTIONS: Record<NotificationEvent, string> = {
+  request_created: 'A sales rep submits a request (traffickers and admins only)',
+  request_assigned: 'A request you created, work on or watch is assigned or unassigned',
+  status_changed: 'Work starts on a request you created or watch',
+  request_completed: 'A request you created, work on or watch is fulfilled',
+  request_cancelled: 'A request you created, work on or watch is cancelled',
+  comment_added: 'Someone comments on a request you created, work on or watch',
+  comment_mention: 'Someone @mentions you in a request comment',
+};
+
+export const NOTIFICATION_STATUSES = ['pending', 'sending', 'sent', 'failed'] as const;
+
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+// Why a user receives a notification about a request
+export const NOTIFICATION_REASONS = ['assignee', 'creator', 'watcher', 'role', 'mention'] as const;
+
+export type NotificationReason = typeof NOTIFICATION_REASONS[number];
+
+export const NOTIFICATION_REASON_LABELS: Record<NotificationReason, string> = {
+  assignee: 'Assignee',
+  creator: 'Creator',
+  watcher: 'Watcher',
+  role: 'Role',
+  mention: 'Mentioned',
+};
+
+export type NotificationTransportName = 'smtp' | 'file' | 'mongo';
@@ -0,0 +1,348 @@
+import { after } from 'next/server';
+import connectDB from './mongodb';
+import Notification, { INotification } from './models/notification';
+import NotificationPreference, { INotificationPreference } from './models/notification-preference';
+import type { IAdvertisingRequest } from './models/advertising-request';
+import type { RequestActor } from './advertising-request-workflow';
+import { NOTIFICATION_EVENTS, NotificationEvent, NotificationReason } from './notification-events';
+import { EmailData, getEmailTransport, renderEmail } from './services/email';
+import { listRequestAssignees } from './server/request-actor';
+
+// Failed sends are retried after 1, 2, 4, 8... minutes, at most an hour apart
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+
+// An entry left 'sending' this long belonged to a dispatcher that died mid-send
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Entries sent per dispatch run, so one run stays short even with a backlog
+const DISPATCH_BATCH_SIZE = 25;
+
+export class NotificationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface NotificationRecipient extends RequestActor {
+  reason: NotificationReason;
+}
+
+export interface NotificationPreferences {
+  email_enabled: boolean;
+  events: Record<NotificationEvent, boolean>;
+}
+
+export interface DispatchSummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Details of the event, used for rendering and to leave out whoever caused it
+ */
+export interface NotificationContext {
+  actor: RequestActor;
+  oldStatus?: string;
+  newStatus?: string;
+  notes?: string;
+  assignedTo?: string;
+  // Comment events
+  comment?: string;
+  mentions?: RequestActor[];
+  // Users who already hear about this change another way, e.g. mentioned users on comment_added
+  excludeUserIds?: string[];
+}
+
+type NotifiableRequest = Pick<IAdvertisingRequest, '_id' | 'advertiser_name' | 'campaign_name' | 'status'
+  | 'created_by_user_id' | 'created_by_user_name' | 'created_by_user_email'
+  | 'assigned_to_user_id' | 'assigned_to_user_name' | 'assigned_to_user_email' | 'watchers'
+  | 'completed_campaign_id' | 'completed_advertisement_ids' | 'completed_by_user_name'>;
+
+/**
+ * Notification event for a request that moved to a status
+ */
+export function getStatusNotificationEvent(status: string): NotificationEvent {
+  if (status === 'completed') return 'request_completed';
+  if (status === 'cancelled') return 'request_cancelled';
+  return 'status_changed';
+}
+
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+function defaultPreferences(): NotificationPreferences {
+  return {
+    email_enabled: true,
+    events: Object.fromEntries(NOTIFICATION_EVENTS.map(event => [event, true])) as Record<NotificationEvent, boolean>,
+  };
+}
+
+function hasEmail(email: string | null | undefined): email is string {
+  return !!email && email !== 'unknown' && email.includes('@');
+}
+
+/**
+ * Request emails through a persisted outbox. Recipients come from the request (assignee,
+ * creator, watchers), from roles for new requests and from @mentions in comments; each
+ * user's preferences filter them.
+ * Entries are sent right away and retried with backoff when the transport fails.
+ */
+export class NotificationService {
+  /**
+   * Who hears about an event, before preferences. New requests go to everyone who manages
+   * requests, mentions go to the mentioned users only, and other events go to the people
+   * attached to the request. The actor and excluded users are left out.
+   */
+  async resolveRecipients(
+    event: NotificationEvent,
+    request: NotifiableRequest,
+    context: NotificationContext
+  ): Promise<NotificationRecipient[]> {
+    const candidates: NotificationRecipient[] = [];
+
+    if (event === 'comment_mention') {
+      for (const mentioned of context.mentions || []) {
+        candidates.push({ ...mentioned, reason: 'mention' });
+      }
+    } else {
+      if (request.assigned_to_user_id) {
+        candidates.push({
+          user_id: request.assigned_to_user_id,
+          user_name: request.assigned_to_user_name || request.assigned_to_user_id,
+          user_email: request.assigned_to_user_email || '',
+          reason: 'assignee',
+        });
+      }
+      candidates.push({
+        user_id: request.created_by_user_id,
+        user_name: request.created_by_user_name,
+        user_email: request.created_by_user_email,
+        reason: 'creator',
+      });
+      for (const watcher of request.watchers || []) {
+        candidates.push({ ...watcher, reason: 'watcher' });
+      }
+      if (event === 'request_created') {
+        for (const manager of await listRequestAssignees()) {
+          candidates.push({ ...manager, reason: 'role' });
+        }
+      }
+    }
+
+    // First reason wins: an assignee who also watches is notified once, as assignee
+    const excluded = new Set([context.actor.user_id, ...(context.excludeUserIds || [])]);
+    const recipients = new Map<string, NotificationRecipient>();
+    for (const candidate of candidates) {
+      if (excluded.has(candidate.user_id) || recipients.has(candidate.user_id)) continue;
+      if (!hasEmail(candidate.user_email)) continue;
+      recipients.set(candidate.user_id, candidate);
+    }
+    return Array.from(recipients.values());
+  }
+
+  /**
+   * Queue an event's emails for everyone subscribed to it and send what is due.
+   * Returns the number of emails queued.
+   */
+  async notify(event: NotificationEvent, request: NotifiableRequest, context: NotificationContext): Promise<number> {
+    await connectDB();
+
+    const candidates = await this.resolveRecipients(event, request, context);
+    const preferences = await this.getPreferencesFor(candidates.map(recipient => recipient.user_id));
+    const recipients = candidates.filter(recipient => {
+      const preference = preferences.get(recipient.user_id) || defaultPreferences();
+      return preference.email_enabled && preference.events[event] !== false;
+    });
+
+    if (recipients.length === 0) {
+      return 0;
+    }
+
+    const emailData: EmailData = {
+      request,
+      oldStatus: context.oldStatus,
+      newStatus: context.newStatus,
+      changedBy: context.actor.user_name,
+      notes: context.notes,
+      assignedTo: context.assignedTo,
+      assignedBy: context.actor.user_name,
+      comment: context.comment,
+    };
+
+    await Notification.insertMany(recipients.map(recipient => ({
+      request_id: request._id,
+      event,
+      triggered_by_user_id: context.actor.user_id,
+      recipient_user_id: recipient.user_id,
+      recipient_name: recipient.user_name,
+      recipient_email: recipient.user_email,
+      reason: recipient.reason,
+      ...renderEmail(event, { ...emailData, recipientName: recipient.user_name }),
+    })));
+
+    this.dispatchAfterResponse();
+    return recipients.length;
+  }
+
+  /**
+   * Run dispatchDue() once the current response has been sent, so status changes and
+   * comments don't wait on the mail server. Outside a request (scripts) it starts right away.
+   */
+  private dispatchAfterResponse(): void {
+    const dispatch = () => this.dispatchDue().then(
+      () => undefined,
+      error => console.error('[notifications] Dispatch failed:', error)
+    );
+    try {
+      after(dispatch);
+    } catch {
+      void dispatch();
+    }
+  }
+
+  /**
+   * Send pending entries whose next attempt is due. Each entry is claimed before sending,
+   * so concurrent dispatchers never send the same email twice.
+   */
+  async dispatchDue(limit: number = DISPATCH_BATCH_SIZE): Promise<DispatchSummary> {
+    await connectDB();
+
+    const transport = getEmailTransport();
+    const summary: DispatchSummary = { sent: 0, retrying: 0, failed: 0 };
+
+    for (let i = 0; i < limit; i++) {
+      const now = new Date();
+      const entry: INotification | null = await Notification.findOneAndUpdate(
+        {
+          $or: [
+            { status: 'pending', next_attempt_at: { $lte: now } },
+            { status: 'sending', locked_at: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+          ],
+        },
+        { $set: { status: 'sending', locked_at: now }, $inc: { attempts: 1 } },
+        { sort: { next_attempt_at: 1 }, new: true }
+      );
+      if (!entry) break;
+
+      try {
+        const { messageId } = await transport.send({
+          to: entry.recipient_email,
+          toName: entry.recipient_name,
+          subject: entry.subject,
+          html: entry.html,
+          text: entry.text,
+        });
+        await Notification.updateOne(
+          { _id: entry._id },
+          { $set: { status: 'sent', sent_at: new Date(), message_id: messageId, transport: transport.name, locked_at: null, last_error: null } }
+        );
+        summary.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown email error';
+        const exhausted = entry.attempts >= MAX_NOTIFICATION_ATTEMPTS;
+        console.error(`[notifications] Sending ${entry.event} to ${entry.recipient_email} failed (attempt ${entry.attempts}):`, message);
+
+        await Notification.updateOne(
+          { _id: entry._id },
+          {
+            $set: {
+              status: exhausted ? 'failed' : 'pending',
+              next_attempt_at: new Date(Date.now() + getRetryDelayMs(entry.attempts)),
+              last_error: message,
+              transport: transport.name,
+              locked_at: null,
+            },
+          }
+        );
+        if (exhausted) {
+          summary.failed++;
+        } else {
+          summary.retrying++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Queue a failed entry again with a fresh set of attempts; it is sent after the response.
+   * Returns the entry, now pending, without its rendered bodies.
+   */
+  async retry(notificationId: string): Promise<INotification> {
+    await connectDB();
+
+    const entry = await Notification.findOneAndUpdate(
+      { _id: notificationId, status: 'failed' },
+      { $set: { status: 'pending', attempts: 0, next_attempt_at: new Date(), last_error: null } },
+      { new: true }
+    );
+    if (!entry) {
+      const exists = await Notification.exists({ _id: notificationId });
+      throw exists
+        ? new NotificationError('Only failed notifications can be retried', 409)
+        : new NotificationError('Notification not found', 404);
+    }
+
+    this.dispatchAfterResponse();
+    return (await Notification.findById(notificationId).select('-html -text').lean<INotification>())!;
+  }
+
+  /**
+   * Everything sent (or queued) about a request, newest first, without the rendered bodies
+   */
+  async listForRequest(requestId: string): Promise<INotification[]> {
+    await connectDB();
+    return Notification.find({ request_id: requestId })
+      .select('-html -text')
+      .sort({ created_at: -1 })
+      .lean<INotification[]>();
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    return (await this.getPreferencesFor([userId])).get(userId) || defaultPreferences();
+  }
+
+  async updatePreferences(userId: string, update: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    await connectDB();
+
+    const $set: Record<string, boolean> = {};
+    if (update.email_enabled !== undefined) {
+      if (typeof update.email_enabled !== 'boolean') {
+        throw new NotificationError('email_enabled must be true or false');
+      }
+      $set.email_enabled = update.email_enabled;
+    }
+    for (const [event, enabled] of Object.entries(update.events || {})) {
+      if (!(NOTIFICATION_EVENTS as readonly string[]).includes(event)) {
+        throw new NotificationError(`Unknown notification event: ${event}`);
+      }
+      if (typeof enabled !== 'boolean') {
+        throw new NotificationError(`${event} must be true or false`);
+      }
+      $set[`events.${event}`] = enabled;
+    }
+
+    await NotificationPreference.updateOne({ user_id: userId }, { $set }, { upsert: true, runValidators: true });
+    return this.getPreferences(userId);
+  }
+
+  private async getPreferencesFor(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+    await connectDB();
+
+    const docs = await NotificationPreference.find({ user_id: { $in: userIds } }).lean<INotificationPreference[]>();
+    return new Map(docs.map((doc): [string, NotificationPreferences] => {
+      const defaults = defaultPreferences();
+      return [doc.user_id, {
+        email_enabled: doc.email_enabled !== false,
+        events: { ...defaults.events, ...(doc.events || {}) },
+      }];
+    }));
+  }
+}
+
+export const notificationService = new NotificationService();
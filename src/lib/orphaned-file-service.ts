@@ -0,0 +1,124 @@
+import connectDB from './mongodb';
+import AdvertisingRequest from './models/advertising-request';
+import RequestComment from './models/request-comment';
+import { deleteFileFromR2, listFiles, validateR2Connection } from './services/r2-upload';
+
+// Everything advertising requests store in R2 lives under this prefix
+const REQUEST_FILES_PREFIX = 'advertising-requests/';
+
+// Uploads of a request form that is still open are not referenced yet; leave them alone this long
+export const DEFAULT_ORPHAN_GRACE_HOURS = 72;
+
+export class OrphanedFileError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface OrphanedFile {
+  key: string;
+  size: number;
+  last_modified: Date;
+}
+
+export interface OrphanedFileReport {
+  dry_run: boolean;
+  grace_hours: number;
+  cutoff: Date; // Objects modified after this are never deleted
+  scanned: number; // Objects under the request prefix
+  referenced: number;
+  within_grace: number; // Unreferenced but too recent to delete
+  orphans: OrphanedFile[];
+  orphan_bytes: number;
+  deleted: string[];
+  failed: string[];
+}
+
+export interface OrphanedFileOptions {
+  graceHours?: number;
+  dryRun?: boolean;
+}
+
+/**
+ * Reconciles R2 with the database: request uploads and comment attachments no request or
+ * comment points at any more (abandoned forms, removed images, deletes that failed) are
+ * reported and, outside a dry run, deleted.
+ */
+export class OrphanedFileService {
+  /**
+   * Keys of every file a request or comment still uses
+   */
+  async listReferencedKeys(): Promise<Set<string>> {
+    await connectDB();
+    const [adKeys, derivativeKeys, attachmentKeys] = await Promise.all([
+      AdvertisingRequest.distinct('advertisements.r2_key'),
+      AdvertisingRequest.distinct('advertisements.r2_keys'),
+      RequestComment.distinct('attachments.r2_key'),
+    ]);
+    return new Set([...adKeys, ...derivativeKeys, ...attachmentKeys].filter(Boolean).map(String));
+  }
+
+  /**
+   * Find orphaned files and delete them unless this is a dry run (the default)
+   */
+  async reconcile(options: OrphanedFileOptions = {}): Promise<OrphanedFileReport> {
+    const graceHours = options.graceHours ?? DEFAULT_ORPHAN_GRACE_HOURS;
+    if (!Number.isFinite(graceHours) || graceHours < 1) {
+      throw new OrphanedFileError('Grace period must be at least 1 hour');
+    }
+    const dryRun = options.dryRun ?? true;
+
+    // listFiles reports a failed listing as an empty bucket; make sure the bucket is reachable first
+    if (!(await validateR2Connection())) {
+      throw new OrphanedFileError('Cloudflare R2 is not reachable. Check the R2_* environment variables', 503);
+    }
+
+    // List before reading references, so a file uploaded and saved in between counts as referenced
+    const files = await listFiles(REQUEST_FILES_PREFIX);
+    const referenced = await this.listReferencedKeys();
+    const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+
+    let referencedCount = 0;
+    let withinGrace = 0;
+    const orphans: OrphanedFile[] = [];
+    for (const file of files) {
+      if (referenced.has(file.key)) {
+        referencedCount++;
+      } else if (file.lastModified > cutoff) {
+        withinGrace++;
+      } else {
+        orphans.push({ key: file.key, size: file.size, last_modified: file.lastModified });
+      }
+    }
+    orphans.sort((a, b) => a.last_modified.getTime() - b.last_modified.getTime());
+
+    const deleted: string[] = [];
+    const failed: string[] = [];
+    if (!dryRun) {
+      // One at a time keeps the R2 request rate low; orphan runs are rare and small
+      for (const orphan of orphans) {
+        if (await deleteFileFromR2(orphan.key)) {
+          deleted.push(orphan.key);
+        } else {
+          failed.push(orphan.key);
+        }
+      }
+      console.log(`Orphaned file cleanup: deleted ${deleted.length} of ${orphans.length} files (${failed.length} failed)`);
+    }
+
+    return {
+      dry_run: dryRun,
+      grace_hours: graceHours,
+      cutoff,
+      scanned: files.length,
+      referenced: referencedCount,
+      within_grace: withinGrace,
+      orphans,
+      orphan_bytes: orphans.reduce((total, orphan) => total + orphan.size, 0),
+      deleted,
+      failed,
+    };
+  }
+}
+
+export const orphanedFileService = new OrphanedFileService();
@@ -2,8 +2,14 @@ import connectDB from './mongodb';
 import Placement, { IPlacement } from './models/placement';
 import LocalCampaign, { ILocalCampaign } from './models/local-campaign';
 import LocalZone, { ILocalZone } from './models/local-zone';
-import { broadstreetAPI } from './broadstreet-api';
+import { BroadstreetApiError } from './broadstreet-api';
+import { apiConnectionService } from './api-connection-service';
 import { withRateLimit } from './rate-limiter';
+import Campaign from './models/campaign';
+import { auditService } from './audit-service';
+import { resolveCampaignNetworkId } from './campaign-service';
+import type { ISyncOperation } from './models/sync-log';
+import { normalizeRestrictions } from './utils/placement-restrictions';
 
 export interface PlacementCreateData {
   network_id: number;
@@ -24,6 +30,17 @@ export interface PlacementSyncResult {
   code?: 'DUPLICATE' | 'DEPENDENCY' | 'NETWORK' | 'VALIDATION';
 }
 
+export interface SyncedPlacementKey {
+  campaign_id: number;
+  advertisement_id: number;
+  zone_id: number;
+}
+
+export interface PlacementRemovalResult extends SyncedPlacementKey {
+  success: boolean;
+  error?: string;
+}
+
 export class PlacementService {
   /**
    * Create a placement in local collection
@@ -69,9 +86,10 @@ export class PlacementService {
         return result;
       }
 
-      // Create placement in Broadstreet with rate limiting
+      // Create placement in Broadstreet with rate limiting, using the network's connection
+      const connection = await apiConnectionService.getConnectionForNetwork(placement.network_id);
       const broadstreetPlacement = await withRateLimit(
-        () => broadstreetAPI.createPlacement({
+        () => connection.client.createPlacement({
           campaign_id: campaignId,
           advertisement_id: placement.advertisement_id,
           zone_id: zoneId,
@@ -85,6 +103,7 @@ export class PlacementService {
       placement.synced_with_api = true;
       placement.synced_at = new Date();
       placement.sync_errors = [];
+      placement.connection_id = connection.id;
       await placement.save();
 
       result.success = true;
@@ -132,11 +151,13 @@ export class PlacementService {
 
         for (const embeddedPlacement of campaign.placements) {
           try {
-            // Check if placement already exists in collection
+            // Check if placement already exists in collection (same device targeting)
+            const restrictions = normalizeRestrictions(embeddedPlacement.restrictions);
             const existingPlacement = await Placement.findOne({
               advertisement_id: embeddedPlacement.advertisement_id,
               zone_id: embeddedPlacement.zone_id,
-              campaign_mongo_id: String(campaign._id)
+              campaign_mongo_id: String(campaign._id),
+              restrictions
             });
 
             if (existingPlacement) {
@@ -150,7 +171,7 @@ export class PlacementService {
               advertisement_id: embeddedPlacement.advertisement_id,
               campaign_mongo_id: String(campaign._id),
               zone_id: embeddedPlacement.zone_id,
-              restrictions: embeddedPlacement.restrictions
+              restrictions
             });
 
             migrationResult.migrated++;
@@ -205,6 +226,7 @@ export class PlacementService {
               advertisement_id: embeddedPlacement.advertisement_id,
               zone_id: embeddedPlacement.zone_id,
               campaign_id: campaign.original_broadstreet_id,
+              restrictions: normalizeRestrictions(embeddedPlacement.restrictions),
               synced_with_api: true
             });
             return !!collectionPlacement;
@@ -273,6 +295,82 @@ export class PlacementService {
     return placements;
   }
 
+  /**
+   * Remove synced placements from Broadstreet, then drop them from the embedded
+   * Campaign.placements array (and any synced copy in the collection).
+   * Each removal is recorded in a 'delete' sync log, one log per network.
+   */
+  async removeSyncedPlacements(placements: SyncedPlacementKey[]): Promise<PlacementRemovalResult[]> {
+    await connectDB();
+
+    const campaignIds = [...new Set(placements.map(p => p.campaign_id))];
+    const campaigns = await Campaign.find({ broadstreet_id: { $in: campaignIds } }).lean() as any[];
+    const campaignsById = new Map(campaigns.map(c => [c.broadstreet_id as number, c]));
+
+    const networkIds = new Map<number, number>();
+    for (const campaign of campaigns) {
+      networkIds.set(campaign.broadstreet_id, await resolveCampaignNetworkId(campaign));
+    }
+
+    const results: PlacementRemovalResult[] = [];
+    const operationsByNetwork = new Map<number, Array<Omit<ISyncOperation, 'timestamp'>>>();
+
+    for (const placement of placements) {
+      const campaign = campaignsById.get(placement.campaign_id);
+      const networkId = networkIds.get(placement.campaign_id) ?? -1;
+      const operation: Omit<ISyncOperation, 'timestamp'> = {
+        entityType: 'placement',
+        entityId: `${placement.campaign_id}-${placement.advertisement_id}-${placement.zone_id}`,
+        entityName: `${campaign?.name || `Campaign ${placement.campaign_id}`} / zone ${placement.zone_id} / ad ${placement.advertisement_id}`,
+        operation: 'delete',
+        status: 'success',
+      };
+
+      try {
+        if (!campaign) {
+          operation.errorCode = 'DEPENDENCY';
+          throw new Error('Campaign not found locally');
+        }
+
+        try {
+          const api = await apiConnectionService.getClientForNetwork(networkId);
+          await withRateLimit(
+            () => api.deletePlacement(placement),
+            1, // User-initiated removals take priority over background work
+            `delete-placement-${operation.entityId}`
+          );
+        } catch (error: any) {
+          // Already gone in Broadstreet; still drop the stale local copy
+          if (error?.status !== 404) throw error;
+        }
+
+        await Campaign.updateOne(
+          { broadstreet_id: placement.campaign_id },
+          { $pull: { placements: { advertisement_id: placement.advertisement_id, zone_id: placement.zone_id } } }
+        );
+        await Placement.deleteMany({ ...placement, synced_with_api: true });
+
+        results.push({ ...placement, success: true });
+      } catch (error: any) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        operation.status = 'error';
+        operation.errorCode = operation.errorCode || (error?.status === 401 ? 'AUTH' : error?.status === 422 || (error instanceof BroadstreetApiError && error.kind === 'validation') ? 'VALIDATION' : 'NETWORK');
+        operation.errorMessage = message;
+        results.push({ ...placement, success: false, error: message });
+      }
+
+      const operations = operationsByNetwork.get(networkId) || [];
+      operations.push(operation);
+      operationsByNetwork.set(networkId, operations);
+    }
+
+    for (const [networkId, operations] of operationsByNetwork) {
+      await auditService.logEntityOperations(networkId, 'placements', 'delete', operations);
+    }
+
+    return results;
+  }
+
   /**
    * Resolve campaign Broadstreet ID from placement
    */
@@ -20,6 +20,7 @@ export interface PhaseWeights {
   advertisers: number;
   zones: number;
   campaigns: number;
+  advertisements: number;
   placements: number;
   cleanup: number;
 }
@@ -28,9 +29,10 @@ export class ProgressService extends EventEmitter {
   private activeSync: Map<string, ProgressUpdate> = new Map();
   private phaseWeights: PhaseWeights = {
     validation: 5,
-    advertisers: 25,
-    zones: 25,
-    campaigns: 30,
+    advertisers: 20,
+    zones: 20,
+    campaigns: 25,
+    advertisements: 15,
     placements: 10,
     cleanup: 5
   };
@@ -153,7 +155,7 @@ export class ProgressService extends EventEmitter {
    * Calculate weighted progress based on phase completion
    */
   private calculateWeightedProgress(currentPhase: keyof PhaseWeights, phaseProgress: number): number {
-    const phases: (keyof PhaseWeights)[] = ['validation', 'advertisers', 'zones', 'campaigns', 'placements', 'cleanup'];
+    const phases: (keyof PhaseWeights)[] = ['validation', 'advertisers', 'zones', 'campaigns', 'advertisements', 'placements', 'cleanup'];
     const currentPhaseIndex = phases.indexOf(currentPhase);
     
     let totalProgress = 0;
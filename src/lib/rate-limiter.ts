@@ -1,3 +1,24 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Token-bucket rate limiting for the Broadstreet API
+ * BroadstreetAPI takes a token from the bucket of the endpoint family before every request:
+ * CRUD endpoints, placements and reporting (/records) each have their own budget, so a
+ * placement batch or a report never holds up entity sync. A 429 pauses the bucket for the
+ * Retry-After Broadstreet sends (exponential backoff without one), halves its refill rate
+ * until requests succeed again, and retries the request.
+ */
+
+export type RateLimitBucketName = 'crud' | 'placements' | 'reporting';
+
+interface TokenBucketConfig {
+  capacity: number; // Tokens that can be saved up for a burst
+  intervalMs: number; // One token per interval (0 = no rate limiting)
+  maxConcurrentRequests: number;
+  maxRetries: number; // Retries after a 429
+  retryDelay: number; // milliseconds; backoff base when a 429 has no Retry-After
+}
+
 interface QueuedRequest {
   id: string;
   execute: () => Promise<any>;
@@ -5,284 +26,270 @@ interface QueuedRequest {
   reject: (error: any) => void;
   priority: number;
   timestamp: number;
+  attempt: number;
 }
 
-interface RateLimitConfig {
-  maxRequestsPerSecond: number;
+export interface TokenBucketStatus {
+  name: RateLimitBucketName;
+  capacity: number;
+  tokens: number;
+  intervalMs: number; // Current interval between tokens; above configuredIntervalMs after a 429
+  configuredIntervalMs: number;
   maxConcurrentRequests: number;
-  queueTimeout: number; // milliseconds (0 = no timeout)
-  retryDelay: number; // milliseconds for rate limit errors
-  maxRetries: number;
-  enableInfiniteQueue: boolean; // Allow queue to run indefinitely
+  queueLength: number;
+  activeRequests: number;
+  nextRequestIn: number; // milliseconds until the next queued request can be sent
+  pausedUntil: string | null; // Set from Retry-After
+  lastRequestAt: string | null;
+  lastThrottledAt: string | null;
+  requests: number; // Since the server started
+  throttled: number; // 429s received
+  retried: number;
+}
+
+// Successful requests needed before a throttled bucket doubles its rate again
+const RECOVERY_SUCCESSES = 5;
+// Interval a bucket without a configured limit falls back to after a 429
+const MIN_THROTTLED_INTERVAL_MS = 1000;
+// A throttled bucket never slows down beyond this multiple of its configured interval
+const MAX_SLOWDOWN = 8;
+
+function isRateLimitError(error: any): boolean {
+  return error?.status === 429 ||
+    error?.code === 'RATE_LIMITED' ||
+    (typeof error?.message === 'string' && error.message.toLowerCase().includes('rate limit'));
+}
+
+// BroadstreetApiError carries the Retry-After header in seconds
+function getRetryAfterMs(error: any): number | null {
+  return typeof error?.retryAfter === 'number' && error.retryAfter >= 0 ? error.retryAfter * 1000 : null;
 }
 
-export class RateLimiter {
+export class TokenBucket {
+  readonly name: RateLimitBucketName;
+  private config: TokenBucketConfig;
+  private tokens: number;
+  private intervalMs: number;
+  private lastRefill: number = Date.now();
   private queue: QueuedRequest[] = [];
   private activeRequests: number = 0;
+  private pausedUntil: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private successesSinceThrottle: number = 0;
   private lastRequestTime: number = 0;
+  private lastThrottledTime: number = 0;
   private requestCount: number = 0;
-  private windowStart: number = Date.now();
-  private processing: boolean = false;
-  
-  private config: RateLimitConfig = {
-    maxRequestsPerSecond: 0.2, // 1 request every 5 seconds (1/5 = 0.2)
-    maxConcurrentRequests: 1, // Only 1 concurrent request
-    queueTimeout: 0, // No timeout - allow infinite queue for sync operations
-    retryDelay: 5000, // 5 second delay for retries
-    maxRetries: 3,
-    enableInfiniteQueue: true // Enable infinite queue for sync operations
-  };
-
-  constructor(config?: Partial<RateLimitConfig>) {
-    if (config) {
-      this.config = { ...this.config, ...config };
-    }
+  private throttledCount: number = 0;
+  private retriedCount: number = 0;
+
+  constructor(name: RateLimitBucketName, config: TokenBucketConfig) {
+    this.name = name;
+    this.config = config;
+    this.tokens = config.capacity;
+    this.intervalMs = config.intervalMs;
   }
 
   /**
-   * Add a request to the rate-limited queue
+   * Run a request once the bucket has a token for it. Higher priorities go first.
    */
-  async enqueue<T>(
-    requestFn: () => Promise<T>,
-    priority: number = 0,
-    requestId?: string
-  ): Promise<T> {
+  schedule<T>(execute: () => Promise<T>, priority: number = 0, requestId?: string): Promise<T> {
     return new Promise((resolve, reject) => {
-      const queuedRequest: QueuedRequest = {
-        id: requestId || `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        execute: requestFn,
+      this.insert({
+        id: requestId || `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        execute,
         resolve,
         reject,
         priority,
-        timestamp: Date.now()
-      };
-
-      // Insert request based on priority (higher priority first)
-      const insertIndex = this.queue.findIndex(req => req.priority < priority);
-      if (insertIndex === -1) {
-        this.queue.push(queuedRequest);
-      } else {
-        this.queue.splice(insertIndex, 0, queuedRequest);
-      }
-
-      // Set timeout for queued request (only if timeout is configured)
-      if (this.config.queueTimeout > 0 && !this.config.enableInfiniteQueue) {
-        setTimeout(() => {
-          const index = this.queue.findIndex(req => req.id === queuedRequest.id);
-          if (index !== -1) {
-            this.queue.splice(index, 1);
-            reject(new Error(`Request ${queuedRequest.id} timed out in queue`));
-          }
-        }, this.config.queueTimeout);
-      }
-
-      // Start processing if not already running
-      if (!this.processing) {
-        this.processQueue();
-      }
+        timestamp: Date.now(),
+        attempt: 0,
+      });
+      this.drain();
     });
   }
 
+  getStatus(): TokenBucketStatus {
+    this.refill();
+    return {
+      name: this.name,
+      capacity: this.config.capacity,
+      tokens: Math.round(this.tokens * 100) / 100,
+      intervalMs: this.intervalMs,
+      configuredIntervalMs: this.config.intervalMs,
+      maxConcurrentRequests: this.config.maxConcurrentRequests,
+      queueLength: this.queue.length,
+      activeRequests: this.activeRequests,
+      nextRequestIn: this.queue.length > 0 ? this.getWaitMs() : 0,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      lastRequestAt: this.lastRequestTime ? new Date(this.lastRequestTime).toISOString() : null,
+      lastThrottledAt: this.lastThrottledTime ? new Date(this.lastThrottledTime).toISOString() : null,
+      requests: this.requestCount,
+      throttled: this.throttledCount,
+      retried: this.retriedCount,
+    };
+  }
+
   /**
-   * Process the request queue with rate limiting
+   * Reject everything still waiting (useful for cancelling all pending requests)
    */
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-
-    while (this.queue.length > 0 || this.activeRequests > 0) {
-      // Clean up expired requests
-      this.cleanupExpiredRequests();
-
-      // Check if we can process more requests
-      if (this.queue.length === 0 || 
-          this.activeRequests >= this.config.maxConcurrentRequests ||
-          !this.canMakeRequest()) {
-        await this.sleep(100); // Wait 100ms before checking again
-        continue;
-      }
+  clearQueue(): void {
+    this.queue.forEach(request => request.reject(new Error('Queue cleared')));
+    this.queue = [];
+  }
 
-      // Get next request from queue
-      const request = this.queue.shift();
-      if (!request) continue;
+  updateConfig(config: Partial<TokenBucketConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.intervalMs = this.config.intervalMs;
+    this.tokens = Math.min(this.tokens, this.config.capacity);
+    this.drain();
+  }
 
-      // Execute request with rate limiting
-      this.executeRequest(request);
+  // Behind requests of the same or higher priority, ahead of lower ones
+  private insert(request: QueuedRequest, first: boolean = false): void {
+    const index = this.queue.findIndex(queued =>
+      first ? queued.priority <= request.priority : queued.priority < request.priority
+    );
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
     }
+  }
 
-    this.processing = false;
+  private refill(): void {
+    const now = Date.now();
+    if (this.intervalMs <= 0) {
+      this.tokens = this.config.capacity;
+    } else {
+      this.tokens = Math.min(this.config.capacity, this.tokens + (now - this.lastRefill) / this.intervalMs);
+    }
+    this.lastRefill = now;
   }
 
-  /**
-   * Execute a single request with retry logic
-   */
-  private async executeRequest(request: QueuedRequest, retryCount: number = 0): Promise<void> {
+  // How long until a token is available and the bucket is not paused
+  private getWaitMs(): number {
+    const now = Date.now();
+    const pause = Math.max(0, this.pausedUntil - now);
+    const refill = this.tokens >= 1 || this.intervalMs <= 0 ? 0 : Math.ceil((1 - this.tokens) * this.intervalMs);
+    return Math.max(pause, refill);
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.refill();
+    while (this.queue.length > 0 && this.activeRequests < this.config.maxConcurrentRequests) {
+      const wait = this.getWaitMs();
+      if (wait > 0) {
+        console.log(`[RateLimiter] ${this.name}: waiting ${Math.ceil(wait / 1000)}s before next API request - Queue: ${this.queue.length} pending`);
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+      this.tokens -= 1;
+      this.run(this.queue.shift()!);
+    }
+  }
+
+  private async run(request: QueuedRequest): Promise<void> {
     this.activeRequests++;
-    this.updateRequestCount();
+    this.requestCount++;
+    this.lastRequestTime = Date.now();
 
     try {
       const result = await request.execute();
+      this.onSuccess();
       request.resolve(result);
     } catch (error: any) {
-      // Check if it's a rate limit error
-      if (this.isRateLimitError(error) && retryCount < this.config.maxRetries) {
-        // Re-queue with delay for rate limit errors
-        setTimeout(() => {
-          this.executeRequest(request, retryCount + 1);
-        }, this.config.retryDelay * Math.pow(2, retryCount)); // Exponential backoff
-        return;
+      if (isRateLimitError(error)) {
+        this.onThrottled(error, request.attempt);
+        if (request.attempt < this.config.maxRetries) {
+          request.attempt++;
+          this.retriedCount++;
+          this.insert(request, true);
+          return;
+        }
       }
-      
       request.reject(error);
     } finally {
       this.activeRequests--;
+      this.drain();
     }
   }
 
-  /**
-   * Check if we can make a request based on rate limits
-   */
-  private canMakeRequest(): boolean {
-    const now = Date.now();
-
-    // For rates less than 1 per second, check minimum interval between requests
-    if (this.config.maxRequestsPerSecond < 1) {
-      const minInterval = 1000 / this.config.maxRequestsPerSecond; // milliseconds between requests
-      const timeSinceLastRequest = now - this.lastRequestTime;
-      const canMake = timeSinceLastRequest >= minInterval;
-
-      if (!canMake) {
-        const waitTime = Math.round((minInterval - timeSinceLastRequest) / 1000);
-        console.log(`[RateLimiter] Waiting ${waitTime}s before next API request (1 request every ${minInterval/1000}s) - Queue: ${this.queue.length} pending`);
-      }
-
-      return canMake;
-    }
-
-    // For rates >= 1 per second, use the original windowing logic
-    if (now - this.windowStart >= 1000) {
-      this.windowStart = now;
-      this.requestCount = 0;
+  private onSuccess(): void {
+    if (this.intervalMs <= this.config.intervalMs) return;
+    this.successesSinceThrottle++;
+    if (this.successesSinceThrottle >= RECOVERY_SUCCESSES) {
+      this.successesSinceThrottle = 0;
+      const recovered = this.intervalMs / 2;
+      this.intervalMs = recovered <= Math.max(this.config.intervalMs, MIN_THROTTLED_INTERVAL_MS) ? this.config.intervalMs : recovered;
+      console.log(this.intervalMs === this.config.intervalMs
+        ? `[RateLimiter] ${this.name}: back to the configured rate`
+        : `[RateLimiter] ${this.name}: recovering, one request every ${this.intervalMs}ms`);
     }
-
-    return this.requestCount < this.config.maxRequestsPerSecond;
   }
 
-  /**
-   * Update request count for rate limiting
-   */
-  private updateRequestCount(): void {
+  private onThrottled(error: any, attempt: number): void {
     const now = Date.now();
-
-    // For rates less than 1 per second, just update the last request time
-    if (this.config.maxRequestsPerSecond < 1) {
-      this.lastRequestTime = now;
-      return;
-    }
-
-    // For rates >= 1 per second, use the original windowing logic
-    if (now - this.windowStart >= 1000) {
-      this.windowStart = now;
-      this.requestCount = 0;
-    }
-
-    this.requestCount++;
-    this.lastRequestTime = now;
-  }
-
-  /**
-   * Check if error is a rate limit error
-   */
-  private isRateLimitError(error: any): boolean {
-    return error.status === 429 || 
-           error.code === 'RATE_LIMITED' ||
-           (error.message && error.message.toLowerCase().includes('rate limit'));
+    const delay = getRetryAfterMs(error) ?? this.config.retryDelay * Math.pow(2, attempt);
+    this.pausedUntil = Math.max(this.pausedUntil, now + delay);
+    this.tokens = 0;
+    this.intervalMs = Math.min(
+      Math.max(this.intervalMs * 2, MIN_THROTTLED_INTERVAL_MS),
+      Math.max(this.config.intervalMs, MIN_THROTTLED_INTERVAL_MS) * MAX_SLOWDOWN
+    );
+    this.successesSinceThrottle = 0;
+    this.lastThrottledTime = now;
+    this.throttledCount++;
+    console.warn(`[RateLimiter] ${this.name}: Broadstreet answered 429, pausing ${Math.ceil(delay / 1000)}s, then one request every ${this.intervalMs}ms`);
   }
+}
 
-  /**
-   * Clean up expired requests from queue (only if timeout is enabled)
-   */
-  private cleanupExpiredRequests(): void {
-    // Skip cleanup if infinite queue is enabled
-    if (this.config.enableInfiniteQueue || this.config.queueTimeout <= 0) {
-      return;
-    }
-
-    const now = Date.now();
-    const expiredIndexes: number[] = [];
-
-    this.queue.forEach((request, index) => {
-      if (now - request.timestamp > this.config.queueTimeout) {
-        expiredIndexes.push(index);
-      }
-    });
+interface RateLimitContext {
+  priority: number;
+  requestId?: string;
+}
 
-    // Remove expired requests (in reverse order to maintain indexes)
-    expiredIndexes.reverse().forEach(index => {
-      const expiredRequest = this.queue.splice(index, 1)[0];
-      expiredRequest.reject(new Error(`Request ${expiredRequest.id} expired in queue`));
-    });
-  }
+// Priority for the Broadstreet requests made inside withRateLimit
+const rateLimitContext = new AsyncLocalStorage<RateLimitContext>();
+
+/**
+ * The bucket an endpoint ("/records?...", "/placements?...") draws from
+ */
+export function getRateLimitBucket(endpoint: string): RateLimitBucketName {
+  const path = endpoint.split('?')[0];
+  if (path.startsWith('/records')) return 'reporting';
+  if (path.startsWith('/placements')) return 'placements';
+  return 'crud';
+}
 
-  /**
-   * Sleep for specified milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
+export class BroadstreetRateLimiter {
+  private buckets: Record<RateLimitBucketName, TokenBucket>;
 
-  /**
-   * Get current queue status for monitoring
-   */
-  getQueueStatus(): {
-    queueLength: number;
-    activeRequests: number;
-    lastRequestTime: number;
-    timeSinceLastRequest: number;
-    canMakeRequest: boolean;
-  } {
-    const now = Date.now();
-    return {
-      queueLength: this.queue.length,
-      activeRequests: this.activeRequests,
-      lastRequestTime: this.lastRequestTime,
-      timeSinceLastRequest: now - this.lastRequestTime,
-      canMakeRequest: this.canMakeRequest()
+  constructor(configs: Record<RateLimitBucketName, TokenBucketConfig>) {
+    this.buckets = {
+      crud: new TokenBucket('crud', configs.crud),
+      placements: new TokenBucket('placements', configs.placements),
+      reporting: new TokenBucket('reporting', configs.reporting),
     };
   }
 
   /**
-   * Get current queue status
+   * Run one Broadstreet request through the bucket for its endpoint family
    */
-  getStatus(): {
-    queueLength: number;
-    activeRequests: number;
-    requestsThisSecond: number;
-    canMakeRequest: boolean;
-  } {
-    return {
-      queueLength: this.queue.length,
-      activeRequests: this.activeRequests,
-      requestsThisSecond: this.requestCount,
-      canMakeRequest: this.canMakeRequest()
-    };
+  schedule<T>(bucket: RateLimitBucketName, execute: () => Promise<T>): Promise<T> {
+    const context = rateLimitContext.getStore();
+    return this.buckets[bucket].schedule(execute, context?.priority ?? 0, context?.requestId);
   }
 
-  /**
-   * Clear the queue (useful for cancelling all pending requests)
-   */
-  clearQueue(): void {
-    this.queue.forEach(request => {
-      request.reject(new Error('Queue cleared'));
-    });
-    this.queue = [];
+  getBucket(bucket: RateLimitBucketName): TokenBucket {
+    return this.buckets[bucket];
   }
 
-  /**
-   * Update rate limit configuration
-   */
-  updateConfig(config: Partial<RateLimitConfig>): void {
-    this.config = { ...this.config, ...config };
+  getStatus(): TokenBucketStatus[] {
+    return Object.values(this.buckets).map(bucket => bucket.getStatus());
   }
 }
 
@@ -297,25 +304,41 @@ if (isNaN(waitSeconds) || waitSeconds < 0) {
   throw new Error('REQUEST_RATE_LIMIT must be a non-negative number (seconds to wait between requests, 0 = no rate limiting)');
 }
 
-// Convert wait time to requests per second
-// Special case: 0 means no rate limiting (unlimited requests per second)
-const maxRequestsPerSecond = waitSeconds === 0 ? Number.MAX_SAFE_INTEGER : 1 / waitSeconds;
-
-// Singleton instance for Broadstreet API
-export const broadstreetRateLimiter = new RateLimiter({
-  maxRequestsPerSecond, // Calculated from REQUEST_RATE_LIMIT
+const requestBucket: TokenBucketConfig = {
+  capacity: 1,
+  intervalMs: waitSeconds * 1000, // 0 = no rate limiting
   maxConcurrentRequests: 1, // Only 1 concurrent request to prevent overload
-  queueTimeout: 0, // No timeout - infinite queue for sync operations
-  retryDelay: waitSeconds === 0 ? 1000 : waitSeconds * 1000, // Use 1 second for retries when no rate limiting, otherwise use wait time
   maxRetries: 3,
-  enableInfiniteQueue: true // Enable infinite queue for long-running sync operations
-});
+  retryDelay: waitSeconds === 0 ? 1000 : waitSeconds * 1000,
+};
 
-// Helper function to wrap API calls with rate limiting
+// Keep one limiter across hot reloads in development, so every route sees the same buckets
+declare global {
+  var broadstreetRateLimiter: BroadstreetRateLimiter | undefined;
+}
+
+export const broadstreetRateLimiter = globalThis.broadstreetRateLimiter ?? (globalThis.broadstreetRateLimiter = new BroadstreetRateLimiter({
+  crud: requestBucket,
+  // Placement batches get their own budget so they don't queue behind entity sync
+  placements: requestBucket,
+  // Reporting has its own documented budget: 2 requests per 5 seconds
+  reporting: {
+    capacity: 1,
+    intervalMs: 2500,
+    maxConcurrentRequests: 1,
+    maxRetries: 3,
+    retryDelay: 5000,
+  },
+}));
+
+/**
+ * Give the Broadstreet requests made by apiCall a queue priority (higher goes first) and an
+ * id for the logs. Every BroadstreetAPI request is rate limited either way.
+ */
 export async function withRateLimit<T>(
   apiCall: () => Promise<T>,
   priority: number = 0,
   requestId?: string
 ): Promise<T> {
-  return broadstreetRateLimiter.enqueue(apiCall, priority, requestId);
+  return rateLimitContext.run({ priority, requestId }, apiCall);
 }
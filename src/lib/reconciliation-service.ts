@@ -0,0 +1,327 @@
+import connectDB from './mongodb';
+import LocalAdvertiser from './models/local-advertiser';
+import LocalZone from './models/local-zone';
+import LocalCampaign from './models/local-campaign';
+import { apiConnectionService } from './api-connection-service';
+import { withRateLimit } from './rate-limiter';
+import type { IReconciliationDecision, ReconciliationAction } from './models/reconciliation-decision';
+import { findClosestMatches, normalizeEntityName } from './utils/name-matching';
+
+export type ReconciliationEntityType = 'advertiser' | 'zone' | 'campaign';
+
+export interface ReconciliationCandidate {
+  broadstreet_id: number;
+  name: string;
+  score: number;
+  exact: boolean;
+}
+
+export interface ReconciliationItem {
+  entityType: ReconciliationEntityType;
+  local_id: string;
+  name: string;
+  network_id: number;
+  // Campaigns: the advertiser whose Broadstreet campaigns were searched (none if the advertiser is new)
+  advertiser_broadstreet_id?: number;
+  candidates: ReconciliationCandidate[];
+  // A Broadstreet entity in scope has the same normalized name
+  conflict: boolean;
+  decision?: IReconciliationDecision;
+}
+
+export interface ReconciliationReport {
+  networkId: number;
+  items: ReconciliationItem[];
+  unresolvedConflicts: number;
+  errors: string[];
+}
+
+export interface ReconciliationDecisionInput {
+  entityType: ReconciliationEntityType;
+  localId: string;
+  action: ReconciliationAction | null; // null clears the decision (create as-is)
+  targetBroadstreetId?: number;
+  newName?: string;
+}
+
+export interface ReconciliationDecisionResult {
+  entityType: ReconciliationEntityType;
+  localId: string;
+  success: boolean;
+  decision?: IReconciliationDecision;
+  error?: string;
+}
+
+interface RemoteEntity {
+  broadstreet_id: number;
+  name: string;
+}
+
+const RECONCILIATION_ENTITY_TYPES: ReconciliationEntityType[] = ['advertiser', 'zone', 'campaign'];
+
+export function isReconciliationEntityType(value: unknown): value is ReconciliationEntityType {
+  return typeof value === 'string' && (RECONCILIATION_ENTITY_TYPES as string[]).includes(value);
+}
+
+function toRemoteEntities(list: any[]): RemoteEntity[] {
+  return list
+    .map(entity => ({ broadstreet_id: entity.broadstreet_id ?? entity.id, name: entity.name }))
+    .filter(entity => typeof entity.broadstreet_id === 'number' && typeof entity.name === 'string');
+}
+
+/**
+ * Matches unsynced local advertisers, zones and campaigns against Broadstreet and
+ * stores the user's per-entity decision (link / rename / skip) on the Local* document.
+ * Remote lists are fetched once per report; campaign lists once per advertiser.
+ */
+export class ReconciliationService {
+  private localModel(entityType: ReconciliationEntityType): any {
+    switch (entityType) {
+      case 'advertiser': return LocalAdvertiser;
+      case 'zone': return LocalZone;
+      case 'campaign': return LocalCampaign;
+    }
+  }
+
+  private async loadRemoteAdvertisers(networkId: number): Promise<RemoteEntity[]> {
+    const api = await apiConnectionService.getClientForNetwork(networkId);
+    const advertisers = await withRateLimit(
+      () => api.getAdvertisers(networkId),
+      1,
+      `reconcile-advertisers-${networkId}`
+    );
+    return toRemoteEntities(advertisers as any[]);
+  }
+
+  private async loadRemoteZones(networkId: number): Promise<RemoteEntity[]> {
+    const api = await apiConnectionService.getClientForNetwork(networkId);
+    const zones = await withRateLimit(
+      () => api.getZones(networkId),
+      1,
+      `reconcile-zones-${networkId}`
+    );
+    return toRemoteEntities(zones as any[]);
+  }
+
+  private async loadRemoteCampaigns(
+    networkId: number,
+    advertiserId: number,
+    cache: Map<number, Promise<RemoteEntity[]>>
+  ): Promise<RemoteEntity[]> {
+    if (!cache.has(advertiserId)) {
+      cache.set(advertiserId, apiConnectionService.getClientForNetwork(networkId).then(api => withRateLimit(
+        () => api.getCampaignsByAdvertiser(advertiserId),
+        1,
+        `reconcile-campaigns-${advertiserId}`
+      )).then(campaigns => toRemoteEntities(campaigns as any[])));
+    }
+    return cache.get(advertiserId)!;
+  }
+
+  /**
+   * Broadstreet advertiser a local campaign will be created under: a synced advertiser,
+   * or a local advertiser that is already synced or linked to an existing one
+   */
+  async resolveCampaignAdvertiserId(advertiserRef: unknown): Promise<number | undefined> {
+    if (typeof advertiserRef === 'number') return advertiserRef;
+    if (typeof advertiserRef !== 'string' || !advertiserRef) return undefined;
+
+    const localAdvertiser: any = await LocalAdvertiser.findById(advertiserRef).lean();
+    if (!localAdvertiser) return undefined;
+    if (typeof localAdvertiser.original_broadstreet_id === 'number') return localAdvertiser.original_broadstreet_id;
+    if (localAdvertiser.reconciliation?.action === 'link') return localAdvertiser.reconciliation.target_broadstreet_id;
+    return undefined;
+  }
+
+  private buildItem(
+    entityType: ReconciliationEntityType,
+    local: any,
+    remote: RemoteEntity[],
+    advertiserBroadstreetId?: number
+  ): ReconciliationItem {
+    const candidates = findClosestMatches(local.name, remote, entity => entity.name)
+      .map(match => ({
+        broadstreet_id: match.item.broadstreet_id,
+        name: match.item.name,
+        score: Math.round(match.score * 100) / 100,
+        exact: match.exact,
+      }));
+
+    return {
+      entityType,
+      local_id: String(local._id),
+      name: local.name,
+      network_id: local.network_id,
+      advertiser_broadstreet_id: advertiserBroadstreetId,
+      candidates,
+      conflict: candidates.some(candidate => candidate.exact),
+      decision: local.reconciliation?.action ? local.reconciliation : undefined,
+    };
+  }
+
+  /**
+   * List each unsynced local advertiser, zone and campaign next to its closest Broadstreet candidates
+   */
+  async getReport(networkId: number): Promise<ReconciliationReport> {
+    await connectDB();
+
+    const report: ReconciliationReport = { networkId, items: [], unresolvedConflicts: 0, errors: [] };
+
+    const [localAdvertisers, localZones, localCampaigns] = await Promise.all([
+      LocalAdvertiser.find({ network_id: networkId, synced_with_api: false }).lean(),
+      LocalZone.find({ network_id: networkId, synced_with_api: false }).lean(),
+      LocalCampaign.find({ network_id: networkId, synced_with_api: false }).lean(),
+    ]);
+
+    if (localAdvertisers.length > 0) {
+      try {
+        const remoteAdvertisers = await this.loadRemoteAdvertisers(networkId);
+        report.items.push(...localAdvertisers.map(local => this.buildItem('advertiser', local, remoteAdvertisers)));
+      } catch (error) {
+        report.errors.push(`Could not load Broadstreet advertisers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (localZones.length > 0) {
+      try {
+        const remoteZones = await this.loadRemoteZones(networkId);
+        report.items.push(...localZones.map(local => this.buildItem('zone', local, remoteZones)));
+      } catch (error) {
+        report.errors.push(`Could not load Broadstreet zones: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Campaign names only need to be unique per advertiser, so search that advertiser's campaigns
+    const campaignCache = new Map<number, Promise<RemoteEntity[]>>();
+    for (const local of localCampaigns as any[]) {
+      const advertiserId = await this.resolveCampaignAdvertiserId(local.advertiser_id);
+      if (!advertiserId) {
+        report.items.push(this.buildItem('campaign', local, []));
+        continue;
+      }
+      try {
+        const remoteCampaigns = await this.loadRemoteCampaigns(networkId, advertiserId, campaignCache);
+        report.items.push(this.buildItem('campaign', local, remoteCampaigns, advertiserId));
+      } catch (error) {
+        report.errors.push(`Could not load Broadstreet campaigns for advertiser ${advertiserId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    report.unresolvedConflicts = report.items.filter(item => item.conflict && !item.decision).length;
+    return report;
+  }
+
+  private async loadScope(
+    entityType: ReconciliationEntityType,
+    local: any,
+    campaignCache: Map<number, Promise<RemoteEntity[]>>
+  ): Promise<RemoteEntity[]> {
+    if (entityType === 'advertiser') return this.loadRemoteAdvertisers(local.network_id);
+    if (entityType === 'zone') return this.loadRemoteZones(local.network_id);
+    const advertiserId = await this.resolveCampaignAdvertiserId(local.advertiser_id);
+    return advertiserId ? this.loadRemoteCampaigns(local.network_id, advertiserId, campaignCache) : [];
+  }
+
+  /**
+   * Persist reconciliation decisions. Each decision is validated against current Broadstreet state.
+   */
+  async saveDecisions(
+    networkId: number,
+    inputs: ReconciliationDecisionInput[]
+  ): Promise<ReconciliationDecisionResult[]> {
+    await connectDB();
+
+    const results: ReconciliationDecisionResult[] = [];
+    const campaignCache = new Map<number, Promise<RemoteEntity[]>>();
+    const scopeCache = new Map<string, Promise<RemoteEntity[]>>();
+
+    for (const input of inputs) {
+      const result: ReconciliationDecisionResult = {
+        entityType: input.entityType,
+        localId: input.localId,
+        success: false,
+      };
+      results.push(result);
+
+      try {
+        const Model = this.localModel(input.entityType);
+        const local = await Model.findOne({ _id: input.localId, network_id: networkId, synced_with_api: false });
+        if (!local) {
+          result.error = `Local ${input.entityType} not found or already synced`;
+          continue;
+        }
+
+        if (input.action === null) {
+          local.reconciliation = undefined;
+          await local.save();
+          result.success = true;
+          continue;
+        }
+
+        if (input.action === 'skip') {
+          local.reconciliation = { action: 'skip', decided_at: new Date() };
+          await local.save();
+          result.success = true;
+          result.decision = local.reconciliation;
+          continue;
+        }
+
+        // Advertisers and zones share one list per network; campaigns are cached per advertiser
+        const scopeKey = input.entityType === 'campaign' ? `campaign-${input.localId}` : input.entityType;
+        if (!scopeCache.has(scopeKey)) {
+          scopeCache.set(scopeKey, this.loadScope(input.entityType, local, campaignCache));
+        }
+        const remote = await scopeCache.get(scopeKey)!;
+
+        if (input.action === 'link') {
+          const target = remote.find(entity => entity.broadstreet_id === input.targetBroadstreetId);
+          if (!target) {
+            result.error = input.entityType === 'campaign' && remote.length === 0
+              ? 'Campaign advertiser is not in Broadstreet yet; link or sync the advertiser first'
+              : `Broadstreet ${input.entityType} ${input.targetBroadstreetId} not found`;
+            continue;
+          }
+          local.reconciliation = {
+            action: 'link',
+            target_broadstreet_id: target.broadstreet_id,
+            target_name: target.name,
+            decided_at: new Date(),
+          };
+          await local.save();
+          result.success = true;
+          result.decision = local.reconciliation;
+          continue;
+        }
+
+        const newName = (input.newName || '').trim();
+        if (!newName) {
+          result.error = 'New name is required';
+          continue;
+        }
+        const normalizedName = normalizeEntityName(newName);
+        const clash = remote.find(entity => normalizeEntityName(entity.name) === normalizedName);
+        if (clash) {
+          result.error = `"${newName}" still matches Broadstreet ${input.entityType} "${clash.name}" (${clash.broadstreet_id})`;
+          continue;
+        }
+
+        const previousName = local.reconciliation?.action === 'rename'
+          ? local.reconciliation.previous_name
+          : local.name;
+        local.name = newName;
+        local.reconciliation = { action: 'rename', previous_name: previousName, decided_at: new Date() };
+        await local.save();
+        result.success = true;
+        result.decision = local.reconciliation;
+      } catch (error: any) {
+        result.error = error?.code === 11000
+          ? `Another local ${input.entityType} already uses this name`
+          : error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    return results;
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
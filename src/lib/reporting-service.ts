@@ -0,0 +1,424 @@
+import connectDB from '@/lib/mongodb';
+import ReportCache from '@/lib/models/report-cache';
+import Zone from '@/lib/models/zone';
+import Campaign from '@/lib/models/campaign';
+import Advertisement from '@/lib/models/advertisement';
+import broadstreetAPI from './broadstreet-api';
+import { apiConnectionService, type BroadstreetConnection } from './api-connection-service';
+import { withRateLimit } from './rate-limiter';
+import { parseZoneName } from './utils/zone-parser';
+import type { ReportColumn, ReportRow } from './utils/report-export';
+import type {
+  ReportEntityType,
+  ReportRecord,
+  ReportTotals,
+  CustomReportDimension,
+  CustomReportMetric,
+} from './types/broadstreet';
+
+export const REPORT_ENTITY_TYPES: ReportEntityType[] = ['advertiser', 'campaign', 'advertisement', 'network'];
+export const CUSTOM_REPORT_DIMENSIONS: CustomReportDimension[] = ['network', 'advertiser', 'campaign', 'advertisement', 'zone'];
+export const CUSTOM_REPORT_METRICS: CustomReportMetric[] = ['view', 'mobile_view', 'hover', 'click', 'conversion'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 30;
+// Ranges that include today are still accumulating data, so only cache them briefly
+const OPEN_RANGE_TTL_MS = 60 * 60 * 1000;
+
+export interface ReportQuery {
+  type: ReportEntityType;
+  id: number;
+  startDate?: string;
+  endDate?: string;
+  summary?: boolean;
+  refresh?: boolean; // Bypass the cache and fetch from Broadstreet
+  connection?: BroadstreetConnection; // Connection to report through; defaults to BROADSTREET_API_TOKEN
+}
+
+export interface ReportMetrics extends ReportTotals {
+  ctr: number; // Click-through rate in percent
+}
+
+export interface DailyReportRow extends ReportMetrics {
+  date: string;
+}
+
+export interface ReportResult {
+  type: ReportEntityType;
+  id: number;
+  startDate: string;
+  endDate: string;
+  summary: boolean;
+  object?: Record<string, any>;
+  records: ReportRecord[];
+  metrics: ReportMetrics;
+  daily: DailyReportRow[];
+  cached: boolean;
+  fetchedAt: string;
+}
+
+export class ReportValidationError extends Error {}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+export function formatReportDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isValidReportDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+/**
+ * Default reporting window: the last 30 days including today
+ */
+export function getDefaultReportRange(now: Date = new Date()): { startDate: string; endDate: string } {
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+  return { startDate: formatReportDate(start), endDate: formatReportDate(now) };
+}
+
+export function computeReportMetrics(totals: ReportTotals): ReportMetrics {
+  const ctr = totals.views > 0 ? (totals.clicks / totals.views) * 100 : 0;
+  return { ...totals, ctr: Math.round(ctr * 100) / 100 };
+}
+
+export function sumReportRecords(records: ReportRecord[]): ReportTotals {
+  return records.reduce<ReportTotals>((totals, record) => ({
+    views: totals.views + (Number(record.view_count) || 0),
+    clicks: totals.clicks + (Number(record.click_count) || 0),
+    hovers: totals.hovers + (Number(record.hover_count) || 0),
+    conversions: totals.conversions + (Number(record.conversion_count) || 0),
+  }), { views: 0, clicks: 0, hovers: 0, conversions: 0 });
+}
+
+/**
+ * Collapse per-zone/per-ad records into one row per day, sorted by date
+ */
+export function aggregateRecordsByDay(records: ReportRecord[]): DailyReportRow[] {
+  const byDay = new Map<string, ReportRecord[]>();
+  for (const record of records) {
+    const day = String(record.dated || '').slice(0, 10);
+    if (!day) continue;
+    const bucket = byDay.get(day) || [];
+    bucket.push(record);
+    byDay.set(day, bucket);
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayRecords]) => ({ date, ...computeReportMetrics(sumReportRecords(dayRecords)) }));
+}
+
+function resolveDateRange(startDate?: string, endDate?: string) {
+  const defaults = getDefaultReportRange();
+  const start = startDate || defaults.startDate;
+  const end = endDate || defaults.endDate;
+
+  if (!isValidReportDate(start) || !isValidReportDate(end)) {
+    throw new ReportValidationError('Dates must use the YYYY-MM-DD format');
+  }
+  if (start > end) {
+    throw new ReportValidationError('Start date must be on or before end date');
+  }
+
+  return { startDate: start, endDate: end };
+}
+
+function resolveReportQuery(query: ReportQuery) {
+  if (!REPORT_ENTITY_TYPES.includes(query.type)) {
+    throw new ReportValidationError(`Invalid report type: ${query.type}`);
+  }
+  if (!Number.isInteger(query.id) || query.id <= 0) {
+    throw new ReportValidationError('A valid Broadstreet ID is required');
+  }
+
+  const { startDate, endDate } = resolveDateRange(query.startDate, query.endDate);
+
+  return { type: query.type, id: query.id, startDate, endDate, summary: !!query.summary };
+}
+
+/**
+ * Get reporting records for an entity, served from the Mongo cache when possible.
+ * Cache misses go to Broadstreet through the dedicated reporting rate limiter.
+ */
+export async function getReport(query: ReportQuery): Promise<ReportResult> {
+  const { type, id, startDate, endDate, summary } = resolveReportQuery(query);
+  await connectDB();
+
+  const key = { entity_type: type, entity_id: id, summary, start_date: startDate, end_date: endDate };
+  const now = new Date();
+
+  if (!query.refresh) {
+    const cached: any = await ReportCache.findOne(key).lean();
+    // TTL cleanup runs periodically, so check expiry here as well
+    if (cached && (!cached.expires_at || new Date(cached.expires_at) > now)) {
+      return buildResult(key, cached.object, cached.records || [], cached.totals, true, new Date(cached.fetched_at));
+    }
+  }
+
+  const api = query.connection?.client || broadstreetAPI;
+  const response = await withRateLimit(
+    () => api.getRecords({ type, id, summary, startDate, endDate }),
+    0,
+    `report-${type}-${id}-${startDate}-${endDate}`
+  );
+
+  const totals = response.totals || sumReportRecords(response.records);
+  const includesToday = endDate >= formatReportDate(now);
+
+  const fields = {
+    ...key,
+    object: response.object,
+    records: response.records,
+    totals,
+    fetched_at: now,
+    connection_id: query.connection?.id ?? null,
+  };
+  await ReportCache.updateOne(
+    key,
+    includesToday
+      ? { $set: { ...fields, expires_at: new Date(now.getTime() + OPEN_RANGE_TTL_MS) } }
+      : { $set: fields, $unset: { expires_at: 1 } },
+    { upsert: true }
+  );
+
+  return buildResult(key, response.object, response.records, totals, false, now);
+}
+
+function buildResult(
+  key: { entity_type: ReportEntityType; entity_id: number; summary: boolean; start_date: string; end_date: string },
+  object: Record<string, any> | undefined,
+  records: ReportRecord[],
+  totals: ReportTotals,
+  cached: boolean,
+  fetchedAt: Date
+): ReportResult {
+  return {
+    type: key.entity_type,
+    id: key.entity_id,
+    startDate: key.start_date,
+    endDate: key.end_date,
+    summary: key.summary,
+    object,
+    records,
+    metrics: computeReportMetrics(totals),
+    daily: aggregateRecordsByDay(records),
+    cached,
+    fetchedAt: fetchedAt.toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Custom grouped reports (GET /records?type=custom)
+// ---------------------------------------------------------------------------
+
+export interface CustomReportQuery {
+  networkId: number;
+  groupBy: CustomReportDimension[];
+  metrics: CustomReportMetric[];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CustomReportResult {
+  networkId: number;
+  groupBy: CustomReportDimension[];
+  metrics: CustomReportMetric[];
+  startDate: string;
+  endDate: string;
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  fetchedAt: string;
+}
+
+const METRIC_COLUMNS: Record<CustomReportMetric, ReportColumn> = {
+  view: { key: 'views', label: 'Views' },
+  mobile_view: { key: 'mobile_views', label: 'Mobile Views' },
+  hover: { key: 'hovers', label: 'Hovers' },
+  click: { key: 'clicks', label: 'Clicks' },
+  conversion: { key: 'conversions', label: 'Conversions' },
+};
+
+const DIMENSION_LABELS: Record<CustomReportDimension, string> = {
+  network: 'Network',
+  advertiser: 'Advertiser',
+  campaign: 'Campaign',
+  advertisement: 'Advertisement',
+  zone: 'Zone',
+};
+
+/**
+ * Columns for a custom report: id/name per dimension, local enrichment
+ * (zone size/category, ad type, campaign dates), then metrics and CTR.
+ */
+export function getCustomReportColumns(groupBy: CustomReportDimension[], metrics: CustomReportMetric[]): ReportColumn[] {
+  const columns: ReportColumn[] = [];
+
+  for (const dimension of groupBy) {
+    const label = DIMENSION_LABELS[dimension];
+    columns.push({ key: `${dimension}_id`, label: `${label} ID` });
+    columns.push({ key: `${dimension}_name`, label: `${label} Name` });
+
+    if (dimension === 'zone') {
+      columns.push({ key: 'zone_size_type', label: 'Zone Size' });
+      columns.push({ key: 'zone_category', label: 'Zone Category' });
+    } else if (dimension === 'advertisement') {
+      columns.push({ key: 'advertisement_type', label: 'Ad Type' });
+    } else if (dimension === 'campaign') {
+      columns.push({ key: 'campaign_start_date', label: 'Campaign Start' });
+      columns.push({ key: 'campaign_end_date', label: 'Campaign End' });
+    }
+  }
+
+  for (const metric of metrics) {
+    columns.push(METRIC_COLUMNS[metric]);
+  }
+  if (metrics.includes('view') && metrics.includes('click')) {
+    columns.push({ key: 'ctr', label: 'CTR %' });
+  }
+
+  return columns;
+}
+
+function resolveCustomReportQuery(query: CustomReportQuery) {
+  if (!Number.isInteger(query.networkId) || query.networkId <= 0) {
+    throw new ReportValidationError('A valid network ID is required');
+  }
+
+  const groupBy = CUSTOM_REPORT_DIMENSIONS.filter(d => query.groupBy?.includes(d));
+  const metrics = CUSTOM_REPORT_METRICS.filter(m => query.metrics?.includes(m));
+  if (groupBy.length === 0) {
+    throw new ReportValidationError('Select at least one grouping dimension');
+  }
+  if (metrics.length === 0) {
+    throw new ReportValidationError('Select at least one metric');
+  }
+
+  const { startDate, endDate } = resolveDateRange(query.startDate, query.endDate);
+  return { networkId: query.networkId, groupBy, metrics, startDate, endDate };
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Run a custom grouped report against a network and join the results to the
+ * local Zone, Campaign and Advertisement collections for names and parsed zone info.
+ */
+export async function runCustomReport(query: CustomReportQuery): Promise<CustomReportResult> {
+  const { networkId, groupBy, metrics, startDate, endDate } = resolveCustomReportQuery(query);
+
+  const select = [
+    ...groupBy.flatMap(d => [`${d}.id`, `${d}.name`]),
+    ...metrics.map(m => `count(${m})`),
+  ];
+
+  const api = await apiConnectionService.getClientForNetwork(networkId);
+  const response = await withRateLimit(
+    () => api.getCustomRecords({ networkId, select, group: groupBy, startDate, endDate }),
+    0,
+    `custom-report-${networkId}-${groupBy.join('-')}-${startDate}-${endDate}`
+  );
+
+  const idsFor = (dimension: CustomReportDimension) => Array.from(new Set(
+    response.records
+      .map(record => toNumber(record[`${dimension}_id`]))
+      .filter((id): id is number => id !== null)
+  ));
+
+  await connectDB();
+  const [zones, campaigns, advertisements] = await Promise.all([
+    groupBy.includes('zone')
+      ? Zone.find({ broadstreet_id: { $in: idsFor('zone') } }).lean()
+      : Promise.resolve([]),
+    groupBy.includes('campaign')
+      ? Campaign.find({ broadstreet_id: { $in: idsFor('campaign') } }).lean()
+      : Promise.resolve([]),
+    groupBy.includes('advertisement')
+      ? Advertisement.find({ broadstreet_id: { $in: idsFor('advertisement') } }).lean()
+      : Promise.resolve([]),
+  ]);
+
+  const zonesById = new Map<number, any>((zones as any[]).map(z => [z.broadstreet_id, z]));
+  const campaignsById = new Map<number, any>((campaigns as any[]).map(c => [c.broadstreet_id, c]));
+  const adsById = new Map<number, any>((advertisements as any[]).map(a => [a.broadstreet_id, a]));
+
+  const rows: ReportRow[] = response.records.map(record => {
+    const row: ReportRow = {};
+
+    for (const dimension of groupBy) {
+      const id = toNumber(record[`${dimension}_id`]);
+      row[`${dimension}_id`] = id;
+      row[`${dimension}_name`] = (record[`${dimension}_name`] as string | null) ?? null;
+    }
+
+    if (groupBy.includes('zone')) {
+      const local = zonesById.get(row.zone_id as number);
+      const name = local?.name || (row.zone_name as string) || '';
+      // Prefer the stored parse, fall back to parsing the name for zones not synced yet
+      const parsed = local?.size_type !== undefined ? local : parseZoneName(name);
+      row.zone_name = name || null;
+      row.zone_size_type = parsed?.size_type
+        ? `${parsed.size_type}${parsed.size_number ?? ''}`
+        : null;
+      row.zone_category = parsed?.category ?? null;
+    }
+
+    if (groupBy.includes('campaign')) {
+      const local = campaignsById.get(row.campaign_id as number);
+      row.campaign_name = local?.name || row.campaign_name || null;
+      row.campaign_start_date = local?.start_date ? String(local.start_date).slice(0, 10) : null;
+      row.campaign_end_date = local?.end_date ? String(local.end_date).slice(0, 10) : null;
+    }
+
+    if (groupBy.includes('advertisement')) {
+      const local = adsById.get(row.advertisement_id as number);
+      row.advertisement_name = local?.name || row.advertisement_name || null;
+      row.advertisement_type = local?.type ?? null;
+    }
+
+    for (const metric of metrics) {
+      row[METRIC_COLUMNS[metric].key] = toNumber(record[`count(${metric})`]) ?? 0;
+    }
+    if (metrics.includes('view') && metrics.includes('click')) {
+      row.ctr = computeReportMetrics({
+        views: row.views as number,
+        clicks: row.clicks as number,
+        hovers: 0,
+        conversions: 0,
+      }).ctr;
+    }
+
+    return row;
+  });
+
+  return {
+    networkId,
+    groupBy,
+    metrics,
+    startDate,
+    endDate,
+    columns: getCustomReportColumns(groupBy, metrics),
+    rows,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Resolve the date range stored on a saved report definition
+ */
+export function getSavedReportRange(report: { start_date?: string; end_date?: string; range_days?: number }) {
+  if (report.start_date && report.end_date) {
+    return { startDate: report.start_date, endDate: report.end_date };
+  }
+
+  const now = new Date();
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - ((report.range_days || DEFAULT_RANGE_DAYS) - 1));
+  return { startDate: formatReportDate(start), endDate: formatReportDate(now) };
+}
@@ -0,0 +1,162 @@
+/**
+ * Request activity
+ * Merges status history and the comment thread of an advertising request into one
+ * timeline. Kept free of server imports so the request detail page and the sales
+ * audit log render the same timeline.
+ */
+
+import type { RequestActor, StatusHistoryEntry } from './advertising-request-workflow';
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_COMMENT_ATTACHMENTS = 5;
+export const MAX_COMMENT_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Attachments are public on the R2 bucket, so only these types are accepted (no HTML or SVG).
+// The stored content type comes from this table, never from the uploading browser.
+const COMMENT_ATTACHMENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+// For the file input's accept attribute
+export const COMMENT_ATTACHMENT_ACCEPT = Object.keys(COMMENT_ATTACHMENT_TYPES).map(extension => `.${extension}`).join(',');
+
+export const COMMENT_ATTACHMENT_TYPES_LABEL = 'images (JPEG, PNG, GIF, WebP), PDF, Word, Excel or PowerPoint';
+
+/**
+ * The content type to store an attachment with, from its extension. Null when the extension
+ * is not allowed, or the browser reported a different type than the extension implies.
+ */
+export function getCommentAttachmentType(file: { name: string; type?: string }): string | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const contentType = COMMENT_ATTACHMENT_TYPES[extension];
+  if (!contentType) return null;
+
+  // Browsers send an empty or generic type for some office files; anything else must agree
+  const reported = (file.type || '').toLowerCase();
+  if (reported && reported !== 'application/octet-stream' && reported !== contentType) return null;
+  return contentType;
+}
+
+export interface RequestCommentAttachment {
+  file_name: string;
+  url: string;
+  r2_key: string;
+  mime_type: string;
+  file_size: number;
+}
+
+/**
+ * A comment as returned by /api/advertising-requests/[id]/comments
+ */
+export interface RequestCommentView {
+  _id: string;
+  request_id: string;
+  parent_comment_id?: string | null;
+  author_user_id: string;
+  author_user_name: string;
+  author_user_email: string;
+  body: string;
+  mentions: RequestActor[];
+  attachments: RequestCommentAttachment[];
+  created_at: string | Date;
+}
+
+export type RequestActivityItem =
+  | { kind: 'status'; at: Date; entry: StatusHistoryEntry }
+  | { kind: 'comment'; at: Date; comment: RequestCommentView; replies: RequestCommentView[] };
+
+/**
+ * Status changes and top-level comments in chronological order. Replies stay under the
+ * comment they answer; a status change and a comment at the same moment list the change first.
+ */
+export function buildRequestActivity(
+  statusHistory: StatusHistoryEntry[],
+  comments: RequestCommentView[]
+): RequestActivityItem[] {
+  const byDate = (a: RequestCommentView, b: RequestCommentView) =>
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+  const repliesByParent = new Map<string, RequestCommentView[]>();
+  for (const comment of comments) {
+    if (!comment.parent_comment_id) continue;
+    const replies = repliesByParent.get(comment.parent_comment_id) || [];
+    replies.push(comment);
+    repliesByParent.set(comment.parent_comment_id, replies);
+  }
+
+  const items: RequestActivityItem[] = [
+    ...(statusHistory || []).map(entry => ({
+      kind: 'status' as const,
+      at: new Date(entry.changed_at),
+      entry,
+    })),
+    ...comments
+      .filter(comment => !comment.parent_comment_id)
+      .map(comment => ({
+        kind: 'comment' as const,
+        at: new Date(comment.created_at),
+        comment,
+        replies: (repliesByParent.get(comment._id) || []).sort(byDate),
+      })),
+  ];
+
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => a.item.at.getTime() - b.item.at.getTime()
+      || (a.item.kind === b.item.kind ? a.index - b.index : a.item.kind === 'status' ? -1 : 1))
+    .map(({ item }) => item);
+}
+
+/**
+ * Whether a comment body @mentions a user by display name
+ */
+export function isMentionedIn(body: string, userName: string): boolean {
+  return body.includes(`@${userName}`);
+}
+
+/**
+ * A comment body split into plain text and @mention segments, for highlighting
+ */
+export function splitCommentMentions(
+  body: string,
+  mentions: RequestActor[]
+): Array<{ text: string; mention: boolean }> {
+  const names = mentions
+    .map(mention => `@${mention.user_name}`)
+    .sort((a, b) => b.length - a.length);
+  const segments: Array<{ text: string; mention: boolean }> = [];
+
+  let rest = body;
+  while (rest.length > 0) {
+    let next = -1;
+    let nextName = '';
+    for (const name of names) {
+      const index = rest.indexOf(name);
+      if (index !== -1 && (next === -1 || index < next)) {
+        next = index;
+        nextName = name;
+      }
+    }
+    if (next === -1) {
+      segments.push({ text: rest, mention: false });
+      break;
+    }
+    if (next > 0) {
+      segments.push({ text: rest.slice(0, next), mention: false });
+    }
+    segments.push({ text: nextName, mention: true });
+    rest = rest.slice(next + nextName.length);
+  }
+  return segments;
+}
@@ -0,0 +1,230 @@
+import connectDB from './mongodb';
+import RequestComment, { IRequestComment } from './models/request-comment';
+import type { IAdvertisingRequest } from './models/advertising-request';
+import type { RequestActor } from './advertising-request-workflow';
+import type { AccessContext } from './server/authorization';
+import { listRequestAssignees } from './server/request-actor';
+import { hasPermission } from './access-control';
+import { notificationService } from './notification-service';
+import { deleteFileFromR2, uploadFileToR2 } from './services/r2-upload';
+import {
+  MAX_COMMENT_ATTACHMENTS,
+  MAX_COMMENT_ATTACHMENT_SIZE,
+  MAX_COMMENT_LENGTH,
+  COMMENT_ATTACHMENT_TYPES_LABEL,
+  RequestCommentAttachment,
+  getCommentAttachmentType,
+  isMentionedIn,
+} from './request-activity';
+
+// R2 folder for comment attachments; each request gets its own subfolder
+const ATTACHMENT_FOLDER = 'advertising-requests/comments';
+
+export class RequestCommentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface NewRequestComment {
+  body: string;
+  parentCommentId?: string | null;
+  // Clerk user IDs picked in the composer; only those still @mentioned in the body are kept
+  mentionUserIds?: string[];
+  files?: File[];
+}
+
+type CommentableRequest = Pick<IAdvertisingRequest, '_id' | 'advertiser_name' | 'campaign_name' | 'status'
+  | 'created_by_user_id' | 'created_by_user_name' | 'created_by_user_email'
+  | 'assigned_to_user_id' | 'assigned_to_user_name' | 'assigned_to_user_email' | 'watchers'
+  | 'completed_campaign_id' | 'completed_advertisement_ids' | 'completed_by_user_name'>;
+
+function toAttachmentKey(requestId: string, fileName: string): string {
+  const randomString = Math.random().toString(36).substring(2, 10);
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_').slice(-100) || 'attachment';
+  return `${requestId}/${Date.now()}-${randomString}-${safeName}`;
+}
+
+/**
+ * Discussion threads on advertising requests: comments with @mentions and attachments.
+ * Mentioned users get a mention email; everyone else attached to the request gets
+ * the regular comment email.
+ */
+export class RequestCommentService {
+  /**
+   * Every comment on a request, oldest first
+   */
+  async listForRequest(requestId: string): Promise<IRequestComment[]> {
+    await connectDB();
+    return RequestComment.find({ request_id: requestId })
+      .sort({ created_at: 1 })
+      .lean<IRequestComment[]>();
+  }
+
+  /**
+   * Users who can see the request and so can be @mentioned: its creator and
+   * everyone who manages requests, sorted by name
+   */
+  async listMentionableUsers(request: CommentableRequest): Promise<RequestActor[]> {
+    const users = new Map<string, RequestActor>();
+    users.set(request.created_by_user_id, {
+      user_id: request.created_by_user_id,
+      user_name: request.created_by_user_name,
+      user_email: request.created_by_user_email,
+    });
+    for (const manager of await listRequestAssignees()) {
+      users.set(manager.user_id, manager);
+    }
+    return Array.from(users.values()).sort((a, b) => a.user_name.localeCompare(b.user_name));
+  }
+
+  /**
+   * Post a comment, upload its attachments and email mentioned users and participants
+   */
+  async addComment(request: CommentableRequest, actor: RequestActor, input: NewRequestComment): Promise<IRequestComment> {
+    await connectDB();
+
+    const body = (input.body || '').trim();
+    const files = input.files || [];
+    if (!body && files.length === 0) {
+      throw new RequestCommentError('Comment must have text or an attachment');
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new RequestCommentError(`Comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+    }
+    if (files.length > MAX_COMMENT_ATTACHMENTS) {
+      throw new RequestCommentError(`At most ${MAX_COMMENT_ATTACHMENTS} attachments per comment`);
+    }
+    const oversized = files.find(file => file.size > MAX_COMMENT_ATTACHMENT_SIZE);
+    if (oversized) {
+      throw new RequestCommentError(`${oversized.name} is larger than ${MAX_COMMENT_ATTACHMENT_SIZE / (1024 * 1024)}MB`);
+    }
+    const unsupported = files.find(file => !getCommentAttachmentType(file));
+    if (unsupported) {
+      throw new RequestCommentError(`${unsupported.name} is not an allowed attachment. Attach ${COMMENT_ATTACHMENT_TYPES_LABEL}`);
+    }
+
+    // Replies to a reply join the thread of the top-level comment
+    let parentCommentId: IRequestComment['_id'] | null = null;
+    if (input.parentCommentId) {
+      const parent = await RequestComment.findOne({ _id: input.parentCommentId, request_id: request._id })
+        .select('parent_comment_id')
+        .lean<IRequestComment>();
+      if (!parent) {
+        throw new RequestCommentError('The comment you replied to no longer exists', 404);
+      }
+      parentCommentId = parent.parent_comment_id || parent._id;
+    }
+
+    let mentions: RequestActor[] = [];
+    if (input.mentionUserIds && input.mentionUserIds.length > 0) {
+      const mentionable = await this.listMentionableUsers(request);
+      mentions = mentionable.filter(user =>
+        input.mentionUserIds!.includes(user.user_id) && isMentionedIn(body, user.user_name)
+      );
+    }
+
+    const attachments = await this.uploadAttachments(String(request._id), files);
+
+    let comment: IRequestComment;
+    try {
+      comment = await RequestComment.create({
+        request_id: request._id,
+        parent_comment_id: parentCommentId,
+        author_user_id: actor.user_id,
+        author_user_name: actor.user_name,
+        author_user_email: actor.user_email,
+        body,
+        mentions,
+        attachments,
+      });
+    } catch (error) {
+      await Promise.all(attachments.map(attachment => deleteFileFromR2(attachment.r2_key)));
+      throw error;
+    }
+
+    // Don't fail the comment if emails fail
+    try {
+      if (mentions.length > 0) {
+        await notificationService.notify('comment_mention', request, { actor, comment: body, mentions });
+      }
+      await notificationService.notify('comment_added', request, {
+        actor,
+        comment: body || `${attachments.length} attachment${attachments.length !== 1 ? 's' : ''}`,
+        excludeUserIds: mentions.map(mention => mention.user_id),
+      });
+    } catch (emailError) {
+      console.error('Comment notification failed:', emailError);
+    }
+
+    return comment.toObject() as IRequestComment;
+  }
+
+  /**
+   * Delete a comment with its replies and their attachments. Authors can delete their
+   * own comments; users who manage requests can delete any.
+   */
+  async deleteComment(requestId: string, commentId: string, access: AccessContext): Promise<number> {
+    await connectDB();
+
+    const comment = await RequestComment.findOne({ _id: commentId, request_id: requestId }).lean<IRequestComment>();
+    if (!comment) {
+      throw new RequestCommentError('Comment not found', 404);
+    }
+    if (comment.author_user_id !== access.userId && !hasPermission(access.role, 'requests:manage')) {
+      throw new RequestCommentError('Only the author can delete this comment', 403);
+    }
+
+    const thread = await RequestComment.find({ $or: [{ _id: comment._id }, { parent_comment_id: comment._id }] })
+      .lean<IRequestComment[]>();
+    await this.deleteAttachments(thread);
+    await RequestComment.deleteMany({ _id: { $in: thread.map(entry => entry._id) } });
+    return thread.length;
+  }
+
+  /**
+   * Remove every comment on a request, for when the request itself is deleted
+   */
+  async deleteForRequest(requestId: string): Promise<void> {
+    await connectDB();
+
+    const comments = await RequestComment.find({ request_id: requestId }).lean<IRequestComment[]>();
+    await this.deleteAttachments(comments);
+    await RequestComment.deleteMany({ request_id: requestId });
+  }
+
+  private async uploadAttachments(requestId: string, files: File[]): Promise<RequestCommentAttachment[]> {
+    const attachments: RequestCommentAttachment[] = [];
+    for (const file of files) {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      // Checked in addComment; the type is ours, not the one the browser sent
+      const contentType = getCommentAttachmentType(file)!;
+      const result = await uploadFileToR2(buffer, toAttachmentKey(requestId, file.name), contentType, ATTACHMENT_FOLDER);
+      if (!result.success || !result.filePath || !result.publicUrl) {
+        // Leave nothing behind from a comment that was never saved
+        await Promise.all(attachments.map(attachment => deleteFileFromR2(attachment.r2_key)));
+        throw new RequestCommentError(`Failed to upload ${file.name}: ${result.error || 'unknown error'}`, 502);
+      }
+      attachments.push({
+        file_name: file.name,
+        url: result.publicUrl,
+        r2_key: result.filePath,
+        mime_type: contentType,
+        file_size: file.size,
+      });
+    }
+    return attachments;
+  }
+
+  private async deleteAttachments(comments: IRequestComment[]): Promise<void> {
+    const keys = comments.flatMap(comment => (comment.attachments || []).map(attachment => attachment.r2_key));
+    try {
+      await Promise.all(keys.map(key => deleteFileFromR2(key)));
+    } catch (fileError) {
+      console.error('Error deleting comment attachments from R2:', fileError);
+      // Continue with comment deletion even if file deletion fails
+    }
+  }
+}
+
+export const requestCommentService = new RequestCommentService();
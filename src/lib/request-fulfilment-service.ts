@@ -0,0 +1,448 @@
+import connectDB from './mongodb';
+import AdvertisingRequest, { IAdvertisingRequest } from './models/advertising-request';
+import Advertiser from './models/advertiser';
+import Zone from './models/zone';
+import Theme from './models/theme';
+import Placement from './models/placement';
+import LocalAdvertiser from './models/local-advertiser';
+import LocalCampaign from './models/local-campaign';
+import LocalAdvertisement from './models/local-advertisement';
+import syncService from './sync-service';
+import { placementService } from './placement-service';
+import { auditService } from './audit-service';
+import { parseZoneName } from './utils/zone-parser';
+import { getZoneCreativeSpecs, matchCreativeSpec } from './utils/creative-specs';
+import { normalizeEntityName } from './utils/name-matching';
+import { scheduleCampaignDate, toContractDate, todayInTimeZone } from './utils/campaign-schedule';
+import { RequestActor, canTransitionRequest, planTransition } from './advertising-request-workflow';
+import type { ISyncOperation, ISyncPhase } from './models/sync-log';
+
+type SizeCoding = IAdvertisingRequest['advertisements'][number]['size_coding'];
+
+// Outcome of one create/sync step; SyncResult and PlacementSyncResult both fit
+type StepOutcome = { success: boolean; error?: string; code?: ISyncOperation['errorCode'] };
+
+// Entity synced by an earlier attempt at the same request
+const ALREADY_SYNCED: StepOutcome = { success: true };
+
+export class FulfilmentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface FulfilmentPlacementProposal {
+  advertisement_index: number;
+  zone_id: number;
+  zone_name: string;
+  // The ad areas / theme names that led to this zone
+  matched_by: string[];
+}
+
+export interface FulfilmentProposal {
+  request_id: string;
+  network_id: number;
+  advertiser: {
+    name: string;
+    // Set when an advertiser with the same name is already in Broadstreet
+    broadstreet_id?: number;
+  };
+  campaign: {
+    name: string;
+    start_date: string;
+    end_date?: string;
+    weight: number;
+  };
+  advertisements: Array<{
+    index: number;
+    name: string;
+    image_url: string;
+    target_url: string;
+    size_coding: SizeCoding;
+    width: number;
+    height: number;
+  }>;
+  placements: FulfilmentPlacementProposal[];
+  warnings: string[];
+}
+
+// What the trafficker confirmed in the wizard
+export interface FulfilmentInput {
+  networkId: number;
+  advertiser: { name: string; broadstreet_id?: number };
+  campaign: { name: string; start_date: string; end_date?: string; weight: number };
+  advertisements: Array<{ index: number; name: string }>;
+  placements: Array<{ advertisement_index: number; zone_id: number }>;
+}
+
+export interface FulfilmentStep {
+  entityType: ISyncOperation['entityType'];
+  name: string;
+  success: boolean;
+  broadstreet_id?: number;
+  error?: string;
+}
+
+export interface FulfilmentResult {
+  success: boolean;
+  syncLogId?: string;
+  completed_campaign_id?: number;
+  completed_advertisement_ids: number[];
+  steps: FulfilmentStep[];
+}
+
+// "Sport" matches "RUBRIK [SPORT]" zones and any zone with "sport" in its name; "Home" matches home zones
+function zoneMatchesArea(zone: { name: string; category?: string | null; is_home?: boolean }, area: string): boolean {
+  const normalizedArea = normalizeEntityName(area);
+  if (!normalizedArea) return false;
+
+  const parsed = parseZoneName(zone.name);
+  if (normalizedArea === 'home' && (zone.is_home ?? parsed.is_home)) return true;
+
+  const category = zone.category ?? parsed.category;
+  if (category && normalizeEntityName(category) === normalizedArea) return true;
+
+  return ` ${normalizeEntityName(zone.name)} `.includes(` ${normalizedArea} `);
+}
+
+/**
+ * Turns an advertising request into a Broadstreet advertiser, campaign, ads and placements.
+ * The proposal pre-fills the wizard; fulfil() creates local drafts, pushes them through the
+ * sync service and records the Broadstreet IDs on the request.
+ */
+export class RequestFulfilmentService {
+  async buildProposal(requestId: string, networkId: number): Promise<FulfilmentProposal> {
+    const request = await this.loadRequest(requestId);
+    const warnings: string[] = [];
+
+    // Reuse an advertiser already in Broadstreet when the names match
+    const normalizedAdvertiser = normalizeEntityName(request.advertiser_name);
+    const advertisers = await Advertiser.find({ network_id: networkId, deleted_remotely: { $ne: true } })
+      .select('broadstreet_id name')
+      .lean<Array<{ broadstreet_id: number; name: string }>>();
+    const existingAdvertiser = advertisers.find(a => normalizeEntityName(a.name) === normalizedAdvertiser);
+
+    const zones = await Zone.find({ network_id: networkId, deleted_remotely: { $ne: true } })
+      .select('broadstreet_id name size_type category is_home')
+      .lean<Array<{ broadstreet_id: number; name: string; size_type?: SizeCoding | null; category?: string | null; is_home?: boolean }>>();
+
+    // Zone ids per matched ad area or theme
+    const zoneSources = new Map<number, string[]>();
+    const addSource = (zoneId: number, source: string) => {
+      zoneSources.set(zoneId, [...(zoneSources.get(zoneId) || []), source]);
+    };
+
+    for (const area of request.ad_areas_sold || []) {
+      const matched = zones.filter(zone => zoneMatchesArea(zone, area));
+      if (matched.length === 0) {
+        warnings.push(`No zone matches the ad area "${area}"`);
+      }
+      matched.forEach(zone => addSource(zone.broadstreet_id, area));
+    }
+
+    if (request.themes && request.themes.length > 0) {
+      const themes = await Theme.find({}).select('name zone_ids').lean<Array<{ name: string; zone_ids: number[] }>>();
+      for (const themeName of request.themes) {
+        const theme = themes.find(t => normalizeEntityName(t.name) === normalizeEntityName(themeName));
+        if (!theme) {
+          warnings.push(`Theme "${themeName}" does not exist`);
+          continue;
+        }
+        theme.zone_ids.forEach(zoneId => addSource(zoneId, `Theme: ${theme.name}`));
+      }
+    }
+
+    const placements: FulfilmentPlacementProposal[] = [];
+    request.advertisements.forEach((ad, index) => {
+      // A zone takes the creative when its size fits one of the zone's specs; older requests
+      // without detected dimensions fall back to the size coding
+      const hasDimensions = ad.width > 0 && ad.height > 0;
+      const matching = zones.filter(zone =>
+        zoneSources.has(zone.broadstreet_id) && (hasDimensions
+          ? matchCreativeSpec(ad.width, ad.height, getZoneCreativeSpecs(zone)) !== null
+          : (zone.size_type ?? parseZoneName(zone.name).size_type) === ad.size_coding)
+      );
+      if (matching.length === 0) {
+        warnings.push(hasDimensions
+          ? `No zone in the sold areas takes the ${ad.width}x${ad.height} creative "${ad.advertisement_name}"`
+          : `No ${ad.size_coding} zone in the sold areas for "${ad.advertisement_name}"`);
+      }
+      for (const zone of matching) {
+        placements.push({
+          advertisement_index: index,
+          zone_id: zone.broadstreet_id,
+          zone_name: zone.name,
+          matched_by: zoneSources.get(zone.broadstreet_id) || [],
+        });
+      }
+    });
+
+    return {
+      request_id: String(request._id),
+      network_id: networkId,
+      advertiser: {
+        name: existingAdvertiser?.name || request.advertiser_name,
+        broadstreet_id: existingAdvertiser?.broadstreet_id,
+      },
+      campaign: {
+        name: request.campaign_name,
+        start_date: toContractDate(request.contract_start_date) || todayInTimeZone(),
+        end_date: toContractDate(request.contract_end_date),
+        weight: 1,
+      },
+      advertisements: request.advertisements.map((ad, index) => ({
+        index,
+        name: ad.advertisement_name,
+        image_url: ad.image_url,
+        target_url: ad.target_url,
+        size_coding: ad.size_coding,
+        width: ad.width,
+        height: ad.height,
+      })),
+      placements,
+      warnings,
+    };
+  }
+
+  /**
+   * Create and sync everything confirmed in the wizard. Safe to run again after a partial
+   * failure: drafts from the earlier attempt are reused and synced entities are not re-created.
+   */
+  async fulfil(requestId: string, input: FulfilmentInput, actor: RequestActor): Promise<FulfilmentResult> {
+    const request = await this.loadRequest(requestId);
+    if (!canTransitionRequest(request.status, 'completed')) {
+      throw new FulfilmentError('Only requests that are in progress can be fulfilled', 409);
+    }
+
+    const networkId = input.networkId;
+    const steps: FulfilmentStep[] = [];
+    const result: FulfilmentResult = { success: false, completed_advertisement_ids: [], steps };
+
+    const syncLog = await auditService.createSyncLog(networkId, 'full');
+    const syncLogId = String(syncLog._id);
+    result.syncLogId = syncLogId;
+
+    const logStep = async (
+      phase: ISyncPhase['phase'],
+      entityType: ISyncOperation['entityType'],
+      entityId: string,
+      name: string,
+      sync: StepOutcome,
+      broadstreetId?: number
+    ) => {
+      steps.push({ entityType, name, success: sync.success, broadstreet_id: broadstreetId, error: sync.error });
+      await auditService.logOperation(syncLogId, phase, {
+        entityType,
+        entityId,
+        entityName: name,
+        operation: sync.code === 'LINKED_DUPLICATE' ? 'link' : 'create',
+        status: sync.success ? 'success' : 'error',
+        errorCode: sync.code,
+        errorMessage: sync.error,
+        broadstreetId,
+      });
+    };
+
+    try {
+      // Advertiser: an existing Broadstreet advertiser, or a local draft synced now
+      let advertiserId = input.advertiser.broadstreet_id;
+      if (!advertiserId) {
+        await auditService.startPhase(syncLogId, 'advertisers', 1);
+        const draft = await LocalAdvertiser.findOne({ name: input.advertiser.name.trim(), network_id: networkId })
+          || await LocalAdvertiser.create({
+            name: input.advertiser.name.trim(),
+            network_id: networkId,
+            created_locally: true,
+            synced_with_api: false,
+            created_at: new Date(),
+            sync_errors: [],
+          });
+        const sync = draft.synced_with_api
+          ? ALREADY_SYNCED
+          : await syncService.syncAdvertiser(draft);
+        advertiserId = draft.original_broadstreet_id;
+        await logStep('advertisers', 'advertiser', String(draft._id), draft.name, sync, advertiserId);
+        await auditService.completePhase(syncLogId, 'advertisers', sync.success ? 'success' : 'error');
+        if (!sync.success || !advertiserId) {
+          return await this.finishFailed(syncLogId, result, `Advertiser could not be synced: ${sync.error || 'unknown error'}`);
+        }
+      }
+
+      // Campaign
+      await auditService.startPhase(syncLogId, 'campaigns', 1);
+      const campaignName = input.campaign.name.trim();
+      // Campaign names are unique per network, whoever the advertiser
+      const existingCampaign = await LocalCampaign.findOne({ name: campaignName, network_id: networkId });
+      if (existingCampaign && String(existingCampaign.advertiser_id) !== String(advertiserId)) {
+        throw new FulfilmentError(
+          `Campaign "${existingCampaign.name}" already exists in this network for advertiser ${existingCampaign.advertiser_id}; choose another campaign name`,
+          409
+        );
+      }
+      // Whole contract days in the publication's timezone
+      const schedule = {
+        start_date: scheduleCampaignDate(input.campaign.start_date, 'start'),
+        end_date: input.campaign.end_date ? scheduleCampaignDate(input.campaign.end_date, 'end') : undefined,
+        weight: input.campaign.weight,
+      };
+      if (existingCampaign) {
+        const changed = existingCampaign.start_date !== schedule.start_date
+          || (existingCampaign.end_date || undefined) !== schedule.end_date
+          || existingCampaign.weight !== schedule.weight;
+        if (changed && existingCampaign.synced_with_api) {
+          // Editing the local copy would not change the campaign already in Broadstreet
+          throw new FulfilmentError(
+            `Campaign "${existingCampaign.name}" is already in Broadstreet with other dates or weight; edit it there or choose another campaign name`,
+            409
+          );
+        }
+        if (changed) {
+          // A draft left by an earlier attempt takes the dates and weight confirmed now
+          existingCampaign.set(schedule);
+          await existingCampaign.save();
+        }
+      }
+      const campaignDraft = existingCampaign
+        || await LocalCampaign.create({
+          name: campaignName,
+          network_id: networkId,
+          advertiser_id: advertiserId,
+          ...schedule,
+          display_type: 'allow_repeat_advertisement',
+          pacing_type: 'asap',
+          active: true,
+          paused: false,
+          archived: false,
+          notes: `Advertising request ${String(request._id).slice(-8).toUpperCase()} (contract ${request.contract_id})`,
+          placements: [],
+          created_locally: true,
+          synced_with_api: false,
+          created_at: new Date(),
+          sync_errors: [],
+        });
+      const campaignSync = campaignDraft.synced_with_api
+        ? ALREADY_SYNCED
+        : await syncService.syncCampaign(campaignDraft);
+      const campaignId = campaignDraft.original_broadstreet_id;
+      await logStep('campaigns', 'campaign', String(campaignDraft._id), campaignDraft.name, campaignSync, campaignId);
+      await auditService.completePhase(syncLogId, 'campaigns', campaignSync.success ? 'success' : 'error');
+      if (!campaignSync.success || !campaignId) {
+        return await this.finishFailed(syncLogId, result, `Campaign could not be synced: ${campaignSync.error || 'unknown error'}`);
+      }
+      result.completed_campaign_id = campaignId;
+
+      // One image advertisement per uploaded creative
+      await auditService.startPhase(syncLogId, 'advertisements', input.advertisements.length);
+      const advertisementIds = new Map<number, number>();
+      for (const confirmed of input.advertisements) {
+        const source = request.advertisements[confirmed.index];
+        if (!source) continue;
+
+        const name = confirmed.name.trim();
+        // Only reuse a draft of this advertiser; a same-named ad of another one must not end up in this campaign
+        const existing = await LocalAdvertisement.findOne({ name, network_id: networkId });
+        if (existing && String(existing.advertiser_id) !== String(advertiserId)) {
+          await logStep('advertisements', 'advertisement', String(existing._id), name, {
+            success: false,
+            code: 'DUPLICATE',
+            error: `Advertisement "${name}" already exists in this network for another advertiser; choose another name`,
+          });
+          continue;
+        }
+        const draft = existing
+          || await LocalAdvertisement.create({
+            name,
+            network_id: networkId,
+            type: 'image',
+            advertiser_id: advertiserId,
+            preview_url: source.image_url,
+            active: { url: source.target_url },
+            active_placement: true,
+            notes: source.image_alt_text || undefined,
+            created_locally: true,
+            synced_with_api: false,
+            created_at: new Date(),
+            sync_errors: [],
+          });
+        const sync = draft.synced_with_api
+          ? ALREADY_SYNCED
+          : await syncService.syncAdvertisement(draft);
+        const broadstreetId = draft.original_broadstreet_id;
+        await logStep('advertisements', 'advertisement', String(draft._id), draft.name, sync, broadstreetId);
+        if (sync.success && broadstreetId) {
+          advertisementIds.set(confirmed.index, broadstreetId);
+        }
+      }
+      const failedAds = input.advertisements.length - advertisementIds.size;
+      await auditService.completePhase(syncLogId, 'advertisements', failedAds > 0 ? 'error' : 'success');
+      result.completed_advertisement_ids = [...advertisementIds.values()];
+
+      // Placements for the ads that made it to Broadstreet
+      const placements = input.placements.filter(p => advertisementIds.has(p.advertisement_index));
+      if (placements.length > 0) {
+        await auditService.startPhase(syncLogId, 'placements', placements.length);
+        for (const proposal of placements) {
+          const advertisementId = advertisementIds.get(proposal.advertisement_index)!;
+          const key = { campaign_id: campaignId, advertisement_id: advertisementId, zone_id: proposal.zone_id };
+          const name = `Advertisement ${advertisementId} in zone ${proposal.zone_id}`;
+
+          const placement = await Placement.findOne(key)
+            || await placementService.createLocalPlacement({ network_id: networkId, advertiser_id: advertiserId, ...key });
+          const sync = placement.synced_with_api
+            ? ALREADY_SYNCED
+            : await placementService.syncPlacementToBroadstreet(placement);
+          await logStep('placements', 'placement', String(placement._id), name, sync);
+        }
+        await auditService.completePhase(
+          syncLogId,
+          'placements',
+          steps.some(step => step.entityType === 'placement' && !step.success) ? 'error' : 'success'
+        );
+      }
+
+      const failures = steps.filter(step => !step.success);
+      if (failures.length > 0) {
+        return await this.finishFailed(syncLogId, result, `${failures.length} of ${steps.length} items could not be synced`);
+      }
+
+      await auditService.completeSyncLog(syncLogId, 'success');
+      await this.markCompleted(requestId, campaignId, result.completed_advertisement_ids, actor);
+      result.success = true;
+      return result;
+    } catch (error) {
+      await auditService.completeSyncLog(syncLogId, 'error', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  private async finishFailed(syncLogId: string, result: FulfilmentResult, summary: string): Promise<FulfilmentResult> {
+    await auditService.completeSyncLog(syncLogId, 'error', summary);
+    return result;
+  }
+
+  private async markCompleted(requestId: string, campaignId: number, advertisementIds: number[], actor: RequestActor) {
+    const { changes, historyEntry } = planTransition('in_progress', 'completed', actor, {
+      notes: `Fulfilled as Broadstreet campaign ${campaignId} with ${advertisementIds.length} advertisement(s)`,
+      completion: { completed_campaign_id: campaignId, completed_advertisement_ids: advertisementIds },
+    });
+    // Guarded on the status so a concurrent status change is not overwritten
+    await AdvertisingRequest.updateOne(
+      { _id: requestId, status: 'in_progress' },
+      {
+        $set: { ...changes, status: 'completed' },
+        $push: { status_history: historyEntry },
+      }
+    );
+  }
+
+  private async loadRequest(requestId: string): Promise<IAdvertisingRequest> {
+    await connectDB();
+    const request = await AdvertisingRequest.findById(requestId);
+    if (!request) {
+      throw new FulfilmentError('Advertising request not found', 404);
+    }
+    return request;
+  }
+}
+
+export const requestFulfilmentService = new RequestFulfilmentService();
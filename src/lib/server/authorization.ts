@@ -0,0 +1,51 @@
+/**
+ * AUTHORIZATION - ROLE CHECKS FOR API ROUTES
+ *
+ * Resolves the signed-in user's role from Clerk public metadata and checks it
+ * against the permission table in src/lib/access-control.ts. Server-side only.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { Permission, UserRole, hasPermission, resolveUserRole } from '@/lib/access-control';
+
+export interface AccessContext {
+  userId: string;
+  role: UserRole;
+}
+
+/**
+ * The signed-in user and their role, or null when not authenticated
+ */
+export async function getAccessContext(): Promise<AccessContext | null> {
+  const { userId } = await auth();
+  if (!userId) return null;
+
+  const user = await currentUser();
+  return { userId, role: resolveUserRole(user?.publicMetadata) };
+}
+
+/**
+ * Check a permission at the top of a route handler:
+ *
+ *   const access = await requirePermission('sync:run');
+ *   if (access instanceof NextResponse) return access;
+ *
+ * Returns the access context, or a 401/403 response to send back as is.
+ */
+export async function requirePermission(permission: Permission): Promise<AccessContext | NextResponse> {
+  const access = await getAccessContext();
+  if (!access) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+  if (!hasPermission(access.role, permission)) {
+    return NextResponse.json(
+      { error: `Your role (${access.role}) does not allow this action` },
+      { status: 403 }
+    );
+  }
+  return access;
+}
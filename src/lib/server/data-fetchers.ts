@@ -26,6 +26,7 @@ import LocalNetwork from '@/lib/models/local-network';
 import LocalAdvertisement from '@/lib/models/local-advertisement';
 import Placement from '@/lib/models/placement';
 import Theme from '@/lib/models/theme';
+import { apiConnectionService, connectionFilter } from '@/lib/api-connection-service';
 
 // Types for query parameters
 interface BaseQueryParams {
@@ -38,6 +39,9 @@ interface BaseQueryParams {
   type?: string;
 }
 
+// Synced entities soft-marked by incremental download sync are hidden from lists and counts
+const EXCLUDE_DELETED_REMOTELY = { deleted_remotely: { $ne: true } };
+
 interface PlacementQueryParams extends BaseQueryParams {
   advertiserId?: string;
   campaignId?: string;
@@ -130,8 +134,11 @@ export async function fetchNetworks(params: BaseQueryParams = {}): Promise<any[]
   try {
     await connectDB();
     
-    // Build query based on parameters
-    const query: any = {};
+    // Build query based on parameters; only the networks of the connection picked in the header
+    const query: any = {
+      ...EXCLUDE_DELETED_REMOTELY,
+      ...connectionFilter(await apiConnectionService.resolveActive()),
+    };
     
     // Add search filter if provided
     if (params.search) {
@@ -211,7 +218,7 @@ export async function fetchAdvertisers(networkId: string | number | undefined, p
 
     if (fetchSynced) {
       promises.push(
-        Advertiser.find(query)
+        Advertiser.find({ ...query, ...EXCLUDE_DELETED_REMOTELY })
           .sort({ name: 1 })
           .lean()
       );
@@ -286,7 +293,7 @@ export async function fetchZones(networkId: string | number | undefined, params:
 
     // Fetch zones from both models in parallel
     const [apiZones, localZones] = await Promise.all([
-      Zone.find(query).sort({ name: 1 }).lean(),
+      Zone.find({ ...query, ...EXCLUDE_DELETED_REMOTELY }).sort({ name: 1 }).lean(),
       // Show only truly local, not-yet-synced zones
       LocalZone.find({ ...query, synced_with_api: false }).sort({ name: 1 }).lean()
     ]);
@@ -382,7 +389,7 @@ export async function fetchCampaigns(advertiserId: string | number | undefined,
 
     // Fetch campaigns from both models in parallel
     const [syncedCampaigns, localCampaigns] = await Promise.all([
-      Campaign.find(query).sort({ name: 1 }).lean(),
+      Campaign.find({ ...query, ...EXCLUDE_DELETED_REMOTELY }).sort({ name: 1 }).lean(),
       // Show only truly local, not-yet-synced campaigns
       LocalCampaign.find({ ...localQuery, synced_with_api: false }).sort({ name: 1 }).lean()
     ]);
@@ -444,7 +451,7 @@ export async function fetchAdvertisements(advertiserId: string | number | undefi
       query.type = params.type;
     }
     
-    const advertisements = await Advertisement.find(query)
+    const advertisements = await Advertisement.find({ ...query, ...EXCLUDE_DELETED_REMOTELY })
       .sort({ name: 1 })
       .lean();
     
@@ -860,12 +867,11 @@ export async function getEntityCounts(networkId: string | number | undefined): P
   try {
     await connectDB();
 
-    const query = networkId ? { network_id: networkId } : {};
+    const query = networkId ? { network_id: Number(networkId) } : {};
 
     // Count embedded placements from campaigns (this is where sync stores them)
-    // TEMP FIX: Don't filter by network_id since campaigns don't have it set
     const placementCountResult = await Campaign.aggregate([
-      { $match: {} },
+      { $match: { ...query, ...EXCLUDE_DELETED_REMOTELY } },
       { $project: { placementCount: { $size: { $ifNull: ['$placements', []] } } } },
       { $group: { _id: null, totalPlacements: { $sum: '$placementCount' } } }
     ]);
@@ -880,13 +886,11 @@ export async function getEntityCounts(networkId: string | number | undefined): P
       localPlacementCount,
       localEntityCounts
     ] = await Promise.all([
-      networkId ? 1 : Network.countDocuments({}),
-      Advertiser.countDocuments(query),
-      // TEMP FIX: Don't filter campaigns by network_id since they don't have it set
-      Campaign.countDocuments({}),
-      Zone.countDocuments(query),
-      // TEMP FIX: Don't filter advertisements by network_id since they don't have it set
-      Advertisement.countDocuments({}),
+      networkId ? 1 : Network.countDocuments({ ...EXCLUDE_DELETED_REMOTELY }),
+      Advertiser.countDocuments({ ...query, ...EXCLUDE_DELETED_REMOTELY }),
+      Campaign.countDocuments({ ...query, ...EXCLUDE_DELETED_REMOTELY }),
+      Zone.countDocuments({ ...query, ...EXCLUDE_DELETED_REMOTELY }),
+      Advertisement.countDocuments({ ...query, ...EXCLUDE_DELETED_REMOTELY }),
       // Count local placements from the Placement collection (local-only placements)
       Placement.countDocuments({ ...query, created_locally: true, synced_with_api: false }),
       Promise.all([
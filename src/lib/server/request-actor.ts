@@ -0,0 +1,58 @@
+/**
+ * REQUEST ACTOR - CLERK USERS FOR ADVERTISING REQUEST HISTORY AND ASSIGNMENT
+ *
+ * Resolves Clerk users into the actors recorded on status-history entries,
+ * the users a request can be assigned to and notification recipients. Server-side only.
+ */
+
+import { auth, clerkClient, currentUser, type User } from '@clerk/nextjs/server';
+import type { RequestActor } from '@/lib/advertising-request-workflow';
+import { hasPermission, resolveUserRole } from '@/lib/access-control';
+
+// Upper bound for the assignee picker; the sales team is far smaller
+const MAX_ASSIGNEES = 200;
+
+function toRequestActor(user: User): RequestActor {
+  return {
+    user_id: user.id,
+    user_name: user.fullName || user.username || user.id,
+    // History entries require an email; Clerk users without one are recorded as unknown
+    user_email: user.primaryEmailAddress?.emailAddress || 'unknown',
+  };
+}
+
+/**
+ * The signed-in user as a workflow actor, or null when not authenticated
+ */
+export async function getRequestActor(): Promise<RequestActor | null> {
+  const { userId } = await auth();
+  if (!userId) return null;
+
+  const user = await currentUser();
+  return user ? toRequestActor(user) : { user_id: userId, user_name: userId, user_email: 'unknown' };
+}
+
+/**
+ * A Clerk user by ID, or null when no such user exists
+ */
+export async function getRequestUser(userId: string): Promise<RequestActor | null> {
+  try {
+    const client = await clerkClient();
+    return toRequestActor(await client.users.getUser(userId));
+  } catch (error) {
+    console.warn(`Clerk user ${userId} not found:`, error);
+    return null;
+  }
+}
+
+/**
+ * Users that requests can be assigned to (roles with requests:manage), sorted by name.
+ * They are also the audience for new-request notifications.
+ */
+export async function listRequestAssignees(): Promise<RequestActor[]> {
+  const client = await clerkClient();
+  const { data } = await client.users.getUserList({ limit: MAX_ASSIGNEES, orderBy: '+first_name' });
+  return data
+    .filter(user => hasPermission(resolveUserRole(user.publicMetadata), 'requests:manage'))
+    .map(toRequestActor);
+}
@@ -0,0 +1,59 @@
+/**
+ * SECRET ENCRYPTION - TOKENS AT REST
+ *
+ * AES-256-GCM for secrets stored in Mongo (Broadstreet API tokens). The key is derived
+ * from API_CONNECTION_SECRET, so rotating that variable makes stored tokens unreadable;
+ * re-enter them afterwards. Server-side only.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+// Stored as "v1:<iv>:<auth tag>:<ciphertext>", base64 parts
+const FORMAT_VERSION = 'v1';
+
+function getKey(): Buffer {
+  const secret = process.env.API_CONNECTION_SECRET;
+  if (!secret) {
+    throw new Error('API_CONNECTION_SECRET environment variable is required to store API tokens');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised encrypted secret');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Whether a stored secret decrypts with the current API_CONNECTION_SECRET
+ */
+export function isReadableSecret(encrypted: string | undefined): boolean {
+  if (!encrypted) return false;
+  try {
+    decryptSecret(encrypted);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Last characters of a token, to tell connections apart without revealing it
+ */
+export function getSecretHint(plaintext: string): string {
+  return plaintext.length > 8 ? `…${plaintext.slice(-4)}` : '…';
+}
@@ -1,12 +1,15 @@
 /**
  * Email Service for Advertising Requests
- * Handles email notifications for status changes and workflow events
- * 
- * Note: This is a placeholder implementation for future role-based notifications
+ * Renders notification emails and delivers them through the configured transport.
+ * Recipients, preferences and retries live in the notification outbox (notification-service).
  */
 
+import { promises as fs } from 'fs';
+import path from 'path';
 import nodemailer from 'nodemailer';
 import type { IAdvertisingRequest } from '@/lib/models/advertising-request';
+import type { NotificationEvent, NotificationTransportName } from '@/lib/notification-events';
+import { getRequestStatusLabel } from '@/lib/advertising-request-workflow';
 
 // Email configuration
 const EMAIL_CONFIG = {
@@ -17,6 +20,9 @@ const EMAIL_CONFIG = {
   pass: process.env.SMTP_PASS!,
 };
 
+// Where the file transport writes rendered emails
+const FILE_TRANSPORT_DIR = process.env.NOTIFICATION_FILE_DIR || '.notifications';
+
 // Validate required environment variables
 function validateEmailConfig() {
   const required = ['SMTP_HOST', 'SMTP_USER', 'SMTP_PASS'];
@@ -49,58 +55,62 @@ function getTransporter(): nodemailer.Transporter {
 }
 
 /**
- * Email template types
+ * Data for rendering a notification email
  */
-export type EmailTemplate = 
-  | 'request_created'
-  | 'request_assigned'
-  | 'status_changed'
-  | 'request_completed'
-  | 'request_cancelled';
+export interface EmailData {
+  request: Pick<IAdvertisingRequest, '_id' | 'advertiser_name' | 'campaign_name' | 'status'
+    | 'created_by_user_name' | 'created_by_user_email' | 'completed_campaign_id'
+    | 'completed_advertisement_ids' | 'completed_by_user_name'>;
+  recipientName?: string;
+  // Status changes
+  oldStatus?: string;
+  newStatus?: string;
+  changedBy?: string;
+  notes?: string;
+  // Assignment
+  assignedTo?: string;
+  assignedBy?: string;
+  // Comments
+  comment?: string;
+}
 
 /**
- * Email notification result
+ * A rendered email, ready for a transport
  */
-export interface EmailResult {
-  success: boolean;
-  messageId?: string;
-  error?: string;
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
 }
 
-/**
- * Base email data interface
- */
-interface BaseEmailData {
-  request: IAdvertisingRequest;
-  recipient: string;
-  recipientName?: string;
+export interface OutgoingEmail extends RenderedEmail {
+  to: string;
+  toName?: string;
 }
 
 /**
- * Status change email data
+ * Delivers rendered emails. Throws when delivery fails so the outbox can retry.
  */
-interface StatusChangeEmailData extends BaseEmailData {
-  oldStatus: string;
-  newStatus: string;
-  changedBy: string;
-  notes?: string;
+export interface EmailTransport {
+  name: NotificationTransportName;
+  send(email: OutgoingEmail): Promise<{ messageId: string }>;
 }
 
-/**
- * Assignment email data
- */
-interface AssignmentEmailData extends BaseEmailData {
-  assignedBy: string;
-  assignedTo: string;
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
 /**
  * Generate email subject based on template and data
  */
-function generateSubject(template: EmailTemplate, data: BaseEmailData): string {
+function generateSubject(template: NotificationEvent, data: EmailData): string {
   const requestNumber = String(data.request._id).slice(-8).toUpperCase();
   const companyName = data.request.advertiser_name;
-  
+
   switch (template) {
     case 'request_created':
       return `New Advertising Request: ${requestNumber} - ${companyName}`;
@@ -112,6 +122,10 @@ function generateSubject(template: EmailTemplate, data: BaseEmailData): string {
       return `Request Completed: ${requestNumber} - ${companyName}`;
     case 'request_cancelled':
       return `Request Cancelled: ${requestNumber} - ${companyName}`;
+    case 'comment_added':
+      return `New Comment: ${requestNumber} - ${companyName}`;
+    case 'comment_mention':
+      return `${data.changedBy || 'Someone'} mentioned you: ${requestNumber} - ${companyName}`;
     default:
       return `Advertising Request Update: ${requestNumber}`;
   }
@@ -120,84 +134,106 @@ function generateSubject(template: EmailTemplate, data: BaseEmailData): string {
 /**
  * Generate email HTML content based on template and data
  */
-function generateEmailContent(template: EmailTemplate, data: any): string {
+function generateEmailContent(template: NotificationEvent, data: EmailData): string {
   const { request } = data;
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
   const requestNumber = String(request._id).slice(-8).toUpperCase();
-  const requestUrl = `${baseUrl}/sales/audit-log?request=${request._id}`;
-  
+  const requestUrl = `${baseUrl}/sales/request/${request._id}/view`;
+  const notes = data.notes ? `<p><strong>Notes:</strong> ${escapeHtml(data.notes)}</p>` : '';
+  const comment = `<blockquote style="margin: 0; padding: 8px 12px; border-left: 3px solid #ddd; white-space: pre-wrap;">${escapeHtml(data.comment)}</blockquote>`;
+
   const commonFooter = `
     <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
     <p style="color: #666; font-size: 12px;">
       View this request: <a href="${requestUrl}">${requestNumber}</a><br>
       This is an automated notification from the Broadstreet Campaigns system.
+      You can change which emails you receive under Sales &rarr; Notifications.
     </p>
   `;
-  
+
   switch (template) {
     case 'request_created':
       return `
         <h2>New Advertising Request Created</h2>
         <p><strong>Request Number:</strong> ${requestNumber}</p>
-        <p><strong>Company:</strong> ${request.advertiser_name}</p>
-        <p><strong>Contact:</strong> ${request.created_by_user_name} (${request.created_by_user_email})</p>
-        <p><strong>Campaign:</strong> ${request.campaign_name}</p>
-        <p><strong>Created By:</strong> ${request.created_by_user_name}</p>
-        <p><strong>Status:</strong> ${request.status}</p>
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>Contact:</strong> ${escapeHtml(request.created_by_user_name)} (${escapeHtml(request.created_by_user_email)})</p>
+        <p><strong>Campaign:</strong> ${escapeHtml(request.campaign_name)}</p>
+        <p><strong>Status:</strong> ${escapeHtml(getRequestStatusLabel(request.status))}</p>
         ${commonFooter}
       `;
-      
+
     case 'request_assigned':
-      const assignmentData = data as AssignmentEmailData;
       return `
         <h2>Advertising Request Assigned</h2>
         <p><strong>Request Number:</strong> ${requestNumber}</p>
-        <p><strong>Company:</strong> ${request.advertiser_name}</p>
-        <p><strong>Assigned To:</strong> ${assignmentData.assignedTo}</p>
-        <p><strong>Assigned By:</strong> ${assignmentData.assignedBy}</p>
-        <p><strong>Campaign:</strong> ${request.campaign_name}</p>
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>Assigned To:</strong> ${escapeHtml(data.assignedTo || 'Nobody')}</p>
+        <p><strong>Assigned By:</strong> ${escapeHtml(data.assignedBy)}</p>
+        <p><strong>Campaign:</strong> ${escapeHtml(request.campaign_name)}</p>
         ${commonFooter}
       `;
-      
+
     case 'status_changed':
-      const statusData = data as StatusChangeEmailData;
       return `
         <h2>Status Changed</h2>
         <p><strong>Request Number:</strong> ${requestNumber}</p>
-        <p><strong>Company:</strong> ${request.advertiser_name}</p>
-        <p><strong>Status Changed:</strong> ${statusData.oldStatus} → ${statusData.newStatus}</p>
-        <p><strong>Changed By:</strong> ${statusData.changedBy}</p>
-        ${statusData.notes ? `<p><strong>Notes:</strong> ${statusData.notes}</p>` : ''}
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>Status Changed:</strong> ${escapeHtml(getRequestStatusLabel(data.oldStatus || ''))} → ${escapeHtml(getRequestStatusLabel(data.newStatus || request.status))}</p>
+        <p><strong>Changed By:</strong> ${escapeHtml(data.changedBy)}</p>
+        ${notes}
         ${commonFooter}
       `;
-      
+
     case 'request_completed':
       return `
         <h2>Request Completed</h2>
         <p><strong>Request Number:</strong> ${requestNumber}</p>
-        <p><strong>Company:</strong> ${request.advertiser_name}</p>
-        <p><strong>Advertisement:</strong> ${request.advertisement.name}</p>
-        <p><strong>Completed By:</strong> ${request.completion_data?.completed_by}</p>
-        ${request.completion_data?.completion_notes ? 
-          `<p><strong>Completion Notes:</strong> ${request.completion_data.completion_notes}</p>` : ''}
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>Campaign:</strong> ${escapeHtml(request.campaign_name)} (Broadstreet ID ${escapeHtml(request.completed_campaign_id)})</p>
+        <p><strong>Advertisements:</strong> ${escapeHtml((request.completed_advertisement_ids || []).join(', '))}</p>
+        <p><strong>Completed By:</strong> ${escapeHtml(request.completed_by_user_name || data.changedBy)}</p>
+        ${notes}
         ${commonFooter}
       `;
-      
+
     case 'request_cancelled':
       return `
         <h2>Request Cancelled</h2>
         <p><strong>Request Number:</strong> ${requestNumber}</p>
-        <p><strong>Company:</strong> ${request.advertiser_name}</p>
-        <p><strong>Advertisement:</strong> ${request.advertisement.name}</p>
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>Campaign:</strong> ${escapeHtml(request.campaign_name)}</p>
+        <p><strong>Cancelled By:</strong> ${escapeHtml(data.changedBy)}</p>
+        ${notes}
         <p>This request has been cancelled and will not be processed further.</p>
         ${commonFooter}
       `;
-      
+
+    case 'comment_added':
+      return `
+        <h2>New Comment</h2>
+        <p><strong>Request Number:</strong> ${requestNumber}</p>
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>${escapeHtml(data.changedBy)} wrote:</strong></p>
+        ${comment}
+        ${commonFooter}
+      `;
+
+    case 'comment_mention':
+      return `
+        <h2>You Were Mentioned</h2>
+        <p><strong>Request Number:</strong> ${requestNumber}</p>
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
+        <p><strong>${escapeHtml(data.changedBy)} mentioned you:</strong></p>
+        ${comment}
+        ${commonFooter}
+      `;
+
     default:
       return `
         <h2>Advertising Request Update</h2>
         <p><strong>Request Number:</strong> ${requestNumber}</p>
-        <p><strong>Company:</strong> ${request.advertiser_name}</p>
+        <p><strong>Company:</strong> ${escapeHtml(request.advertiser_name)}</p>
         <p>An update has been made to this advertising request.</p>
         ${commonFooter}
       `;
@@ -205,119 +241,78 @@ function generateEmailContent(template: EmailTemplate, data: any): string {
 }
 
 /**
- * Send email notification
+ * Render a notification email
  */
-export async function sendEmailNotification(
-  template: EmailTemplate,
-  data: BaseEmailData | StatusChangeEmailData | AssignmentEmailData
-): Promise<EmailResult> {
-  try {
-    const subject = generateSubject(template, data);
-    const htmlContent = generateEmailContent(template, data);
-
-    console.log('📧 Sending email notification:', {
-      template,
-      to: data.recipient,
-      subject,
-      requestNumber: String(data.request._id).slice(-8).toUpperCase(),
-    });
-
-    const transporter = getTransporter();
-
-    const mailOptions = {
-      from: `"Broadstreet Campaigns" <${EMAIL_CONFIG.user}>`,
-      to: data.recipient,
-      subject,
-      html: htmlContent,
-      text: htmlContent.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-    };
-
-    const info = await transporter.sendMail(mailOptions);
-
-    return {
-      success: true,
-      messageId: info.messageId,
-    };
-    
-  } catch (error) {
-    console.error('Email sending error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown email error',
-    };
-  }
+export function renderEmail(template: NotificationEvent, data: EmailData): RenderedEmail {
+  const html = generateEmailContent(template, data);
+  return {
+    subject: generateSubject(template, data),
+    html,
+    text: html.replace(/<[^>]*>/g, '').replace(/\n\s*\n+/g, '\n\n').trim(), // Strip HTML for text version
+  };
 }
 
 /**
- * Send notification for new request creation
+ * Sends through the configured SMTP server
  */
-export async function notifyRequestCreated(
-  request: IAdvertisingRequest,
-  recipients: string[]
-): Promise<EmailResult[]> {
-  const results: EmailResult[] = [];
-  
-  for (const recipient of recipients) {
-    const result = await sendEmailNotification('request_created', {
-      request,
-      recipient,
+const smtpTransport: EmailTransport = {
+  name: 'smtp',
+  async send(email) {
+    const info = await getTransporter().sendMail({
+      from: `"Broadstreet Campaigns" <${EMAIL_CONFIG.user}>`,
+      to: email.toName ? `"${email.toName}" <${email.to}>` : email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
     });
-    results.push(result);
-  }
-  
-  return results;
-}
+    return { messageId: info.messageId };
+  },
+};
 
 /**
- * Send notification for status changes
+ * Writes each email to NOTIFICATION_FILE_DIR as an HTML file, for local development
  */
-export async function notifyStatusChange(
-  request: IAdvertisingRequest,
-  oldStatus: string,
-  newStatus: string,
-  changedBy: string,
-  recipients: string[],
-  notes?: string
-): Promise<EmailResult[]> {
-  const results: EmailResult[] = [];
-  
-  for (const recipient of recipients) {
-    const result = await sendEmailNotification('status_changed', {
-      request,
-      recipient,
-      oldStatus,
-      newStatus,
-      changedBy,
-      notes,
-    });
-    results.push(result);
-  }
-  
-  return results;
-}
+const fileTransport: EmailTransport = {
+  name: 'file',
+  async send(email) {
+    await fs.mkdir(FILE_TRANSPORT_DIR, { recursive: true });
+    const safeRecipient = email.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(FILE_TRANSPORT_DIR, `${Date.now()}-${safeRecipient}.html`);
+    const headers = `<!--\nTo: ${email.toName || ''} <${email.to}>\nSubject: ${email.subject}\n-->\n`;
+    await fs.writeFile(filePath, headers + email.html, 'utf8');
+    return { messageId: `file:${filePath}` };
+  },
+};
 
 /**
- * Send notification for request assignment
+ * Sends nothing; the rendered email stays readable on its outbox entry
  */
-export async function notifyRequestAssigned(
-  request: IAdvertisingRequest,
-  assignedTo: string,
-  assignedBy: string,
-  recipients: string[]
-): Promise<EmailResult[]> {
-  const results: EmailResult[] = [];
-  
-  for (const recipient of recipients) {
-    const result = await sendEmailNotification('request_assigned', {
-      request,
-      recipient,
-      assignedTo,
-      assignedBy,
-    });
-    results.push(result);
+const mongoTransport: EmailTransport = {
+  name: 'mongo',
+  async send() {
+    return { messageId: `mongo:${Date.now()}` };
+  },
+};
+
+const TRANSPORTS: Record<NotificationTransportName, EmailTransport> = {
+  smtp: smtpTransport,
+  file: fileTransport,
+  mongo: mongoTransport,
+};
+
+/**
+ * Transport from NOTIFICATION_TRANSPORT (smtp, file or mongo). Without it, SMTP is used when
+ * configured; development falls back to mongo, production keeps SMTP so missing config surfaces.
+ */
+export function getEmailTransport(): EmailTransport {
+  const configured = process.env.NOTIFICATION_TRANSPORT as NotificationTransportName | undefined;
+  if (configured && TRANSPORTS[configured]) {
+    return TRANSPORTS[configured];
   }
-  
-  return results;
+  if (process.env.SMTP_HOST || process.env.NODE_ENV === 'production') {
+    return smtpTransport;
+  }
+  return mongoTransport;
 }
 
 /**
@@ -333,17 +328,3 @@ export async function testEmailConnection(): Promise<boolean> {
     return false;
   }
 }
-
-/**
- * Get default notification recipients (placeholder for role-based system)
- */
-export function getNotificationRecipients(eventType: EmailTemplate): string[] {
-  // Placeholder - in the future, this will query user roles and preferences
-  const defaultRecipients: string[] = [
-    // 'sales@company.com',
-    // 'admin@company.com',
-  ];
-
-  console.log(`📧 Would notify recipients for ${eventType}:`, defaultRecipients);
-  return defaultRecipients;
-}
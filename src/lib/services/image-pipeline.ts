@@ -0,0 +1,178 @@
+/**
+ * Image Pipeline for Advertising Request Creatives
+ * Normalises uploads (orientation applied, EXIF and other metadata stripped) and builds
+ * the derivatives stored next to them: a size-capped web copy for Broadstreet, a list
+ * thumbnail and, for 2x retina uploads, a 1x copy. Storage is left to the caller.
+ */
+
+import { createHash } from 'crypto';
+import sharp, { Sharp } from 'sharp';
+
+export type DerivativeKind = 'original' | 'web' | 'thumbnail' | 'one_x';
+
+export interface ImageDerivative {
+  kind: DerivativeKind;
+  buffer: Buffer;
+  content_type: string;
+  extension: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export interface NormalizedImage extends ImageDerivative {
+  kind: 'original';
+  content_hash: string; // sha256 of the uploaded bytes, used to spot duplicate uploads
+  animated: boolean;
+}
+
+export interface DerivativeOptions {
+  // Exact size for the 1x copy of a retina upload; omitted for 1x uploads
+  oneXSize?: { width: number; height: number } | null;
+}
+
+// Re-encoding the original only removes metadata, so keep it close to the upload
+const ORIGINAL_QUALITY = 95;
+
+// Broadstreet serves the web copy directly, so keep it light
+export const WEB_MAX_FILE_SIZE = 300 * 1024; // 300KB
+const WEB_QUALITY_STEPS = [82, 72, 62, 52];
+
+// Bounding box of list thumbnails (2x for retina screens)
+const THUMBNAIL_SIZE = 240;
+
+type OutputFormat = 'jpeg' | 'png' | 'webp' | 'gif';
+
+const FORMAT_DETAILS: Record<OutputFormat, { content_type: string; extension: string }> = {
+  jpeg: { content_type: 'image/jpeg', extension: 'jpg' },
+  png: { content_type: 'image/png', extension: 'png' },
+  webp: { content_type: 'image/webp', extension: 'webp' },
+  gif: { content_type: 'image/gif', extension: 'gif' },
+};
+
+export class ImagePipelineError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+function toOutputFormat(format: string | undefined): OutputFormat {
+  if (format === 'jpeg' || format === 'jpg') return 'jpeg';
+  if (format === 'png' || format === 'webp' || format === 'gif') return format;
+  throw new ImagePipelineError(`Unsupported image format: ${format || 'unknown'}`);
+}
+
+/**
+ * Encode in the given format. PNGs below the original quality are palette-reduced.
+ */
+function encode(image: Sharp, format: OutputFormat, quality: number): Sharp {
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({ quality, mozjpeg: true });
+    case 'png':
+      return image.png({ compressionLevel: 9, palette: quality < ORIGINAL_QUALITY, quality });
+    case 'webp':
+      return image.webp({ quality });
+    case 'gif':
+      return image.gif();
+  }
+}
+
+async function render(
+  kind: DerivativeKind,
+  image: Sharp,
+  format: OutputFormat,
+  quality: number
+): Promise<ImageDerivative> {
+  const { data, info } = await encode(image, format, quality).toBuffer({ resolveWithObject: true });
+  return {
+    kind,
+    buffer: data,
+    ...FORMAT_DETAILS[format],
+    width: info.width,
+    // Animated images report the height of all frames stacked
+    height: info.pageHeight || info.height,
+    size: info.size,
+  };
+}
+
+/**
+ * Lower the quality step by step until the image fits the size cap. Returns the smallest
+ * attempt when none fits; lossless GIFs are only re-encoded once.
+ */
+async function renderCapped(
+  kind: DerivativeKind,
+  source: () => Sharp,
+  format: OutputFormat,
+  maxSize: number
+): Promise<ImageDerivative> {
+  let smallest: ImageDerivative | null = null;
+  for (const quality of format === 'gif' ? [ORIGINAL_QUALITY] : WEB_QUALITY_STEPS) {
+    const candidate = await render(kind, source(), format, quality);
+    if (!smallest || candidate.size < smallest.size) {
+      smallest = candidate;
+    }
+    if (candidate.size <= maxSize) {
+      break;
+    }
+  }
+  return smallest!;
+}
+
+/**
+ * Apply EXIF orientation and re-encode without metadata. Dimensions are those after
+ * rotation, so they are what a browser shows.
+ */
+export async function normalizeImage(input: Buffer): Promise<NormalizedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw new ImagePipelineError('Failed to read the image. Please ensure the file is a valid image.');
+  }
+
+  const format = toOutputFormat(metadata.format);
+  const animated = (metadata.pages || 1) > 1;
+  const original = await render('original', sharp(input, { animated }).rotate(), format, ORIGINAL_QUALITY);
+
+  return {
+    ...original,
+    kind: 'original',
+    content_hash: createHash('sha256').update(input).digest('hex'),
+    animated,
+  };
+}
+
+/**
+ * Web copy, thumbnail and (for retina uploads) 1x copy of a normalised image
+ */
+export async function buildDerivatives(
+  image: NormalizedImage,
+  options: DerivativeOptions = {}
+): Promise<ImageDerivative[]> {
+  const format = toOutputFormat(image.extension === 'jpg' ? 'jpeg' : image.extension);
+  const source = () => sharp(image.buffer, { animated: image.animated });
+
+  const derivatives: ImageDerivative[] = [
+    await renderCapped('web', source, format, WEB_MAX_FILE_SIZE),
+    // First frame only; thumbnails never animate
+    await render(
+      'thumbnail',
+      sharp(image.buffer).resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true }),
+      'webp',
+      70
+    ),
+  ];
+
+  if (options.oneXSize) {
+    const { width, height } = options.oneXSize;
+    derivatives.push(await renderCapped(
+      'one_x',
+      () => source().resize(width, height, { fit: 'fill' }),
+      format,
+      WEB_MAX_FILE_SIZE
+    ));
+  }
+
+  return derivatives;
+}
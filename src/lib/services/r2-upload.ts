@@ -171,6 +171,7 @@ export async function generatePresignedDownloadUrl(
 
 /**
  * List files in Cloudflare R2 bucket
+ * Without maxKeys every page of the listing is read, not just the first 1000 keys.
  */
 export async function listFiles(
   prefix?: string,
@@ -178,21 +179,29 @@ export async function listFiles(
 ): Promise<Array<{ key: string; size: number; lastModified: Date; etag: string }>> {
   try {
     const client = getS3Client();
-
-    const command = new ListObjectsV2Command({
-      Bucket: R2_CONFIG.bucketName,
-      Prefix: prefix,
-      MaxKeys: maxKeys,
-    });
-
-    const result = await client.send(command);
-
-    return (result.Contents || []).map(item => ({
-      key: item.Key!,
-      size: item.Size!,
-      lastModified: item.LastModified!,
-      etag: item.ETag!,
-    }));
+    const files: Array<{ key: string; size: number; lastModified: Date; etag: string }> = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const command = new ListObjectsV2Command({
+        Bucket: R2_CONFIG.bucketName,
+        Prefix: prefix,
+        MaxKeys: maxKeys,
+        ContinuationToken: continuationToken,
+      });
+
+      const result = await client.send(command);
+
+      files.push(...(result.Contents || []).map(item => ({
+        key: item.Key!,
+        size: item.Size!,
+        lastModified: item.LastModified!,
+        etag: item.ETag!,
+      })));
+      continuationToken = maxKeys === undefined && result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
   } catch (error) {
     console.error('R2 list files error:', error);
     return [];
@@ -0,0 +1,426 @@
+import connectDB from './mongodb';
+import SyncJob, { ISyncJob, ISyncCheckpoint, SyncJobStatus } from './models/sync-job';
+import SyncLog from './models/sync-log';
+import LocalAdvertiser from './models/local-advertiser';
+import LocalCampaign from './models/local-campaign';
+import LocalZone from './models/local-zone';
+import LocalNetwork from './models/local-network';
+import LocalAdvertisement from './models/local-advertisement';
+import Placement from './models/placement';
+import syncService, { SyncReport, SyncResult } from './sync-service';
+import { syncAll } from './utils/sync-helpers';
+import { apiConnectionService } from './api-connection-service';
+
+// A running job writes a heartbeat every HEARTBEAT_INTERVAL_MS while its process is alive;
+// one without a heartbeat for HEARTBEAT_TIMEOUT_MS was interrupted (server restart, crash).
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+
+export const ACTIVE_SYNC_JOB_STATUSES: SyncJobStatus[] = ['running', 'cancelling'];
+export const RESUMABLE_SYNC_JOB_STATUSES: SyncJobStatus[] = ['paused', 'failed'];
+
+export class SyncJobError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface LocalSyncOutcome {
+  success: boolean;
+  jobId: string;
+  report: SyncReport;
+  cancelled?: boolean;
+  cleanup?: {
+    success: boolean;
+    totalDeleted: number;
+    errors: string[];
+  };
+  dashboardSync?: {
+    success: boolean;
+    results?: unknown;
+    error?: string;
+  };
+}
+
+/**
+ * Persisted local-to-Broadstreet sync runs. Each processed entity is checkpointed on the job,
+ * so a cancelled or interrupted run can be resumed where it stopped (as a 'retry' SyncLog).
+ */
+export class SyncJobService {
+  /**
+   * Pause running jobs whose process stopped writing heartbeats
+   */
+  async reapInterruptedJobs(): Promise<number> {
+    await connectDB();
+
+    const staleBefore = new Date(Date.now() - HEARTBEAT_TIMEOUT_MS);
+    const staleJobs = await SyncJob.find({
+      status: { $in: ACTIVE_SYNC_JOB_STATUSES },
+      heartbeatAt: { $lt: staleBefore }
+    });
+
+    for (const job of staleJobs) {
+      job.pausedReason = job.status === 'cancelling' ? 'cancelled' : 'interrupted';
+      job.status = 'paused';
+      await job.save();
+
+      // The run's SyncLog was left half-written
+      if (job.currentSyncLogId) {
+        await SyncLog.updateOne(
+          { _id: job.currentSyncLogId, status: { $in: ['pending', 'running'] } },
+          { $set: { status: 'cancelled', endTime: new Date(), errorSummary: 'Sync interrupted before completion' } }
+        );
+      }
+    }
+
+    return staleJobs.length;
+  }
+
+  async listJobs(statuses: SyncJobStatus[], networkId?: number): Promise<ISyncJob[]> {
+    await this.reapInterruptedJobs();
+
+    const query: Record<string, unknown> = { status: { $in: statuses } };
+    if (networkId) query.networkId = networkId;
+
+    return SyncJob.find(query)
+      .select('-checkpoints')
+      .sort({ createdAt: -1 })
+      .lean<ISyncJob[]>();
+  }
+
+  async getJob(jobId: string): Promise<ISyncJob | null> {
+    await this.reapInterruptedJobs();
+    return SyncJob.findById(jobId).lean<ISyncJob>();
+  }
+
+  /**
+   * Create a running job for a network. Only one job may be active per network;
+   * paused jobs for the network are superseded by the new run.
+   */
+  async startJob(networkId: number): Promise<ISyncJob> {
+    await this.reapInterruptedJobs();
+
+    const active = await SyncJob.findOne({ networkId, status: { $in: ACTIVE_SYNC_JOB_STATUSES } });
+    if (active) {
+      throw new SyncJobError(`A sync is already running for network ${networkId}`, 409);
+    }
+
+    await SyncJob.updateMany(
+      { networkId, status: { $in: RESUMABLE_SYNC_JOB_STATUSES } },
+      { $set: { status: 'discarded', finishedAt: new Date(), errorSummary: 'Superseded by a new sync' } }
+    );
+
+    return SyncJob.create({
+      networkId,
+      status: 'running',
+      runCount: 1,
+      heartbeatAt: new Date(),
+      startedAt: new Date()
+    });
+  }
+
+  /**
+   * Ask a running job to stop after the entity it is currently syncing
+   */
+  async requestCancel(jobId: string): Promise<ISyncJob> {
+    await this.reapInterruptedJobs();
+
+    const job = await SyncJob.findOneAndUpdate(
+      { _id: jobId, status: 'running' },
+      { $set: { status: 'cancelling', cancelRequestedAt: new Date() } },
+      { new: true }
+    );
+    if (job) return job;
+
+    const existing = await SyncJob.findById(jobId);
+    if (!existing) throw new SyncJobError('Sync job not found', 404);
+    if (existing.status === 'cancelling' || existing.status === 'paused') return existing;
+    throw new SyncJobError(`Sync job is ${existing.status} and cannot be cancelled`, 409);
+  }
+
+  /**
+   * Cancel the job that owns a SyncLog (progress API cancel action)
+   */
+  async requestCancelForSyncLog(syncLogId: string): Promise<ISyncJob | null> {
+    await connectDB();
+    const job = await SyncJob.findOne({ currentSyncLogId: syncLogId, status: 'running' });
+    return job ? this.requestCancel(String(job._id)) : null;
+  }
+
+  async discardJob(jobId: string): Promise<ISyncJob> {
+    await this.reapInterruptedJobs();
+
+    const job = await SyncJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: RESUMABLE_SYNC_JOB_STATUSES } },
+      { $set: { status: 'discarded', finishedAt: new Date() } },
+      { new: true }
+    );
+    if (!job) {
+      const existing = await SyncJob.exists({ _id: jobId });
+      throw new SyncJobError(existing ? 'Only paused or failed sync jobs can be discarded' : 'Sync job not found', existing ? 409 : 404);
+    }
+    return job;
+  }
+
+  /**
+   * Continue a paused or failed job from its last checkpoint. Entities that failed are retried.
+   */
+  async resumeJob(jobId: string): Promise<LocalSyncOutcome> {
+    await this.reapInterruptedJobs();
+
+    const existing = await SyncJob.findById(jobId);
+    if (!existing) throw new SyncJobError('Sync job not found', 404);
+
+    const active = await SyncJob.exists({
+      networkId: existing.networkId,
+      status: { $in: ACTIVE_SYNC_JOB_STATUSES },
+      _id: { $ne: existing._id }
+    });
+    if (active) {
+      throw new SyncJobError(`A sync is already running for network ${existing.networkId}`, 409);
+    }
+
+    // Drop failed checkpoints so those entities are retried and the counters stay accurate
+    const failed = existing.checkpoints.filter((c: ISyncCheckpoint) => c.status === 'error').length;
+    const job = await SyncJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: RESUMABLE_SYNC_JOB_STATUSES } },
+      {
+        $set: { status: 'running', heartbeatAt: new Date() },
+        $unset: { pausedReason: 1, cancelRequestedAt: 1, finishedAt: 1, errorSummary: 1 },
+        $pull: { checkpoints: { status: 'error' } },
+        $inc: { runCount: 1, processedEntities: -failed, failedEntities: -failed }
+      },
+      { new: true }
+    );
+    if (!job) {
+      throw new SyncJobError(`Sync job is ${existing.status} and cannot be resumed`, 409);
+    }
+
+    return this.run(job, 'retry');
+  }
+
+  private async isCancelRequested(jobId: string): Promise<boolean> {
+    return !!(await SyncJob.exists({ _id: jobId, status: 'cancelling' }));
+  }
+
+  private async recordCheckpoint(jobId: string, checkpoint: Omit<ISyncCheckpoint, 'timestamp'>): Promise<void> {
+    const counter = checkpoint.status === 'success'
+      ? 'successfulEntities'
+      : checkpoint.status === 'error' ? 'failedEntities' : 'skippedEntities';
+
+    await SyncJob.updateOne(
+      { _id: jobId },
+      {
+        $push: { checkpoints: { ...checkpoint, timestamp: new Date() } },
+        $inc: { processedEntities: 1, [counter]: 1 },
+        $set: { currentPhase: checkpoint.phase, heartbeatAt: new Date() }
+      }
+    );
+  }
+
+  /**
+   * Run (or resume) a job: sync all local entities, then clean up local drafts and
+   * refresh from Broadstreet when everything synced.
+   */
+  async run(job: ISyncJob, syncType: 'full' | 'retry' = 'full'): Promise<LocalSyncOutcome> {
+    const jobId = String(job._id);
+    const networkId = job.networkId;
+
+    const heartbeat = setInterval(() => {
+      SyncJob.updateOne({ _id: jobId }, { $set: { heartbeatAt: new Date() } })
+        .catch(error => console.warn('[sync-job] Heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref?.();
+
+    try {
+      const completedEntityIds = new Set<string>(
+        job.checkpoints.filter((c: ISyncCheckpoint) => c.status !== 'error').map((c: ISyncCheckpoint) => c.entityId)
+      );
+
+      const unsyncedCampCount = await LocalCampaign.countDocuments({ network_id: networkId, synced_with_api: false });
+
+      let syncReport = await syncService.syncAllEntities(networkId, {
+        syncType,
+        completedEntityIds,
+        shouldCancel: () => this.isCancelRequested(jobId),
+        onCheckpoint: (checkpoint) => this.recordCheckpoint(jobId, checkpoint),
+        onSyncLogCreated: async (syncLogId) => {
+          await SyncJob.updateOne(
+            { _id: jobId },
+            { $push: { syncLogIds: syncLogId }, $set: { currentSyncLogId: syncLogId, heartbeatAt: new Date() } }
+          );
+        }
+      });
+
+      if (syncReport.cancelled) {
+        await SyncJob.updateOne(
+          { _id: jobId },
+          { $set: { status: 'paused', pausedReason: 'cancelled', heartbeatAt: new Date() } }
+        );
+        console.log(`[sync-job] Job ${jobId} paused after cancel`);
+        return { success: false, jobId, report: syncReport, cancelled: true };
+      }
+
+      // Run fallback syncs if needed
+      const fallbackResults: SyncResult[] = [];
+      if (unsyncedCampCount > 0) {
+        console.warn('[sync-job] Running campaign-only sync fallback');
+        const campResults = await syncService.syncCampaigns(networkId);
+        fallbackResults.push(...campResults);
+      }
+
+      if (fallbackResults.length > 0) {
+        const skipped = fallbackResults.filter(r => r.skipped).length;
+        const successful = fallbackResults.filter(r => r.success && !r.skipped).length;
+        const failed = fallbackResults.length - successful - skipped;
+        syncReport = {
+          ...syncReport,
+          totalEntities: syncReport.totalEntities + fallbackResults.length,
+          successfulSyncs: syncReport.successfulSyncs + successful,
+          failedSyncs: syncReport.failedSyncs + failed,
+          skippedSyncs: syncReport.skippedSyncs + skipped,
+          results: [...syncReport.results, ...fallbackResults],
+          success: failed === 0 && syncReport.failedSyncs === 0,
+        };
+      }
+      console.log('[sync-job] Sync report summary:', {
+        jobId,
+        success: syncReport.success,
+        totalEntities: syncReport.totalEntities,
+        successfulSyncs: syncReport.successfulSyncs,
+        failedSyncs: syncReport.failedSyncs,
+        skippedSyncs: syncReport.skippedSyncs,
+      });
+
+      if (!syncReport.success) {
+        await this.finish(jobId, 'failed', syncReport.errors.join('; ') || 'Sync completed with errors');
+        return { success: false, jobId, report: syncReport };
+      }
+
+      const outcome = await this.cleanupAndRefresh(jobId, networkId, syncReport);
+      await this.finish(
+        jobId,
+        outcome.success ? 'completed' : 'failed',
+        outcome.success ? undefined : [...(outcome.cleanup?.errors || []), outcome.dashboardSync?.error].filter(Boolean).join('; ')
+      );
+      return outcome;
+    } catch (error) {
+      await this.finish(jobId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async finish(jobId: string, status: 'completed' | 'failed', errorSummary?: string): Promise<void> {
+    await SyncJob.updateOne(
+      { _id: jobId },
+      { $set: { status, finishedAt: new Date(), heartbeatAt: new Date(), errorSummary } }
+    );
+  }
+
+  /**
+   * Delete local drafts that were synced (failed ads and skipped drafts stay) and refresh from Broadstreet
+   */
+  private async cleanupAndRefresh(jobId: string, networkId: number, syncReport: SyncReport): Promise<LocalSyncOutcome> {
+    console.log('[sync-job] Sync successful, starting cleanup and dashboard sync...');
+
+    try {
+      // Step 1: Delete all local-only entities
+      console.log('[sync-job] Deleting all local-only entities...');
+      await connectDB();
+
+      // First, clear embedded placements from synced campaigns (but keep the campaigns)
+      const embeddedPlacementsClearResult = await LocalCampaign.updateMany(
+        { synced_with_api: true, 'placements.0': { $exists: true } },
+        { $unset: { placements: 1 } }
+      );
+      console.log(`[sync-job] Cleared embedded placements from ${embeddedPlacementsClearResult.modifiedCount} synced campaigns`);
+
+      // Drafts skipped during reconciliation stay local, and so do campaigns of a skipped advertiser
+      const notSkipped = { 'reconciliation.action': { $ne: 'skip' } };
+      const skippedAdvertiserIds = (await LocalAdvertiser.find(
+        { synced_with_api: false, 'reconciliation.action': 'skip' },
+        { _id: 1 }
+      ).lean()).map((advertiser: any) => String(advertiser._id));
+
+      const deleteResults = await Promise.allSettled([
+        LocalAdvertiser.deleteMany({ synced_with_api: false, ...notSkipped }),
+        LocalCampaign.deleteMany({ synced_with_api: false, ...notSkipped, advertiser_id: { $nin: skippedAdvertiserIds } }),
+        LocalZone.deleteMany({ synced_with_api: false, ...notSkipped }),
+        // Keep advertisements that failed to upload so they can be fixed and retried
+        LocalAdvertisement.deleteMany({ synced_with_api: false, 'sync_errors.0': { $exists: false } }),
+        LocalNetwork.deleteMany({ synced_with_api: false }),
+        Placement.deleteMany({ created_locally: true, synced_with_api: false }),
+      ]);
+
+      let totalDeleted = 0;
+      const deleteErrors: string[] = [];
+      const entityTypes = ['advertisers', 'campaigns', 'zones', 'advertisements', 'networks', 'placements'];
+
+      deleteResults.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          const deletedCount = result.value.deletedCount || 0;
+          totalDeleted += deletedCount;
+          console.log(`[sync-job] Deleted ${deletedCount} local ${entityTypes[index]}`);
+        } else {
+          const error = `Failed to delete local ${entityTypes[index]}: ${result.reason}`;
+          deleteErrors.push(error);
+          console.error(`[sync-job] ${error}`);
+        }
+      });
+
+      // Add the cleared embedded placements to the total count
+      totalDeleted += embeddedPlacementsClearResult.modifiedCount;
+
+      console.log(`[sync-job] Cleanup completed: ${totalDeleted} entities deleted (including ${embeddedPlacementsClearResult.modifiedCount} embedded placements), ${deleteErrors.length} errors`);
+
+      // Step 2: Trigger dashboard sync to refresh all data from Broadstreet
+      console.log('[sync-job] Starting dashboard sync...');
+      // Refresh the account the network belongs to
+      const connection = await apiConnectionService.getConnectionForNetwork(networkId);
+      const dashboardSyncResult = await syncAll({ connection });
+
+      console.log('[sync-job] Dashboard sync completed:', {
+        success: dashboardSyncResult.success,
+        error: dashboardSyncResult.error
+      });
+
+      return {
+        success: syncReport.success && dashboardSyncResult.success,
+        jobId,
+        report: syncReport,
+        cleanup: {
+          success: deleteErrors.length === 0,
+          totalDeleted,
+          errors: deleteErrors
+        },
+        dashboardSync: {
+          success: dashboardSyncResult.success,
+          results: dashboardSyncResult.results,
+          error: dashboardSyncResult.error
+        }
+      };
+    } catch (cleanupError) {
+      console.error('[sync-job] Cleanup/dashboard sync failed:', cleanupError);
+
+      // Partial success - sync worked but cleanup failed
+      return {
+        success: false,
+        jobId,
+        report: syncReport,
+        cleanup: {
+          success: false,
+          totalDeleted: 0,
+          errors: [cleanupError instanceof Error ? cleanupError.message : 'Unknown cleanup error']
+        },
+        dashboardSync: {
+          success: false,
+          error: 'Cleanup failed, dashboard sync not attempted'
+        }
+      };
+    }
+  }
+}
+
+export const syncJobService = new SyncJobService();
@@ -0,0 +1,243 @@
+import connectDB from './mongodb';
+import SyncLog, { ISyncLog, ISyncOperation } from './models/sync-log';
+import SyncJob from './models/sync-job';
+import LocalAdvertiser from './models/local-advertiser';
+import LocalCampaign from './models/local-campaign';
+import LocalZone from './models/local-zone';
+import LocalAdvertisement from './models/local-advertisement';
+import Placement from './models/placement';
+import syncService, { SyncReport } from './sync-service';
+import { ACTIVE_SYNC_JOB_STATUSES } from './sync-job-service';
+
+// Only runs of the local-to-Broadstreet sync record operations that can be re-run
+const RETRYABLE_SYNC_TYPES: ISyncLog['syncType'][] = ['full', 'retry'];
+
+const LOCAL_MODELS: Record<ISyncOperation['entityType'], any> = {
+  advertiser: LocalAdvertiser,
+  zone: LocalZone,
+  campaign: LocalCampaign,
+  advertisement: LocalAdvertisement,
+  placement: Placement,
+};
+
+export class SyncRetryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface FailedOperation {
+  entityType: ISyncOperation['entityType'];
+  entityId: string;
+  entityName: string;
+  errorCode?: ISyncOperation['errorCode'];
+  errorMessage?: string;
+  // Why the operation is left out of a retry
+  reason?: string;
+}
+
+export interface SyncRetryPlan {
+  syncLogId: string;
+  networkId: number;
+  retryable: FailedOperation[];
+  notRetryable: FailedOperation[];
+}
+
+export interface SyncRunSummary {
+  _id: string;
+  networkId: number;
+  syncType: ISyncLog['syncType'];
+  status: ISyncLog['status'];
+  retryOfSyncLogId?: string;
+  startTime: Date;
+  endTime?: Date;
+  duration?: number;
+  totalEntities: number;
+  successfulEntities: number;
+  failedEntities: number;
+  skippedEntities: number;
+  errorSummary?: string;
+  retryableCount: number;
+}
+
+export interface SyncRetryOutcome {
+  success: boolean;
+  retryOfSyncLogId: string;
+  syncLogId?: string;
+  plan: SyncRetryPlan;
+  report: SyncReport;
+}
+
+/**
+ * "Retry failed" for past local sync runs: re-runs only the operations of a SyncLog that
+ * failed for a transient reason, in the usual dependency order, under a new linked 'retry' log.
+ */
+export class SyncRetryService {
+  async listRuns(networkId?: number, limit: number = 20): Promise<SyncRunSummary[]> {
+    await connectDB();
+
+    const query: Record<string, unknown> = { syncType: { $in: RETRYABLE_SYNC_TYPES } };
+    if (networkId) query.networkId = networkId;
+
+    const logs = await SyncLog.find(query)
+      .sort({ startTime: -1 })
+      .limit(limit)
+      .lean<ISyncLog[]>();
+
+    const summaries: SyncRunSummary[] = [];
+    for (const log of logs) {
+      const plan = log.failedEntities > 0 && !this.isInProgress(log)
+        ? await this.buildPlan(log)
+        : null;
+
+      summaries.push({
+        _id: String(log._id),
+        networkId: log.networkId,
+        syncType: log.syncType,
+        status: log.status,
+        retryOfSyncLogId: log.retryOfSyncLogId,
+        startTime: log.startTime,
+        endTime: log.endTime,
+        duration: log.duration,
+        totalEntities: log.totalEntities,
+        successfulEntities: log.successfulEntities,
+        failedEntities: log.failedEntities,
+        skippedEntities: log.skippedEntities,
+        errorSummary: log.errorSummary,
+        retryableCount: plan ? plan.retryable.length : 0,
+      });
+    }
+
+    return summaries;
+  }
+
+  async getPlan(syncLogId: string): Promise<SyncRetryPlan> {
+    const log = await this.loadRetryableLog(syncLogId);
+    return this.buildPlan(log);
+  }
+
+  /**
+   * Re-run the retryable failed operations of a sync log. Drafts that still fail keep their
+   * sync_errors; nothing else is deleted or refreshed, unlike a full local sync.
+   */
+  async retryFailed(syncLogId: string): Promise<SyncRetryOutcome> {
+    const log = await this.loadRetryableLog(syncLogId);
+
+    if (this.isInProgress(log)) {
+      throw new SyncRetryError('This sync is still running', 409);
+    }
+
+    const activeJob = await SyncJob.exists({ networkId: log.networkId, status: { $in: ACTIVE_SYNC_JOB_STATUSES } });
+    if (activeJob) {
+      throw new SyncRetryError(`A sync is already running for network ${log.networkId}`, 409);
+    }
+
+    const activeRetry = await SyncLog.exists({ retryOfSyncLogId: syncLogId, status: { $in: ['pending', 'running'] } });
+    if (activeRetry) {
+      throw new SyncRetryError('A retry of this sync is already running', 409);
+    }
+
+    const plan = await this.buildPlan(log);
+    if (plan.retryable.length === 0) {
+      throw new SyncRetryError('No failed operations in this sync can be retried', 409);
+    }
+
+    const report = await syncService.syncAllEntities(log.networkId, {
+      syncType: 'retry',
+      onlyEntityIds: new Set(plan.retryable.map(op => op.entityId)),
+      retryOfSyncLogId: syncLogId,
+    });
+
+    return {
+      success: report.success,
+      retryOfSyncLogId: syncLogId,
+      syncLogId: report.syncLogId,
+      plan,
+      report,
+    };
+  }
+
+  private isInProgress(log: ISyncLog): boolean {
+    return log.status === 'pending' || log.status === 'running';
+  }
+
+  private async loadRetryableLog(syncLogId: string): Promise<ISyncLog> {
+    await connectDB();
+
+    const log = await SyncLog.findById(syncLogId).lean<ISyncLog>();
+    if (!log) {
+      throw new SyncRetryError('Sync log not found', 404);
+    }
+    if (!RETRYABLE_SYNC_TYPES.includes(log.syncType)) {
+      throw new SyncRetryError(`${log.syncType} sync logs cannot be retried`, 400);
+    }
+    return log;
+  }
+
+  /**
+   * Split the log's failed operations into those worth re-running and the rest.
+   * Retryable: NETWORK errors, and DUPLICATE errors whose draft has been renamed since.
+   */
+  private async buildPlan(log: ISyncLog): Promise<SyncRetryPlan> {
+    // Latest outcome per entity; phases are stored in dependency order
+    const latest = new Map<string, ISyncOperation>();
+    for (const phase of log.phases || []) {
+      for (const operation of phase.operations || []) {
+        latest.set(`${operation.entityType}:${operation.entityId}`, operation);
+      }
+    }
+    const failed = [...latest.values()].filter(operation => operation.status === 'error');
+
+    const plan: SyncRetryPlan = {
+      syncLogId: String(log._id),
+      networkId: log.networkId,
+      retryable: [],
+      notRetryable: [],
+    };
+
+    for (const operation of failed) {
+      const item: FailedOperation = {
+        entityType: operation.entityType,
+        entityId: operation.entityId,
+        entityName: operation.entityName,
+        errorCode: operation.errorCode,
+        errorMessage: operation.errorMessage,
+      };
+
+      const reason = await this.notRetryableReason(operation);
+      if (reason) {
+        plan.notRetryable.push({ ...item, reason });
+      } else {
+        plan.retryable.push(item);
+      }
+    }
+
+    return plan;
+  }
+
+  private async notRetryableReason(operation: ISyncOperation): Promise<string | undefined> {
+    if (operation.errorCode !== 'NETWORK' && operation.errorCode !== 'DUPLICATE') {
+      return operation.errorCode === 'DEPENDENCY'
+        ? 'Depends on an entity that is not in Broadstreet yet; run a full sync'
+        : `${operation.errorCode || 'Unknown'} errors need a fix before the next full sync`;
+    }
+
+    const local = await LOCAL_MODELS[operation.entityType]
+      .findById(operation.entityId)
+      .lean()
+      .catch(() => null);
+
+    if (!local) {
+      return 'Local draft no longer exists';
+    }
+    if (local.synced_with_api) {
+      return 'Already synced';
+    }
+    if (operation.errorCode === 'DUPLICATE' && (!local.name || local.name === operation.entityName)) {
+      return 'Name still exists in Broadstreet; rename the draft first';
+    }
+    return undefined;
+  }
+}
+
+export const syncRetryService = new SyncRetryService();
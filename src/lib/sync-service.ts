@@ -1,10 +1,12 @@
 import connectDB from './mongodb';
-import broadstreetAPI from './broadstreet-api';
+import { BroadstreetApiError, toApiAdvertisementType } from './broadstreet-api';
+import { apiConnectionService } from './api-connection-service';
 
 // Import local models
 import LocalAdvertiser, { ILocalAdvertiser } from './models/local-advertiser';
 import LocalCampaign, { ILocalCampaign } from './models/local-campaign';
 import LocalZone, { ILocalZone } from './models/local-zone';
+import LocalAdvertisement, { ILocalAdvertisement } from './models/local-advertisement';
 import Placement from './models/placement';
 import SyncLog from './models/sync-log';
 
@@ -18,18 +20,24 @@ import { auditService } from './audit-service';
 import { progressService } from './progress-service';
 import { withRateLimit } from './rate-limiter';
 import { placementService } from './placement-service';
+import { reconciliationService, ReconciliationItem } from './reconciliation-service';
+import { normalizeCampaignDate } from './utils/campaign-schedule';
+import type { ISyncOperation } from './models/sync-log';
+import type { ISyncCheckpoint } from './models/sync-job';
 
 // Types for sync operations
 export interface SyncResult<T = any> {
   success: boolean;
   entity?: T;
-  localEntity: ILocalAdvertiser | ILocalCampaign | ILocalZone;
+  localEntity: ILocalAdvertiser | ILocalCampaign | ILocalZone | ILocalAdvertisement;
   syncedAt?: Date;
   error?: string;
   code?: 'DUPLICATE' | 'DEPENDENCY' | 'NETWORK' | 'VALIDATION' | 'AUTH' | 'LINKED_DUPLICATE';
   details?: any;
   retryCount?: number;
   retryable?: boolean;
+  // Left unsynced on purpose (reconciliation decision "skip")
+  skipped?: boolean;
 }
 
 export interface SyncReport {
@@ -37,13 +45,34 @@ export interface SyncReport {
   totalEntities: number;
   successfulSyncs: number;
   failedSyncs: number;
+  skippedSyncs: number;
   results: SyncResult[];
   errors: string[];
   duration: number;
   startTime: Date;
   endTime: Date;
+  syncLogId?: string;
+  // Stopped between entities because the sync job was cancelled
+  cancelled?: boolean;
 }
 
+// Hooks used by sync jobs to checkpoint, cancel and resume a run
+export interface SyncRunOptions {
+  syncType?: 'full' | 'retry';
+  // Local entity ids already handled by an earlier run of the same job
+  completedEntityIds?: Set<string>;
+  // Restrict the run to these local entity ids ("Retry failed" on a past sync log)
+  onlyEntityIds?: Set<string>;
+  // Source log recorded on the new SyncLog of a "Retry failed" run
+  retryOfSyncLogId?: string;
+  // Checked between entities; returning true stops the run
+  shouldCancel?: () => Promise<boolean>;
+  onCheckpoint?: (checkpoint: Omit<ISyncCheckpoint, 'timestamp'>) => Promise<void>;
+  onSyncLogCreated?: (syncLogId: string) => Promise<void>;
+}
+
+export class SyncCancelledError extends Error {}
+
 export interface DryRunResult {
   valid: boolean;
   warnings: string[];
@@ -52,12 +81,15 @@ export interface DryRunResult {
     advertisers: { name: string; exists: boolean }[];
     zones: { name: string; exists: boolean }[];
     campaigns: { name: string; exists: boolean }[];
+    advertisements: { name: string; exists: boolean }[];
   };
   dependencyChecks: {
     missingAdvertisers: string[];
     missingZones: string[];
     missingAdvertisements: string[];
   };
+  // Local drafts matching an existing Broadstreet entity that have no reconciliation decision yet
+  conflicts: ReconciliationItem[];
 }
 
 export interface PlacementData {
@@ -154,6 +186,11 @@ class SyncService {
    * Classify API errors into appropriate error codes
    */
   private classifyError(error: any): { code: SyncResult['code']; message: string } {
+    // Broadstreet answered, but not in the shape we expect; retrying won't change that
+    if (error instanceof BroadstreetApiError && error.kind === 'validation') {
+      return { code: 'VALIDATION', message: error.message };
+    }
+
     if (error.status === 401) {
       return { code: 'AUTH', message: 'Authentication failed - invalid or expired API token' };
     }
@@ -189,6 +226,74 @@ class SyncService {
     return (local as any)?.original_broadstreet_id ?? null;
   }
 
+  private async isSkippedLocalAdvertiser(localAdvertiserId: string): Promise<boolean> {
+    const local = await LocalAdvertiser.findById(localAdvertiserId).lean();
+    return (local as any)?.reconciliation?.action === 'skip';
+  }
+
+  // Audit operation and status for a create/link/skip sync result
+  private toAuditOutcome(result: SyncResult): Pick<ISyncOperation, 'operation' | 'status'> {
+    if (result.skipped) {
+      return { operation: 'skip', status: 'skipped' };
+    }
+    return {
+      operation: result.code === 'LINKED_DUPLICATE' ? 'link' : 'create',
+      status: result.success ? 'success' : 'error'
+    };
+  }
+
+  private markSkipped(result: SyncResult, reason: string): SyncResult {
+    result.success = true;
+    result.skipped = true;
+    result.details = { reason };
+    return result;
+  }
+
+  /**
+   * Adopt the Broadstreet entity chosen during reconciliation instead of creating a new one
+   */
+  private async applyLinkDecision(
+    localEntity: ILocalAdvertiser | ILocalZone | ILocalCampaign,
+    result: SyncResult,
+    fetchTarget: (broadstreetId: number) => Promise<unknown>,
+    label: string
+  ): Promise<SyncResult> {
+    const targetId = localEntity.reconciliation?.target_broadstreet_id;
+    if (!targetId) {
+      result.error = `${label} has a link decision without a target`;
+      result.code = 'VALIDATION';
+      return result;
+    }
+
+    let existing: unknown;
+    try {
+      existing = await withRateLimit(
+        () => fetchTarget(targetId),
+        1,
+        `link-${localEntity._id}`
+      );
+    } catch (error: any) {
+      if (error?.status !== 404) throw error;
+      result.error = `${label} is linked to Broadstreet ID ${targetId}, which no longer exists`;
+      result.code = 'VALIDATION';
+      localEntity.sync_errors.push(result.error);
+      await localEntity.save();
+      return result;
+    }
+
+    localEntity.original_broadstreet_id = targetId;
+    localEntity.synced_with_api = true;
+    localEntity.synced_at = new Date();
+    localEntity.sync_errors = [];
+    await localEntity.save();
+
+    result.success = true;
+    result.entity = existing;
+    result.syncedAt = new Date();
+    result.code = 'LINKED_DUPLICATE';
+    return result;
+  }
+
   /**
    * Perform a dry run validation of all local entities before sync
    */
@@ -200,17 +305,20 @@ class SyncService {
       duplicateChecks: {
         advertisers: [],
         zones: [],
-        campaigns: []
+        campaigns: [],
+        advertisements: []
       },
       dependencyChecks: {
         missingAdvertisers: [],
         missingZones: [],
         missingAdvertisements: []
-      }
+      },
+      conflicts: []
     };
 
     try {
       await connectDB();
+      const api = await apiConnectionService.getClientForNetwork(networkId);
 
       // Get all unsynced local entities for this network (ignore created_locally to avoid missing records)
       const localAdvertisers = await LocalAdvertiser.find({ 
@@ -225,57 +333,78 @@ class SyncService {
         network_id: networkId, 
         synced_with_api: false 
       });
+      const localAdvertisements = await LocalAdvertisement.find({
+        network_id: networkId,
+        synced_with_api: false
+      });
 
 
 
-      // Check for duplicates
-      for (const advertiser of localAdvertisers) {
-        const exists = await broadstreetAPI.checkExistingAdvertiser(advertiser.name, networkId);
-        result.duplicateChecks.advertisers.push({ name: advertiser.name, exists });
-        if (exists) {
-          result.errors.push(`Advertiser "${advertiser.name}" already exists in Broadstreet`);
-          result.valid = false;
-        }
-      }
+      // Match advertisers, zones and campaigns against Broadstreet. Name matches are reconciled
+      // per entity (link / rename / skip) instead of failing the whole run.
+      const reconciliation = await reconciliationService.getReport(networkId);
+      result.warnings.push(...reconciliation.errors);
 
-      for (const zone of localZones) {
-        const exists = await broadstreetAPI.checkExistingZone(zone.name, networkId);
-        result.duplicateChecks.zones.push({ name: zone.name, exists });
-        if (exists) {
-          result.errors.push(`Zone "${zone.name}" already exists in Broadstreet`);
-          result.valid = false;
+      for (const item of reconciliation.items) {
+        const check = { name: item.name, exists: item.conflict };
+        if (item.entityType === 'advertiser') result.duplicateChecks.advertisers.push(check);
+        if (item.entityType === 'zone') result.duplicateChecks.zones.push(check);
+        if (item.entityType === 'campaign') result.duplicateChecks.campaigns.push(check);
+
+        if (item.conflict && !item.decision) {
+          result.conflicts.push(item);
+          result.warnings.push(`${item.entityType[0].toUpperCase()}${item.entityType.slice(1)} "${item.name}" matches an existing Broadstreet ${item.entityType}; review it before syncing`);
         }
       }
 
       // Check campaign dependencies
       for (const campaign of localCampaigns) {
+        if (campaign.reconciliation?.action === 'skip' || campaign.reconciliation?.action === 'link') {
+          continue;
+        }
+
         if (!campaign.advertiser_id && campaign.advertiser_id !== 0) {
           result.errors.push(`Campaign "${campaign.name}" missing advertiser_id`);
           result.valid = false;
           continue;
         }
 
-        // Resolve advertiser Broadstreet ID (no legacy wrapper)
-        const advertiserBroadstreetId = typeof campaign.advertiser_id === 'number'
-          ? campaign.advertiser_id
-          : await this.resolveAdvertiserBroadstreetId(campaign.advertiser_id as any);
+        // Unsynced local advertisers are created or linked in the advertisers phase, so only flag unknown references
+        if (typeof campaign.advertiser_id === 'string') {
+          const localAdvertiser: any = await LocalAdvertiser.findById(campaign.advertiser_id).lean();
+          if (!localAdvertiser) {
+            result.dependencyChecks.missingAdvertisers.push(campaign.name);
+            result.errors.push(`Campaign "${campaign.name}" depends on unknown advertiser reference: ${campaign.advertiser_id}`);
+            result.valid = false;
+          } else if (localAdvertiser.reconciliation?.action === 'skip') {
+            result.warnings.push(`Campaign "${campaign.name}" will be skipped with its advertiser "${localAdvertiser.name}"`);
+          }
+        }
+      }
 
-        if (!advertiserBroadstreetId) {
-          result.dependencyChecks.missingAdvertisers.push(campaign.name);
-          result.errors.push(`Campaign "${campaign.name}" depends on unsynced/unknown advertiser reference: ${campaign.advertiser_id}`);
+      // Check advertisement name duplicates and advertiser dependencies
+      for (const advertisement of localAdvertisements) {
+        const exists = await api.checkExistingAdvertisement(advertisement.name, networkId);
+        result.duplicateChecks.advertisements.push({ name: advertisement.name, exists });
+        if (exists) {
+          result.errors.push(`Advertisement "${advertisement.name}" already exists in Broadstreet`);
           result.valid = false;
-          continue;
         }
 
-        // Check for campaign name duplicates within advertiser
-        const campaignExists = await broadstreetAPI.checkExistingCampaign(
-          campaign.name,
-          advertiserBroadstreetId
-        );
-        result.duplicateChecks.campaigns.push({ name: campaign.name, exists: campaignExists });
-        if (campaignExists) {
-          result.errors.push(`Campaign "${campaign.name}" already exists for advertiser`);
+        if (advertisement.advertiser_id === undefined || advertisement.advertiser_id === null) {
+          result.errors.push(`Advertisement "${advertisement.name}" missing advertiser_id`);
           result.valid = false;
+          continue;
+        }
+
+        // Unsynced local advertisers are created in the advertisers phase, so only flag unknown references
+        if (typeof advertisement.advertiser_id === 'string') {
+          const localAdvertiser = await LocalAdvertiser.findById(advertisement.advertiser_id).lean();
+          if (!localAdvertiser) {
+            result.dependencyChecks.missingAdvertisers.push(advertisement.name);
+            result.errors.push(`Advertisement "${advertisement.name}" depends on unknown advertiser reference: ${advertisement.advertiser_id}`);
+            result.valid = false;
+          }
         }
       }
 
@@ -332,10 +461,26 @@ class SyncService {
 
       try {
         await connectDB();
+        // The token of the connection the network was synced under
+        const api = await apiConnectionService.getClientForNetwork(localAdvertiser.network_id);
 
-        // Check for duplicates; if exists, link instead of failing
+        // Follow the reconciliation decision, if any
+        const decision = localAdvertiser.reconciliation?.action;
+        if (decision === 'skip') {
+          return this.markSkipped(result, 'Skipped during reconciliation');
+        }
+        if (decision === 'link') {
+          return await this.applyLinkDecision(
+            localAdvertiser,
+            result,
+            (id) => api.getAdvertiser(id),
+            `Advertiser "${localAdvertiser.name}"`
+          );
+        }
+
+        // Check for duplicates; if exists, link instead of failing (unless the user chose to rename)
         const exists = await withRateLimit(
-          () => broadstreetAPI.checkExistingAdvertiser(
+          () => api.checkExistingAdvertiser(
             localAdvertiser.name,
             localAdvertiser.network_id
           ),
@@ -343,10 +488,10 @@ class SyncService {
           `check-advertiser-${localAdvertiser._id}`
         );
 
-        if (exists) {
+        if (exists && decision !== 'rename') {
           // Try to find the existing advertiser and link it
           const existing: any = await withRateLimit(
-            () => broadstreetAPI.findAdvertiserByName(localAdvertiser.network_id, localAdvertiser.name),
+            () => api.findAdvertiserByName(localAdvertiser.network_id, localAdvertiser.name),
             1,
             `find-advertiser-${localAdvertiser._id}`
           );
@@ -366,10 +511,15 @@ class SyncService {
           result.code = 'DUPLICATE';
           return result;
         }
+        if (exists) {
+          result.error = `Advertiser "${localAdvertiser.name}" already exists in Broadstreet; choose a different name`;
+          result.code = 'DUPLICATE';
+          return result;
+        }
 
         // Create advertiser in Broadstreet with rate limiting
         const broadstreetAdvertiser: any = await withRateLimit(
-          () => broadstreetAPI.createAdvertiser({
+          () => api.createAdvertiser({
             name: localAdvertiser.name,
             network_id: localAdvertiser.network_id,
             logo: localAdvertiser.logo,
@@ -418,10 +568,26 @@ class SyncService {
 
       try {
         await connectDB();
+        // The token of the connection the network was synced under
+        const api = await apiConnectionService.getClientForNetwork(localZone.network_id);
+
+        // Follow the reconciliation decision, if any
+        const decision = localZone.reconciliation?.action;
+        if (decision === 'skip') {
+          return this.markSkipped(result, 'Skipped during reconciliation');
+        }
+        if (decision === 'link') {
+          return await this.applyLinkDecision(
+            localZone,
+            result,
+            (id) => api.getZone(id),
+            `Zone "${localZone.name}"`
+          );
+        }
 
         // Check for duplicates with rate limiting
         const exists = await withRateLimit(
-          () => broadstreetAPI.checkExistingZone(
+          () => api.checkExistingZone(
             localZone.name,
             localZone.network_id
           ),
@@ -445,7 +611,7 @@ class SyncService {
         };
         console.log('[syncZone] POST /zones payload:', payload);
         const broadstreetZone = await withRateLimit(
-          () => broadstreetAPI.createZone(payload),
+          () => api.createZone(payload),
           0, // Normal priority for create operations
           `create-zone-${localZone._id}`
         );
@@ -488,6 +654,22 @@ class SyncService {
 
       try {
         await connectDB();
+        // The token of the connection the network was synced under
+        const api = await apiConnectionService.getClientForNetwork(localCampaign.network_id);
+
+        // Follow the reconciliation decision, if any
+        const decision = localCampaign.reconciliation?.action;
+        if (decision === 'skip') {
+          return this.markSkipped(result, 'Skipped during reconciliation');
+        }
+        if (decision === 'link') {
+          return await this.applyLinkDecision(
+            localCampaign,
+            result,
+            (id) => api.getCampaign(id),
+            `Campaign "${localCampaign.name}"`
+          );
+        }
 
         // Check if advertiser is synced
         if (!localCampaign.advertiser_id) {
@@ -502,6 +684,10 @@ class SyncService {
           : await this.resolveAdvertiserBroadstreetId(localCampaign.advertiser_id as any);
 
         if (!advertiserBroadstreetId) {
+          // Campaigns of a skipped local advertiser stay local with it
+          if (typeof localCampaign.advertiser_id === 'string' && await this.isSkippedLocalAdvertiser(localCampaign.advertiser_id)) {
+            return this.markSkipped(result, 'Advertiser was skipped during reconciliation');
+          }
           result.error = `Campaign depends on unknown/unsynced advertiser reference: ${localCampaign.advertiser_id}`;
           result.code = 'DEPENDENCY';
           return result;
@@ -509,7 +695,7 @@ class SyncService {
 
         // Check for duplicates with rate limiting
         const exists = await withRateLimit(
-          () => broadstreetAPI.checkExistingCampaign(
+          () => api.checkExistingCampaign(
             localCampaign.name,
             advertiserBroadstreetId
           ),
@@ -517,10 +703,10 @@ class SyncService {
           `check-campaign-${localCampaign._id}`
         );
 
-        if (exists) {
+        if (exists && decision !== 'rename') {
           // Link to existing campaign rather than failing
           const existing = await withRateLimit(
-            () => broadstreetAPI.findCampaignByName(advertiserBroadstreetId, localCampaign.name),
+            () => api.findCampaignByName(advertiserBroadstreetId, localCampaign.name),
             1,
             `find-campaign-${localCampaign._id}`
           );
@@ -540,38 +726,22 @@ class SyncService {
           result.code = 'DUPLICATE';
           return result;
         }
+        if (exists) {
+          result.error = `Campaign "${localCampaign.name}" already exists for advertiser; choose a different name`;
+          result.code = 'DUPLICATE';
+          return result;
+        }
 
-        // Normalize date strings to YYYY-MM-DD HH:mm:ss format for API
-        // Start dates default to 00:00:00 UTC, end dates default to 23:59:59 UTC
-        const normalizeDateWithTime = (d?: string, isEndDate: boolean = false) => {
-          if (!d) return undefined;
-          try {
-            // Extract date part (handles YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss formats)
-            const datePart = d.split('T')[0].split(' ')[0];
-            
-            // Check if time is already included
-            if (d.includes(' ') && d.match(/\d{2}:\d{2}:\d{2}/)) {
-              // Time already present, use as-is
-              return d.split('T')[0]; // Remove T if present, keep space format
-            }
-            
-            // Add appropriate time: 00:00:00 for start, 23:59:59 for end
-            const time = isEndDate ? '23:59:59' : '00:00:00';
-            return `${datePart} ${time}`;
-          } catch {
-            return undefined;
-          }
-        };
-
+        // Dates go out as YYYY-MM-DD HH:mm:ss (UTC); bare dates cover whole days in the publication's timezone
         const payload: any = {
           name: localCampaign.name,
           advertiser_id: advertiserBroadstreetId,
         };
 
-        const startDate = normalizeDateWithTime(localCampaign.start_date, false);
+        const startDate = normalizeCampaignDate(localCampaign.start_date, 'start');
         if (startDate) payload.start_date = startDate;
 
-        const endDate = normalizeDateWithTime(localCampaign.end_date, true);
+        const endDate = normalizeCampaignDate(localCampaign.end_date, 'end');
         if (endDate) payload.end_date = endDate;
 
         if (typeof localCampaign.max_impression_count === 'number') payload.max_impression_count = localCampaign.max_impression_count;
@@ -586,7 +756,7 @@ class SyncService {
 
         // Create campaign in Broadstreet with rate limiting
         const broadstreetCampaign = await withRateLimit(
-          () => broadstreetAPI.createCampaign(payload),
+          () => api.createCampaign(payload),
           0, // Normal priority for create operations
           `create-campaign-${localCampaign._id}`
         );
@@ -616,6 +786,97 @@ class SyncService {
     }, `Campaign "${localCampaign.name}"`);
   }
 
+  /**
+   * Sync a single advertisement to Broadstreet
+   */
+  async syncAdvertisement(localAdvertisement: ILocalAdvertisement): Promise<SyncResult> {
+    return this.executeWithRetry(async () => {
+      const result: SyncResult = {
+        success: false,
+        localEntity: localAdvertisement
+      };
+
+      // Every failure is kept on the draft so the local-only list and retries can show why
+      const fail = async (error: string, code: SyncResult['code']) => {
+        result.error = error;
+        result.code = code;
+        localAdvertisement.sync_errors.push(error);
+        await localAdvertisement.save();
+        return result;
+      };
+
+      try {
+        await connectDB();
+        // The token of the connection the network was synced under
+        const api = await apiConnectionService.getClientForNetwork(localAdvertisement.network_id);
+
+        if (localAdvertisement.advertiser_id === undefined || localAdvertisement.advertiser_id === null) {
+          return await fail('Advertisement missing advertiser_id', 'DEPENDENCY');
+        }
+
+        // Broadstreet only creates static (image) and html ads, and needs the creative
+        if (!toApiAdvertisementType(localAdvertisement.type)) {
+          return await fail(`Advertisement type "${localAdvertisement.type}" cannot be created in Broadstreet; use image or html`, 'VALIDATION');
+        }
+        if (!localAdvertisement.preview_url?.trim()) {
+          return await fail('Advertisement has no creative (preview_url)', 'VALIDATION');
+        }
+
+        // Resolve advertiser Broadstreet ID (local advertisers are synced in an earlier phase)
+        const advertiserBroadstreetId = await this.resolveAdvertiserBroadstreetId(localAdvertisement.advertiser_id);
+
+        if (!advertiserBroadstreetId) {
+          return await fail(`Advertisement depends on unknown/unsynced advertiser reference: ${localAdvertisement.advertiser_id}`, 'DEPENDENCY');
+        }
+
+        // Check for duplicates with rate limiting
+        const exists = await withRateLimit(
+          () => api.checkExistingAdvertisement(
+            localAdvertisement.name,
+            localAdvertisement.network_id
+          ),
+          1, // Higher priority for check operations
+          `check-advertisement-${localAdvertisement._id}`
+        );
+
+        if (exists) {
+          return await fail(`Advertisement "${localAdvertisement.name}" already exists in Broadstreet`, 'DUPLICATE');
+        }
+
+        // Create advertisement in Broadstreet with rate limiting
+        const broadstreetAdvertisement = await withRateLimit(
+          () => api.createAdvertisement({
+            name: localAdvertisement.name,
+            type: localAdvertisement.type,
+            advertiser_id: advertiserBroadstreetId,
+            preview_url: localAdvertisement.preview_url,
+            active: localAdvertisement.active,
+          }),
+          0, // Normal priority for create operations
+          `create-advertisement-${localAdvertisement._id}`
+        );
+
+        // Update local advertisement with Broadstreet IDs
+        localAdvertisement.original_broadstreet_id = (broadstreetAdvertisement as any).id;
+        localAdvertisement.advertiser_id = advertiserBroadstreetId;
+        localAdvertisement.synced_with_api = true;
+        localAdvertisement.synced_at = new Date();
+        localAdvertisement.sync_errors = [];
+        await localAdvertisement.save();
+
+        result.success = true;
+        result.entity = broadstreetAdvertisement;
+        result.syncedAt = new Date();
+
+      } catch (error) {
+        const classified = this.classifyError(error);
+        await fail(classified.message, classified.code);
+      }
+
+      return result;
+    }, `Advertisement "${localAdvertisement.name}"`);
+  }
+
   /**
    * Create a placement in Broadstreet
    */
@@ -660,8 +921,9 @@ class SyncService {
         return result;
       }
 
-      // Create placement in Broadstreet
-      const broadstreetPlacement = await broadstreetAPI.createPlacement({
+      // Create placement in Broadstreet, with the token of the campaign's network
+      const api = await apiConnectionService.getClientForNetwork(localCampaign.network_id);
+      const broadstreetPlacement = await api.createPlacement({
         campaign_id: campaignId,
         advertisement_id: placement.advertisement_id,
         zone_id: placement.zone_id,
@@ -680,16 +942,52 @@ class SyncService {
     return result;
   }
 
+  private async checkCancelled(options: SyncRunOptions): Promise<void> {
+    if (options.shouldCancel && await options.shouldCancel()) {
+      throw new SyncCancelledError('Sync cancelled');
+    }
+  }
+
+  private withoutCompleted<T extends { _id: unknown }>(entities: T[], options: SyncRunOptions): T[] {
+    const completed = options.completedEntityIds;
+    const only = options.onlyEntityIds;
+    return entities.filter(entity =>
+      !(completed && completed.has(String(entity._id))) &&
+      (!only || only.has(String(entity._id)))
+    );
+  }
+
+  private async checkpoint(
+    options: SyncRunOptions,
+    phase: ISyncCheckpoint['phase'],
+    entityType: ISyncCheckpoint['entityType'],
+    entity: { _id: unknown; name?: string },
+    result: SyncResult,
+    entityName: string = entity.name || String(entity._id)
+  ): Promise<void> {
+    if (!options.onCheckpoint) return;
+    await options.onCheckpoint({
+      phase,
+      entityType,
+      entityId: String(entity._id),
+      entityName,
+      status: result.skipped ? 'skipped' : result.success ? 'success' : 'error',
+      broadstreetId: result.entity?.id ?? result.entity?.broadstreet_id,
+      errorMessage: result.error
+    });
+  }
+
   /**
    * Sync all local entities for a network in proper dependency order
    */
-  async syncAllEntities(networkId: number): Promise<SyncReport> {
+  async syncAllEntities(networkId: number, options: SyncRunOptions = {}): Promise<SyncReport> {
     const startTime = new Date();
     const report: SyncReport = {
       success: false,
       totalEntities: 0,
       successfulSyncs: 0,
       failedSyncs: 0,
+      skippedSyncs: 0,
       results: [],
       errors: [],
       duration: 0,
@@ -703,26 +1001,34 @@ class SyncService {
       await connectDB();
 
       // Create enhanced sync log with audit service
-      const syncLog = await auditService.createSyncLog(networkId, 'full');
+      const syncLog = await auditService.createSyncLog(networkId, options.syncType || 'full', options.retryOfSyncLogId);
       syncLogId = String(syncLog._id);
+      report.syncLogId = syncLogId;
+      await options.onSyncLogCreated?.(syncLogId);
 
-      // Get all unsynced local entities for this network (do not require created_locally)
-      const localAdvertisers = await LocalAdvertiser.find({
+      // Get all unsynced local entities for this network (do not require created_locally).
+      // When resuming a job, entities checkpointed by an earlier run are left out;
+      // a "Retry failed" run only keeps the entities it was given.
+      const localAdvertisers = this.withoutCompleted(await LocalAdvertiser.find({
         network_id: networkId,
         synced_with_api: false
-      });
-      const localZones = await LocalZone.find({
+      }), options);
+      const localZones = this.withoutCompleted(await LocalZone.find({
         network_id: networkId,
         synced_with_api: false
-      });
-      const localCampaigns = await LocalCampaign.find({
+      }), options);
+      const localCampaigns = this.withoutCompleted(await LocalCampaign.find({
         network_id: networkId,
         synced_with_api: false
-      });
+      }), options);
+      const localAdvertisements = this.withoutCompleted(await LocalAdvertisement.find({
+        network_id: networkId,
+        synced_with_api: false
+      }), options);
 
 
 
-      report.totalEntities = localAdvertisers.length + localZones.length + localCampaigns.length;
+      report.totalEntities = localAdvertisers.length + localZones.length + localCampaigns.length + localAdvertisements.length;
 
       // Start real-time progress tracking
       progressService.startSync(syncLogId, networkId, report.totalEntities);
@@ -745,8 +1051,9 @@ class SyncService {
 
       // Validate network access and API connectivity
       try {
+        const api = await apiConnectionService.getClientForNetwork(networkId);
         await withRateLimit(
-          () => broadstreetAPI.getNetwork(networkId),
+          () => api.getNetwork(networkId),
           2, // High priority for validation
           `validate-network-${networkId}`
         );
@@ -770,6 +1077,8 @@ class SyncService {
 
         let processedAdvertisers = 0;
         for (const advertiser of localAdvertisers) {
+          await this.checkCancelled(options);
+
           // Update real-time progress
           progressService.updatePhaseProgress(
             syncLogId,
@@ -788,16 +1097,18 @@ class SyncService {
             entityType: 'advertiser',
             entityId: String(advertiser._id),
             entityName: advertiser.name,
-            operation: result.code === 'LINKED_DUPLICATE' ? 'link' : 'create',
-            status: result.success ? 'success' : 'error',
+            ...this.toAuditOutcome(result),
             errorCode: result.code,
             errorMessage: result.error,
             retryCount: result.retryCount,
             broadstreetId: result.entity?.id,
             duration: 0 // Could be enhanced with timing
           });
+          await this.checkpoint(options, 'advertisers', 'advertiser', advertiser, result);
 
-          if (result.success) {
+          if (result.skipped) {
+            report.skippedSyncs++;
+          } else if (result.success) {
             report.successfulSyncs++;
           } else {
             report.failedSyncs++;
@@ -831,6 +1142,8 @@ class SyncService {
 
         let processedZones = 0;
         for (const zone of localZones) {
+          await this.checkCancelled(options);
+
           // Update real-time progress
           progressService.updatePhaseProgress(
             syncLogId,
@@ -851,16 +1164,18 @@ class SyncService {
             entityType: 'zone',
             entityId: String(zone._id),
             entityName: zone.name,
-            operation: 'create',
-            status: result.success ? 'success' : 'error',
+            ...this.toAuditOutcome(result),
             errorCode: result.code,
             errorMessage: result.error,
             retryCount: result.retryCount,
             broadstreetId: result.entity?.id,
             duration: 0
           });
+          await this.checkpoint(options, 'zones', 'zone', zone, result);
 
-          if (result.success) {
+          if (result.skipped) {
+            report.skippedSyncs++;
+          } else if (result.success) {
             report.successfulSyncs++;
           } else {
             report.failedSyncs++;
@@ -893,6 +1208,8 @@ class SyncService {
 
         let processedCampaigns = 0;
         for (const campaign of localCampaigns) {
+          await this.checkCancelled(options);
+
           // Update real-time progress
           progressService.updatePhaseProgress(
             syncLogId,
@@ -911,16 +1228,18 @@ class SyncService {
             entityType: 'campaign',
             entityId: String(campaign._id),
             entityName: campaign.name,
-            operation: result.code === 'LINKED_DUPLICATE' ? 'link' : 'create',
-            status: result.success ? 'success' : 'error',
+            ...this.toAuditOutcome(result),
             errorCode: result.code,
             errorMessage: result.error,
             retryCount: result.retryCount,
             broadstreetId: result.entity?.id,
             duration: 0
           });
+          await this.checkpoint(options, 'campaigns', 'campaign', campaign, result);
 
-          if (result.success) {
+          if (result.skipped) {
+            report.skippedSyncs++;
+          } else if (result.success) {
             report.successfulSyncs++;
           } else {
             report.failedSyncs++;
@@ -939,12 +1258,75 @@ class SyncService {
         }
 
         await auditService.completePhase(syncLogId, 'campaigns', 'success');
-        await auditService.updateProgress(syncLogId, 90); // Rough progress estimate
+        await auditService.updateProgress(syncLogId, 80); // Rough progress estimate
       }
 
       console.log('[syncAllEntities] END campaigns loop');
 
-      // Step 4: Migrate and sync placements using dual storage architecture
+      // Step 4: Sync advertisements (depend on advertisers synced in step 1)
+      console.log('[syncAllEntities] BEGIN advertisements loop');
+      console.log(`Syncing ${localAdvertisements.length} advertisements...`);
+
+      if (localAdvertisements.length > 0) {
+        await auditService.startPhase(syncLogId, 'advertisements', localAdvertisements.length);
+
+        let processedAdvertisements = 0;
+        for (const advertisement of localAdvertisements) {
+          await this.checkCancelled(options);
+
+          // Update real-time progress
+          progressService.updatePhaseProgress(
+            syncLogId,
+            'advertisements',
+            processedAdvertisements,
+            localAdvertisements.length,
+            advertisement.name,
+            `Syncing advertisement: ${advertisement.name}`
+          );
+
+          const result = await this.syncAdvertisement(advertisement);
+          report.results.push(result);
+
+          // Log operation to audit service
+          await auditService.logOperation(syncLogId, 'advertisements', {
+            entityType: 'advertisement',
+            entityId: String(advertisement._id),
+            entityName: advertisement.name,
+            operation: 'create',
+            status: result.success ? 'success' : 'error',
+            errorCode: result.code,
+            errorMessage: result.error,
+            retryCount: result.retryCount,
+            broadstreetId: result.entity?.id,
+            duration: 0
+          });
+          await this.checkpoint(options, 'advertisements', 'advertisement', advertisement, result);
+
+          if (result.success) {
+            report.successfulSyncs++;
+          } else {
+            report.failedSyncs++;
+            report.errors.push(result.error || 'Unknown error');
+          }
+
+          processedAdvertisements++;
+
+          // Update entity counts in real-time
+          progressService.updateEntityCounts(
+            syncLogId,
+            report.results.length,
+            report.successfulSyncs,
+            report.failedSyncs
+          );
+        }
+
+        await auditService.completePhase(syncLogId, 'advertisements', 'success');
+        await auditService.updateProgress(syncLogId, 90); // Rough progress estimate
+      }
+
+      console.log('[syncAllEntities] END advertisements loop');
+
+      // Step 5: Migrate and sync placements using dual storage architecture
       console.log('Migrating and syncing placements...');
 
       // First, migrate embedded placements to collection storage
@@ -957,16 +1339,18 @@ class SyncService {
       }
 
       // Get all unsynced placements from collection storage
-      const unsyncedPlacements = await Placement.find({
+      const unsyncedPlacements = this.withoutCompleted(await Placement.find({
         network_id: networkId,
         synced_with_api: false
-      });
+      }), options);
 
       if (unsyncedPlacements.length > 0) {
         await auditService.startPhase(syncLogId, 'placements', unsyncedPlacements.length);
 
         let processedPlacements = 0;
         for (const placement of unsyncedPlacements) {
+          await this.checkCancelled(options);
+
           // Update real-time progress
           progressService.updatePhaseProgress(
             syncLogId,
@@ -1004,6 +1388,7 @@ class SyncService {
             broadstreetId: result.broadstreetId,
             duration: 0
           });
+          await this.checkpoint(options, 'placements', 'placement', placement, syncResult, `Advertisement ${placement.advertisement_id} placement`);
 
           if (result.success) {
             report.successfulSyncs++;
@@ -1068,7 +1453,12 @@ class SyncService {
           { $set: { sync_errors: [] } }
         );
 
-        console.log(`Cleared sync errors for ${clearAdvertiserErrors.modifiedCount} advertisers, ${clearZoneErrors.modifiedCount} zones, ${clearCampaignErrors.modifiedCount} campaigns`);
+        const clearAdvertisementErrors = await LocalAdvertisement.updateMany(
+          { network_id: networkId, synced_with_api: true },
+          { $set: { sync_errors: [] } }
+        );
+
+        console.log(`Cleared sync errors for ${clearAdvertiserErrors.modifiedCount} advertisers, ${clearZoneErrors.modifiedCount} zones, ${clearCampaignErrors.modifiedCount} campaigns, ${clearAdvertisementErrors.modifiedCount} advertisements`);
 
         // Update sync timestamps
         const now = new Date();
@@ -1087,6 +1477,11 @@ class SyncService {
           { $set: { synced_at: now } }
         );
 
+        await LocalAdvertisement.updateMany(
+          { network_id: networkId, synced_with_api: true, synced_at: { $exists: false } },
+          { $set: { synced_at: now } }
+        );
+
       } catch (error) {
         const cleanupError = `Cleanup error: ${error instanceof Error ? error.message : 'Unknown error'}`;
         cleanupErrors.push(cleanupError);
@@ -1133,6 +1528,17 @@ class SyncService {
       const endTime = new Date();
       report.endTime = endTime;
       report.duration = endTime.getTime() - startTime.getTime();
+
+      if (error instanceof SyncCancelledError) {
+        // Stopped between entities; everything processed so far is checkpointed on the job
+        report.cancelled = true;
+        if (syncLogId) {
+          progressService.cancelSync(syncLogId, 'Sync cancelled');
+          await auditService.completeSyncLog(syncLogId, 'cancelled', 'Cancelled by user');
+        }
+        return report;
+      }
+
       report.errors.push(error instanceof Error ? error.message : 'Unknown error');
 
       // Complete progress tracking with error
@@ -1211,6 +1617,26 @@ class SyncService {
     return results;
   }
 
+  /**
+   * Sync all advertisements for a network
+   */
+  async syncAdvertisements(networkId: number): Promise<SyncResult[]> {
+    await connectDB();
+    const localAdvertisements = await LocalAdvertisement.find({
+      network_id: networkId,
+      synced_with_api: false
+    });
+    console.log('[syncAdvertisements] Unsynced advertisements:', localAdvertisements.length);
+
+    const results: SyncResult[] = [];
+    for (const advertisement of localAdvertisements) {
+      const result = await this.syncAdvertisement(advertisement);
+      results.push(result);
+    }
+
+    return results;
+  }
+
   /**
    * Create placements for all synced campaigns
    */
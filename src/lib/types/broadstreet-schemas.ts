@@ -0,0 +1,189 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for Broadstreet API payloads
+ * BroadstreetAPI parses every response with these, so a changed payload fails loudly at the
+ * client boundary (BroadstreetApiError with the validation issues) instead of surfacing later
+ * as a broken page. Only fields the app relies on are required; the rest are optional so
+ * harmless omissions don't break a sync.
+ *
+ * Entities keep Broadstreet's `id`, gain `broadstreet_id` (see mapApiIds) and collect any
+ * fields not modelled here in `raw`, so new Broadstreet fields are kept rather than dropped.
+ */
+
+// Broadstreet ids are numbers, but some endpoints (e.g. advertisers) document them as strings
+const broadstreetIdSchema = z.coerce.number().int().positive();
+
+/**
+ * An object schema whose unknown keys are moved into `raw`
+ */
+function withRaw<T extends z.ZodRawShape>(shape: T) {
+  const known = z.object(shape);
+  const keys = new Set(Object.keys(shape));
+  return known.passthrough().transform(value => {
+    const fields: Record<string, unknown> = {};
+    const raw: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      (keys.has(key) ? fields : raw)[key] = field;
+    }
+    return { ...(fields as z.output<typeof known>), raw };
+  });
+}
+
+/**
+ * A Broadstreet entity: `id` is required and mirrored into `broadstreet_id`
+ */
+function entitySchema<T extends z.ZodRawShape>(shape: T) {
+  return withRaw({ id: broadstreetIdSchema, ...shape }).transform(entity => ({
+    ...entity,
+    broadstreet_id: entity.id as number,
+  }));
+}
+
+const logoSchema = z.object({ url: z.string().nullish() }).passthrough();
+
+export const networkSchema = entitySchema({
+  name: z.string(),
+  group_id: z.number().nullish(),
+  web_home_url: z.string().nullish(),
+  logo: logoSchema.nullish(),
+  valet_active: z.boolean().optional(),
+  path: z.string(),
+  advertiser_count: z.number().optional(),
+  zone_count: z.number().optional(),
+});
+
+export const advertiserSchema = entitySchema({
+  name: z.string(),
+  logo: logoSchema.nullish(),
+  web_home_url: z.string().nullish(),
+  notes: z.string().nullish(),
+  admins: z.array(z.object({ name: z.string().nullish(), email: z.string() }).passthrough()).default([]),
+});
+
+export const zoneSchema = entitySchema({
+  name: z.string(),
+  network_id: broadstreetIdSchema.optional(),
+  alias: z.string().nullish(),
+  self_serve: z.boolean().optional(),
+});
+
+export const campaignSchema = entitySchema({
+  name: z.string(),
+  advertiser_id: broadstreetIdSchema.optional(),
+  // "YYYY-MM-DD HH:mm:ss" (UTC) or a bare date; see utils/campaign-schedule.ts
+  start_date: z.string().nullish(),
+  end_date: z.string().nullish(),
+  max_impression_count: z.number().nullish(),
+  // Kept as sent; sync-helpers normalises display_type and weight ("default", "remnant", "1")
+  display_type: z.string().nullish(),
+  active: z.boolean().optional(),
+  weight: z.union([z.number(), z.string()]).nullish(),
+  path: z.string().optional(),
+  archived: z.boolean().optional(),
+  pacing_type: z.string().nullish(),
+  impression_max_type: z.string().nullish(),
+  paused: z.boolean().optional(),
+  notes: z.string().nullish(),
+});
+
+export const advertisementSchema = entitySchema({
+  name: z.string(),
+  // The create response only carries id, name and the embed code
+  updated_at: z.string().optional(),
+  type: z.string().optional(),
+  advertiser: z.string().nullish(),
+  active: z.object({ url: z.string().nullish() }).passthrough().nullish(),
+  active_placement: z.boolean().optional(),
+  preview_url: z.string().nullish(),
+  destination: z.string().nullish(),
+  html: z.string().nullish(),
+  preview_html: z.string().nullish(),
+});
+
+// Placements have no id of their own; restrictions is a single string such as "phone"
+export const placementSchema = withRaw({
+  advertisement_id: broadstreetIdSchema,
+  zone_id: broadstreetIdSchema,
+  campaign_id: broadstreetIdSchema.optional(),
+  restrictions: z.union([z.string(), z.array(z.string())]).nullish(),
+});
+
+export type BroadstreetNetwork = z.output<typeof networkSchema>;
+export type BroadstreetAdvertiser = z.output<typeof advertiserSchema>;
+export type BroadstreetZone = z.output<typeof zoneSchema>;
+export type BroadstreetCampaign = z.output<typeof campaignSchema>;
+export type BroadstreetAdvertisement = z.output<typeof advertisementSchema>;
+export type BroadstreetPlacement = z.output<typeof placementSchema>;
+
+// Response envelopes
+
+export const networksResponseSchema = z.object({ networks: z.array(networkSchema) });
+export const networkResponseSchema = z.object({ network: networkSchema });
+export const advertisersResponseSchema = z.object({ advertisers: z.array(advertiserSchema) });
+export const advertiserResponseSchema = z.object({ advertiser: advertiserSchema });
+export const zonesResponseSchema = z.object({ zones: z.array(zoneSchema) });
+export const zoneResponseSchema = z.object({ zone: zoneSchema });
+export const campaignsResponseSchema = z.object({ campaigns: z.array(campaignSchema) });
+export const campaignResponseSchema = z.object({ campaign: campaignSchema });
+export const advertisementsResponseSchema = z.object({ advertisements: z.array(advertisementSchema) });
+export const advertisementResponseSchema = z.object({ advertisement: advertisementSchema });
+
+// PUT /campaigns/{id} returns the campaign bare, or wrapped like the other endpoints
+export const campaignUpdateResponseSchema = z.union([
+  campaignResponseSchema.transform(response => response.campaign),
+  campaignSchema,
+]);
+
+// GET /placements returns a bare array in practice; the reference docs show { placement }
+export const placementsResponseSchema = z.union([
+  z.array(placementSchema),
+  z.object({ placements: z.array(placementSchema) }).transform(response => response.placements),
+  z.object({ placement: placementSchema }).transform(response => [response.placement]),
+]);
+
+// POST /placements answers 201 with an empty body
+export const placementCreateResponseSchema = z.union([
+  z.undefined(),
+  z.object({ placement: placementSchema }).transform(response => response.placement),
+  placementSchema,
+]);
+
+// Reporting (GET /records)
+
+const countSchema = z.coerce.number();
+
+export const reportRecordSchema = z.object({
+  dated: z.string(),
+  advertisement_id: z.number().nullish(),
+  campaign_id: z.number().nullish(),
+  zone_id: z.number().nullish(),
+  advertiser_id: z.number().nullish(),
+  view_count: countSchema,
+  hover_count: countSchema,
+  click_count: countSchema,
+  conversion_count: countSchema,
+});
+
+export const reportTotalsSchema = z.object({
+  views: countSchema,
+  clicks: countSchema,
+  hovers: countSchema,
+  conversions: countSchema,
+});
+
+export const recordsResponseSchema = z.object({
+  object: z.object({
+    id: broadstreetIdSchema,
+    name: z.string(),
+    advertiser_id: broadstreetIdSchema.optional(),
+    advertiser_name: z.string().optional(),
+  }).optional(),
+  records: z.array(reportRecordSchema).default([]),
+  totals: reportTotalsSchema.optional(),
+});
+
+// Custom report values arrive as strings, keyed by the select fields (zone_id, "count(view)")
+export const customRecordsResponseSchema = z.object({
+  records: z.array(z.record(z.union([z.string(), z.number(), z.null()]))).default([]),
+});
@@ -1,113 +1,72 @@
 // Broadstreet API Types based on API specification
 
-export interface Network {
-  broadstreet_id: number;
-  broadstreet_network_id?: number; // Explicit network ID field added by API response shaping
-  mongo_id?: string;
-  name: string;
-  group_id?: number | null;
-  web_home_url?: string;
-  logo?: {
-    url: string;
-  };
-  valet_active: boolean;
-  path: string;
-  advertiser_count?: number;
-  zone_count?: number;
-}
-
-export interface Advertiser {
-  broadstreet_id: number;
-  mongo_id?: string;
-  name: string;
-  logo?: {
-    url: string;
-  };
-  web_home_url?: string;
-  notes?: string | null;
-  admins?: Array<{
-    name: string;
-    email: string;
-  }>;
-}
-
-export interface Zone {
-  broadstreet_id: number;
-  mongo_id?: string;
-  name: string;
-  network_id: number;
-  alias?: string | null;
-  self_serve: boolean;
-}
-
-export interface Campaign {
-  broadstreet_id: number;
-  mongo_id?: string;
-  name: string;
-  advertiser_id: number;
-  start_date: string;
-  end_date?: string;
-  max_impression_count?: number;
-  display_type: 'no_repeat' | 'allow_repeat_campaign' | 'allow_repeat_advertisement' | 'force_repeat_campaign';
-  active: boolean;
-  weight: number;
-  path: string;
-  archived?: boolean;
-  pacing_type?: 'asap' | 'even';
-  impression_max_type?: 'cap' | 'goal';
-  paused?: boolean;
-  notes?: string;
-  placements?: Array<{
-    advertisement_id: number;
-    zone_id: number;
-    restrictions?: string[];
-  }>;
-}
-
-export interface Advertisement {
-  broadstreet_id: number;
-  mongo_id?: string;
-  name: string;
-  updated_at: string;
-  type: string;
-  advertiser: string;
-  active: {
-    url?: string | null;
-  };
-  active_placement: boolean;
-  preview_url: string;
-}
+import type {
+  BroadstreetAdvertisement,
+  BroadstreetAdvertiser,
+  BroadstreetCampaign,
+  BroadstreetNetwork,
+  BroadstreetZone,
+} from './broadstreet-schemas';
+
+// Broadstreet entities as BroadstreetAPI returns them, parsed by the schemas in
+// broadstreet-schemas.ts: Broadstreet's `id` plus `broadstreet_id`, unmodelled fields in `raw`
+export type Network = BroadstreetNetwork;
+export type Advertiser = BroadstreetAdvertiser;
+export type Zone = BroadstreetZone;
+export type Campaign = BroadstreetCampaign;
+export type Advertisement = BroadstreetAdvertisement;
+
+// Device targeting values accepted by Broadstreet for a placement
+export type PlacementRestriction = 'phone' | 'tablet' | 'desktop' | 'mobile' | 'non_phone';
 
 export interface Placement {
   advertisement_id: number;
   zone_id: number;
   campaign_id: number; // Added by us when storing locally, not in API response
-  restrictions?: string[]; // API returns array of strings
+  // Stored as an array locally; the API takes and returns a single string
+  restrictions?: PlacementRestriction[];
 }
 
-// API Response Types
-export interface NetworksResponse {
-  networks: any[];
+// Reporting Types (GET /records)
+export type ReportEntityType = 'advertiser' | 'campaign' | 'advertisement' | 'network';
+
+export interface ReportRecord {
+  dated: string;
+  advertisement_id?: number | null;
+  campaign_id?: number | null;
+  zone_id?: number | null;
+  advertiser_id?: number | null;
+  view_count: number;
+  hover_count: number;
+  click_count: number;
+  conversion_count: number;
 }
 
-export interface AdvertisersResponse {
-  advertisers: any[];
+export interface ReportTotals {
+  views: number;
+  clicks: number;
+  hovers: number;
+  conversions: number;
 }
 
-export interface ZonesResponse {
-  zones: any[];
-}
-
-export interface CampaignsResponse {
-  campaigns: any[];
+export interface RecordsResponse {
+  object?: {
+    id: number;
+    name: string;
+    advertiser_id?: number;
+    advertiser_name?: string;
+  };
+  records: ReportRecord[];
+  totals?: ReportTotals;
 }
 
-export interface AdvertisementsResponse {
-  advertisements: any[];
-}
+// Custom Reporting Types (GET /records?type=custom)
+export type CustomReportDimension = 'network' | 'advertiser' | 'campaign' | 'advertisement' | 'zone';
+export type CustomReportMetric = 'view' | 'mobile_view' | 'hover' | 'click' | 'conversion';
 
-export interface PlacementsResponse {
-  placement: any;
+export interface CustomRecordsResponse {
+  // Keys mirror the select fields, e.g. zone_id, zone_name, "count(view)"; values arrive as strings
+  records: Array<Record<string, string | number | null>>;
 }
 
 // Zone Size Types
@@ -47,6 +47,18 @@ export interface LocalEntityFields extends SyncTrackingFields {
   sync_errors: string[];             // Array of sync error messages
 }
 
+/**
+ * Reconciliation decision stored on local advertisers, zones and campaigns
+ * (how the next sync treats a draft that resembles an existing Broadstreet entity)
+ */
+export interface ReconciliationDecision {
+  action: 'link' | 'rename' | 'skip';
+  target_broadstreet_id?: number;    // link: Broadstreet entity to adopt instead of creating
+  target_name?: string;              // link: that entity's name when the decision was made
+  previous_name?: string;            // rename: local name before the rename
+  decided_at: Date;
+}
+
 // =============================================================================
 // SYNCED ENTITY INTERFACES (Broadstreet API → MongoDB)
 // =============================================================================
@@ -177,6 +189,7 @@ export interface AdvertisementEntity extends BaseEntity {
   preview_url: string;
   notes?: string;
   network_id?: number;
+  advertiser_id?: number | null;   // Resolved from the advertiser name within the network
   // Sync tracking (always synced, but fields may be present)
   created_locally?: boolean;      // Always false
   synced_with_api?: boolean;      // Always true
@@ -205,6 +218,7 @@ export interface LocalAdvertiserEntity extends BaseEntity, LocalEntityFields {
     name: string;
     email: string;
   }>;
+  reconciliation?: ReconciliationDecision;
   // Local creation tracking
   created_locally: boolean;       // Always true
   synced_with_api: boolean;       // Default: false
@@ -240,6 +254,7 @@ export interface LocalZoneEntity extends BaseEntity, LocalEntityFields {
   category?: string;
   block?: string;
   is_home?: boolean;
+  reconciliation?: ReconciliationDecision;
   // Local creation tracking
   created_locally: boolean;       // Always true
   synced_with_api: boolean;       // Default: false
@@ -273,6 +288,7 @@ export interface LocalCampaignEntity extends BaseEntity, LocalEntityFields {
     zone_id: number;
     restrictions?: string[];
   }>;
+  reconciliation?: ReconciliationDecision;
   // Local creation tracking
   created_locally: boolean;       // Always true
   synced_with_api: boolean;       // Default: false
@@ -390,16 +406,17 @@ export interface ThemeEntity extends BaseEntity {
  * Sync Operation - Individual operation within a sync phase
  */
 export interface SyncOperation {
-  entityType: 'advertiser' | 'zone' | 'campaign' | 'placement';
+  entityType: 'advertiser' | 'zone' | 'campaign' | 'advertisement' | 'placement';
   entityId: string;               // MongoDB ObjectId or Broadstreet ID
   entityName: string;
-  operation: 'create' | 'update' | 'link' | 'skip';
+  operation: 'create' | 'update' | 'delete' | 'link' | 'skip';
   status: 'success' | 'error' | 'retry' | 'skipped';
   errorCode?: 'DUPLICATE' | 'DEPENDENCY' | 'NETWORK' | 'VALIDATION' | 'AUTH' | 'LINKED_DUPLICATE';
   errorMessage?: string;
   retryCount?: number;
   broadstreetId?: number;
   duration?: number;              // milliseconds
+  changes?: Array<{ field: string; from: unknown; to: unknown }>;
   timestamp: Date;
 }
 
@@ -407,7 +424,7 @@ export interface SyncOperation {
  * Sync Phase - Phase within a sync log
  */
 export interface SyncPhase {
-  phase: 'validation' | 'advertisers' | 'zones' | 'campaigns' | 'placements' | 'cleanup';
+  phase: 'validation' | 'advertisers' | 'zones' | 'campaigns' | 'advertisements' | 'placements' | 'cleanup';
   status: 'pending' | 'running' | 'success' | 'error' | 'skipped';
   startTime: Date;
   endTime?: Date;
@@ -427,8 +444,9 @@ export interface SyncPhase {
  */
 export interface SyncLogEntity extends BaseEntity {
   networkId: number;
-  syncType: 'full' | 'incremental' | 'retry';
+  syncType: 'full' | 'incremental' | 'retry' | 'update' | 'delete';
   status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+  retryOfSyncLogId?: string;      // Source log of a "Retry failed" run
   startTime: Date;
   endTime?: Date;
   duration?: number;              // milliseconds
@@ -144,6 +144,7 @@ export interface AdvertisementLean extends BaseLeanEntity {
   preview_url: string;
   notes?: string;
   network_id?: number;
+  advertiser_id?: number | null;
   // Sync tracking (always synced, but fields may be present)
   created_locally?: boolean;
   synced_with_api?: boolean;
@@ -1,9 +1,11 @@
 /**
  * Business Logic Helpers for Advertising Requests
- * Contains utility functions for advertisement naming, validation, and workflow management
+ * Contains utility functions for advertisement naming and validation; status rules live in
+ * advertising-request-workflow
  */
 
 import type { IAdvertisingRequest } from '@/lib/models/advertising-request';
+import { getRequestStatusLabel } from '@/lib/advertising-request-workflow';
 
 /**
  * Generate advertisement name based on the complex formula from requirements
@@ -160,31 +162,6 @@ export function validateAdvertisingRequestData(data: Partial<IAdvertisingRequest
   };
 }
 
-export function isValidStatusTransition(
-  currentStatus: IAdvertisingRequest['status'],
-  newStatus: IAdvertisingRequest['status']
-): boolean {
-  const validTransitions: Record<IAdvertisingRequest['status'], IAdvertisingRequest['status'][]> = {
-    new: ['in_progress', 'cancelled'],
-    in_progress: ['completed', 'cancelled'],
-    completed: [],
-    cancelled: [],
-  };
-  
-  return validTransitions[currentStatus]?.includes(newStatus) || false;
-}
-
-export function getNextPossibleStatuses(currentStatus: IAdvertisingRequest['status']): IAdvertisingRequest['status'][] {
-  const transitions: Record<IAdvertisingRequest['status'], IAdvertisingRequest['status'][]> = {
-    new: ['in_progress', 'cancelled'],
-    in_progress: ['completed', 'cancelled'],
-    completed: [],
-    cancelled: [],
-  };
-  
-  return transitions[currentStatus] || [];
-}
-
 export function getStatusBadgeColor(status: IAdvertisingRequest['status']): string {
   switch (status) {
     case 'new':
@@ -200,21 +177,6 @@ export function getStatusBadgeColor(status: IAdvertisingRequest['status']): stri
   }
 }
 
-export function getReadableStatus(status: IAdvertisingRequest['status']): string {
-  switch (status) {
-    case 'new':
-      return 'New';
-    case 'in_progress':
-      return 'In Progress';
-    case 'completed':
-      return 'Completed';
-    case 'cancelled':
-      return 'Cancelled';
-    default:
-      return status;
-  }
-}
-
 export function generateStatusChangeSummary(request: IAdvertisingRequest): string {
   const statusHistory = request.status_history || [];
   if (statusHistory.length === 0) {
@@ -222,7 +184,7 @@ export function generateStatusChangeSummary(request: IAdvertisingRequest): strin
   }
 
   const latestStatus = statusHistory[statusHistory.length - 1];
-  return `Status changed to ${getReadableStatus(latestStatus.status as IAdvertisingRequest['status'])} by ${latestStatus.changed_by_user_name} on ${latestStatus.changed_at.toLocaleString()}`;
+  return `Status changed to ${getRequestStatusLabel(latestStatus.status)} by ${latestStatus.changed_by_user_name} on ${latestStatus.changed_at.toLocaleString()}`;
 }
 
 /**
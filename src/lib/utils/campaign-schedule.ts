@@ -0,0 +1,272 @@
+/**
+ * Campaign scheduling in the publication's timezone
+ * A contract runs from the start of its first day to the end of its last day where the
+ * publication is (Europe/Berlin), while Broadstreet reads "YYYY-MM-DD HH:mm:ss" campaign
+ * dates as UTC. These helpers turn calendar days into Broadstreet dates and back, and
+ * compare a campaign's dates with its contract. Client-safe: used by the creation and
+ * edit forms as well as the fulfilment and sync services.
+ */
+
+export const PUBLICATION_TIME_ZONE = process.env.NEXT_PUBLIC_PUBLICATION_TIME_ZONE || 'Europe/Berlin';
+
+export type ScheduleBoundary = 'start' | 'end';
+
+// Broadstreet may drop seconds; anything closer than this counts as on schedule
+const DRIFT_TOLERANCE_MS = 60 * 1000;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BROADSTREET_DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}(?::\d{2})?)$/;
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}(?::\d{2})?)$/;
+
+const BOUNDARY_TIMES: Record<ScheduleBoundary, string> = {
+  start: '00:00:00',
+  end: '23:59:59',
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time ("2025-03-01", "00:00:00") occurs in a timezone.
+ * Offsets are re-checked once, so days that switch to or from summer time resolve correctly.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string = PUBLICATION_TIME_ZONE): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const offset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const corrected = getTimeZoneOffsetMs(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
+
+/**
+ * Format an instant as Broadstreet expects campaign dates: "YYYY-MM-DD HH:mm:ss" in UTC
+ */
+export function toBroadstreetDateTime(instant: Date): string {
+  return `${instant.getUTCFullYear()}-${pad(instant.getUTCMonth() + 1)}-${pad(instant.getUTCDate())} `
+    + `${pad(instant.getUTCHours())}:${pad(instant.getUTCMinutes())}:${pad(instant.getUTCSeconds())}`;
+}
+
+/**
+ * Broadstreet date for the start (00:00:00) or end (23:59:59) of a calendar day in the
+ * publication's timezone
+ */
+export function scheduleCampaignDate(
+  date: string,
+  boundary: ScheduleBoundary,
+  timeZone: string = PUBLICATION_TIME_ZONE
+): string {
+  return toBroadstreetDateTime(zonedTimeToUtc(date, BOUNDARY_TIMES[boundary], timeZone));
+}
+
+/**
+ * Parse a stored campaign date. ISO strings carry their own offset; Broadstreet's
+ * "YYYY-MM-DD HH:mm:ss" and bare dates are UTC.
+ */
+export function parseCampaignDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const text = String(value).trim();
+  const broadstreet = text.match(BROADSTREET_DATE_TIME_PATTERN);
+  const parsed = broadstreet
+    ? new Date(`${broadstreet[1]}T${broadstreet[2]}Z`)
+    : DATE_ONLY_PATTERN.test(text)
+      ? new Date(`${text}T00:00:00Z`)
+      : new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Bring any campaign date we are given into Broadstreet's format. Bare dates get the
+ * start or end of that day in the publication's timezone, form values without an offset
+ * ("2025-03-01T08:00") are wall-clock times there, and full timestamps keep their instant.
+ */
+export function normalizeCampaignDate(
+  value: string | null | undefined,
+  boundary: ScheduleBoundary,
+  timeZone: string = PUBLICATION_TIME_ZONE
+): string | undefined {
+  if (!value) return undefined;
+  const text = String(value).trim();
+
+  if (DATE_ONLY_PATTERN.test(text)) {
+    return scheduleCampaignDate(text, boundary, timeZone);
+  }
+  const local = text.match(LOCAL_DATE_TIME_PATTERN);
+  if (local) {
+    return toBroadstreetDateTime(zonedTimeToUtc(local[1], local[2], timeZone));
+  }
+  const parsed = parseCampaignDate(text);
+  return parsed ? toBroadstreetDateTime(parsed) : undefined;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of a stored campaign date in the publication's timezone.
+ * Bare dates carry no time to convert and are returned as they are.
+ */
+export function toScheduleDate(value?: string | null, timeZone: string = PUBLICATION_TIME_ZONE): string {
+  if (value && DATE_ONLY_PATTERN.test(String(value).trim())) return String(value).trim();
+  const parsed = parseCampaignDate(value);
+  if (!parsed) return '';
+  const parts = getZonedParts(parsed, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+/**
+ * Today's date in the publication's timezone
+ */
+export function todayInTimeZone(timeZone: string = PUBLICATION_TIME_ZONE): string {
+  return toScheduleDate(new Date().toISOString(), timeZone);
+}
+
+/**
+ * Wall-clock time of a campaign date in the publication's timezone, e.g. "2025-03-01 00:00".
+ * Bare dates (Broadstreet sometimes returns only the UTC day) are shown as that day.
+ */
+export function formatScheduleDateTime(value?: string | null, timeZone: string = PUBLICATION_TIME_ZONE): string {
+  if (value && DATE_ONLY_PATTERN.test(String(value).trim())) return `${String(value).trim()} (UTC day)`;
+  const parsed = parseCampaignDate(value);
+  if (!parsed) return '';
+  const parts = getZonedParts(parsed, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Calendar day of a contract date. Contract dates are stored as UTC midnight of the day
+ * picked in the request form.
+ */
+export function toContractDate(value?: Date | string | null): string | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+}
+
+export interface ContractDates {
+  contract_start_date?: Date | string | null;
+  contract_end_date?: Date | string | null;
+}
+
+export interface CampaignSchedule {
+  start_date?: string; // Broadstreet "YYYY-MM-DD HH:mm:ss" (UTC)
+  end_date?: string;
+}
+
+/**
+ * Broadstreet campaign dates covering a contract from its first to its last day
+ */
+export function contractToCampaignSchedule(
+  contract: ContractDates,
+  timeZone: string = PUBLICATION_TIME_ZONE
+): CampaignSchedule {
+  const start = toContractDate(contract.contract_start_date);
+  const end = toContractDate(contract.contract_end_date);
+  return {
+    start_date: start ? scheduleCampaignDate(start, 'start', timeZone) : undefined,
+    end_date: end ? scheduleCampaignDate(end, 'end', timeZone) : undefined,
+  };
+}
+
+export interface ScheduleDrift {
+  field: 'start_date' | 'end_date';
+  expected: string | null; // Broadstreet format, from the contract
+  actual: string | null; // As stored for the campaign
+  drift_minutes: number | null; // Positive when the campaign is later than the contract; null when one side is missing
+  message: string;
+}
+
+/**
+ * Where a campaign's dates differ from its contract. Empty when they match.
+ */
+export function checkScheduleDrift(
+  campaign: { start_date?: string | null; end_date?: string | null },
+  contract: ContractDates,
+  timeZone: string = PUBLICATION_TIME_ZONE
+): ScheduleDrift[] {
+  const expected = contractToCampaignSchedule(contract, timeZone);
+  const drifts: ScheduleDrift[] = [];
+
+  for (const field of ['start_date', 'end_date'] as const) {
+    const label = field === 'start_date' ? 'Start' : 'End';
+    const expectedValue = expected[field] || null;
+    const actualValue = campaign[field] || null;
+    const expectedAt = parseCampaignDate(expectedValue);
+    const actualAt = parseCampaignDate(actualValue);
+    if (!expectedAt && !actualAt) continue;
+
+    if (!expectedAt || !actualAt) {
+      drifts.push({
+        field,
+        expected: expectedValue,
+        actual: actualValue,
+        drift_minutes: null,
+        message: actualAt
+          ? `${label} is ${formatScheduleDateTime(actualValue, timeZone)} but the contract has none`
+          : `${label} is missing; the contract has ${formatScheduleDateTime(expectedValue, timeZone)}`,
+      });
+      continue;
+    }
+
+    // A bare date only tells the UTC day, so compare days
+    const dayOnly = DATE_ONLY_PATTERN.test(String(actualValue).trim());
+    const difference = dayOnly
+      ? actualAt.getTime() - Date.parse(`${toBroadstreetDateTime(expectedAt).slice(0, 10)}T00:00:00Z`)
+      : actualAt.getTime() - expectedAt.getTime();
+    if (Math.abs(difference) < DRIFT_TOLERANCE_MS) continue;
+
+    const minutes = Math.round(difference / 60000);
+    drifts.push({
+      field,
+      expected: expectedValue,
+      actual: actualValue,
+      drift_minutes: minutes,
+      message: `${label} is ${formatScheduleDateTime(actualValue, timeZone)}, ${formatDriftDuration(Math.abs(minutes))} `
+        + `${minutes > 0 ? 'later' : 'earlier'} than the contract (${formatScheduleDateTime(expectedValue, timeZone)} ${timeZone})`,
+    });
+  }
+
+  return drifts;
+}
+
+function formatDriftDuration(minutes: number): string {
+  if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Client-safe helpers for editing synced campaigns. Shared by the edit modal
+ * (to preview a field-level diff) and the write-back service.
+ */
+
+import { toScheduleDate } from './campaign-schedule';
+
+export const EDITABLE_CAMPAIGN_FIELDS = [
+  'name',
+  'start_date',
+  'end_date',
+  'weight',
+  'paused',
+  'max_impression_count',
+  'impression_max_type',
+  'pacing_type',
+  'display_type',
+  'archived',
+  'notes',
+] as const;
+
+export type EditableCampaignField = typeof EDITABLE_CAMPAIGN_FIELDS[number];
+
+export interface CampaignUpdateInput {
+  name?: string;
+  start_date?: string; // YYYY-MM-DD in the publication's timezone
+  end_date?: string | null; // YYYY-MM-DD in the publication's timezone, null clears the end date
+  weight?: number;
+  paused?: boolean;
+  max_impression_count?: number | null;
+  impression_max_type?: 'cap' | 'goal';
+  pacing_type?: 'asap' | 'even';
+  display_type?: 'no_repeat' | 'allow_repeat_campaign' | 'allow_repeat_advertisement' | 'force_repeat_campaign';
+  archived?: boolean;
+  notes?: string;
+}
+
+export interface CampaignFieldChange {
+  field: EditableCampaignField;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+export const CAMPAIGN_FIELD_LABELS: Record<EditableCampaignField, string> = {
+  name: 'Name',
+  start_date: 'Start date',
+  end_date: 'End date',
+  weight: 'Weight',
+  paused: 'Paused',
+  max_impression_count: 'Impression limit',
+  impression_max_type: 'Impression limit type',
+  pacing_type: 'Pacing',
+  display_type: 'Display type',
+  archived: 'Archived',
+  notes: 'Notes',
+};
+
+// Campaigns created before dates followed the publication's timezone stored whole UTC days
+const LEGACY_UTC_DAY_PATTERN = /^(\d{4}-\d{2}-\d{2})[ T](?:00:00(?::00)?|23:59(?::59)?)(?:\.0+)?Z?$/;
+
+/**
+ * Reduce stored campaign dates to the YYYY-MM-DD they fall on in the publication's timezone.
+ * Legacy UTC day boundaries ("2024-01-01 00:00:00", "2024-01-31 23:59:59") are that day as
+ * they are, so the edit form neither shows nor pushes an end date one day later.
+ */
+export function toCampaignDateInput(value?: string | null): string {
+  const legacy = value ? String(value).trim().match(LEGACY_UTC_DAY_PATTERN) : null;
+  return legacy ? legacy[1] : toScheduleDate(value);
+}
+
+function normalizeFieldValue(field: EditableCampaignField, value: unknown): unknown {
+  // Unset flags are stored as missing, which Broadstreet treats as false
+  if (field === 'paused' || field === 'archived') {
+    return Boolean(value);
+  }
+  if (value === undefined || value === '') return null;
+  if (field === 'start_date' || field === 'end_date') {
+    return toCampaignDateInput(value as string) || null;
+  }
+  if (field === 'weight' || field === 'max_impression_count') {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  }
+  if (typeof value === 'string') return value.trim();
+  return value;
+}
+
+/**
+ * Field-level diff between the stored campaign and the requested update.
+ * Fields not present in the update are ignored.
+ */
+export function diffCampaignUpdate(
+  stored: Partial<Record<EditableCampaignField, unknown>>,
+  update: CampaignUpdateInput
+): CampaignFieldChange[] {
+  const changes: CampaignFieldChange[] = [];
+
+  for (const field of EDITABLE_CAMPAIGN_FIELDS) {
+    if (!(field in update)) continue;
+
+    const from = normalizeFieldValue(field, stored[field]);
+    const to = normalizeFieldValue(field, update[field]);
+    if (from !== to) {
+      changes.push({ field, label: CAMPAIGN_FIELD_LABELS[field], from, to });
+    }
+  }
+
+  return changes;
+}
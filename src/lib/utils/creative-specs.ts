@@ -0,0 +1,166 @@
+/**
+ * Creative spec registry for advertising requests
+ * The exact creative sizes each zone size type (SQ/PT/LS from parseZoneName) accepts,
+ * with retina multiples, file size limits and allowed image types. Used by the upload
+ * API and the request form, so an image is checked before the request is submitted, and
+ * by the fulfilment proposal to place each creative only in zones that take its size.
+ */
+
+import { parseZoneName } from './zone-parser';
+
+export type CreativeSizeType = 'SQ' | 'PT' | 'LS';
+
+export interface CreativeSpec {
+  id: string;
+  label: string;
+  size_type: CreativeSizeType;
+  width: number; // CSS pixels, as the zone renders it
+  height: number;
+  retina_multiples: number[]; // Accepted pixel densities, e.g. 2 = 600x500 for a 300x250 slot
+  max_file_size: number; // In bytes
+  allowed_mime_types: string[];
+}
+
+export const CREATIVE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+
+export const DEFAULT_CREATIVE_MAX_FILE_SIZE = 1024 * 1024; // 1MB
+
+const RETINA_MULTIPLES = [1, 2];
+
+function spec(id: string, label: string, sizeType: CreativeSizeType, width: number, height: number): CreativeSpec {
+  return {
+    id,
+    label,
+    size_type: sizeType,
+    width,
+    height,
+    retina_multiples: RETINA_MULTIPLES,
+    max_file_size: DEFAULT_CREATIVE_MAX_FILE_SIZE,
+    allowed_mime_types: CREATIVE_MIME_TYPES,
+  };
+}
+
+export const CREATIVE_SPECS: CreativeSpec[] = [
+  // SQ zones
+  spec('medium-rectangle', 'Medium Rectangle', 'SQ', 300, 250),
+  spec('large-rectangle', 'Large Rectangle', 'SQ', 336, 280),
+  spec('square', 'Square', 'SQ', 250, 250),
+  // PT zones
+  spec('half-page', 'Half Page', 'PT', 300, 600),
+  spec('wide-skyscraper', 'Wide Skyscraper', 'PT', 160, 600),
+  spec('skyscraper', 'Skyscraper', 'PT', 120, 600),
+  // LS zones
+  spec('leaderboard', 'Leaderboard', 'LS', 728, 90),
+  spec('large-leaderboard', 'Large Leaderboard', 'LS', 970, 90),
+  spec('billboard', 'Billboard', 'LS', 970, 250),
+  spec('mobile-banner', 'Mobile Banner', 'LS', 320, 50),
+  spec('large-mobile-banner', 'Large Mobile Banner', 'LS', 320, 100),
+];
+
+export interface CreativeInput {
+  width: number;
+  height: number;
+  file_size: number;
+  mime_type: string;
+}
+
+export interface CreativeCheck {
+  rule: 'mime_type' | 'file_size' | 'dimensions';
+  passed: boolean;
+  message: string;
+}
+
+export interface CreativeValidationResult {
+  valid: boolean;
+  spec: CreativeSpec | null;
+  multiple: number | null; // Pixel density the image matched at
+  size_coding: CreativeSizeType | null;
+  checks: CreativeCheck[];
+  errors: string[]; // Messages of the failed checks
+}
+
+export function getSpecsForSizeType(sizeType: CreativeSizeType): CreativeSpec[] {
+  return CREATIVE_SPECS.filter(candidate => candidate.size_type === sizeType);
+}
+
+/**
+ * Specs a zone accepts: every spec of its size type, stored or parsed from its name.
+ * Broadstreet zones carry no pixel size. Zones without a known size type accept none.
+ */
+export function getZoneCreativeSpecs(zone: { name: string; size_type?: string | null }): CreativeSpec[] {
+  const sizeType = (zone.size_type || parseZoneName(zone.name).size_type) as CreativeSizeType | 'CS' | null;
+  if (!sizeType || sizeType === 'CS') {
+    return [];
+  }
+  return getSpecsForSizeType(sizeType);
+}
+
+/**
+ * The spec an image's pixel size matches exactly, at any of its retina multiples
+ */
+export function matchCreativeSpec(
+  width: number,
+  height: number,
+  specs: CreativeSpec[] = CREATIVE_SPECS
+): { spec: CreativeSpec; multiple: number } | null {
+  for (const candidate of specs) {
+    for (const multiple of candidate.retina_multiples) {
+      if (width === candidate.width * multiple && height === candidate.height * multiple) {
+        return { spec: candidate, multiple };
+      }
+    }
+  }
+  return null;
+}
+
+export function formatCreativeSpec(candidate: CreativeSpec): string {
+  return `${candidate.width}x${candidate.height} ${candidate.label}`;
+}
+
+/**
+ * Check an image against the spec registry (or a zone's specs). Every rule is reported,
+ * so the uploader can show why an image passed or failed.
+ */
+export function validateCreative(creative: CreativeInput, specs: CreativeSpec[] = CREATIVE_SPECS): CreativeValidationResult {
+  const match = matchCreativeSpec(creative.width, creative.height, specs);
+  const checks: CreativeCheck[] = [];
+
+  const allowedTypes = match ? match.spec.allowed_mime_types : CREATIVE_MIME_TYPES;
+  checks.push(allowedTypes.includes(creative.mime_type)
+    ? { rule: 'mime_type', passed: true, message: `${creative.mime_type} is allowed` }
+    : { rule: 'mime_type', passed: false, message: `File type ${creative.mime_type || 'unknown'} is not allowed. Use JPEG, PNG, GIF or WebP` });
+
+  if (match) {
+    const density = match.multiple > 1 ? ` at ${match.multiple}x` : '';
+    checks.push({
+      rule: 'dimensions',
+      passed: true,
+      message: `${creative.width}x${creative.height} matches ${formatCreativeSpec(match.spec)} (${match.spec.size_type})${density}`,
+    });
+  } else {
+    const supported = specs.map(candidate => `${candidate.width}x${candidate.height}`).join(', ');
+    checks.push({
+      rule: 'dimensions',
+      passed: false,
+      message: specs.length > 0
+        ? `${creative.width}x${creative.height} is not a supported creative size. Use ${supported} (or twice that for retina)`
+        : 'No creative sizes are defined for this zone',
+    });
+  }
+
+  const maxFileSize = match ? match.spec.max_file_size : DEFAULT_CREATIVE_MAX_FILE_SIZE;
+  const sizeKb = Math.round(creative.file_size / 1024);
+  checks.push(creative.file_size <= maxFileSize
+    ? { rule: 'file_size', passed: true, message: `${sizeKb} KB is within the ${Math.round(maxFileSize / 1024)} KB limit` }
+    : { rule: 'file_size', passed: false, message: `${sizeKb} KB exceeds the ${Math.round(maxFileSize / 1024)} KB limit` });
+
+  const errors = checks.filter(check => !check.passed).map(check => check.message);
+  return {
+    valid: errors.length === 0,
+    spec: match?.spec || null,
+    multiple: match?.multiple || null,
+    size_coding: match?.spec.size_type || null,
+    checks,
+    errors,
+  };
+}
@@ -12,6 +12,8 @@
  * - NEVER use legacy explicit naming like "broadstreet_entity_id"
  */
 
+import { getPlacementRestrictionKey } from './placement-restrictions';
+
 export type EntitySelectionKey = string | number;
 
 export interface StandardEntity {
@@ -79,6 +81,33 @@ export function getEntitySelectionKey(entity: StandardEntity | null | undefined)
   return getEntityId(entity);
 }
 
+/**
+ * NETWORK SCOPING UTILITIES
+ */
+
+/**
+ * Whether an entity belongs to a network. Entities synced before network_id was stored have
+ * none and stay visible until `npm run db:migrate:network-scoping` backfills them.
+ */
+export function isInNetwork(entity: { network_id?: number | null }, networkId: number | undefined): boolean {
+  if (typeof networkId !== 'number') return true;
+  return typeof entity.network_id !== 'number' || entity.network_id === networkId;
+}
+
+/**
+ * Whether an advertisement belongs to an advertiser: by advertiser_id, or by name for ads
+ * whose advertiser could not be resolved (Broadstreet only sends the name)
+ */
+export function isAdvertisementOfAdvertiser(
+  advertisement: { advertiser_id?: number | null; advertiser?: string },
+  advertiser: { broadstreet_id?: number; name?: string }
+): boolean {
+  if (typeof advertisement.advertiser_id === 'number' && typeof advertiser.broadstreet_id === 'number') {
+    return advertisement.advertiser_id === advertiser.broadstreet_id;
+  }
+  return !!advertiser.name && advertisement.advertiser === advertiser.name;
+}
+
 /**
  * ID VALIDATION AND CONVERSION UTILITIES
  */
@@ -209,6 +238,7 @@ export function generatePlacementKey(placement: {
   campaign_mongo_id?: string;
   zone_id?: number;
   zone_mongo_id?: string;
+  restrictions?: string[];
 }): string {
   const campaignKey = typeof placement.campaign_id === 'number'
     ? String(placement.campaign_id)
@@ -216,7 +246,8 @@ export function generatePlacementKey(placement: {
   const zoneKey = typeof placement.zone_id === 'number'
     ? String(placement.zone_id)
     : (placement.zone_mongo_id || '');
-  return `${campaignKey}-${placement.advertisement_id}-${zoneKey}`;
+  // Placements that differ only by device targeting are distinct
+  return `${campaignKey}-${placement.advertisement_id}-${zoneKey}-${getPlacementRestrictionKey(placement.restrictions)}`;
 }
 
 
@@ -3,6 +3,8 @@
  * Handles image size detection and automatic coding (SQ/PT/LS)
  */
 
+import { matchCreativeSpec } from './creative-specs';
+
 export interface ImageDimensions {
   width: number;
   height: number;
@@ -15,11 +17,18 @@ export interface ImageInfo extends ImageDimensions {
 
 /**
  * Determines the size coding based on image dimensions
+ * Images matching a creative spec get that spec's zone size type (a 320x50 mobile
+ * banner and a 970x250 billboard are both LS). Other sizes fall back to aspect ratio:
  * SQ = Square (1:1 ratio or close to it)
  * PT = Portrait (taller than wide)
  * LS = Landscape (wider than tall)
  */
 export function determineSizeCoding(width: number, height: number): 'SQ' | 'PT' | 'LS' {
+  const match = matchCreativeSpec(width, height);
+  if (match) {
+    return match.spec.size_type;
+  }
+
   const aspectRatio = width / height;
   
   // Square: aspect ratio between 0.9 and 1.1 (allowing for slight variations)
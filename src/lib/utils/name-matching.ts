@@ -0,0 +1,81 @@
+/**
+ * Fuzzy name matching used to reconcile local drafts with Broadstreet entities. Client-safe.
+ */
+
+export interface NameMatch<T> {
+  item: T;
+  score: number;   // 0..1, 1 = same normalized name
+  exact: boolean;  // Normalized names are equal
+}
+
+/**
+ * Normalize a name for comparison: case, accents, "&", punctuation and whitespace are ignored
+ */
+export function normalizeEntityName(name: string): string {
+  return (name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two names: the better of edit-distance ratio and token overlap
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeEntityName(a);
+  const right = normalizeEntityName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editScore = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+
+  // Token overlap catches reordered words ("Summer Sale 2025" vs "2025 Summer Sale")
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length;
+  const tokenScore = (2 * shared) / (leftTokens.size + rightTokens.size);
+
+  // Never report a non-identical name as a perfect match
+  return Math.min(Math.max(editScore, tokenScore), 0.99);
+}
+
+/**
+ * Closest candidates for a name, best first. Candidates below the threshold are dropped.
+ */
+export function findClosestMatches<T>(
+  name: string,
+  candidates: T[],
+  getName: (item: T) => string,
+  options: { limit?: number; threshold?: number } = {}
+): NameMatch<T>[] {
+  const { limit = 3, threshold = 0.6 } = options;
+
+  return candidates
+    .map(item => {
+      const score = nameSimilarity(name, getName(item));
+      return { item, score, exact: score === 1 };
+    })
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,49 @@
+/**
+ * Device targeting (restrictions) for placements. Client-safe.
+ *
+ * Broadstreet takes a single restriction string per placement; locally we keep
+ * `restrictions: string[]` (at most one value) so existing documents stay valid.
+ */
+
+import type { PlacementRestriction } from '@/lib/types/broadstreet';
+
+export const PLACEMENT_RESTRICTIONS: PlacementRestriction[] = ['phone', 'tablet', 'mobile', 'non_phone', 'desktop'];
+
+export const PLACEMENT_RESTRICTION_LABELS: Record<PlacementRestriction, string> = {
+  phone: 'Phone only',
+  tablet: 'Tablet only',
+  mobile: 'Mobile (phone + tablet)',
+  non_phone: 'All except phone',
+  desktop: 'Desktop only',
+};
+
+export function isPlacementRestriction(value: unknown): value is PlacementRestriction {
+  return typeof value === 'string' && (PLACEMENT_RESTRICTIONS as string[]).includes(value);
+}
+
+/**
+ * Normalize API/request values ("Phone", ["phone"], "", null) to the stored array form.
+ * Unknown values are dropped.
+ */
+export function normalizeRestrictions(value: unknown): PlacementRestriction[] {
+  const values = Array.isArray(value) ? value : value == null || value === '' ? [] : [value];
+  const normalized = values
+    .map(v => (typeof v === 'string' ? v.trim().toLowerCase() : v))
+    .filter(isPlacementRestriction);
+  // Broadstreet only supports one restriction per placement
+  return normalized.slice(0, 1);
+}
+
+/**
+ * Single restriction string for the Broadstreet API, or undefined for all devices
+ */
+export function toApiRestriction(restrictions?: string[] | string | null): PlacementRestriction | undefined {
+  return normalizeRestrictions(restrictions)[0];
+}
+
+/**
+ * Key used to tell placements apart; placements that differ only by device are distinct
+ */
+export function getPlacementRestrictionKey(restrictions?: string[] | null): string {
+  return toApiRestriction(restrictions) || 'all';
+}
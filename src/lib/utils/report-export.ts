@@ -0,0 +1,56 @@
+/**
+ * Serialisation helpers for report exports. Kept free of server imports so
+ * the same output can be produced by API routes and in the browser.
+ */
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+export type ReportRow = Record<string, string | number | boolean | null | undefined>;
+
+function escapeCsvValue(value: ReportRow[string]): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Quote values containing delimiters, quotes or line breaks (RFC 4180)
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function reportToCsv(columns: ReportColumn[], rows: ReportRow[]): string {
+  const header = columns.map(column => escapeCsvValue(column.label)).join(',');
+  const lines = rows.map(row => columns.map(column => escapeCsvValue(row[column.key])).join(','));
+  return [header, ...lines].join('\r\n');
+}
+
+export function reportToJson(columns: ReportColumn[], rows: ReportRow[]): string {
+  // Only emit the visible columns, in column order
+  const data = rows.map(row => Object.fromEntries(columns.map(column => [column.key, row[column.key] ?? null])));
+  return JSON.stringify(data, null, 2);
+}
+
+export function getReportExportFilename(name: string, format: 'csv' | 'json'): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'report';
+  return `${slug}.${format}`;
+}
+
+/**
+ * Build a file download response for API routes
+ */
+export function createReportExportResponse(
+  columns: ReportColumn[],
+  rows: ReportRow[],
+  name: string,
+  format: 'csv' | 'json'
+): Response {
+  const body = format === 'csv' ? reportToCsv(columns, rows) : reportToJson(columns, rows);
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${getReportExportFilename(name, format)}"`,
+    },
+  });
+}
@@ -1,8 +1,11 @@
+import type { Model } from 'mongoose';
 import connectDB from '../mongodb';
 import broadstreetAPI from '../broadstreet-api';
+import type { BroadstreetConnection } from '../api-connection-service';
 import { parseZoneName } from './zone-parser';
 import { cleanupLegacyIndexes } from './entity-helpers';
 import { mapApiIds } from '../types/mapApiIds';
+import type { Campaign as BroadstreetCampaign } from '../types/broadstreet';
 
 // Import models
 import Network from '../models/network';
@@ -19,10 +22,86 @@ import LocalCampaign from '../models/local-campaign';
 import LocalAdvertisement from '../models/local-advertisement';
 import Theme from '../models/theme';
 
-export async function syncNetworks(): Promise<{ success: boolean; count: number; error?: string }> {
+/**
+ * Download sync modes
+ * - incremental (default): upsert by broadstreet_id, soft-mark remote deletions, never touch Local* collections
+ * - full: wipe every Broadstreet-sourced AND local-only collection, then reload (explicit opt-in only)
+ */
+export type DownloadSyncMode = 'incremental' | 'full';
+
+export interface DownloadSyncOptions {
+  mode?: DownloadSyncMode;
+  // Account to download; defaults to BROADSTREET_API_TOKEN. Documents are stamped with its id,
+  // and only its networks (and their entities) are fetched or marked as deleted.
+  connection?: Pick<BroadstreetConnection, 'id' | 'client'>;
+}
+
+export interface SyncResult {
+  success: boolean;
+  count: number;
+  // Number of previously synced documents soft-marked as deleted in Broadstreet
+  removed?: number;
+  error?: string;
+}
+
+function resolveSyncMode(options: DownloadSyncOptions = {}): DownloadSyncMode {
+  return options.mode === 'full' ? 'full' : 'incremental';
+}
+
+function resolveClient(options: DownloadSyncOptions = {}) {
+  return options.connection?.client || broadstreetAPI;
+}
+
+// Filter for the connection's documents and the fields to stamp on them
+function resolveConnectionScope(options: DownloadSyncOptions = {}): Record<string, string> {
+  return options.connection?.id ? { connection_id: options.connection.id } : {};
+}
+
+/**
+ * Upsert API documents by broadstreet_id and clear any previous remote-deletion marker
+ */
+async function upsertByBroadstreetId(model: Model<any>, docs: Array<Record<string, any>>): Promise<void> {
+  if (docs.length === 0) return;
+
+  const syncedAt = new Date();
+  await model.bulkWrite(
+    docs.map((doc) => ({
+      updateOne: {
+        filter: { broadstreet_id: doc.broadstreet_id },
+        update: {
+          $set: { ...doc, deleted_remotely: false, synced_at: syncedAt },
+          $unset: { deleted_remotely_at: 1 },
+        },
+        upsert: true,
+      },
+    }))
+  );
+}
+
+/**
+ * Soft-mark documents within a fetched scope that Broadstreet no longer returns.
+ * Only call with a scope whose API fetch succeeded, otherwise live records would be marked.
+ */
+async function markRemoteDeletions(
+  model: Model<any>,
+  scope: Record<string, unknown>,
+  seenBroadstreetIds: Array<number | undefined>
+): Promise<number> {
+  const seen = seenBroadstreetIds.filter((id): id is number => typeof id === 'number');
+  const result = await model.updateMany(
+    { ...scope, broadstreet_id: { $nin: seen }, deleted_remotely: { $ne: true } },
+    { $set: { deleted_remotely: true, deleted_remotely_at: new Date() } }
+  );
+  return result.modifiedCount || 0;
+}
+
+// Only entities still present in Broadstreet are used to drive dependent fetches
+const NOT_DELETED_REMOTELY = { deleted_remotely: { $ne: true } };
+
+export async function syncNetworks(options: DownloadSyncOptions = {}): Promise<SyncResult> {
   const syncLog = new SyncLog({
     networkId: -1, // Special ID for global sync operations
-    syncType: 'full',
+    syncType: resolveSyncMode(options),
     entity: 'networks',
     status: 'pending',
     startTime: new Date(),
@@ -32,7 +111,8 @@ export async function syncNetworks(): Promise<{ success: boolean; count: number;
     await connectDB();
     await syncLog.save();
 
-    const networks = await broadstreetAPI.getNetworks();
+    const networks = await resolveClient(options).getNetworks();
+    const scope = resolveConnectionScope(options);
 
     // Upsert networks for idempotent sync
     await cleanupLegacyIndexes(Network);
@@ -49,20 +129,17 @@ export async function syncNetworks(): Promise<{ success: boolean; count: number;
         path: mapped.path,
         advertiser_count: mapped.advertiser_count,
         zone_count: mapped.zone_count,
+        ...scope,
       };
     });
 
-    if (networkDocs.length) {
-      await Network.bulkWrite(
-        networkDocs.map((doc) => ({
-          updateOne: {
-            filter: { broadstreet_id: doc.broadstreet_id },
-            update: { $set: doc },
-            upsert: true,
-          },
-        }))
-      );
-    }
+    await upsertByBroadstreetId(Network, networkDocs);
+
+    // The network list covers the whole account, so anything not returned was removed in Broadstreet.
+    // An empty list almost always means a token/access problem, so never treat it as deletions.
+    const removed = networkDocs.length > 0
+      ? await markRemoteDeletions(Network, scope, networkDocs.map((doc) => doc.broadstreet_id))
+      : 0;
 
     // Update sync log
     syncLog.status = 'success';
@@ -70,7 +147,7 @@ export async function syncNetworks(): Promise<{ success: boolean; count: number;
     syncLog.endTime = new Date();
     await syncLog.save();
 
-    return { success: true, count: networks.length };
+    return { success: true, count: networks.length, removed };
   } catch (error) {
     syncLog.status = 'error';
     syncLog.error = error instanceof Error ? error.message : 'Unknown error';
@@ -81,10 +158,10 @@ export async function syncNetworks(): Promise<{ success: boolean; count: number;
   }
 }
 
-export async function syncAdvertisers(): Promise<{ success: boolean; count: number; error?: string }> {
+export async function syncAdvertisers(options: DownloadSyncOptions = {}): Promise<SyncResult> {
   const syncLog = new SyncLog({
     networkId: -1, // Special ID for global sync operations
-    syncType: 'full',
+    syncType: resolveSyncMode(options),
     entity: 'advertisers',
     status: 'pending',
     startTime: new Date(),
@@ -94,11 +171,13 @@ export async function syncAdvertisers(): Promise<{ success: boolean; count: numb
     await connectDB();
     await syncLog.save();
 
-    // Get all networks first
-    const networks = await Network.find({});
+    // Get the connection's networks first
+    const scope = resolveConnectionScope(options);
+    const networks = await Network.find({ ...NOT_DELETED_REMOTELY, ...scope });
 
     // Collect all unique advertisers
     const allAdvertisers = new Map<number, any>();
+    const fetchedNetworkIds: number[] = [];
 
     for (const network of networks) {
       try {
@@ -107,7 +186,8 @@ export async function syncAdvertisers(): Promise<{ success: boolean; count: numb
           continue;
         }
 
-        const advertisers = await broadstreetAPI.getAdvertisers(network.broadstreet_id);
+        const advertisers = await resolveClient(options).getAdvertisers(network.broadstreet_id);
+        fetchedNetworkIds.push(network.broadstreet_id);
 
         advertisers.forEach(advertiser => {
           const mapped = mapApiIds(advertiser as any, { stripId: true });
@@ -122,6 +202,7 @@ export async function syncAdvertisers(): Promise<{ success: boolean; count: numb
               admins: mapped.admins,
               // Persist network context so we can derive campaign network_id when needed
               network_id: network.broadstreet_id,
+              ...scope,
             });
           }
         });
@@ -135,25 +216,23 @@ export async function syncAdvertisers(): Promise<{ success: boolean; count: numb
     const advertiserDocs = Array.from(allAdvertisers.values());
     if (advertiserDocs.length > 0) {
       await cleanupLegacyIndexes(Advertiser);
-
-      await Advertiser.bulkWrite(
-        advertiserDocs.map((doc) => ({
-          updateOne: {
-            filter: { broadstreet_id: doc.broadstreet_id },
-            update: { $set: doc },
-            upsert: true,
-          },
-        }))
-      );
+      await upsertByBroadstreetId(Advertiser, advertiserDocs);
     }
 
+    // Only networks that answered are authoritative for deletions
+    const removed = await markRemoteDeletions(
+      Advertiser,
+      { network_id: { $in: fetchedNetworkIds } },
+      advertiserDocs.map((doc) => doc.broadstreet_id)
+    );
+
     // Update sync log
     syncLog.status = 'success';
     syncLog.recordCount = advertiserDocs.length;
     syncLog.endTime = new Date();
     await syncLog.save();
 
-    return { success: true, count: advertiserDocs.length };
+    return { success: true, count: advertiserDocs.length, removed };
   } catch (error) {
     syncLog.status = 'error';
     syncLog.error = error instanceof Error ? error.message : 'Unknown error';
@@ -164,10 +243,10 @@ export async function syncAdvertisers(): Promise<{ success: boolean; count: numb
   }
 }
 
-export async function syncZones(): Promise<{ success: boolean; count: number; error?: string }> {
+export async function syncZones(options: DownloadSyncOptions = {}): Promise<SyncResult> {
   const syncLog = new SyncLog({
     networkId: -1, // Special ID for global sync operations
-    syncType: 'full',
+    syncType: resolveSyncMode(options),
     entity: 'zones',
     status: 'pending',
     startTime: new Date(),
@@ -177,11 +256,13 @@ export async function syncZones(): Promise<{ success: boolean; count: number; er
     await connectDB();
     await syncLog.save();
 
-    // Get all networks first
-    const networks = await Network.find({});
+    // Get the connection's networks first
+    const scope = resolveConnectionScope(options);
+    const networks = await Network.find({ ...NOT_DELETED_REMOTELY, ...scope });
 
     // Collect all unique zones
     const allZones = new Map<number, any>();
+    const fetchedNetworkIds: number[] = [];
 
     for (const network of networks) {
       try {
@@ -191,7 +272,8 @@ export async function syncZones(): Promise<{ success: boolean; count: number; er
           continue;
         }
 
-        const zones = await broadstreetAPI.getZones(network.broadstreet_id);
+        const zones = await resolveClient(options).getZones(network.broadstreet_id);
+        fetchedNetworkIds.push(network.broadstreet_id);
 
         zones.forEach(zone => {
           const mapped = mapApiIds(zone as any, { stripId: true });
@@ -209,6 +291,7 @@ export async function syncZones(): Promise<{ success: boolean; count: number; er
               category: parsed.category,
               block: parsed.block,
               is_home: parsed.is_home,
+              ...scope,
             });
           }
         });
@@ -222,25 +305,22 @@ export async function syncZones(): Promise<{ success: boolean; count: number; er
     const zoneDocs = Array.from(allZones.values());
     if (zoneDocs.length > 0) {
       await cleanupLegacyIndexes(Zone);
-
-      await Zone.bulkWrite(
-        zoneDocs.map((doc) => ({
-          updateOne: {
-            filter: { broadstreet_id: doc.broadstreet_id },
-            update: { $set: doc },
-            upsert: true,
-          },
-        }))
-      );
+      await upsertByBroadstreetId(Zone, zoneDocs);
     }
 
+    const removed = await markRemoteDeletions(
+      Zone,
+      { network_id: { $in: fetchedNetworkIds } },
+      zoneDocs.map((doc) => doc.broadstreet_id)
+    );
+
     // Update sync log
     syncLog.status = 'success';
     syncLog.recordCount = zoneDocs.length;
     syncLog.endTime = new Date();
     await syncLog.save();
 
-    return { success: true, count: zoneDocs.length };
+    return { success: true, count: zoneDocs.length, removed };
   } catch (error) {
     syncLog.status = 'error';
     syncLog.error = error instanceof Error ? error.message : 'Unknown error';
@@ -251,10 +331,90 @@ export async function syncZones(): Promise<{ success: boolean; count: number; er
   }
 }
 
-export async function syncCampaigns(): Promise<{ success: boolean; count: number; error?: string }> {
+/**
+ * Map a Broadstreet campaign payload to the shape stored in the Campaign collection.
+ * Normalizes weight/display_type while preserving the raw values for write-backs.
+ */
+export function mapCampaignForStorage(campaign: BroadstreetCampaign, fallbackAdvertiserId?: number): Record<string, any> {
+  const mapped = mapApiIds(campaign as any, { stripId: true });
+  // Preserve the payload as Broadstreet sent it (modelled fields plus the unmodelled ones) for round-trip safety
+  const { raw: unmodelled, ...fields }: Partial<BroadstreetCampaign> = campaign;
+  delete fields.broadstreet_id;
+  const raw = { ...fields, ...unmodelled };
+
+  // Normalize weight: Broadstreet may return strings like "default" or "remnant"
+  const weightRaw = (mapped as unknown as Record<string, unknown>).weight as string | number | undefined;
+  let weight: number | undefined;
+  if (typeof weightRaw === 'number') {
+    weight = weightRaw;
+  } else if (typeof weightRaw === 'string') {
+    const lower = weightRaw.toLowerCase();
+    // map known strings to sane numeric defaults
+    if (lower === 'default') weight = 50;
+    else if (lower === 'remnant') weight = 10;
+    else {
+      const parsed = Number(weightRaw);
+      weight = Number.isFinite(parsed) ? parsed : undefined;
+    }
+  }
+
+  // Dates: keep raw and normalized (optional)
+  const startDateRaw = (mapped as unknown as Record<string, unknown>).start_date as string | undefined;
+  const endDateRaw = (mapped as unknown as Record<string, unknown>).end_date as string | undefined;
+
+  // display_type: keep raw and normalized (optional)
+  const displayTypeRaw = (mapped as unknown as Record<string, unknown>).display_type as string | undefined;
+  const allowedDisplay = ['no_repeat', 'allow_repeat_campaign', 'allow_repeat_advertisement', 'force_repeat_campaign'] as const;
+  const displayType = allowedDisplay.includes(displayTypeRaw as typeof allowedDisplay[number]) ? displayTypeRaw : undefined;
+
+  return {
+    broadstreet_id: mapped.broadstreet_id,
+    name: mapped.name,
+    advertiser_id: mapped.advertiser_id ?? fallbackAdvertiserId,
+    start_date: startDateRaw,
+    end_date: endDateRaw,
+    max_impression_count: mapped.max_impression_count,
+    display_type: displayType,
+    active: mapped.active,
+    weight,
+    path: mapped.path,
+    archived: mapped.archived,
+    pacing_type: mapped.pacing_type,
+    impression_max_type: mapped.impression_max_type,
+    paused: mapped.paused,
+    notes: mapped.notes,
+    // raw preservation
+    weight_raw: typeof weightRaw === 'string' ? weightRaw : undefined,
+    display_type_raw: displayTypeRaw,
+    start_date_raw: startDateRaw,
+    end_date_raw: endDateRaw,
+    raw,
+  };
+}
+
+/**
+ * Advertiser ids of a network by name. Advertisements only carry their advertiser's name;
+ * names used by more than one advertiser in the network are left out, since they are ambiguous.
+ */
+export async function getAdvertiserIdsByName(networkId: number): Promise<Map<string, number>> {
+  const advertisers = await Advertiser.find({ network_id: networkId, ...NOT_DELETED_REMOTELY })
+    .select('broadstreet_id name')
+    .lean<Array<{ broadstreet_id: number; name: string }>>();
+
+  const ids = new Map<string, number>();
+  const ambiguous = new Set<string>();
+  for (const advertiser of advertisers) {
+    if (ids.has(advertiser.name)) ambiguous.add(advertiser.name);
+    ids.set(advertiser.name, advertiser.broadstreet_id);
+  }
+  ambiguous.forEach(name => ids.delete(name));
+  return ids;
+}
+
+export async function syncCampaigns(options: DownloadSyncOptions = {}): Promise<SyncResult> {
   const syncLog = new SyncLog({
     networkId: -1, // Special ID for global sync operations
-    syncType: 'full',
+    syncType: resolveSyncMode(options),
     entity: 'campaigns',
     status: 'pending',
     startTime: new Date(),
@@ -264,11 +424,13 @@ export async function syncCampaigns(): Promise<{ success: boolean; count: number
     await connectDB();
     await syncLog.save();
 
-    // Get all advertisers first
-    const advertisers = await Advertiser.find({});
+    // Get the connection's advertisers first
+    const scope = resolveConnectionScope(options);
+    const advertisers = await Advertiser.find({ ...NOT_DELETED_REMOTELY, ...scope });
 
     // Collect all unique campaigns
     const allCampaigns = new Map<number, any>();
+    const fetchedAdvertiserIds: number[] = [];
 
     for (const advertiser of advertisers) {
       try {
@@ -276,63 +438,19 @@ export async function syncCampaigns(): Promise<{ success: boolean; count: number
           continue;
         }
 
-        const campaigns = await broadstreetAPI.getCampaignsByAdvertiser(advertiser.broadstreet_id);
+        const campaigns = await resolveClient(options).getCampaignsByAdvertiser(advertiser.broadstreet_id);
+        fetchedAdvertiserIds.push(advertiser.broadstreet_id);
 
         campaigns.forEach(campaign => {
-          const mapped = mapApiIds(campaign as any, { stripId: true });
+          // Campaigns carry no network of their own; they belong to their advertiser's
+          const doc: Record<string, any> = {
+            ...mapCampaignForStorage(campaign, advertiser.broadstreet_id),
+            network_id: advertiser.network_id,
+            ...scope,
+          };
           // Only add if we haven't seen this campaign ID before
-          if (mapped.broadstreet_id && !allCampaigns.has(mapped.broadstreet_id)) {
-            // Preserve raw payload for round-trip safety
-            const raw = campaign;
-
-            // Normalize weight: Broadstreet may return strings like "default" or "remnant"
-            const weightRaw = (mapped as unknown as Record<string, unknown>).weight as string | number | undefined;
-            let weight: number | undefined;
-            if (typeof weightRaw === 'number') {
-              weight = weightRaw;
-            } else if (typeof weightRaw === 'string') {
-              const lower = weightRaw.toLowerCase();
-              // map known strings to sane numeric defaults
-              if (lower === 'default') weight = 50;
-              else if (lower === 'remnant') weight = 10;
-              else {
-                const parsed = Number(weightRaw);
-                weight = Number.isFinite(parsed) ? parsed : undefined;
-              }
-            }
-
-            // Dates: keep raw and normalized (optional)
-            const startDateRaw = (mapped as unknown as Record<string, unknown>).start_date as string | undefined;
-            const endDateRaw = (mapped as unknown as Record<string, unknown>).end_date as string | undefined;
-
-            // display_type: keep raw and normalized (optional)
-            const displayTypeRaw = (mapped as unknown as Record<string, unknown>).display_type as string | undefined;
-            const allowedDisplay = ['no_repeat', 'allow_repeat_campaign', 'allow_repeat_advertisement', 'force_repeat_campaign'] as const;
-            const displayType = allowedDisplay.includes(displayTypeRaw as typeof allowedDisplay[number]) ? displayTypeRaw : undefined;
-
-            allCampaigns.set(mapped.broadstreet_id, {
-              broadstreet_id: mapped.broadstreet_id,
-              name: mapped.name,
-              advertiser_id: mapped.advertiser_id ?? advertiser.broadstreet_id,
-              start_date: startDateRaw,
-              end_date: endDateRaw,
-              max_impression_count: mapped.max_impression_count,
-              display_type: displayType,
-              active: mapped.active,
-              weight,
-              path: mapped.path,
-              archived: mapped.archived,
-              pacing_type: mapped.pacing_type,
-              impression_max_type: mapped.impression_max_type,
-              paused: mapped.paused,
-              notes: mapped.notes,
-              // raw preservation
-              weight_raw: typeof weightRaw === 'string' ? weightRaw : undefined,
-              display_type_raw: displayTypeRaw,
-              start_date_raw: startDateRaw,
-              end_date_raw: endDateRaw,
-              raw,
-            });
+          if (doc.broadstreet_id && !allCampaigns.has(doc.broadstreet_id)) {
+            allCampaigns.set(doc.broadstreet_id, doc);
           }
         });
       } catch (error: any) {
@@ -345,25 +463,22 @@ export async function syncCampaigns(): Promise<{ success: boolean; count: number
     const campaignDocs = Array.from(allCampaigns.values());
     if (campaignDocs.length > 0) {
       await cleanupLegacyIndexes(Campaign);
-
-      await Campaign.bulkWrite(
-        campaignDocs.map((doc) => ({
-          updateOne: {
-            filter: { broadstreet_id: doc.broadstreet_id },
-            update: { $set: doc },
-            upsert: true,
-          },
-        }))
-      );
+      await upsertByBroadstreetId(Campaign, campaignDocs);
     }
 
+    const removed = await markRemoteDeletions(
+      Campaign,
+      { advertiser_id: { $in: fetchedAdvertiserIds } },
+      campaignDocs.map((doc) => doc.broadstreet_id)
+    );
+
     // Update sync log
     syncLog.status = 'success';
     syncLog.recordCount = campaignDocs.length;
     syncLog.endTime = new Date();
     await syncLog.save();
 
-    return { success: true, count: campaignDocs.length };
+    return { success: true, count: campaignDocs.length, removed };
   } catch (error) {
     syncLog.status = 'error';
     syncLog.error = error instanceof Error ? error.message : 'Unknown error';
@@ -374,10 +489,10 @@ export async function syncCampaigns(): Promise<{ success: boolean; count: number
   }
 }
 
-export async function syncAdvertisements(): Promise<{ success: boolean; count: number; error?: string }> {
+export async function syncAdvertisements(options: DownloadSyncOptions = {}): Promise<SyncResult> {
   const syncLog = new SyncLog({
     networkId: -1, // Special ID for global sync operations
-    syncType: 'full',
+    syncType: resolveSyncMode(options),
     entity: 'advertisements',
     status: 'pending',
     startTime: new Date(),
@@ -387,11 +502,13 @@ export async function syncAdvertisements(): Promise<{ success: boolean; count: n
     await connectDB();
     await syncLog.save();
 
-    // Get all networks first
-    const networks = await Network.find({});
+    // Get the connection's networks first
+    const scope = resolveConnectionScope(options);
+    const networks = await Network.find({ ...NOT_DELETED_REMOTELY, ...scope });
 
     // Collect all unique advertisements
     const allAdvertisements = new Map<number, any>();
+    const fetchedNetworkIds: number[] = [];
 
     for (const network of networks) {
       try {
@@ -399,7 +516,9 @@ export async function syncAdvertisements(): Promise<{ success: boolean; count: n
           continue;
         }
 
-        const advertisements = await broadstreetAPI.getAdvertisements({ networkId: network.broadstreet_id });
+        const advertisements = await resolveClient(options).getAdvertisements({ networkId: network.broadstreet_id });
+        fetchedNetworkIds.push(network.broadstreet_id);
+        const advertiserIds = await getAdvertiserIdsByName(network.broadstreet_id);
 
         advertisements.forEach(advertisement => {
           const mapped = mapApiIds(advertisement as any, { stripId: true });
@@ -414,6 +533,10 @@ export async function syncAdvertisements(): Promise<{ success: boolean; count: n
               active: mapped.active,
               active_placement: mapped.active_placement,
               preview_url: mapped.preview_url,
+              // Persist network context so remote deletions can be scoped per network
+              network_id: network.broadstreet_id,
+              advertiser_id: advertiserIds.get(mapped.advertiser) ?? null,
+              ...scope,
             });
           }
         });
@@ -427,25 +550,22 @@ export async function syncAdvertisements(): Promise<{ success: boolean; count: n
     const advertisementDocs = Array.from(allAdvertisements.values());
     if (advertisementDocs.length > 0) {
       await cleanupLegacyIndexes(Advertisement);
-
-      await Advertisement.bulkWrite(
-        advertisementDocs.map((doc) => ({
-          updateOne: {
-            filter: { broadstreet_id: doc.broadstreet_id },
-            update: { $set: doc },
-            upsert: true,
-          },
-        }))
-      );
+      await upsertByBroadstreetId(Advertisement, advertisementDocs);
     }
 
+    const removed = await markRemoteDeletions(
+      Advertisement,
+      { network_id: { $in: fetchedNetworkIds } },
+      advertisementDocs.map((doc) => doc.broadstreet_id)
+    );
+
     // Update sync log
     syncLog.status = 'success';
     syncLog.recordCount = advertisementDocs.length;
     syncLog.endTime = new Date();
     await syncLog.save();
 
-    return { success: true, count: advertisementDocs.length };
+    return { success: true, count: advertisementDocs.length, removed };
   } catch (error) {
     syncLog.status = 'error';
     syncLog.error = error instanceof Error ? error.message : 'Unknown error';
@@ -456,18 +576,14 @@ export async function syncAdvertisements(): Promise<{ success: boolean; count: n
   }
 }
 
-interface SyncResult {
-  success: boolean;
-  count: number;
-  error?: string;
-}
-
 export async function syncPlacements(
-  onProgress?: (currentCount: number, totalCampaigns: number, campaignName: string) => void
-): Promise<{ success: boolean; count: number; error?: string }> {
+  onProgress?: (currentCount: number, totalCampaigns: number, campaignName: string) => void,
+  options: DownloadSyncOptions = {}
+): Promise<SyncResult> {
+  const mode = resolveSyncMode(options);
   const syncLog = new SyncLog({
     networkId: -1, // Special ID for global sync operations
-    syncType: 'full',
+    syncType: mode,
     entity: 'placements',
     status: 'pending',
     startTime: new Date(),
@@ -477,11 +593,15 @@ export async function syncPlacements(
     await connectDB();
     await syncLog.save();
 
-    // Clear all placements from campaigns first
-    await Campaign.updateMany({}, { $unset: { placements: 1 } });
+    // Full reload clears all embedded placements first. Incremental keeps them visible
+    // while syncing and replaces each campaign's array once its placements are fetched.
+    const scope = resolveConnectionScope(options);
+    if (mode === 'full') {
+      await Campaign.updateMany(scope, { $unset: { placements: 1 } });
+    }
 
-    // Get all campaigns and fetch their placements
-    const campaigns = await Campaign.find({});
+    // Get the connection's campaigns and fetch their placements
+    const campaigns = await Campaign.find({ ...NOT_DELETED_REMOTELY, ...scope });
     let totalPlacements = 0;
     const totalCampaigns = campaigns.length;
 
@@ -492,7 +612,7 @@ export async function syncPlacements(
         if (typeof campaign.broadstreet_id !== 'number') {
           continue;
         }
-        const apiPlacements = await broadstreetAPI.getPlacements(campaign.broadstreet_id);
+        const apiPlacements = await resolveClient(options).getPlacements(campaign.broadstreet_id);
 
         if (apiPlacements.length > 0) {
           // Update the campaign with placements using MongoDB _id
@@ -550,7 +670,7 @@ export async function syncPlacements(
     await syncLog.save();
 
     // Normalize schema: ensure placements array exists on all campaigns
-    await Campaign.updateMany({ placements: { $exists: false } }, { $set: { placements: [] } });
+    await Campaign.updateMany({ ...scope, placements: { $exists: false } }, { $set: { placements: [] } });
     return { success: true, count: totalPlacements };
   } catch (error) {
     syncLog.status = 'error';
@@ -565,12 +685,19 @@ export async function syncPlacements(
 /**
  * Clean up all Broadstreet-sourced collections AND local-only collections before fresh sync
  * Preserves only themes (which don't have direct entity references)
+ * Only used by the explicit 'full' download mode - this destroys unsynced local drafts
+ * With a stored connection, only that connection's data and the drafts in its networks are
+ * removed; other connections are left alone.
  */
-export async function cleanupBroadstreetCollections(): Promise<{ success: boolean; count: number; error?: string }> {
+export async function cleanupBroadstreetCollections(options: DownloadSyncOptions = {}): Promise<SyncResult> {
   try {
     await connectDB();
 
-
+    const scope = resolveConnectionScope(options);
+    const scoped = Object.keys(scope).length > 0;
+    const localScope = scoped
+      ? { network_id: { $in: await Network.distinct('broadstreet_id', scope) } }
+      : {};
 
     // Delete all Broadstreet-sourced collections (type #1 data) AND local-only collections (type #2 data)
     // Local collections might have references to old Broadstreet entities, so clean slate is needed
@@ -580,19 +707,20 @@ export async function cleanupBroadstreetCollections(): Promise<{ success: boolea
       localNetworkDel, localAdvertiserDel, localZoneDel, localCampaignDel, localAdvertisementDel
     ] = await Promise.all([
       // Broadstreet-sourced collections
-      Network.deleteMany({}), // All networks come from Broadstreet
-      Advertiser.deleteMany({}), // All advertisers come from Broadstreet
-      Zone.deleteMany({}), // All zones come from Broadstreet - themes will be validated after sync
-      Campaign.deleteMany({}), // All campaigns come from Broadstreet
-      Advertisement.deleteMany({}), // All advertisements come from Broadstreet
-      Placement.deleteMany({}), // All placements (both local and synced) - will be recreated during sync
+      Network.deleteMany(scope), // All networks come from Broadstreet
+      Advertiser.deleteMany(scope), // All advertisers come from Broadstreet
+      Zone.deleteMany(scope), // All zones come from Broadstreet - themes will be validated after sync
+      Campaign.deleteMany(scope), // All campaigns come from Broadstreet
+      Advertisement.deleteMany(scope), // All advertisements come from Broadstreet
+      Placement.deleteMany(localScope), // All placements (both local and synced) - will be recreated during sync
 
       // Local-only collections (might have stale references to old Broadstreet entities)
-      LocalNetwork.deleteMany({}), // Delete all local networks
-      LocalAdvertiser.deleteMany({}), // Delete all local advertisers
-      LocalZone.deleteMany({}), // Delete all local zones
-      LocalCampaign.deleteMany({}), // Delete all local campaigns
-      LocalAdvertisement.deleteMany({}), // Delete all local advertisements
+      // Local networks belong to no connection, so they are only cleared without one
+      scoped ? Promise.resolve({ deletedCount: 0 }) : LocalNetwork.deleteMany({}),
+      LocalAdvertiser.deleteMany(localScope), // Delete local advertisers
+      LocalZone.deleteMany(localScope), // Delete local zones
+      LocalCampaign.deleteMany(localScope), // Delete local campaigns
+      LocalAdvertisement.deleteMany(localScope), // Delete local advertisements
     ]);
 
     // Note: We preserve only Themes (type #3) as they don't have direct entity references
@@ -619,9 +747,11 @@ export async function cleanupBroadstreetCollections(): Promise<{ success: boolea
   }
 }
 
-export async function syncAll(): Promise<{ success: boolean; results: Record<string, SyncResult>; error?: string }> {
+export async function syncAll(
+  options: DownloadSyncOptions = {}
+): Promise<{ success: boolean; mode: DownloadSyncMode; results: Record<string, SyncResult>; error?: string }> {
+  const mode = resolveSyncMode(options);
   const results: Record<string, SyncResult> = {
-    cleanup: { success: false, count: 0 },
     networks: { success: false, count: 0 },
     advertisers: { success: false, count: 0 },
     zones: { success: false, count: 0 },
@@ -631,28 +761,31 @@ export async function syncAll(): Promise<{ success: boolean; results: Record<str
   };
 
   try {
-    // Step 1: Clean up all Broadstreet-sourced and local-only collections for fresh data
-    results.cleanup = await cleanupBroadstreetCollections();
+    // Step 1 (full mode only): clean up all Broadstreet-sourced and local-only collections
+    if (mode === 'full') {
+      results.cleanup = await cleanupBroadstreetCollections(options);
 
-    if (!results.cleanup.success) {
-      console.error('[syncAll] Cleanup failed:', results.cleanup.error);
-      return { success: false, results, error: results.cleanup.error };
+      if (!results.cleanup.success) {
+        console.error('[syncAll] Cleanup failed:', results.cleanup.error);
+        return { success: false, mode, results, error: results.cleanup.error };
+      }
     }
 
-    // Step 2: Sync in order of dependencies with fresh data
-    results.networks = await syncNetworks();
-    results.advertisers = await syncAdvertisers();
-    results.zones = await syncZones();
-    results.campaigns = await syncCampaigns();
-    results.advertisements = await syncAdvertisements();
-    results.placements = await syncPlacements();
+    // Step 2: Sync in order of dependencies
+    const stepOptions: DownloadSyncOptions = { mode, connection: options.connection };
+    results.networks = await syncNetworks(stepOptions);
+    results.advertisers = await syncAdvertisers(stepOptions);
+    results.zones = await syncZones(stepOptions);
+    results.campaigns = await syncCampaigns(stepOptions);
+    results.advertisements = await syncAdvertisements(stepOptions);
+    results.placements = await syncPlacements(undefined, stepOptions);
 
     const allSuccessful = Object.values(results).every((result: SyncResult) => result.success);
 
-    return { success: allSuccessful, results };
+    return { success: allSuccessful, mode, results };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return { success: false, results, error: message };
+    return { success: false, mode, results, error: message };
   }
 }
 
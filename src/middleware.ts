@@ -14,8 +14,11 @@ const isProtectedRoute = createRouteMatcher([
   '/api(.*)',
 ]);
 
+// Called by a scheduler; the route checks CRON_SECRET itself
+const isCronRoute = createRouteMatcher(['/api/cron(.*)']);
+
 export default clerkMiddleware(async (auth, req) => {
-  if (isProtectedRoute(req)) {
+  if (isProtectedRoute(req) && !isCronRoute(req)) {
     await auth.protect();
   }
 });
@@ -20,11 +20,6 @@ import { FilterState, FilterActions } from './types';
 import { NetworkEntity } from '@/lib/types/database-models';
 import { EntitySelectionKey } from '@/lib/utils/entity-helpers';
 
-// Default network configuration - FASH Medien Verlag GmbH - SCHWULISSIMO
-// This is the primary network that should be selected by default for smooth UX
-const DEFAULT_NETWORK_ID = 9396;
-const DEFAULT_NETWORK_NAME = 'FASH Medien Verlag GmbH - SCHWULISSIMO';
-
 // Initial state with proper typing and comprehensive coverage
 // Variable names follow docs/variable-origins.md registry
 const initialState = {
@@ -287,18 +282,20 @@ export const useFilterStore = create<FilterState & FilterActions>()(
 
       /**
        * Set default network if none is selected
+       * A persisted selection from another API connection counts as none. The default is the
+       * active connection's default network, else the first network.
        */
-      setDefaultNetworkIfNone: (networks) => set((state) => {
+      setDefaultNetworkIfNone: (networks, defaultNetworkId) => set((state) => {
+        const selectedId = state.selectedNetwork?.broadstreet_id;
+        const hasSelection = selectedId !== undefined && networks.some(n => n.broadstreet_id === selectedId);
+
         // Only set default if no network is currently selected
-        if (!state.selectedNetwork && networks.length > 0) {
-          // Try to find the default network (FASH Medien Verlag GmbH - SCHWULISSIMO)
-          const defaultNetwork = networks.find(n => n.broadstreet_id === DEFAULT_NETWORK_ID);
-
-          if (defaultNetwork) {
-            state.selectedNetwork = defaultNetwork;
-            state.lastFilterUpdate = new Date();
-            state.filterSource = 'user';
-          }
+        if (!hasSelection && networks.length > 0) {
+          const defaultNetwork = networks.find(n => n.broadstreet_id === defaultNetworkId) || networks[0];
+
+          state.selectedNetwork = defaultNetwork;
+          state.lastFilterUpdate = new Date();
+          state.filterSource = 'user';
         }
       }),
 
@@ -220,7 +220,7 @@ export interface FilterActions {
   getFiltersAsParams: () => Record<string, string>;
 
   // Default network initialization
-  setDefaultNetworkIfNone: (networks: NetworkEntity[]) => void;
+  setDefaultNetworkIfNone: (networks: NetworkEntity[], defaultNetworkId?: number | null) => void;
 }
 
 // =============================================================================
@@ -1,6 +1,7 @@
+import { config } from 'dotenv';
+
 export default async function globalSetup() {
-  // No-op: DB connections are created lazily per test imports
+  // Workers inherit these: MONGODB_URI for the DB helpers, CLERK_SECRET_KEY for adminRequest.
+  // DB connections are still created lazily per test imports.
+  config({ path: '.env.local', quiet: true });
 }
-
-
-
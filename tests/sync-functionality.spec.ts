@@ -1,5 +1,12 @@
-import { test, expect, request } from '@playwright/test';
+import { test, expect, request, type APIRequestContext } from '@playwright/test';
 import { getCounts } from './utils/getCounts';
+import { newAdminRequestContext } from './utils/adminRequest';
+import type { ICampaign } from '@/lib/models/campaign';
+import type { IAdvertiser } from '@/lib/models/advertiser';
+import type { ILocalAdvertiser } from '@/lib/models/local-advertiser';
+import type { ILocalAdvertisement } from '@/lib/models/local-advertisement';
+import type { SimulatorRequestLogEntry, SimulatorStatus } from '@/lib/broadstreet-simulator';
+import { SIMULATOR_NETWORK_ID } from '@/lib/broadstreet-simulator';
 
 function buildUrl(path: string, baseURL?: string | null): string {
   if (baseURL) {
@@ -11,15 +18,17 @@ function buildUrl(path: string, baseURL?: string | null): string {
 }
 
 test.describe('Sync Functionality Validation', () => {
-  test('POST /api/sync/all returns success with entity counts', async ({ request, baseURL }) => {
+  test('POST /api/sync/all in full mode returns success with entity counts', async ({ request, baseURL }) => {
     const res = await request.post(buildUrl('/api/sync/all', baseURL), {
       headers: { 'Content-Type': 'application/json' },
+      data: { mode: 'full' },
     });
     expect(res.ok()).toBeTruthy();
 
     const bodyText = await res.text();
     const body = bodyText ? JSON.parse(bodyText) : {};
     expect(body.success).toBe(true);
+    expect(body.mode).toBe('full');
     expect(typeof body.results).toBe('object');
 
     const counts = getCounts(body);
@@ -70,7 +79,7 @@ test.describe('Sync Functionality Validation', () => {
     const { default: Zone } = await import('@/lib/models/zone');
 
     await connectDB();
-    const campaigns: any[] = await (Campaign as any).find({}).lean();
+    const campaigns = await Campaign.find({}).lean<ICampaign[]>();
 
     // Ensure placements field exists (empty array allowed)
     for (const c of campaigns) {
@@ -82,15 +91,14 @@ test.describe('Sync Functionality Validation', () => {
     expect(totalEmbedded).toBeGreaterThanOrEqual(0);
 
     // Validate a sample of placements for field correctness and referential integrity
-    const sample = campaigns.find(c => Array.isArray(c.placements) && c.placements.length > 0);
-    if (sample) {
-      const p = sample.placements[0];
+    const p = campaigns.find(c => Array.isArray(c.placements) && c.placements.length > 0)?.placements?.[0];
+    if (p) {
       expect(typeof p.advertisement_id).toBe('number');
       expect(typeof p.zone_id).toBe('number');
       expect(Array.isArray(p.restrictions || [])).toBeTruthy();
 
-      const ad = await (Advertisement as any).findOne({ broadstreet_id: p.advertisement_id }).lean();
-      const zone = await (Zone as any).findOne({ broadstreet_id: p.zone_id }).lean();
+      const ad = await Advertisement.findOne({ broadstreet_id: p.advertisement_id }).lean();
+      const zone = await Zone.findOne({ broadstreet_id: p.zone_id }).lean();
       expect(ad).toBeTruthy();
       expect(zone).toBeTruthy();
     }
@@ -99,7 +107,9 @@ test.describe('Sync Functionality Validation', () => {
   test('API response shape includes results.{entity}.count fields', async ({ request, baseURL }) => {
     const res = await request.post(buildUrl('/api/sync/all', baseURL));
     const body = JSON.parse(await res.text());
-    expect(body).toHaveProperty('results.cleanup.count');
+    // Incremental is the default and never runs the cleanup step
+    expect(body.mode).toBe('incremental');
+    expect(body).not.toHaveProperty('results.cleanup');
     expect(body).toHaveProperty('results.networks.count');
     expect(body).toHaveProperty('results.advertisers.count');
     expect(body).toHaveProperty('results.zones.count');
@@ -108,6 +118,28 @@ test.describe('Sync Functionality Validation', () => {
     expect(body).toHaveProperty('results.placements.count');
   });
 
+  test('Incremental sync preserves unsynced local drafts', async ({ request, baseURL }) => {
+    const { default: connectDB } = await import('@/lib/mongodb');
+    const { default: LocalAdvertiser } = await import('@/lib/models/local-advertiser');
+
+    await connectDB();
+    const draftName = `Incremental Sync Draft ${Date.now()}`;
+    const draft: ILocalAdvertiser = await LocalAdvertiser.create({ name: draftName, network_id: SIMULATOR_NETWORK_ID });
+
+    try {
+      const res = await request.post(buildUrl('/api/sync/all', baseURL), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+      expect(res.ok()).toBeTruthy();
+
+      const stillThere = await LocalAdvertiser.findById(draft._id).lean<ILocalAdvertiser>();
+      expect(stillThere).toBeTruthy();
+      expect(stillThere?.name).toBe(draftName);
+    } finally {
+      await LocalAdvertiser.deleteOne({ _id: draft._id });
+    }
+  });
+
   test('Error handling: non-POST request is rejected', async ({ request, baseURL }) => {
     const res = await request.get(buildUrl('/api/sync/all', baseURL));
     expect(res.status()).toBe(405);
@@ -115,3 +147,99 @@ test.describe('Sync Functionality Validation', () => {
 });
 
 
+
+test.describe('Advertisement push through the Broadstreet simulator', () => {
+  // Syncing and the simulator routes need a role; the default request fixture is signed out
+  let admin: APIRequestContext;
+
+  function isAdvertisementCreate(entry: SimulatorRequestLogEntry): boolean {
+    return entry.method === 'POST' && entry.path.includes('/advertisements');
+  }
+
+  async function simulatorRequests(): Promise<SimulatorRequestLogEntry[]> {
+    const res = await admin.get('/api/test-utils/broadstreet-simulator');
+    expect(res.ok()).toBeTruthy();
+    const body: { simulator: SimulatorStatus } = await res.json();
+    return body.simulator.requests;
+  }
+
+  test.beforeEach(async ({ baseURL }) => {
+    admin = await newAdminRequestContext(baseURL);
+
+    // Only runs under `pnpm test:simulator`; the route says so when the simulator is off
+    const res = await admin.post('/api/test-utils/broadstreet-simulator', {
+      data: { reset: true },
+    });
+    const body = await res.json().catch(() => ({}));
+    test.skip(body.simulator_enabled === false, 'Broadstreet simulator is not enabled');
+    expect(res.ok()).toBeTruthy();
+
+    const sync = await admin.post('/api/sync/all', {
+      headers: { 'Content-Type': 'application/json' },
+      data: { mode: 'full' },
+    });
+    expect(sync.ok()).toBeTruthy();
+  });
+
+  test.afterEach(async () => {
+    await admin.dispose();
+  });
+
+  async function createDraft(type: string): Promise<ILocalAdvertisement> {
+    const { default: connectDB } = await import('@/lib/mongodb');
+    const { default: Advertiser } = await import('@/lib/models/advertiser');
+    const { default: LocalAdvertisement } = await import('@/lib/models/local-advertisement');
+
+    await connectDB();
+    const advertiser = await Advertiser.findOne({ network_id: SIMULATOR_NETWORK_ID }).lean<IAdvertiser>();
+    expect(advertiser).toBeTruthy();
+
+    return LocalAdvertisement.create({
+      name: `Simulator Ad ${type} ${Date.now()}`,
+      network_id: SIMULATOR_NETWORK_ID,
+      type,
+      advertiser_id: advertiser?.broadstreet_id,
+      preview_url: 'https://placehold.co/300x250.png',
+      active: { url: 'https://example.com/landing' },
+    });
+  }
+
+  test('image drafts are created as static ads with a creative and destination', async () => {
+    const { default: LocalAdvertisement } = await import('@/lib/models/local-advertisement');
+    const draft = await createDraft('image');
+
+    try {
+      const res = await admin.post('/api/sync/local-all', {
+        headers: { 'Content-Type': 'application/json' },
+        data: { networkId: SIMULATOR_NETWORK_ID },
+      });
+      expect(res.ok()).toBeTruthy();
+
+      // The simulator answers 422 to anything but the documented create body
+      const creates = (await simulatorRequests()).filter(isAdvertisementCreate);
+      expect(creates.map(entry => entry.status)).toEqual([201]);
+    } finally {
+      await LocalAdvertisement.deleteOne({ _id: draft._id });
+    }
+  });
+
+  test('drafts of a type Broadstreet cannot create keep the reason and are not sent', async () => {
+    const { default: LocalAdvertisement } = await import('@/lib/models/local-advertisement');
+    const draft = await createDraft('video');
+
+    try {
+      await admin.post('/api/sync/local-all', {
+        headers: { 'Content-Type': 'application/json' },
+        data: { networkId: SIMULATOR_NETWORK_ID },
+      });
+
+      const stored = await LocalAdvertisement.findById(draft._id).lean<ILocalAdvertisement>();
+      expect(stored?.synced_with_api).toBe(false);
+      expect(stored?.sync_errors.join(' ')).toContain('cannot be created in Broadstreet');
+
+      expect((await simulatorRequests()).some(isAdvertisementCreate)).toBe(false);
+    } finally {
+      await LocalAdvertisement.deleteOne({ _id: draft._id });
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { request, type APIRequestContext } from '@playwright/test';
+
+// API routes sit behind Clerk, and the ones that change Broadstreet data or the simulator
+// need a role. This signs in a test user with the admin role through Clerk's Backend API
+// (development instances only) and sends its session token as a Bearer header.
+
+const CLERK_API_URL = 'https://api.clerk.com/v1';
+const ADMIN_EMAIL = process.env.E2E_ADMIN_EMAIL || 'e2e-admin+clerk_test@example.com';
+const TOKEN_LIFETIME_SECONDS = 600;
+
+interface ClerkUser {
+  id: string;
+  public_metadata?: Record<string, unknown>;
+}
+
+let sessionId: Promise<string> | null = null;
+
+async function clerkApi<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  const secretKey = process.env.CLERK_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('CLERK_SECRET_KEY is not set; add it to .env.local to run authenticated API tests');
+  }
+
+  const response = await fetch(`${CLERK_API_URL}${path}`, {
+    method: init.method || 'GET',
+    headers: { Authorization: `Bearer ${secretKey}`, 'Content-Type': 'application/json' },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  if (!response.ok) {
+    throw new Error(`Clerk ${init.method || 'GET'} ${path} failed with ${response.status}: ${await response.text()}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function ensureAdminUser(): Promise<ClerkUser> {
+  const [existing] = await clerkApi<ClerkUser[]>(`/users?email_address=${encodeURIComponent(ADMIN_EMAIL)}`);
+  if (!existing) {
+    return clerkApi<ClerkUser>('/users', {
+      method: 'POST',
+      body: { email_address: [ADMIN_EMAIL], skip_password_requirement: true, public_metadata: { role: 'admin' } },
+    });
+  }
+  if (existing.public_metadata?.role !== 'admin') {
+    return clerkApi<ClerkUser>(`/users/${existing.id}/metadata`, {
+      method: 'PATCH',
+      body: { public_metadata: { role: 'admin' } },
+    });
+  }
+  return existing;
+}
+
+async function createAdminSession(): Promise<string> {
+  const user = await ensureAdminUser();
+  const session = await clerkApi<{ id: string }>('/sessions', { method: 'POST', body: { user_id: user.id } });
+  return session.id;
+}
+
+/**
+ * A request context signed in as the admin test user (E2E_ADMIN_EMAIL). The session is
+ * created once per worker; each context gets a fresh token. Dispose it after the test.
+ */
+export async function newAdminRequestContext(baseURL?: string): Promise<APIRequestContext> {
+  sessionId ??= createAdminSession();
+  const { jwt } = await clerkApi<{ jwt: string }>(`/sessions/${await sessionId}/tokens`, {
+    method: 'POST',
+    body: { expires_in_seconds: TOKEN_LIFETIME_SECONDS },
+  });
+
+  return request.newContext({
+    baseURL: baseURL || undefined,
+    extraHTTPHeaders: { Authorization: `Bearer ${jwt}` },
+  });
+}